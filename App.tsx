@@ -6,37 +6,67 @@
 
 import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import ReactCrop, { type Crop, type PixelCrop } from 'react-image-crop';
-import { generateEditedImage, generateFilteredImage, generateAdjustedImage, generateUpscaledImage, generateRetouchedFace, generateRestoredImage, generateRemovedBackground, generateBackgroundImage, generateZoomedImage, analyzeImageForSuggestions, SuggestionAnalysis, generateColorGradedImage, generateSharpenedImage, generateCorrectedOrientation, generateGrainImage, generateRotatedImage, generateFaceSwap, generateDoubleExposure, generateStyleFromReference, type Face } from './services/geminiService.ts';
-import { saveImageToHistoryDB, getAllHistoryImagesDB, clearHistoryDB, removeImagesFromHistoryDB } from './services/sessionDb.ts';
+import { generateVariants, generateEditedImage, generateFilteredImage, generateAdjustedImage, generateUpscaledImage, generateRetouchedFace, generateRestoredImage, generateRemovedBackground, generateBackgroundImage, generateZoomedImage, analyzeImageForSuggestions, SuggestionAnalysis, generateColorGradedImage, generateCorrectedOrientation, generateFaceSwap, generateDoubleExposure, generateStyleFromReference, type Face, type AiImageResult } from './services/geminiService.ts';
+import { classifyError, getAiErrorKind, getErrorRemedy, type AiErrorKind } from './services/aiErrors.ts';
+import { saveImageToHistoryDB, getAllHistoryRecordsDB, clearHistoryDB, removeImagesFromHistoryDB } from './services/sessionDb.ts';
+import { renderPrompt, type PromptInput, type PromptRef, type RenderedPrompt } from './services/promptRegistry.ts';
+import { autoEnhancePrompt, whitePointPrompt, blackPointPrompt, grayPointPrompt, type SliderAdjustments } from './services/prompts.ts';
+import { applyPixelAdjustments, applyChannelTablesToImage, applyColorWheelsToImage, applyLutToImage, fitLutFromImages, applyVignetteToImage, applyGrainToImage, applyUnsharpMaskToImage, applyHslToImage, applyBlackAndWhiteToImage, applyLocalContrastToImage, applyNoiseReductionToImage, applyPerspectiveToImage, applyLensCorrectionToImage, applySplitToningToImage, computeImageHistogram, computeClippingOverlay, createPixelSampler, createPreviewSource, renderPreview, type PixelSampler } from './services/pixelEngineClient.ts';
+import { eyedropperTables, type ChannelTables, type ColorWheels, type Histogram } from './services/pixelEngine.ts';
+import { HSL_BANDS, NEUTRAL_HSL, hslBandWeights, isNeutralHsl, type BlackAndWhiteMix, type HslAdjustments, type HslChannel, type SplitToning } from './services/colorMixer.ts';
+import type { PixelOperation } from './services/pixelEngine.worker.ts';
+import type { LocalContrastParams } from './services/localContrast.ts';
+import type { NoiseReductionParams } from './services/noiseReduction.ts';
+import type { LensCorrection } from './services/lensCorrection.ts';
+import { compositeEdit, getImageSize, loadImageSource } from './services/compositing.ts';
+import { getImageBlob } from './services/imageBlobs.ts';
+import { NO_PERSPECTIVE, buildCorrection, isIdentityQuad, keystoneQuad, largestValidRect, toCssMatrix3d, type PerspectiveSettings } from './services/perspective.ts';
+import type { Lut3D, LutOptions } from './services/lut.ts';
+import type { GrainParams, UnsharpMaskParams, VignetteParams } from './services/effects.ts';
+import { saveLutPreset, type LutPreset } from './services/lutLibrary.ts';
+import { transformImage, bakeExifOrientation, type OrientationTransform } from './services/orientation.ts';
 import Header from './components/Header.tsx';
 import Spinner from './components/Spinner.tsx';
 import FilterPanel from './components/FilterPanel.tsx';
-import AdjustmentPanel, { type ColorPickerType } from './components/AdjustmentPanel.tsx';
-import CropPanel from './components/CropPanel.tsx';
+import AdjustmentPanel, { type ColorPickerType, type EyedropperOptions } from './components/AdjustmentPanel.tsx';
+import CropPanel, { type CropTool } from './components/CropPanel.tsx';
+import PerspectiveOverlay from './components/PerspectiveOverlay.tsx';
 import UpscalePanel from './components/UpscalePanel.tsx';
 import FaceRetouchPanel from './components/FaceRetouchPanel.tsx';
 import FaceSwapPanel from './components/FaceSwapPanel.tsx';
 import RestorePanel from './components/RestorePanel.tsx';
+import NoiseReductionPanel from './components/NoiseReductionPanel.tsx';
 import WatermarkPanel, { type WatermarkSettings } from './components/WatermarkPanel.tsx';
 import BackgroundPanel, { type BackgroundSettings } from './components/BackgroundPanel.tsx';
 import OverlayPanel, { type OverlayLayer } from './components/OverlayPanel.tsx';
 import ZoomPanel from './components/ZoomPanel.tsx';
 import DoubleExposurePanel, { type DoubleExposureSettings } from './components/DoubleExposurePanel.tsx';
-import { UndoIcon, RedoIcon, EyeIcon, HistoryIcon, UserCircleIcon, PhotoIcon, SparklesIcon, SunIcon, EyeDropperIcon, ArrowUpOnSquareIcon, BullseyeIcon, PaletteIcon, MagicWandIcon, CropIcon, LayersIcon, MagnifyingGlassPlusIcon, WatermarkIcon, TuneIcon, MaskIcon, DocumentDuplicateIcon, SplitScreenIcon, FaceSwapIcon, PlusIcon, MinusIcon, FitScreenIcon, DoubleExposureIcon } from './components/icons.tsx';
+import { UndoIcon, RedoIcon, EyeIcon, HistoryIcon, UserCircleIcon, PhotoIcon, SparklesIcon, SunIcon, EyeDropperIcon, ArrowUpOnSquareIcon, BullseyeIcon, PaletteIcon, MagicWandIcon, CropIcon, LayersIcon, MagnifyingGlassPlusIcon, WatermarkIcon, TuneIcon, MaskIcon, DocumentDuplicateIcon, SplitScreenIcon, FaceSwapIcon, PlusIcon, MinusIcon, FitScreenIcon, DoubleExposureIcon, CogIcon, ChartBarIcon, SwatchIcon, BlackWhiteIcon, LensIcon } from './components/icons.tsx';
 import StartScreen from './components/StartScreen.tsx';
 import RestoreSessionModal from './components/RestoreSessionModal.tsx';
 import DownloadModal, { type DownloadSettings } from './components/DownloadModal.tsx';
-import HistoryPanel from './components/HistoryPanel.tsx';
+import HistoryPanel, { type HistoryBranch } from './components/HistoryPanel.tsx';
+import SettingsModal from './components/SettingsModal.tsx';
 import SuggestionPanel from './components/SuggestionPanel.tsx';
 import ColorGradePanel from './components/ColorGradePanel.tsx';
+import HslPanel from './components/HslPanel.tsx';
+import BlackAndWhitePanel from './components/BlackAndWhitePanel.tsx';
+import LensCorrectionPanel from './components/LensCorrectionPanel.tsx';
 import MaskEditor from './components/MaskEditor.tsx';
 import ViewControls from './components/ViewControls.tsx';
 import BatchEditModal from './components/BatchEditModal.tsx';
-import BatchPresetModal from './components/BatchPresetModal.tsx';
+import BatchPresetModal, { type BatchPreset } from './components/BatchPresetModal.tsx';
+import VariantCountPicker from './components/VariantCountPicker.tsx';
+import VariantPickerModal from './components/VariantPickerModal.tsx';
+import InfoPanel, { createCursorSampleStore, type InfoPanelDock } from './components/InfoPanel.tsx';
 
 
 // Helper to convert a data URL string to a File object
 const dataURLtoFile = (dataurl: string, filename: string): File => {
+    // Large images are kept as Blobs behind object URLs rather than as data URLs.
+    const blob = getImageBlob(dataurl);
+    if (blob) return new File([blob], filename, { type: blob.type });
+
     const arr = dataurl.split(',');
     if (arr.length < 2) throw new Error("Invalid data URL");
     const mimeMatch = arr[0].match(/:(.*?);/);
@@ -106,7 +136,14 @@ const createBlackAndWhiteMask = (redOverlayUrl: string, width: number, height: n
 };
 
 
-export type Tab = 'retouch' | 'face' | 'faceSwap' | 'adjust' | 'filters' | 'colorGrade' | 'crop' | 'background' | 'overlay' | 'upscale' | 'zoom' | 'restore' | 'watermark' | 'mask' | 'doubleExposure';
+export type Tab = 'retouch' | 'face' | 'faceSwap' | 'adjust' | 'filters' | 'colorGrade' | 'hsl' | 'blackAndWhite' | 'crop' | 'lens' | 'background' | 'overlay' | 'upscale' | 'zoom' | 'restore' | 'watermark' | 'mask' | 'doubleExposure';
+
+// Results waiting in the variant picker. `regenerate` runs the same operation again with fresh variants.
+type VariantChoices = {
+  results: AiImageResult[];
+  onCommitted?: () => void;
+  regenerate?: (signal: AbortSignal) => Promise<AiImageResult[]>;
+};
 
 export type Suggestion = {
   id: string;
@@ -228,7 +265,10 @@ const tools = [
   { id: 'adjust', label: 'Adjust', icon: SunIcon },
   { id: 'filters', label: 'Filters', icon: PaletteIcon },
   { id: 'colorGrade', label: 'Color Grade', icon: TuneIcon },
+  { id: 'hsl', label: 'HSL', icon: SwatchIcon },
+  { id: 'blackAndWhite', label: 'B&W', icon: BlackWhiteIcon },
   { id: 'crop', label: 'Crop', icon: CropIcon },
+  { id: 'lens', label: 'Lens', icon: LensIcon },
   { id: 'background', label: 'Background', icon: EyeDropperIcon },
   { id: 'overlay', label: 'Overlay', icon: LayersIcon },
   { id: 'doubleExposure', label: 'Double Exp.', icon: DoubleExposureIcon },
@@ -238,6 +278,13 @@ const tools = [
   { id: 'watermark', label: 'Watermark', icon: WatermarkIcon },
 ] as const;
 
+// Tools whose live preview is rendered by the pixel engine from a downscaled copy of the image.
+const PIXEL_PREVIEW_TABS: readonly Tab[] = ['adjust', 'hsl', 'blackAndWhite', 'lens'];
+// Pause after the last slider change before the pixel engine renders a new preview.
+const PIXEL_PREVIEW_DELAY_MS = 50;
+// Square (in image pixels) averaged to pick the color for targeted HSL adjustments.
+const HSL_TARGET_SAMPLE_SIZE = 5;
+
 // Helper to determine if an image has a solid background color, by checking its corners.
 const getSolidBackgroundColor = (ctx: CanvasRenderingContext2D, width: number, height: number): { r: number; g: number; b: number } | null => {
     if (width < 2 || height < 2) return null; // Not enough pixels to check corners
@@ -273,10 +320,28 @@ const getSolidBackgroundColor = (ctx: CanvasRenderingContext2D, width: number, h
 
 const App: React.FC = () => {
   const [history, setHistory] = useState<string[]>([]);
+  // Parallel to `history`: the prompt templates behind each step, undefined for manual edits.
+  const [historyPrompts, setHistoryPrompts] = useState<(PromptRef[] | undefined)[]>([]);
+  // Also parallel to `history`: unpicked variants kept for each step.
+  const [historyBranches, setHistoryBranches] = useState<(HistoryBranch[] | undefined)[]>([]);
   const [historyIndex, setHistoryIndex] = useState<number>(-1);
   const [prompt, setPrompt] = useState<string>('');
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setErrorState] = useState<{ message: string; kind: AiErrorKind | null } | null>(null);
+  const operationControllerRef = useRef<AbortController | null>(null);
+  // Mirrors whether `operationControllerRef` holds an operation, so the Cancel button re-renders with it.
+  const [canCancel, setCanCancel] = useState<boolean>(false);
+  // Step counter for long multi-call operations such as tiled upscaling.
+  const [operationProgress, setOperationProgress] = useState<{ label: string; completed: number; total: number } | null>(null);
+  // Passing the caught error lets the banner pick a remedy that fits the failure.
+  const setError = useCallback((message: string | null, cause?: unknown) => {
+    setErrorState(message === null ? null : { message, kind: cause === undefined ? null : getAiErrorKind(classifyError(cause)) });
+  }, []);
+  // How many variants AI actions that support it generate, and the set waiting to be picked from.
+  const [variantCount, setVariantCount] = useState<number>(1);
+  const [variantChoices, setVariantChoices] = useState<VariantChoices | null>(null);
+  // Non-fatal message about the latest edit, e.g. when the AI reframed the image.
+  const [notice, setNotice] = useState<string | null>(null);
   const [editHotspot, setEditHotspot] = useState<{ x: number, y: number } | null>(null);
   const [displayHotspot, setDisplayHotspot] = useState<{ x: number, y: number } | null>(null);
   const [activeTab, setActiveTab] = useState<Tab>('retouch');
@@ -285,12 +350,45 @@ const App: React.FC = () => {
   const [completedCrop, setCompletedCrop] = useState<PixelCrop>();
   const [aspect, setAspect] = useState<number | undefined>();
   const [rotation, setRotation] = useState(0);
+  const [perspective, setPerspective] = useState<PerspectiveSettings>(NO_PERSPECTIVE);
+  const [cropTool, setCropTool] = useState<CropTool>('crop');
+  const [isAutoCrop, setIsAutoCrop] = useState(false);
   const [isComparing, setIsComparing] = useState<boolean>(false);
   const imgRef = useRef<HTMLImageElement>(null);
   const imageContainerRef = useRef<HTMLDivElement>(null);
+  // Natural and laid-out size of the displayed image, measured whenever it loads or resizes, so
+  // rendering never has to read them from `imgRef`. Zoom is a CSS transform and not included.
+  const [imageLayout, setImageLayout] = useState<{ naturalWidth: number; naturalHeight: number; width: number; height: number } | null>(null);
+  const stopMeasuringImageRef = useRef<(() => void) | null>(null);
+  const setImageElement = useCallback((img: HTMLImageElement | null) => {
+    imgRef.current = img;
+    stopMeasuringImageRef.current?.();
+    stopMeasuringImageRef.current = null;
+    if (!img) {
+      setImageLayout(null);
+      return;
+    }
+    const measure = () => setImageLayout(img.naturalWidth > 0
+      ? { naturalWidth: img.naturalWidth, naturalHeight: img.naturalHeight, width: img.clientWidth, height: img.clientHeight }
+      : null);
+    const observer = new ResizeObserver(measure);
+    observer.observe(img);
+    img.addEventListener('load', measure);
+    measure();
+    stopMeasuringImageRef.current = () => {
+      observer.disconnect();
+      img.removeEventListener('load', measure);
+    };
+  }, []);
 
   // Zoom & Pan state
   const [viewTransform, setViewTransform] = useState({ scale: 1, pan: { x: 0, y: 0 } });
+  // Screen pixels per image pixel, zoom included, for previews that must match the committed result.
+  const previewImageLayout = useMemo(() => imageLayout && {
+    width: imageLayout.naturalWidth,
+    height: imageLayout.naturalHeight,
+    displayScale: imageLayout.width / imageLayout.naturalWidth * viewTransform.scale,
+  }, [imageLayout, viewTransform.scale]);
   const [isPanning, setIsPanning] = useState(false);
   const [panStart, setPanStart] = useState({ x: 0, y: 0 });
   const [isDragging, setIsDragging] = useState(false);
@@ -303,13 +401,23 @@ const App: React.FC = () => {
   const [isBatchEditModalOpen, setIsBatchEditModalOpen] = useState<boolean>(false);
   const [isBgRemovalMode, setIsBgRemovalMode] = useState<boolean>(false);
   const [isHistoryPanelOpen, setIsHistoryPanelOpen] = useState<boolean>(false);
+  const [isSettingsModalOpen, setIsSettingsModalOpen] = useState<boolean>(false);
   const [isBatchPresetModalOpen, setIsBatchPresetModalOpen] = useState<boolean>(false);
-  const [batchPresetInfo, setBatchPresetInfo] = useState<{ name: string; prompt: string; type: 'filter' | 'colorGrade' | 'adjustment' } | null>(null);
+  const [batchPresetInfo, setBatchPresetInfo] = useState<BatchPreset | null>(null);
   const [activeColorPicker, setActiveColorPicker] = useState<ColorPickerType | null>(null);
+  const [eyedropperOptions, setEyedropperOptions] = useState<EyedropperOptions>({ sampleSize: 3, useAi: false });
   const [maskDataUrl, setMaskDataUrl] = useState<string | null>(null);
   
   // Real-time preview filter string (e.g., "contrast(1.2) brightness(1.1)")
   const [previewFilter, setPreviewFilter] = useState<string>('');
+  const [histogram, setHistogram] = useState<Histogram | null>(null);
+  const [isInfoPanelOpen, setIsInfoPanelOpen] = useState(false);
+  const [infoPanelDock, setInfoPanelDock] = useState<InfoPanelDock>('right');
+  const [showHighlightClipping, setShowHighlightClipping] = useState(false);
+  const [showShadowClipping, setShowShadowClipping] = useState(false);
+  const [clippingOverlayUrl, setClippingOverlayUrl] = useState<string | null>(null);
+  const [cursorSampleStore] = useState(createCursorSampleStore);
+  const pixelSamplerRef = useRef<PixelSampler | null>(null);
 
   // Split View state
   const [isSplitView, setIsSplitView] = useState<boolean>(false);
@@ -328,22 +436,63 @@ const App: React.FC = () => {
   const [detectedFaces, setDetectedFaces] = useState<Face[]>([]);
   const [selectedFaces, setSelectedFaces] = useState<Face[]>([]);
 
+  // State for the HSL mixer, kept here so targeted drags on the image can adjust it.
+  const [hslAdjustments, setHslAdjustments] = useState<HslAdjustments>(NEUTRAL_HSL);
+  const [hslChannel, setHslChannel] = useState<HslChannel>('saturation');
+  const [isHslTargeted, setIsHslTargeted] = useState(false);
+  const hslDragRef = useRef<{ weights: number[]; startY: number; start: HslAdjustments } | null>(null);
+
+  // Downscaled pixels of the current image and the pixel engine's render of them, for tools
+  // whose live preview can't be expressed as an SVG filter.
+  const [previewSource, setPreviewSource] = useState<ImageData | null>(null);
+  // The operation a panel wants previewed that way; the HSL mixer's lives in state above.
+  const [panelPixelPreview, setPanelPixelPreview] = useState<PixelOperation | null>(null);
+  const [pixelPreviewUrl, setPixelPreviewUrl] = useState<string | null>(null);
+
   const isZoomPanEnabled = activeTab !== 'crop' && !isSplitView;
 
   // FIX: Moved useMemo to the top level of the component to obey the Rules of Hooks.
   const cursorStyle = useMemo(() => {
     if (!isZoomPanEnabled) return 'default';
+    if (activeTab === 'hsl' && isHslTargeted) return 'ns-resize';
     if (viewTransform.scale > 1) return isPanning ? 'grabbing' : 'grab';
     if ((activeTab === 'retouch' || activeTab === 'adjust' || activeTab === 'zoom') && !maskDataUrl && !activeColorPicker) return 'crosshair';
     if (activeColorPicker) return 'crosshair';
     return 'default';
-  }, [isZoomPanEnabled, viewTransform.scale, isPanning, activeTab, maskDataUrl, activeColorPicker]);
+  }, [isZoomPanEnabled, viewTransform.scale, isPanning, activeTab, maskDataUrl, activeColorPicker, isHslTargeted]);
 
 
   const resetViewTransform = useCallback(() => {
     setViewTransform({ scale: 1, pan: { x: 0, y: 0 } });
   }, []);
 
+  // Starts a cancellable operation, aborting any previous one that is still in flight.
+  const beginOperation = useCallback((): AbortSignal => {
+    operationControllerRef.current?.abort();
+    const controller = new AbortController();
+    operationControllerRef.current = controller;
+    setCanCancel(true);
+    return controller.signal;
+  }, []);
+
+  // Clears the loading state, unless the operation was cancelled or superseded by a newer one.
+  const endOperation = useCallback((signal: AbortSignal) => {
+    if (operationControllerRef.current?.signal === signal) {
+        operationControllerRef.current = null;
+        setCanCancel(false);
+        setIsLoading(false);
+        setOperationProgress(null);
+    }
+  }, []);
+
+  const handleCancelOperation = useCallback(() => {
+    operationControllerRef.current?.abort();
+    operationControllerRef.current = null;
+    setCanCancel(false);
+    setIsLoading(false);
+    setOperationProgress(null);
+  }, []);
+
   // Check for saved session on initial load
   useEffect(() => {
     try {
@@ -425,6 +574,85 @@ const App: React.FC = () => {
     return dataURLtoFile(currentImageUrl, `edit-${historyIndex}.png`);
   }, [currentImageUrl, historyIndex]);
 
+  // Histogram of the current image for the tone tools and the info panel, counted at full resolution in the pixel engine worker.
+  useEffect(() => {
+    setHistogram(null);
+    if (!currentImageUrl || (activeTab !== 'adjust' && !isInfoPanelOpen)) return;
+    const controller = new AbortController();
+    computeImageHistogram(currentImageUrl, controller.signal)
+      .then(setHistogram)
+      .catch(err => {
+        if (!controller.signal.aborted) console.error("Could not compute the histogram", err);
+      });
+    return () => controller.abort();
+  }, [currentImageUrl, activeTab, isInfoPanelOpen]);
+
+  // Decoded pixels of the current image for the info panel's cursor readout and targeted HSL drags.
+  const needsPixelSampler = isInfoPanelOpen || (activeTab === 'hsl' && isHslTargeted);
+  useEffect(() => {
+    pixelSamplerRef.current = null;
+    cursorSampleStore.set(null);
+    if (!currentImageUrl || !needsPixelSampler) return;
+    let cancelled = false;
+    createPixelSampler(currentImageUrl)
+      .then(sampler => {
+        if (!cancelled) pixelSamplerRef.current = sampler;
+      })
+      .catch(err => console.error("Could not read the image for pixel info", err));
+    return () => { cancelled = true; };
+  }, [currentImageUrl, needsPixelSampler]);
+
+  // Clipping overlay drawn over the canvas while the info panel asks for it.
+  useEffect(() => {
+    setClippingOverlayUrl(null);
+    if (!currentImageUrl || !isInfoPanelOpen || (!showHighlightClipping && !showShadowClipping)) return;
+    const controller = new AbortController();
+    computeClippingOverlay(currentImageUrl, { highlights: showHighlightClipping, shadows: showShadowClipping }, controller.signal)
+      .then(setClippingOverlayUrl)
+      .catch(err => {
+        if (!controller.signal.aborted) console.error("Could not compute the clipping overlay", err);
+      });
+    return () => controller.abort();
+  }, [currentImageUrl, isInfoPanelOpen, showHighlightClipping, showShadowClipping]);
+
+  const needsPreviewSource = PIXEL_PREVIEW_TABS.includes(activeTab);
+  useEffect(() => {
+    setPreviewSource(null);
+    if (!currentImageUrl || !needsPreviewSource) return;
+    let cancelled = false;
+    createPreviewSource(currentImageUrl)
+      .then(source => {
+        if (!cancelled) setPreviewSource(source);
+      })
+      .catch(err => console.error("Could not read the image for the preview", err));
+    return () => { cancelled = true; };
+  }, [currentImageUrl, needsPreviewSource]);
+
+  const pixelPreviewOperation = useMemo<PixelOperation | null>(() => {
+    if (activeTab === 'hsl') return isNeutralHsl(hslAdjustments) ? null : { type: 'hsl', hsl: hslAdjustments };
+    return panelPixelPreview;
+  }, [activeTab, hslAdjustments, panelPixelPreview]);
+
+  // Live preview, rendered once the sliders (or a targeted drag) pause.
+  useEffect(() => {
+    if (!previewSource || !pixelPreviewOperation) {
+      setPixelPreviewUrl(null);
+      return;
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      renderPreview(previewSource, pixelPreviewOperation, controller.signal)
+        .then(setPixelPreviewUrl)
+        .catch(err => {
+          if (!controller.signal.aborted) console.error("Could not render the preview", err);
+        });
+    }, PIXEL_PREVIEW_DELAY_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [previewSource, pixelPreviewOperation]);
+
   const originalImage = useMemo<File | null>(() => {
     if (!originalImageUrl) return null;
     return dataURLtoFile(originalImageUrl, `original.png`);
@@ -434,17 +662,29 @@ const App: React.FC = () => {
   const canUndo = historyIndex > 0;
   const canRedo = historyIndex < history.length - 1;
 
-  const addImageToHistory = useCallback(async (newImageDataUrl: string) => {
+  // `fromIndex` branches off an earlier step instead of the current one; `branches` are
+  // alternative results kept alongside the new step so the user can switch to them later.
+  const addImageToHistory = useCallback(async (
+    newImageDataUrl: string,
+    promptRefs?: PromptRef[],
+    warning?: string,
+    options: { fromIndex?: number; branches?: HistoryBranch[] } = {}
+  ) => {
     setShowSuggestions(false);
     // Clear the preview filter now that the change is committed
     setPreviewFilter(''); 
     
-    const newHistory = history.slice(0, historyIndex + 1);
+    const newHistory = history.slice(0, (options.fromIndex ?? historyIndex) + 1);
     const newHistoryIndex = newHistory.length;
 
     try {
       await removeImagesFromHistoryDB(newHistoryIndex); // Clear any "redo" states from DB
-      await saveImageToHistoryDB(newHistoryIndex, newImageDataUrl);
+      await saveImageToHistoryDB(
+        newHistoryIndex,
+        newImageDataUrl,
+        promptRefs,
+        options.branches?.map(branch => ({ imageDataUrl: branch.imageUrl, prompt: branch.promptRefs })),
+      );
     } catch (e) {
       console.error("Failed to save image to IndexedDB", e);
       setError("Could not save your edit. Your browser might be in private mode or storage is full.");
@@ -462,12 +702,82 @@ const App: React.FC = () => {
     setSelectedFaces([]);
     setMaskDataUrl(null);
     setRotation(0);
+    setPerspective(NO_PERSPECTIVE);
     resetViewTransform();
 
     newHistory.push(newImageDataUrl);
     setHistory(newHistory);
+    setHistoryPrompts([...historyPrompts.slice(0, newHistoryIndex), promptRefs]);
+    setHistoryBranches([...historyBranches.slice(0, newHistoryIndex), options.branches?.length ? options.branches : undefined]);
     setHistoryIndex(newHistoryIndex);
-  }, [history, historyIndex, resetViewTransform]);
+    setNotice(warning ?? null);
+  }, [history, historyPrompts, historyBranches, historyIndex, resetViewTransform]);
+
+  // Commits a single result directly; several results go to the variant picker first.
+  // `regenerate` produces a fresh set (bypassing the result cache) if the user asks for one.
+  const presentResults = useCallback(async (
+    results: AiImageResult[],
+    onCommitted?: () => void,
+    regenerate?: VariantChoices['regenerate']
+  ) => {
+    if (results.length > 1) {
+        setVariantChoices({ results, onCommitted, regenerate });
+        return;
+    }
+    const [result] = results;
+    await addImageToHistory(result.imageUrl, result.prompt.refs, result.warning);
+    onCommitted?.();
+  }, [addImageToHistory]);
+
+  const handleConfirmVariants = useCallback(async (selected: number[]) => {
+    if (!variantChoices || selected.length === 0) return;
+    const [first, ...rest] = selected.map(index => variantChoices.results[index]);
+    setVariantChoices(null);
+    await addImageToHistory(first.imageUrl, first.prompt.refs, first.warning, {
+        branches: rest.map(result => ({ imageUrl: result.imageUrl, promptRefs: result.prompt.refs })),
+    });
+    variantChoices.onCommitted?.();
+  }, [variantChoices, addImageToHistory]);
+
+  const handleRegenerateVariants = useCallback(async () => {
+    if (!variantChoices?.regenerate) return;
+    const { regenerate, onCommitted } = variantChoices;
+    setVariantChoices(null);
+
+    setIsLoading(true);
+    const signal = beginOperation();
+    setError(null);
+
+    try {
+        const results = await regenerate(signal);
+        if (signal.aborted) return;
+        await presentResults(results, onCommitted, regenerate);
+    } catch (err) {
+        if (signal.aborted) return;
+        const errorMessage = getErrorMessage(err);
+        setError(`Failed to generate new variants. ${errorMessage}`, err);
+        console.error("Caught error in handleRegenerateVariants:", err);
+    } finally {
+        endOperation(signal);
+    }
+  }, [variantChoices, presentResults]);
+
+  // Swaps a kept variant into its step. Later steps were built on the old image, so they are dropped,
+  // after asking first.
+  const handleSelectBranch = useCallback(async (step: number, branchIndex: number) => {
+    const branches = historyBranches[step];
+    if (!branches || step === 0) return;
+    const laterSteps = history.length - 1 - step;
+    if (laterSteps > 0 && !window.confirm(`Switching to this variant discards the ${laterSteps === 1 ? 'edit' : `${laterSteps} edits`} made after it. Continue?`)) {
+        return;
+    }
+    const chosen = branches[branchIndex];
+    const replaced: HistoryBranch = { imageUrl: history[step], promptRefs: historyPrompts[step] };
+    await addImageToHistory(chosen.imageUrl, chosen.promptRefs, undefined, {
+        fromIndex: step - 1,
+        branches: branches.map((branch, index) => index === branchIndex ? replaced : branch),
+    });
+  }, [history, historyPrompts, historyBranches, addImageToHistory]);
 
   const handleImageUpload = useCallback(async (file: File) => {
     localStorage.removeItem('utilpic-session');
@@ -483,6 +793,8 @@ const App: React.FC = () => {
         const dataUrl = await fileToDataURL(file);
         await saveImageToHistoryDB(0, dataUrl);
         setHistory([dataUrl]);
+        setHistoryPrompts([undefined]);
+        setHistoryBranches([]);
         setHistoryIndex(0);
         setPrompt('');
         setEditHotspot(null);
@@ -497,6 +809,7 @@ const App: React.FC = () => {
         setSelectedFaces([]);
         setMaskDataUrl(null);
         setRotation(0);
+        setPerspective(NO_PERSPECTIVE);
 
         // Don't await this, let it run in the background
         analyzeImageForSuggestions(file).then(analysis => {
@@ -539,6 +852,7 @@ const App: React.FC = () => {
     }
 
     setIsLoading(true);
+    const signal = beginOperation();
     setError(null);
     setPreviewFilter(''); // Clear preview when generating
     
@@ -548,19 +862,22 @@ const App: React.FC = () => {
             maskFile = await createBlackAndWhiteMask(maskDataUrl, imgRef.current.naturalWidth, imgRef.current.naturalHeight);
         }
         
-        const editedImageUrl = await generateEditedImage(currentImage, promptToUse, editHotspot, maskFile);
-        await addImageToHistory(editedImageUrl);
-        setPrompt(''); // Clear prompt after success
+        const run = (runSignal: AbortSignal, fresh?: boolean) => generateVariants(variantCount, variant =>
+            generateEditedImage(currentImage, promptToUse, editHotspot, maskFile, runSignal, variant), { fresh, signal: runSignal });
+        const results = await run(signal);
+        if (signal.aborted) return;
+        await presentResults(results, () => setPrompt(''), runSignal => run(runSignal, true)); // Clear prompt after success
     } catch (err) {
+        if (signal.aborted) return;
         const errorMessage = getErrorMessage(err);
-        setError(`Failed to generate the image. ${errorMessage}`);
+        setError(`Failed to generate the image. ${errorMessage}`, err);
         console.error("Caught error in handleGenerate:", err);
     } finally {
-        setIsLoading(false);
+        endOperation(signal);
     }
-  }, [currentImage, prompt, editHotspot, addImageToHistory, maskDataUrl]);
+  }, [currentImage, prompt, editHotspot, presentResults, maskDataUrl, variantCount]);
 
-  const handleApplyLocalAdjustment = useCallback(async (adjustmentPrompt: string) => {
+  const handleApplyLocalAdjustment = useCallback(async (adjustmentPrompt: PromptInput) => {
     if (!currentImage) {
       setError('No image loaded to apply an adjustment to.');
       return;
@@ -571,6 +888,7 @@ const App: React.FC = () => {
     }
 
     setIsLoading(true);
+    const signal = beginOperation();
     setError(null);
     setPreviewFilter('');
     
@@ -580,159 +898,489 @@ const App: React.FC = () => {
             maskFile = await createBlackAndWhiteMask(maskDataUrl, imgRef.current.naturalWidth, imgRef.current.naturalHeight);
         }
         
-        const editedImageUrl = await generateEditedImage(currentImage, adjustmentPrompt, editHotspot, maskFile);
-        await addImageToHistory(editedImageUrl);
+        const result = await generateEditedImage(currentImage, adjustmentPrompt, editHotspot, maskFile, signal);
+        if (signal.aborted) return;
+        await addImageToHistory(result.imageUrl, result.prompt.refs, result.warning);
     } catch (err) {
+        if (signal.aborted) return;
         const errorMessage = getErrorMessage(err);
-        setError(`Failed to apply the local adjustment. ${errorMessage}`);
+        setError(`Failed to apply the local adjustment. ${errorMessage}`, err);
         console.error("Caught error in handleApplyLocalAdjustment:", err);
     } finally {
-        setIsLoading(false);
+        endOperation(signal);
     }
   }, [currentImage, editHotspot, maskDataUrl, addImageToHistory]);
   
-  const handleApplyFilter = useCallback(async (filterPrompt: string) => {
+  const handleApplyFilter = useCallback(async (filterPrompt: PromptInput) => {
     if (!currentImage) {
       setError('No image loaded to apply a filter to.');
       return;
     }
     
     setIsLoading(true);
+    const signal = beginOperation();
     setError(null);
     setPreviewFilter('');
     
     try {
-        const filteredImageUrl = await generateFilteredImage(currentImage, filterPrompt);
-        await addImageToHistory(filteredImageUrl);
+        const run = (runSignal: AbortSignal, fresh?: boolean) =>
+            generateVariants(variantCount, variant => generateFilteredImage(currentImage, filterPrompt, runSignal, variant), { fresh, signal: runSignal });
+        const results = await run(signal);
+        if (signal.aborted) return;
+        await presentResults(results, undefined, runSignal => run(runSignal, true));
     } catch (err) {
+        if (signal.aborted) return;
         const errorMessage = getErrorMessage(err);
-        setError(`Failed to apply the filter. ${errorMessage}`);
+        setError(`Failed to apply the filter. ${errorMessage}`, err);
         console.error("Caught error in handleApplyFilter:", err);
     } finally {
-        setIsLoading(false);
+        endOperation(signal);
     }
-  }, [currentImage, addImageToHistory]);
+  }, [currentImage, presentResults, variantCount]);
 
-  const handleApplyColorGrade = useCallback(async (gradePrompt: string) => {
+  const handleApplyColorGrade = useCallback(async (gradePrompt: PromptInput) => {
     if (!currentImage) {
       setError('No image loaded to apply a color grade to.');
       return;
     }
     
     setIsLoading(true);
+    const signal = beginOperation();
     setError(null);
     setPreviewFilter('');
     
     try {
-        const gradedImageUrl = await generateColorGradedImage(currentImage, gradePrompt);
-        await addImageToHistory(gradedImageUrl);
+        const run = (runSignal: AbortSignal, fresh?: boolean) =>
+            generateVariants(variantCount, variant => generateColorGradedImage(currentImage, gradePrompt, runSignal, variant), { fresh, signal: runSignal });
+        const results = await run(signal);
+        if (signal.aborted) return;
+        await presentResults(results, undefined, runSignal => run(runSignal, true));
     } catch (err) {
+        if (signal.aborted) return;
         const errorMessage = getErrorMessage(err);
-        setError(`Failed to apply the color grade. ${errorMessage}`);
+        setError(`Failed to apply the color grade. ${errorMessage}`, err);
         console.error("Caught error in handleApplyColorGrade:", err);
     } finally {
-        setIsLoading(false);
+        endOperation(signal);
     }
-  }, [currentImage, addImageToHistory]);
+  }, [currentImage, presentResults, variantCount]);
   
-  const handleApplyAdjustment = useCallback(async (adjustmentPrompt: string) => {
+  // `notice` is shown after the result unless the model returns a warning of its own.
+  const handleApplyAdjustment = useCallback(async (adjustmentPrompt: PromptInput, notice?: string) => {
     if (!currentImage) {
       setError('No image loaded to apply an adjustment to.');
       return;
     }
     
     setIsLoading(true);
+    const signal = beginOperation();
     setError(null);
     // Note: We don't clear previewFilter here immediately if we wanted to fade it out, 
     // but clearing it ensures the new image (from AI) replaces the CSS preview cleanly.
     setPreviewFilter(''); 
     
     try {
-        const adjustedImageUrl = await generateAdjustedImage(currentImage, adjustmentPrompt);
-        await addImageToHistory(adjustedImageUrl);
+        const result = await generateAdjustedImage(currentImage, adjustmentPrompt, signal);
+        if (signal.aborted) return;
+        await addImageToHistory(result.imageUrl, result.prompt.refs, result.warning ?? notice);
     } catch (err) {
+        if (signal.aborted) return;
         const errorMessage = getErrorMessage(err);
-        setError(`Failed to apply the adjustment. ${errorMessage}`);
+        setError(`Failed to apply the adjustment. ${errorMessage}`, err);
         console.error("Caught error in handleApplyAdjustment:", err);
     } finally {
-        setIsLoading(false);
+        endOperation(signal);
+    }
+  }, [currentImage, addImageToHistory]);
+
+  const handleApplyPixelAdjustments = useCallback(async (adjustments: SliderAdjustments): Promise<boolean> => {
+    if (!currentImage) {
+      setError('No image loaded to apply an adjustment to.');
+      return false;
+    }
+
+    setIsLoading(true);
+    const signal = beginOperation();
+    setError(null);
+
+    try {
+        const imageUrl = await applyPixelAdjustments(currentImage, adjustments, signal);
+        if (signal.aborted) return;
+        await addImageToHistory(imageUrl);
+        return true;
+    } catch (err) {
+        if (signal.aborted) return false;
+        const errorMessage = getErrorMessage(err);
+        setError(`Failed to apply the adjustment. ${errorMessage}`, err);
+        console.error("Caught error in handleApplyPixelAdjustments:", err);
+        return false;
+    } finally {
+        endOperation(signal);
+    }
+  }, [currentImage, addImageToHistory]);
+
+  const handleApplyChannelTables = useCallback(async (tables: ChannelTables): Promise<boolean> => {
+    if (!currentImage) {
+      setError('No image loaded to apply an adjustment to.');
+      return false;
+    }
+
+    setIsLoading(true);
+    const signal = beginOperation();
+    setError(null);
+
+    try {
+        const imageUrl = await applyChannelTablesToImage(currentImage, tables, signal);
+        if (signal.aborted) return;
+        await addImageToHistory(imageUrl);
+        return true;
+    } catch (err) {
+        if (signal.aborted) return false;
+        const errorMessage = getErrorMessage(err);
+        setError(`Failed to apply the tone adjustment. ${errorMessage}`, err);
+        console.error("Caught error in handleApplyChannelTables:", err);
+        return false;
+    } finally {
+        endOperation(signal);
+    }
+  }, [currentImage, addImageToHistory]);
+
+  const handleApplyColorWheels = useCallback(async (wheels: ColorWheels): Promise<boolean> => {
+    if (!currentImage) {
+      setError('No image loaded to apply color wheels to.');
+      return false;
+    }
+
+    setIsLoading(true);
+    const signal = beginOperation();
+    setError(null);
+
+    try {
+        const imageUrl = await applyColorWheelsToImage(currentImage, wheels, signal);
+        if (signal.aborted) return;
+        await addImageToHistory(imageUrl);
+        return true;
+    } catch (err) {
+        if (signal.aborted) return false;
+        const errorMessage = getErrorMessage(err);
+        setError(`Failed to apply the color wheels. ${errorMessage}`, err);
+        console.error("Caught error in handleApplyColorWheels:", err);
+        return false;
+    } finally {
+        endOperation(signal);
+    }
+  }, [currentImage, addImageToHistory]);
+
+  const handleApplyLocalContrast = useCallback(async (params: LocalContrastParams): Promise<boolean> => {
+    if (!currentImage) {
+      setError('No image loaded to apply clarity and dehaze to.');
+      return false;
+    }
+
+    setIsLoading(true);
+    const signal = beginOperation();
+    setError(null);
+
+    try {
+        const imageUrl = await applyLocalContrastToImage(currentImage, params, signal);
+        if (signal.aborted) return;
+        await addImageToHistory(imageUrl);
+        return true;
+    } catch (err) {
+        if (signal.aborted) return false;
+        const errorMessage = getErrorMessage(err);
+        setError(`Failed to apply clarity and dehaze. ${errorMessage}`, err);
+        console.error("Caught error in handleApplyLocalContrast:", err);
+        return false;
+    } finally {
+        endOperation(signal);
     }
   }, [currentImage, addImageToHistory]);
 
+  const handleApplyNoiseReduction = useCallback(async (params: NoiseReductionParams): Promise<boolean> => {
+    if (!currentImage) {
+      setError('No image loaded to reduce noise in.');
+      return false;
+    }
+
+    setIsLoading(true);
+    const signal = beginOperation();
+    setError(null);
+
+    try {
+        const imageUrl = await applyNoiseReductionToImage(currentImage, params, signal);
+        if (signal.aborted) return;
+        await addImageToHistory(imageUrl);
+        return true;
+    } catch (err) {
+        if (signal.aborted) return false;
+        const errorMessage = getErrorMessage(err);
+        setError(`Failed to reduce noise. ${errorMessage}`, err);
+        console.error("Caught error in handleApplyNoiseReduction:", err);
+        return false;
+    } finally {
+        endOperation(signal);
+    }
+  }, [currentImage, addImageToHistory]);
+
+  const handleApplyHsl = useCallback(async () => {
+    if (!currentImage) {
+      setError('No image loaded to apply the HSL mixer to.');
+      return;
+    }
+
+    setIsLoading(true);
+    const signal = beginOperation();
+    setError(null);
+
+    try {
+        const imageUrl = await applyHslToImage(currentImage, hslAdjustments, signal);
+        if (signal.aborted) return;
+        await addImageToHistory(imageUrl);
+        setHslAdjustments(NEUTRAL_HSL);
+    } catch (err) {
+        if (signal.aborted) return;
+        const errorMessage = getErrorMessage(err);
+        setError(`Failed to apply the HSL mixer. ${errorMessage}`, err);
+        console.error("Caught error in handleApplyHsl:", err);
+    } finally {
+        endOperation(signal);
+    }
+  }, [currentImage, hslAdjustments, addImageToHistory]);
+
+  const handleApplyBlackAndWhite = useCallback(async (mix: BlackAndWhiteMix): Promise<boolean> => {
+    if (!currentImage) {
+      setError('No image loaded to convert to black and white.');
+      return false;
+    }
+
+    setIsLoading(true);
+    const signal = beginOperation();
+    setError(null);
+
+    try {
+        const imageUrl = await applyBlackAndWhiteToImage(currentImage, mix, signal);
+        if (signal.aborted) return;
+        await addImageToHistory(imageUrl);
+        return true;
+    } catch (err) {
+        if (signal.aborted) return false;
+        const errorMessage = getErrorMessage(err);
+        setError(`Failed to convert to black and white. ${errorMessage}`, err);
+        console.error("Caught error in handleApplyBlackAndWhite:", err);
+        return false;
+    } finally {
+        endOperation(signal);
+    }
+  }, [currentImage, addImageToHistory]);
+
+  const handleApplyLensCorrection = useCallback(async (correction: LensCorrection): Promise<boolean> => {
+    if (!currentImage) {
+      setError('No image loaded to correct.');
+      return false;
+    }
+
+    setIsLoading(true);
+    const signal = beginOperation();
+    setError(null);
+
+    try {
+        const imageUrl = await applyLensCorrectionToImage(currentImage, correction, signal);
+        if (signal.aborted) return;
+        await addImageToHistory(imageUrl);
+        return true;
+    } catch (err) {
+        if (signal.aborted) return false;
+        const errorMessage = getErrorMessage(err);
+        setError(`Failed to apply lens correction. ${errorMessage}`, err);
+        console.error("Caught error in handleApplyLensCorrection:", err);
+        return false;
+    } finally {
+        endOperation(signal);
+    }
+  }, [currentImage, addImageToHistory]);
+
+  const handleApplySplitToning = useCallback(async (toning: SplitToning): Promise<boolean> => {
+    if (!currentImage) {
+      setError('No image loaded to apply split toning to.');
+      return false;
+    }
+
+    setIsLoading(true);
+    const signal = beginOperation();
+    setError(null);
+
+    try {
+        const imageUrl = await applySplitToningToImage(currentImage, toning, signal);
+        if (signal.aborted) return;
+        await addImageToHistory(imageUrl);
+        return true;
+    } catch (err) {
+        if (signal.aborted) return false;
+        const errorMessage = getErrorMessage(err);
+        setError(`Failed to apply split toning. ${errorMessage}`, err);
+        console.error("Caught error in handleApplySplitToning:", err);
+        return false;
+    } finally {
+        endOperation(signal);
+    }
+  }, [currentImage, addImageToHistory]);
+
+  const handleApplyLut = useCallback(async (name: string, lut: Lut3D, options: LutOptions) => {
+    if (!currentImage) {
+      setError('No image loaded to apply a LUT to.');
+      return;
+    }
+
+    setIsLoading(true);
+    const signal = beginOperation();
+    setError(null);
+
+    try {
+        const imageUrl = await applyLutToImage(currentImage, lut, options, signal);
+        if (signal.aborted) return;
+        await addImageToHistory(imageUrl);
+    } catch (err) {
+        if (signal.aborted) return;
+        const errorMessage = getErrorMessage(err);
+        setError(`Failed to apply the LUT "${name}". ${errorMessage}`, err);
+        console.error("Caught error in handleApplyLut:", err);
+    } finally {
+        endOperation(signal);
+    }
+  }, [currentImage, addImageToHistory]);
+
+  // Freezes the color change of the current step (against the one before it) into a saved LUT.
+  const handleCaptureLut = useCallback(async (name: string): Promise<LutPreset | null> => {
+    if (historyIndex < 1) {
+      setError('There is no edit to capture as a LUT yet.');
+      return null;
+    }
+
+    setIsLoading(true);
+    const signal = beginOperation();
+    setError(null);
+
+    try {
+        const lut = await fitLutFromImages(history[historyIndex - 1], history[historyIndex], name, signal);
+        return await saveLutPreset(name, lut);
+    } catch (err) {
+        if (signal.aborted) return null;
+        const errorMessage = getErrorMessage(err);
+        setError(`Failed to save the edit as a LUT. ${errorMessage}`, err);
+        console.error("Caught error in handleCaptureLut:", err);
+        return null;
+    } finally {
+        endOperation(signal);
+    }
+  }, [history, historyIndex]);
+
   const handleApplyStyleFromUrl = useCallback(async (styleUrl: string) => {
     if (!currentImage) {
         setError('No image loaded to apply a style to.');
         return;
     }
     setIsLoading(true);
+    const signal = beginOperation();
     setError(null);
     setPreviewFilter('');
 
     try {
         // Fetch the image from the URL
-        const response = await fetch(styleUrl);
+        const response = await fetch(styleUrl, { signal });
         if (!response.ok) throw new Error(`Failed to fetch image from URL (status: ${response.status})`);
         const blob = await response.blob();
         const styleFile = new File([blob], 'style-reference.jpg', { type: blob.type });
 
-        const newImageUrl = await generateStyleFromReference(currentImage, styleFile);
-        await addImageToHistory(newImageUrl);
+        const result = await generateStyleFromReference(currentImage, styleFile, signal);
+        if (signal.aborted) return;
+        await addImageToHistory(result.imageUrl, result.prompt.refs, result.warning);
     } catch (err) {
+        if (signal.aborted) return;
         const errorMessage = getErrorMessage(err);
-        setError(`Failed to apply style from URL. ${errorMessage}. Please check the URL and ensure the server allows access (CORS policy).`);
+        setError(`Failed to apply style from URL. ${errorMessage}. Please check the URL and ensure the server allows access (CORS policy).`, err);
         console.error("Caught error in handleApplyStyleFromUrl:", err);
     } finally {
-        setIsLoading(false);
+        endOperation(signal);
     }
   }, [currentImage, addImageToHistory]);
 
-  const handleApplySharpen = useCallback(async (intensity: string) => {
+  const handleApplySharpen = useCallback(async (params: UnsharpMaskParams) => {
     if (!currentImage) {
       setError('No image loaded to apply sharpening to.');
       return;
     }
     
     setIsLoading(true);
+    const signal = beginOperation();
     setError(null);
-    setPreviewFilter('');
     
     try {
-        const sharpenedImageUrl = await generateSharpenedImage(currentImage, intensity);
-        await addImageToHistory(sharpenedImageUrl);
+        const imageUrl = await applyUnsharpMaskToImage(currentImage, params, signal);
+        if (signal.aborted) return;
+        await addImageToHistory(imageUrl);
     } catch (err) {
+        if (signal.aborted) return;
         const errorMessage = getErrorMessage(err);
-        setError(`Failed to apply sharpening. ${errorMessage}`);
+        setError(`Failed to apply sharpening. ${errorMessage}`, err);
         console.error("Caught error in handleApplySharpen:", err);
     } finally {
-        setIsLoading(false);
+        endOperation(signal);
     }
   }, [currentImage, addImageToHistory]);
 
-  const handleApplyGrain = useCallback(async (intensity: string) => {
+  const handleApplyGrain = useCallback(async (params: GrainParams) => {
     if (!currentImage) {
       setError('No image loaded to apply grain to.');
       return;
     }
     
     setIsLoading(true);
+    const signal = beginOperation();
     setError(null);
-    setPreviewFilter('');
     
     try {
-        const grainyImageUrl = await generateGrainImage(currentImage, intensity);
-        await addImageToHistory(grainyImageUrl);
+        const imageUrl = await applyGrainToImage(currentImage, params, signal);
+        if (signal.aborted) return;
+        await addImageToHistory(imageUrl);
     } catch (err) {
+        if (signal.aborted) return;
         const errorMessage = getErrorMessage(err);
-        setError(`Failed to apply grain. ${errorMessage}`);
+        setError(`Failed to apply grain. ${errorMessage}`, err);
         console.error("Caught error in handleApplyGrain:", err);
     } finally {
-        setIsLoading(false);
+        endOperation(signal);
+    }
+  }, [currentImage, addImageToHistory]);
+
+  const handleApplyVignette = useCallback(async (params: VignetteParams): Promise<boolean> => {
+    if (!currentImage) {
+      setError('No image loaded to apply a vignette to.');
+      return false;
+    }
+
+    setIsLoading(true);
+    const signal = beginOperation();
+    setError(null);
+
+    try {
+        const imageUrl = await applyVignetteToImage(currentImage, params, signal);
+        if (signal.aborted) return;
+        await addImageToHistory(imageUrl);
+        return true;
+    } catch (err) {
+        if (signal.aborted) return false;
+        const errorMessage = getErrorMessage(err);
+        setError(`Failed to apply the vignette. ${errorMessage}`, err);
+        console.error("Caught error in handleApplyVignette:", err);
+        return false;
+    } finally {
+        endOperation(signal);
     }
   }, [currentImage, addImageToHistory]);
 
   const handleApplyAutoEnhance = useCallback(async () => {
-    const autoEnhancePrompt = "Apply a suite of automatic adjustments to improve the image's overall visual appeal, including subtle improvements to brightness, contrast, saturation, and sharpness. The goal is a natural, photorealistic enhancement.";
-    await handleApplyAdjustment(autoEnhancePrompt);
+    await handleApplyAdjustment(renderPrompt(autoEnhancePrompt));
   }, [handleApplyAdjustment]);
 
   const handleApplyFaceRetouch = useCallback(async (settings: { skinSmoothing: number; eyeBrightening: number; selectedFaces: Face[] }) => {
@@ -742,18 +1390,21 @@ const App: React.FC = () => {
     }
     
     setIsLoading(true);
+    const signal = beginOperation();
     setError(null);
     setPreviewFilter('');
     
     try {
-        const retouchedImageUrl = await generateRetouchedFace(currentImage, settings);
-        await addImageToHistory(retouchedImageUrl);
+        const result = await generateRetouchedFace(currentImage, settings, signal);
+        if (signal.aborted) return;
+        await addImageToHistory(result.imageUrl, result.prompt.refs, result.warning);
     } catch (err) {
+        if (signal.aborted) return;
         const errorMessage = getErrorMessage(err);
-        setError(`Failed to apply face retouch. ${errorMessage}`);
+        setError(`Failed to apply face retouch. ${errorMessage}`, err);
         console.error("Caught error in handleApplyFaceRetouch:", err);
     } finally {
-        setIsLoading(false);
+        endOperation(signal);
     }
   }, [currentImage, addImageToHistory]);
 
@@ -764,18 +1415,21 @@ const App: React.FC = () => {
     }
     
     setIsLoading(true);
+    const signal = beginOperation();
     setError(null);
     setPreviewFilter('');
     
     try {
-        const swappedImageUrl = await generateFaceSwap(currentImage, sourceImage, targetFace, sourceFace);
-        await addImageToHistory(swappedImageUrl);
+        const result = await generateFaceSwap(currentImage, sourceImage, targetFace, sourceFace, signal);
+        if (signal.aborted) return;
+        await addImageToHistory(result.imageUrl, result.prompt.refs, result.warning);
     } catch (err) {
+        if (signal.aborted) return;
         const errorMessage = getErrorMessage(err);
-        setError(`Failed to apply face swap. ${errorMessage}`);
+        setError(`Failed to apply face swap. ${errorMessage}`, err);
         console.error("Caught error in handleApplyFaceSwap:", err);
     } finally {
-        setIsLoading(false);
+        endOperation(signal);
     }
   }, [currentImage, addImageToHistory]);
 
@@ -786,47 +1440,29 @@ const App: React.FC = () => {
     }
 
     setIsLoading(true);
+    const signal = beginOperation();
     setError(null);
     setPreviewFilter('');
 
     try {
         const { naturalWidth, naturalHeight } = imgRef.current;
         
-        // The AI will enhance details but might not change dimensions. The prompt guides it, but we'll enforce the final size.
-        const enhancedImageUrl = await generateUpscaledImage(currentImage, scale, detailIntensity, naturalWidth, naturalHeight);
-
-        // --- Client-side resizing to guarantee final dimensions ---
-        const image = new Image();
-        await new Promise<void>((resolve, reject) => {
-            image.onload = () => resolve();
-            image.onerror = (err) => reject(new Error('Failed to load the AI-enhanced image for resizing.'));
-            image.src = enhancedImageUrl;
+        // The service resamples the AI output to exactly the requested dimensions.
+        const result = await generateUpscaledImage(currentImage, scale, detailIntensity, naturalWidth, naturalHeight, signal, (completed, total) => {
+            if (!signal.aborted && total > 1) {
+                setOperationProgress({ label: 'Upscaling tile', completed, total });
+            }
         });
-
-        const canvas = document.createElement('canvas');
-        const targetWidth = naturalWidth * scale;
-        const targetHeight = naturalHeight * scale;
-        canvas.width = targetWidth;
-        canvas.height = targetHeight;
-
-        const ctx = canvas.getContext('2d');
-        if (!ctx) {
-            throw new Error('Could not get canvas context for final resizing.');
-        }
-        
-        ctx.imageSmoothingQuality = 'high';
-        ctx.drawImage(image, 0, 0, targetWidth, targetHeight);
-
-        const finalDataUrl = canvas.toDataURL('image/png'); // Using PNG to preserve quality after upscale.
-        
-        await addImageToHistory(finalDataUrl);
+        if (signal.aborted) return;
+        await addImageToHistory(result.imageUrl, result.prompt.refs, result.warning);
 
     } catch (err) {
+        if (signal.aborted) return;
         const errorMessage = getErrorMessage(err);
-        setError(`Failed to upscale the image. ${errorMessage}`);
+        setError(`Failed to upscale the image. ${errorMessage}`, err);
         console.error("Caught error in handleApplyUpscale:", err);
     } finally {
-        setIsLoading(false);
+        endOperation(signal);
     }
   }, [currentImage, addImageToHistory]);
 
@@ -837,18 +1473,21 @@ const App: React.FC = () => {
     }
 
     setIsLoading(true);
+    const signal = beginOperation();
     setError(null);
     setPreviewFilter('');
 
     try {
-        const restoredImageUrl = await generateRestoredImage(currentImage);
-        await addImageToHistory(restoredImageUrl);
+        const result = await generateRestoredImage(currentImage, signal);
+        if (signal.aborted) return;
+        await addImageToHistory(result.imageUrl, result.prompt.refs, result.warning);
     } catch (err) {
+        if (signal.aborted) return;
         const errorMessage = getErrorMessage(err);
-        setError(`Failed to restore the image. ${errorMessage}`);
+        setError(`Failed to restore the image. ${errorMessage}`, err);
         console.error("Caught error in handleApplyRestoration:", err);
     } finally {
-        setIsLoading(false);
+        endOperation(signal);
     }
   }, [currentImage, addImageToHistory]);
 
@@ -942,7 +1581,7 @@ const App: React.FC = () => {
 
     } catch (err) {
         const errorMessage = getErrorMessage(err);
-        setError(`Failed to apply watermark. ${errorMessage}`);
+        setError(`Failed to apply watermark. ${errorMessage}`, err);
         console.error("Caught error in handleApplyWatermark:", err);
     } finally {
         setIsLoading(false);
@@ -956,19 +1595,22 @@ const App: React.FC = () => {
     }
 
     setIsLoading(true);
+    const signal = beginOperation();
     setError(null);
     setPreviewFilter('');
 
     try {
-        const removedBgImageUrl = await generateRemovedBackground(currentImage);
-        await addImageToHistory(removedBgImageUrl);
+        const result = await generateRemovedBackground(currentImage, signal);
+        if (signal.aborted) return;
+        await addImageToHistory(result.imageUrl, result.prompt.refs, result.warning);
         setIsBgRemovalMode(true);
     } catch (err) {
+        if (signal.aborted) return;
         const errorMessage = getErrorMessage(err);
-        setError(`Failed to remove the background. ${errorMessage}`);
+        setError(`Failed to remove the background. ${errorMessage}`, err);
         console.error("Caught error in handleRemoveBackground:", err);
     } finally {
-        setIsLoading(false);
+        endOperation(signal);
     }
   }, [currentImage, addImageToHistory]);
 
@@ -979,6 +1621,7 @@ const App: React.FC = () => {
     }
 
     setIsLoading(true);
+    const signal = beginOperation();
     setError(null);
     setPreviewFilter('');
 
@@ -1034,90 +1677,108 @@ const App: React.FC = () => {
 
 
         // --- COMPOSITING LOGIC ---
-        const finalCanvas = document.createElement('canvas');
-        finalCanvas.width = foreground.naturalWidth;
-        finalCanvas.height = foreground.naturalHeight;
-        const finalCtx = finalCanvas.getContext('2d');
-        if (!finalCtx) {
-            throw new Error('Could not get final canvas context.');
-        }
-        
-        finalCtx.imageSmoothingQuality = 'high';
+        // Draws the corrected foreground (`fgCanvas`) over one background image, or over the solid color when `null`.
+        const composeOver = async (backgroundUrl: string | null): Promise<string> => {
+            const finalCanvas = document.createElement('canvas');
+            finalCanvas.width = foreground.naturalWidth;
+            finalCanvas.height = foreground.naturalHeight;
+            const finalCtx = finalCanvas.getContext('2d');
+            if (!finalCtx) {
+                throw new Error('Could not get final canvas context.');
+            }
+            
+            finalCtx.imageSmoothingQuality = 'high';
+
+            // Step 2: Prepare and draw the new background layer.
+            if (backgroundUrl === null) {
+                finalCtx.fillStyle = settings.type === 'color' ? settings.value : 'transparent';
+                finalCtx.fillRect(0, 0, finalCanvas.width, finalCanvas.height);
+            } else {
+                const background = new Image();
+                // Important for CORS-loaded images
+                background.crossOrigin = "anonymous";
+                await new Promise<void>((resolve, reject) => {
+                    background.onload = () => resolve();
+                    background.onerror = (err) => reject(err);
+                    background.src = backgroundUrl;
+                });
 
-        // Step 2: Prepare and draw the new background layer.
-        if (settings.type === 'color') {
-            finalCtx.fillStyle = settings.value;
-            finalCtx.fillRect(0, 0, finalCanvas.width, finalCanvas.height);
-        } else {
-            // This 'else' block handles 'image', 'generate', and 'url'
-            if (settings.type === 'generate') {
-                backgroundImageUrl = await generateBackgroundImage(settings.value, finalCanvas.width, finalCanvas.height);
-            } else if (settings.type === 'image') {
-                backgroundImageUrl = URL.createObjectURL(settings.value);
-                isObjectURL = true;
-            } else { // url
-                try {
-                    // Note: This can fail due to CORS. Using a proxy or server-side fetch is more robust.
-                    // For this client-side app, we'll try and provide a good error message.
-                    const response = await fetch(settings.value);
-                    if (!response.ok) throw new Error(`Failed to fetch image from URL (status: ${response.status})`);
-                    const blob = await response.blob();
-                    backgroundImageUrl = URL.createObjectURL(blob);
-                    isObjectURL = true;
-                } catch (fetchError) {
-                    console.error("Error fetching image from URL:", fetchError);
-                    throw new Error("Could not load the image from the provided URL. The server might be blocking the request (CORS policy). Please try a different URL or download the image and upload it directly.");
+                // Draw background image to fill canvas (cover)
+                const canvasAspect = finalCanvas.width / finalCanvas.height;
+                const bgAspect = background.naturalWidth / background.naturalHeight;
+                let sx = 0, sy = 0, sWidth = background.naturalWidth, sHeight = background.naturalHeight;
+
+                if (bgAspect > canvasAspect) { // Background is wider, crop sides
+                    sWidth = background.naturalHeight * canvasAspect;
+                    sx = (background.naturalWidth - sWidth) / 2;
+                } else { // Background is taller, crop top/bottom
+                    sHeight = background.naturalWidth / canvasAspect;
+                    sy = (background.naturalHeight - sHeight) / 2;
                 }
+                finalCtx.drawImage(background, sx, sy, sWidth, sHeight, 0, 0, finalCanvas.width, finalCanvas.height);
             }
 
-            if (!backgroundImageUrl) {
-                throw new Error("Background image could not be loaded.");
-            }
+            // Step 3: Draw the corrected foreground on top of the background.
+            finalCtx.drawImage(fgCanvas, 0, 0);
 
-            const background = new Image();
-            // Important for CORS-loaded images
-            background.crossOrigin = "anonymous";
-            await new Promise<void>((resolve, reject) => {
-                background.onload = () => resolve();
-                background.onerror = (err) => reject(err);
-                background.src = backgroundImageUrl!;
-            });
+            return finalCanvas.toDataURL('image/png');
+        };
 
-            // Draw background image to fill canvas (cover)
-            const canvasAspect = finalCanvas.width / finalCanvas.height;
-            const bgAspect = background.naturalWidth / background.naturalHeight;
-            let sx = 0, sy = 0, sWidth = background.naturalWidth, sHeight = background.naturalHeight;
-
-            if (bgAspect > canvasAspect) { // Background is wider, crop sides
-                sWidth = background.naturalHeight * canvasAspect;
-                sx = (background.naturalWidth - sWidth) / 2;
-            } else { // Background is taller, crop top/bottom
-                sHeight = background.naturalWidth / canvasAspect;
-                sy = (background.naturalHeight - sHeight) / 2;
+        if (settings.type === 'generate') {
+            // Each generated variant is composited separately, then the user picks among the finished images.
+            const run = async (runSignal: AbortSignal, fresh?: boolean) => {
+                const generated = await generateVariants(variantCount, variant =>
+                    generateBackgroundImage(settings.value, foreground.naturalWidth, foreground.naturalHeight, runSignal, variant), { fresh, signal: runSignal });
+                return Promise.all(generated.map(async result => ({ ...result, imageUrl: await composeOver(result.imageUrl) })));
+            };
+            const results = await run(signal);
+            if (signal.aborted) return;
+            await presentResults(results, () => setIsBgRemovalMode(false), runSignal => run(runSignal, true));
+            return;
+        }
+
+        // This handles 'image' and 'url'
+        if (settings.type === 'image') {
+            backgroundImageUrl = URL.createObjectURL(settings.value);
+            isObjectURL = true;
+        } else if (settings.type === 'url') {
+            try {
+                // Note: This can fail due to CORS. Using a proxy or server-side fetch is more robust.
+                // For this client-side app, we'll try and provide a good error message.
+                const response = await fetch(settings.value, { signal });
+                if (!response.ok) throw new Error(`Failed to fetch image from URL (status: ${response.status})`);
+                const blob = await response.blob();
+                backgroundImageUrl = URL.createObjectURL(blob);
+                isObjectURL = true;
+            } catch (fetchError) {
+                console.error("Error fetching image from URL:", fetchError);
+                throw new Error("Could not load the image from the provided URL. The server might be blocking the request (CORS policy). Please try a different URL or download the image and upload it directly.");
             }
-            finalCtx.drawImage(background, sx, sy, sWidth, sHeight, 0, 0, finalCanvas.width, finalCanvas.height);
         }
 
-        // Step 3: Draw the corrected foreground (`fgCanvas`) on top of the background.
-        finalCtx.drawImage(fgCanvas, 0, 0);
+        if (settings.type !== 'color' && !backgroundImageUrl) {
+            throw new Error("Background image could not be loaded.");
+        }
 
-        const finalDataUrl = finalCanvas.toDataURL('image/png');
+        const finalDataUrl = await composeOver(backgroundImageUrl);
 
         if (isObjectURL && backgroundImageUrl) {
             URL.revokeObjectURL(backgroundImageUrl);
         }
 
+        if (signal.aborted) return;
         await addImageToHistory(finalDataUrl);
         setIsBgRemovalMode(false);
 
     } catch (err) {
+        if (signal.aborted) return;
         const errorMessage = getErrorMessage(err);
-        setError(`Failed to apply new background. ${errorMessage}`);
+        setError(`Failed to apply new background. ${errorMessage}`, err);
         console.error("Caught error in handleApplyNewBackground:", err);
     } finally {
-        setIsLoading(false);
+        endOperation(signal);
     }
-  }, [currentImageUrl, addImageToHistory]);
+  }, [currentImageUrl, addImageToHistory, presentResults, variantCount]);
 
 
   const handleApplyAllOverlays = useCallback(async () => {
@@ -1183,7 +1844,7 @@ const App: React.FC = () => {
 
     } catch (err) {
         const errorMessage = getErrorMessage(err);
-        setError(`Failed to apply overlays. ${errorMessage}`);
+        setError(`Failed to apply overlays. ${errorMessage}`, err);
         console.error("Caught error in handleApplyAllOverlays:", err);
     } finally {
         setIsLoading(false);
@@ -1197,18 +1858,21 @@ const App: React.FC = () => {
     }
     
     setIsLoading(true);
+    const signal = beginOperation();
     setError(null);
     setPreviewFilter('');
     
     try {
-        const newImageUrl = await generateDoubleExposure(currentImage, settings.overlayFile, settings.blendMode, settings.opacity);
-        await addImageToHistory(newImageUrl);
+        const result = await generateDoubleExposure(currentImage, settings.overlayFile, settings.blendMode, settings.opacity, signal);
+        if (signal.aborted) return;
+        await addImageToHistory(result.imageUrl, result.prompt.refs, result.warning);
     } catch (err) {
+        if (signal.aborted) return;
         const errorMessage = getErrorMessage(err);
-        setError(`Failed to apply double exposure. ${errorMessage}`);
+        setError(`Failed to apply double exposure. ${errorMessage}`, err);
         console.error("Caught error in handleApplyDoubleExposure:", err);
     } finally {
-        setIsLoading(false);
+        endOperation(signal);
     }
   }, [currentImage, addImageToHistory]);
 
@@ -1279,6 +1943,33 @@ const App: React.FC = () => {
         } as PixelCrop;
 
 
+    // Perspective corrections are warped by the pixel engine, rotation included. The warped
+    // image keeps the displayed image's frame, so the crop is taken from it the same way.
+    let source: CanvasImageSource = image;
+    let rotationToDraw = rotation;
+    if (!isIdentityQuad(perspective.quad)) {
+        if (!currentImage) {
+            setError('No image loaded to correct.');
+            return;
+        }
+        setIsLoading(true);
+        const signal = beginOperation();
+        setError(null);
+        try {
+            const correction = buildCorrection(perspective.quad, rotation, image.naturalWidth, image.naturalHeight);
+            source = await loadImageSource(await applyPerspectiveToImage(currentImage, correction, signal));
+            rotationToDraw = 0;
+        } catch (err) {
+            if (signal.aborted) return;
+            const errorMessage = getErrorMessage(err);
+            setError(`Failed to correct the perspective. ${errorMessage}`, err);
+            console.error("Caught error in handleApplyCropAndRotate:", err);
+            return;
+        } finally {
+            endOperation(signal);
+        }
+    }
+
     const canvas = document.createElement('canvas');
     const ctx = canvas.getContext('2d');
 
@@ -1300,7 +1991,7 @@ const App: React.FC = () => {
     const cropX = cropToUse.x * scaleX;
     const cropY = cropToUse.y * scaleY;
 
-    const rotateRads = (rotation * Math.PI) / 180;
+    const rotateRads = (rotationToDraw * Math.PI) / 180;
     const centerX = image.naturalWidth / 2;
     const centerY = image.naturalHeight / 2;
 
@@ -1317,7 +2008,7 @@ const App: React.FC = () => {
     
     // 5. Draw the rotated image
     ctx.drawImage(
-      image,
+      source,
       0,
       0,
       image.naturalWidth,
@@ -1329,7 +2020,30 @@ const App: React.FC = () => {
     const resultDataUrl = canvas.toDataURL('image/png');
     await addImageToHistory(resultDataUrl);
 
-  }, [completedCrop, addImageToHistory, rotation]);
+  }, [completedCrop, addImageToHistory, rotation, perspective, currentImage]);
+
+  const handleKeystoneChange = useCallback((vertical: number, horizontal: number) => {
+    setPerspective({ vertical, horizontal, quad: keystoneQuad(vertical, horizontal) });
+  }, []);
+
+  const handleStraighten = useCallback((angle: number) => {
+    setRotation(prev => Math.min(45, Math.max(-45, Math.round((prev + angle) * 10) / 10)));
+    setCropTool('crop');
+  }, []);
+
+  // With auto-crop on, the crop selection follows the largest rectangle the corrected image fills.
+  useEffect(() => {
+    const image = imgRef.current;
+    if (!isAutoCrop || activeTab !== 'crop' || !image || !image.naturalWidth || !image.width) return;
+    const { naturalWidth, naturalHeight } = image;
+    const correction = buildCorrection(perspective.quad, rotation, naturalWidth, naturalHeight);
+    const rect = largestValidRect(correction, naturalWidth, naturalHeight, aspect);
+    const scale = image.width / naturalWidth;
+    const selection: PixelCrop = { unit: 'px', x: rect.x * scale, y: rect.y * scale, width: rect.width * scale, height: rect.height * scale };
+    setCrop(selection);
+    setCompletedCrop(selection);
+    // imageAspectRatio is set once the image has loaded and has its size.
+  }, [isAutoCrop, activeTab, perspective, rotation, aspect, currentImageUrl, imageAspectRatio]);
 
   const handleAutoRotate = useCallback(async () => {
     if (!currentImage) {
@@ -1338,40 +2052,47 @@ const App: React.FC = () => {
     }
 
     setIsLoading(true);
+    const signal = beginOperation();
     setError(null);
     setPreviewFilter('');
     
     try {
-      const rotatedImageUrl = await generateCorrectedOrientation(currentImage);
-      await addImageToHistory(rotatedImageUrl);
+      // A camera's orientation tag is fixed exactly; only untagged images need the model.
+      const bakedUrl = await bakeExifOrientation(currentImage);
+      if (bakedUrl) {
+        if (signal.aborted) return;
+        await addImageToHistory(bakedUrl);
+        return;
+      }
+      const result = await generateCorrectedOrientation(currentImage, signal);
+      if (signal.aborted) return;
+      await addImageToHistory(result.imageUrl, result.prompt.refs, result.warning);
     } catch (err) {
+      if (signal.aborted) return;
       const errorMessage = getErrorMessage(err);
-      setError(`Failed to auto-rotate the image. ${errorMessage}`);
+      setError(`Failed to auto-rotate the image. ${errorMessage}`, err);
       console.error("Caught error in handleAutoRotate:", err);
     } finally {
-      setIsLoading(false);
+      endOperation(signal);
     }
   }, [currentImage, addImageToHistory]);
   
-  const handleRotateImage = useCallback(async (direction: 'clockwise' | 'counter-clockwise') => {
+  const handleTransformImage = useCallback(async (transform: OrientationTransform) => {
     if (!currentImage) {
       setError('No image loaded to rotate.');
       return;
     }
 
-    setIsLoading(true);
     setError(null);
     setPreviewFilter('');
-    
+
     try {
-      const rotatedImageUrl = await generateRotatedImage(currentImage, direction);
-      await addImageToHistory(rotatedImageUrl);
+      const imageUrl = await transformImage(currentImage, transform);
+      await addImageToHistory(imageUrl);
     } catch (err) {
       const errorMessage = getErrorMessage(err);
-      setError(`Failed to rotate the image. ${errorMessage}`);
-      console.error("Caught error in handleRotateImage:", err);
-    } finally {
-      setIsLoading(false);
+      setError(`Failed to rotate the image. ${errorMessage}`, err);
+      console.error("Caught error in handleTransformImage:", err);
     }
   }, [currentImage, addImageToHistory]);
 
@@ -1382,6 +2103,7 @@ const App: React.FC = () => {
     }
 
     setIsLoading(true);
+    const signal = beginOperation();
     setError(null);
     setPreviewFilter('');
 
@@ -1426,16 +2148,18 @@ const App: React.FC = () => {
         const targetWidth = naturalWidth;
         const targetHeight = naturalHeight;
 
-        const zoomedImageUrl = await generateZoomedImage(croppedFile, targetWidth, targetHeight, detailIntensity);
+        const result = await generateZoomedImage(croppedFile, targetWidth, targetHeight, detailIntensity, signal);
 
-        await addImageToHistory(zoomedImageUrl);
+        if (signal.aborted) return;
+        await addImageToHistory(result.imageUrl, result.prompt.refs, result.warning);
 
     } catch (err) {
+        if (signal.aborted) return;
         const errorMessage = getErrorMessage(err);
-        setError(`Failed to apply AI Zoom. ${errorMessage}`);
+        setError(`Failed to apply AI Zoom. ${errorMessage}`, err);
         console.error("Caught error in handleApplyZoom:", err);
     } finally {
-        setIsLoading(false);
+        endOperation(signal);
     }
   }, [editHotspot, addImageToHistory]);
 
@@ -1451,6 +2175,7 @@ const App: React.FC = () => {
       setActiveOverlayId(null);
       setMaskDataUrl(null);
       setRotation(0);
+      setPerspective(NO_PERSPECTIVE);
       setPreviewFilter('');
       resetViewTransform();
     }
@@ -1468,6 +2193,7 @@ const App: React.FC = () => {
       setActiveOverlayId(null);
       setMaskDataUrl(null);
       setRotation(0);
+      setPerspective(NO_PERSPECTIVE);
       setPreviewFilter('');
       resetViewTransform();
     }
@@ -1486,6 +2212,7 @@ const App: React.FC = () => {
       setActiveOverlayId(null);
       setMaskDataUrl(null);
       setRotation(0);
+      setPerspective(NO_PERSPECTIVE);
       setPreviewFilter('');
       resetViewTransform();
     }
@@ -1505,6 +2232,7 @@ const App: React.FC = () => {
             setCompletedCrop(undefined);
             setMaskDataUrl(null);
             setRotation(0);
+            setPerspective(NO_PERSPECTIVE);
             setPreviewFilter('');
             resetViewTransform();
         }
@@ -1514,6 +2242,8 @@ const App: React.FC = () => {
       localStorage.removeItem('utilpic-session');
       await clearHistoryDB();
       setHistory([]);
+      setHistoryPrompts([]);
+      setHistoryBranches([]);
       setHistoryIndex(-1);
       setError(null);
       setPrompt('');
@@ -1526,6 +2256,7 @@ const App: React.FC = () => {
       setActiveOverlayId(null);
       setMaskDataUrl(null);
       setRotation(0);
+      setPerspective(NO_PERSPECTIVE);
       setPreviewFilter('');
       resetViewTransform();
   }, [resetViewTransform]);
@@ -1541,30 +2272,35 @@ const App: React.FC = () => {
 
     setIsLoading(true);
     try {
-        const image = new Image();
-        
-        await new Promise<void>((resolve, reject) => {
-            image.onload = () => resolve();
-            image.onerror = (err) => reject(err);
-            image.src = currentImageUrl;
-        });
+        const encode = async () => {
+            const image = new Image();
+            
+            await new Promise<void>((resolve, reject) => {
+                image.onload = () => resolve();
+                image.onerror = (err) => reject(err);
+                image.src = currentImageUrl;
+            });
 
-        const canvas = document.createElement('canvas');
-        canvas.width = image.naturalWidth;
-        canvas.height = image.naturalHeight;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) {
-            throw new Error("Could not create canvas context for download.");
+            const canvas = document.createElement('canvas');
+            canvas.width = image.naturalWidth;
+            canvas.height = image.naturalHeight;
+            const ctx = canvas.getContext('2d');
+            if (!ctx) {
+                throw new Error("Could not create canvas context for download.");
+            };
+            ctx.drawImage(image, 0, 0);
+            
+            const quality = (settings.format === 'jpeg' || settings.format === 'webp') ? settings.quality / 100 : undefined;
+            const mimeType = `image/${settings.format}`;
+            
+            return canvas.toDataURL(mimeType, quality);
         };
-        ctx.drawImage(image, 0, 0);
-        
-        const quality = (settings.format === 'jpeg' || settings.format === 'webp') ? settings.quality / 100 : undefined;
-        const mimeType = `image/${settings.format}`;
-        
-        const dataUrl = canvas.toDataURL(mimeType, quality);
+
+        // Blob-backed images, such as large upscales, may not fit in a canvas; they are already PNGs.
+        const isStoredPng = getImageBlob(currentImageUrl)?.type === 'image/png' && settings.format === 'png';
         
         const link = document.createElement('a');
-        link.href = dataUrl;
+        link.href = isStoredPng ? currentImageUrl : await encode();
         
         const fileExtension = settings.format;
         const baseName = `utilpic-edit-${historyIndex}`;
@@ -1576,7 +2312,7 @@ const App: React.FC = () => {
         
     } catch (err) {
         const errorMessage = getErrorMessage(err);
-        setError(`Failed to process image for download. ${errorMessage}`);
+        setError(`Failed to process image for download. ${errorMessage}`, err);
     } finally {
         setIsLoading(false);
         setIsDownloadModalOpen(false);
@@ -1629,6 +2365,35 @@ const App: React.FC = () => {
     };
 }, []);
 
+  // Corrects white, black or gray point from the color at `point` (natural coordinates). The correction
+  // is computed exactly from the sample; the model is only used when asked for, or when the sample
+  // can't serve as that kind of reference.
+  const handleEyedropperPick = useCallback(async (picker: ColorPickerType, point: { x: number; y: number }) => {
+    if (!currentImageUrl) return;
+
+    let rgb: [number, number, number];
+    try {
+        const sampler = pixelSamplerRef.current ?? await createPixelSampler(currentImageUrl);
+        rgb = sampler.sample(point.x, point.y, eyedropperOptions.sampleSize);
+    } catch (err) {
+        setError('Could not process image for color picking.', err);
+        return;
+    }
+
+    const tables = eyedropperOptions.useAi ? null : eyedropperTables(picker, rgb);
+    if (tables) {
+        await handleApplyChannelTables(tables);
+        return;
+    }
+
+    const [r, g, b] = rgb;
+    const prompt = renderPrompt(picker === 'white' ? whitePointPrompt : picker === 'black' ? blackPointPrompt : grayPointPrompt, { r, g, b });
+    const notice = eyedropperOptions.useAi
+        ? undefined
+        : `RGB(${r}, ${g}, ${b}) can't anchor an exact ${picker} point, so the AI model made this correction instead.`;
+    await handleApplyAdjustment(prompt, notice);
+  }, [currentImageUrl, eyedropperOptions, handleApplyChannelTables, handleApplyAdjustment]);
+
   const handleImageClick = (e: React.PointerEvent<HTMLDivElement>) => {
     if (!isZoomPanEnabled) return;
     
@@ -1643,36 +2408,7 @@ const App: React.FC = () => {
     }
 
     if (activeColorPicker) {
-        const img = imgRef.current;
-        if (!img) return;
-
-        const canvas = document.createElement('canvas');
-        canvas.width = img.naturalWidth;
-        canvas.height = img.naturalHeight;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) {
-            setError('Could not process image for color picking.');
-            return;
-        }
-        ctx.drawImage(img, 0, 0, img.naturalWidth, img.naturalHeight);
-        const pixelData = ctx.getImageData(coords.edit.x, coords.edit.y, 1, 1).data;
-        const [r, g, b] = pixelData;
-        
-        let prompt = '';
-        switch (activeColorPicker) {
-            case 'white':
-                prompt = `Perform a precise levels and white balance correction on the entire image. A color that should be pure white is currently showing as RGB(${r}, ${g}, ${b}). Adjust the overall color cast and highlights to make this color pure white (255, 255, 255) while maintaining natural tones elsewhere.`;
-                break;
-            case 'black':
-                prompt = `Perform a precise levels adjustment on the entire image. A color that should be pure black is currently showing as RGB(${r}, ${g}, ${b}). Adjust the overall shadows to make this color pure black (0, 0, 0) without crushing details in other areas.`;
-                break;
-            case 'gray':
-            default:
-                prompt = `Perform a precise white balance correction on the entire image. A color that should be neutral gray is currently showing as RGB(${r}, ${g}, ${b}). Adjust the overall color cast of the image to make this color a neutral gray, ensuring the correction is applied naturally across all tones.`;
-                break;
-        }
-        
-        handleApplyAdjustment(prompt);
+        handleEyedropperPick(activeColorPicker, coords.edit);
         setActiveColorPicker(null); // Turn off picking mode after selection
     }
 };
@@ -1682,11 +2418,13 @@ const App: React.FC = () => {
         setIsLoading(true);
         setError(null);
         try {
-            const historyImages = await getAllHistoryImagesDB(sessionToRestore.historyLength);
-            if (historyImages.length !== sessionToRestore.historyLength) {
+            const historyRecords = await getAllHistoryRecordsDB(sessionToRestore.historyLength);
+            if (historyRecords.length !== sessionToRestore.historyLength) {
                 throw new Error("Mismatch between session metadata and stored images. Session may be corrupt.");
             }
-            setHistory(historyImages);
+            setHistory(historyRecords.map(record => record.imageDataUrl));
+            setHistoryPrompts(historyRecords.map(record => record.prompt));
+            setHistoryBranches(historyRecords.map(record => record.branches?.map(branch => ({ imageUrl: branch.imageDataUrl, promptRefs: branch.prompt }))));
             setHistoryIndex(sessionToRestore.historyIndex);
             if (sessionToRestore.activeTab) {
                 setActiveTab(sessionToRestore.activeTab);
@@ -1697,10 +2435,12 @@ const App: React.FC = () => {
         } catch (e) {
             const errorMessage = getErrorMessage(e);
             console.error("Failed to restore session files from IndexedDB:", e);
-            setError(`Could not restore session. The saved data might be corrupted. ${errorMessage} Starting a new session.`);
+            setError(`Could not restore session. The saved data might be corrupted. ${errorMessage} Starting a new session.`, e);
             localStorage.removeItem('utilpic-session');
             await clearHistoryDB();
             setHistory([]);
+            setHistoryPrompts([]);
+            setHistoryBranches([]);
             setHistoryIndex(-1);
         } finally {
             setSessionToRestore(null);
@@ -1714,6 +2454,8 @@ const App: React.FC = () => {
       await clearHistoryDB();
       setSessionToRestore(null);
       setHistory([]);
+      setHistoryPrompts([]);
+      setHistoryBranches([]);
       setHistoryIndex(-1);
   };
   
@@ -1722,34 +2464,49 @@ const App: React.FC = () => {
     setShowSuggestions(false);
   };
 
-  const handleApplyMask = useCallback(async (newMaskDataUrl: string, autoPrompt?: string) => {
+  const handleApplyMask = useCallback(async (newMaskDataUrl: string, autoPrompt?: RenderedPrompt, localContrast?: LocalContrastParams) => {
     setMaskDataUrl(newMaskDataUrl);
     
-    if (autoPrompt) {
+    if (autoPrompt || localContrast) {
         // If the mask editor provided a generated prompt, apply it immediately.
         // We need to wait for state updates, so we'll call generate directly with the new mask data
         // instead of relying on state (which might be stale in this callback scope)
         setIsLoading(true);
+        const signal = beginOperation();
         setError(null);
         setPreviewFilter('');
         try {
-            let maskFile: File | undefined = undefined;
-            if (imgRef.current) {
-                maskFile = await createBlackAndWhiteMask(newMaskDataUrl, imgRef.current.naturalWidth, imgRef.current.naturalHeight);
-            }
-            
             // We use the current image file memoized in the component scope
-            if (currentImage) {
-                const editedImageUrl = await generateEditedImage(currentImage, autoPrompt, null, maskFile);
-                await addImageToHistory(editedImageUrl);
-                // Clear mask after successful generation
-                setMaskDataUrl(null); 
+            if (!currentImage) {
+                throw new Error('There is no image to apply the mask to.');
             }
+            // Size the mask from the image file itself, so it can always be built even if the preview is not mounted.
+            const { width, height } = await getImageSize(currentImage);
+            const maskFile = await createBlackAndWhiteMask(newMaskDataUrl, width, height);
+
+            let source = currentImage;
+            if (localContrast) {
+                // Clarity and dehaze run locally over the whole image and are blended in through the mask.
+                const processedUrl = await applyLocalContrastToImage(currentImage, localContrast, signal);
+                const blendedUrl = await compositeEdit(currentImage, processedUrl, { type: 'mask', mask: maskFile }, 0);
+                source = dataURLtoFile(blendedUrl, 'local-adjustments.png');
+            }
+            if (autoPrompt) {
+                const result = await generateEditedImage(source, autoPrompt, null, maskFile, signal);
+                if (signal.aborted) return;
+                await addImageToHistory(result.imageUrl, result.prompt.refs, result.warning);
+            } else {
+                if (signal.aborted) return;
+                await addImageToHistory(await fileToDataURL(source));
+            }
+            // Clear mask after successful generation
+            setMaskDataUrl(null);
         } catch (err) {
+            if (signal.aborted) return;
              const errorMessage = getErrorMessage(err);
-            setError(`Failed to apply local adjustments. ${errorMessage}`);
+            setError(`Failed to apply local adjustments. ${errorMessage}`, err);
         } finally {
-            setIsLoading(false);
+            endOperation(signal);
             setActiveTab('retouch'); // Return to main view
         }
     } else {
@@ -1758,8 +2515,8 @@ const App: React.FC = () => {
     }
   }, [addImageToHistory, currentImage]);
 
-  const handleOpenBatchPresetModal = useCallback((prompt: string, name:string, type: 'filter' | 'colorGrade' | 'adjustment') => {
-    setBatchPresetInfo({ prompt, name, type });
+  const handleOpenBatchPresetModal = useCallback((preset: BatchPreset) => {
+    setBatchPresetInfo(preset);
     setIsBatchPresetModalOpen(true);
   }, []);
 
@@ -1869,6 +2626,16 @@ const App: React.FC = () => {
   };
 
   const handlePointerDown = (e: React.PointerEvent) => {
+    if (e.button === 0 && activeTab === 'hsl' && isHslTargeted && !isSplitView) {
+        const coords = getCoordsFromEvent(e);
+        const sampler = pixelSamplerRef.current;
+        if (coords && sampler) {
+            const rgb = sampler.sample(coords.edit.x, coords.edit.y, HSL_TARGET_SAMPLE_SIZE);
+            hslDragRef.current = { weights: hslBandWeights(rgb), startY: e.clientY, start: hslAdjustments };
+            e.currentTarget.setPointerCapture(e.pointerId);
+        }
+        return;
+    }
     if (e.button !== 0 || !isZoomPanEnabled) return;
     setIsDragging(false); 
     if (viewTransform.scale > 1) {
@@ -1881,6 +2648,21 @@ const App: React.FC = () => {
   };
 
   const handlePointerMove = (e: React.PointerEvent) => {
+    if (isInfoPanelOpen) {
+        const coords = getCoordsFromEvent(e);
+        const sampler = pixelSamplerRef.current;
+        cursorSampleStore.set(coords && sampler ? { ...coords.edit, rgb: sampler.sample(coords.edit.x, coords.edit.y) } : null);
+    }
+    const hslDrag = hslDragRef.current;
+    if (hslDrag) {
+        // One step per pixel dragged upwards, shared out by how much the color belongs to each band.
+        const delta = hslDrag.startY - e.clientY;
+        setHslAdjustments(Object.fromEntries(HSL_BANDS.map(({ band }, i) => {
+            const value = Math.round(Math.min(100, Math.max(-100, hslDrag.start[band][hslChannel] + delta * hslDrag.weights[i])));
+            return [band, { ...hslDrag.start[band], [hslChannel]: value }];
+        })) as HslAdjustments);
+        return;
+    }
     if (isDraggingSplitter.current) {
         const container = imageContainerRef.current;
         if (container) {
@@ -1910,6 +2692,13 @@ const App: React.FC = () => {
   };
 
   const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (hslDragRef.current) {
+        hslDragRef.current = null;
+        if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+            e.currentTarget.releasePointerCapture(e.pointerId);
+        }
+        return;
+    }
     if (isDraggingSplitter.current) {
         isDraggingSplitter.current = false;
         if ((e.target as HTMLElement).hasPointerCapture(e.pointerId)) {
@@ -1963,16 +2752,24 @@ const App: React.FC = () => {
     );
   }
 
+    // The corners tool shows the uncorrected image under its handles; otherwise the preview
+    // applies the same correction the warp will.
+    const cropImageStyle: React.CSSProperties = cropTool === 'corners'
+      ? {}
+      : !isIdentityQuad(perspective.quad) && imageLayout?.width
+        ? { transform: toCssMatrix3d(buildCorrection(perspective.quad, rotation, imageLayout.width, imageLayout.height)), transformOrigin: '0 0' }
+        : { transform: `rotate(${rotation}deg)` };
+
     // ReactCrop setup for crop image display
     const cropImageElement = (
       <img 
-        ref={imgRef}
+        ref={setImageElement}
         key={`crop-${currentImageUrl}`}
         src={currentImageUrl || ''} 
         onLoad={onImageLoad}
         alt="Crop this image"
         className="w-full h-auto object-contain max-h-full rounded-xl"
-        style={{ transform: `rotate(${rotation}deg)` }}
+        style={cropImageStyle}
         loading="lazy"
       />
     );
@@ -2021,6 +2818,7 @@ const App: React.FC = () => {
                         <button onClick={handleRedo} disabled={!canRedo} className="p-2 text-gray-400 hover:text-white disabled:opacity-30"><RedoIcon className="w-5 h-5"/></button>
                         <div className="h-6 w-px bg-gray-700 mx-2"></div>
                         <button onClick={() => setIsHistoryPanelOpen(true)} className="p-2 text-gray-400 hover:text-white"><HistoryIcon className="w-5 h-5"/></button>
+                        <button onClick={() => setIsSettingsModalOpen(true)} className="p-2 text-gray-400 hover:text-white" title="Settings"><CogIcon className="w-5 h-5"/></button>
                         <button onClick={handleDownload} className="bg-blue-600 hover:bg-blue-500 text-white px-4 py-2 rounded-lg text-sm font-semibold ml-2 shadow-lg shadow-blue-500/20">Download</button>
                      </div>
                 </header>
@@ -2028,10 +2826,22 @@ const App: React.FC = () => {
                 {/* Image Workspace */}
                 <div className="flex-grow relative overflow-hidden flex items-center justify-center">
                     {/* Error Display */}
-                    {error && (
-                         <div className="absolute top-4 left-1/2 -translate-x-1/2 z-50 bg-red-500/90 text-white px-6 py-3 rounded-lg shadow-xl backdrop-blur-md max-w-md text-center">
-                            <p>{error}</p>
-                            <button onClick={() => setError(null)} className="text-xs underline mt-1">Dismiss</button>
+                    {error && (() => {
+                        const remedy = error.kind ? getErrorRemedy(error.kind) : null;
+                        const tone = error.kind === 'quota' || error.kind === 'network' ? 'bg-amber-600/90' : error.kind === 'safety' ? 'bg-orange-600/90' : 'bg-red-500/90';
+                        return (
+                            <div className={`absolute top-4 left-1/2 -translate-x-1/2 z-50 ${tone} text-white px-6 py-3 rounded-lg shadow-xl backdrop-blur-md max-w-md text-center`}>
+                                {remedy && <p className="font-semibold">{remedy.title}</p>}
+                                <p>{error.message}</p>
+                                {remedy && <p className="text-sm mt-1 text-white/80">{remedy.remedy}</p>}
+                                <button onClick={() => setError(null)} className="text-xs underline mt-1">Dismiss</button>
+                            </div>
+                        );
+                    })()}
+                    {!error && notice && (
+                        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-50 bg-amber-600/90 text-white px-6 py-3 rounded-lg shadow-xl backdrop-blur-md max-w-md text-center">
+                            <p className="text-sm">{notice}</p>
+                            <button onClick={() => setNotice(null)} className="text-xs underline mt-1">Dismiss</button>
                         </div>
                     )}
                     
@@ -2046,19 +2856,55 @@ const App: React.FC = () => {
                         onPointerDown={handlePointerDown}
                         onPointerMove={handlePointerMove}
                         onPointerUp={handlePointerUp}
+                        onPointerLeave={() => cursorSampleStore.set(null)}
                        >
                             {isLoading && (
-                                <div className="absolute inset-0 z-50 flex flex-col items-center justify-center bg-black/60 backdrop-blur-sm">
+                                <div 
+                                    className="absolute inset-0 z-50 flex flex-col items-center justify-center bg-black/60 backdrop-blur-sm"
+                                    onPointerDown={e => e.stopPropagation()}
+                                    onPointerUp={e => e.stopPropagation()}
+                                >
                                     <Spinner />
-                                    <p className="text-gray-300 mt-4 animate-pulse">Processing...</p>
+                                    {operationProgress ? (
+                                        <div className="mt-4 w-64 text-center">
+                                            <p className="text-gray-300">
+                                                {operationProgress.label} {Math.min(operationProgress.completed + 1, operationProgress.total)} of {operationProgress.total}...
+                                            </p>
+                                            <div className="mt-2 h-1.5 bg-gray-700 rounded-full overflow-hidden">
+                                                <div className="h-full bg-blue-500 transition-all duration-300" style={{ width: `${operationProgress.completed / operationProgress.total * 100}%` }} />
+                                            </div>
+                                        </div>
+                                    ) : (
+                                        <p className="text-gray-300 mt-4 animate-pulse">Processing...</p>
+                                    )}
+                                    {canCancel && (
+                                        <button
+                                            onClick={handleCancelOperation}
+                                            className="mt-4 px-5 py-2 bg-white/10 hover:bg-white/20 text-gray-200 text-sm font-semibold rounded-lg border border-gray-600 transition"
+                                        >
+                                            Cancel
+                                        </button>
+                                    )}
                                 </div>
                             )}
 
                             {activeTab === 'crop' ? (
                                 <div className="w-full h-full flex items-center justify-center p-8 overflow-auto">
-                                    <ReactCrop crop={crop} onChange={c => setCrop(c)} onComplete={c => setCompletedCrop(c)} aspect={aspect}>
-                                        {cropImageElement}
-                                    </ReactCrop>
+                                    {cropTool === 'crop' ? (
+                                        <ReactCrop crop={crop} onChange={c => setCrop(c)} onComplete={c => setCompletedCrop(c)} aspect={aspect}>
+                                            {cropImageElement}
+                                        </ReactCrop>
+                                    ) : (
+                                        <div className="relative inline-block">
+                                            {cropImageElement}
+                                            <PerspectiveOverlay
+                                                mode={cropTool}
+                                                quad={perspective.quad}
+                                                onQuadChange={quad => setPerspective({ vertical: 0, horizontal: 0, quad })}
+                                                onStraighten={handleStraighten}
+                                            />
+                                        </div>
+                                    )}
                                 </div>
                             ) : (
                                 <div className="w-full h-full flex items-center justify-center overflow-hidden relative">
@@ -2077,7 +2923,7 @@ const App: React.FC = () => {
                                         {isSplitView ? (
                                             <div className="relative w-full h-full max-w-full max-h-full flex items-center justify-center">
                                                  <img 
-                                                    ref={imgRef}
+                                                    ref={setImageElement}
                                                     src={currentImageUrl} 
                                                     alt="Current" 
                                                     className="max-w-full max-h-full object-contain absolute"
@@ -2109,15 +2955,26 @@ const App: React.FC = () => {
                                                 )}
                                                 {/* Current Image */}
                                                  <img
-                                                    ref={imgRef}
+                                                    ref={setImageElement}
                                                     src={currentImageUrl}
                                                     alt="Current"
                                                     onLoad={onImageLoad}
                                                     className={`max-w-full max-h-full object-contain transition-opacity duration-200 ${isComparing ? 'opacity-0' : 'opacity-100'}`}
                                                     style={{ filter: previewFilter }}
                                                  />
+                                                 {/* Pixel Engine Preview, stretched over the image it was rendered from */}
+                                                 {pixelPreviewUrl && !isComparing && imageLayout && (
+                                                     <img
+                                                        src={pixelPreviewUrl}
+                                                        className="absolute pointer-events-none"
+                                                        style={{ width: imageLayout.width, height: imageLayout.height, filter: previewFilter }}
+                                                        alt="Preview"
+                                                     />
+                                                 )}
                                                  {/* Mask Overlay */}
                                                  {maskDataUrl && <img src={maskDataUrl} className="max-w-full max-h-full object-contain absolute pointer-events-none" alt="Mask"/>}
+                                                 {/* Clipping Overlay */}
+                                                 {clippingOverlayUrl && !isComparing && <img src={clippingOverlayUrl} className="max-w-full max-h-full object-contain absolute pointer-events-none" alt="Clipped pixels"/>}
                                             </>
                                         )}
                                         
@@ -2169,7 +3026,24 @@ const App: React.FC = () => {
                                 <button onMouseDown={() => setIsComparing(true)} onMouseUp={() => setIsComparing(false)} onMouseLeave={() => setIsComparing(false)} onTouchStart={() => setIsComparing(true)} onTouchEnd={() => setIsComparing(false)} className="p-2 hover:bg-white/10 rounded-full transition"><EyeIcon className="w-5 h-5 text-gray-300" /></button>
                                 <div className="w-px h-4 bg-gray-500"></div>
                                 <button onClick={() => setIsSplitView(!isSplitView)} className={`p-2 rounded-full transition ${isSplitView ? 'text-blue-400 bg-white/10' : 'text-gray-300 hover:bg-white/10'}`}><SplitScreenIcon className="w-5 h-5" /></button>
+                                <div className="w-px h-4 bg-gray-500"></div>
+                                <button onClick={() => setIsInfoPanelOpen(!isInfoPanelOpen)} className={`p-2 rounded-full transition ${isInfoPanelOpen ? 'text-blue-400 bg-white/10' : 'text-gray-300 hover:bg-white/10'}`} aria-label="Toggle info panel"><ChartBarIcon className="w-5 h-5" /></button>
                              </div>
+
+                             {/* Info Panel */}
+                             {isInfoPanelOpen && (
+                                <InfoPanel
+                                    histogram={histogram}
+                                    sampleStore={cursorSampleStore}
+                                    showHighlightClipping={showHighlightClipping}
+                                    showShadowClipping={showShadowClipping}
+                                    onToggleHighlightClipping={() => setShowHighlightClipping(!showHighlightClipping)}
+                                    onToggleShadowClipping={() => setShowShadowClipping(!showShadowClipping)}
+                                    dock={infoPanelDock}
+                                    onDockChange={setInfoPanelDock}
+                                    onClose={() => setIsInfoPanelOpen(false)}
+                                />
+                             )}
                              
                              {/* View Controls */}
                              {isZoomPanEnabled && (
@@ -2213,6 +3087,9 @@ const App: React.FC = () => {
                                         className="w-full bg-gray-900 border border-gray-600 text-gray-200 rounded-lg p-3 focus:ring-2 focus:ring-blue-500 focus:outline-none transition min-h-[100px] text-sm resize-none"
                                         disabled={isLoading}
                                     />
+                                    <div className="mt-3">
+                                        <VariantCountPicker value={variantCount} onChange={setVariantCount} disabled={isLoading} />
+                                    </div>
                                     <div className="flex gap-2 mt-3">
                                         {maskDataUrl && (
                                             <button onClick={() => setMaskDataUrl(null)} className="flex-1 bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 rounded-md transition text-sm">
@@ -2248,21 +3125,54 @@ const App: React.FC = () => {
                                 onApplyAutoEnhance={handleApplyAutoEnhance}
                                 onApplySharpen={handleApplySharpen}
                                 onApplyGrain={handleApplyGrain}
+                                onApplyVignette={handleApplyVignette}
                                 isLoading={isLoading} 
                                 onSetActivePicker={handleSetActivePicker}
                                 activePicker={activeColorPicker}
+                                eyedropperOptions={eyedropperOptions}
+                                onEyedropperOptionsChange={setEyedropperOptions}
                                 onApplyLocalAdjustment={handleApplyLocalAdjustment}
                                 isAreaSelected={!!editHotspot || !!maskDataUrl}
                                 onApplyStyleFromUrl={handleApplyStyleFromUrl}
-                                onBatchApply={(prompt, name) => handleOpenBatchPresetModal(prompt, name, 'adjustment')}
+                                onBatchApply={(prompt, name) => handleOpenBatchPresetModal({ type: 'adjustment', name, prompt })}
                                 onPreviewChange={setPreviewFilter}
+                                onApplyPixelAdjustments={handleApplyPixelAdjustments}
+                                previewImageLayout={previewImageLayout}
+                                histogram={histogram}
+                                onApplyChannelTables={handleApplyChannelTables}
+                                onApplyColorWheels={handleApplyColorWheels}
+                                onApplyLocalContrast={handleApplyLocalContrast}
+                                onPixelPreviewChange={setPanelPixelPreview}
                             />
                         )}
                         {activeTab === 'filters' && (
-                            <FilterPanel onApplyFilter={handleApplyFilter} isLoading={isLoading} onBatchApply={(prompt, name) => handleOpenBatchPresetModal(prompt, name, 'filter')} />
+                            <FilterPanel onApplyFilter={handleApplyFilter} isLoading={isLoading} variantCount={variantCount} onVariantCountChange={setVariantCount} onBatchApply={(prompt, name) => handleOpenBatchPresetModal({ type: 'filter', name, prompt })} />
                         )}
                         {activeTab === 'colorGrade' && (
-                            <ColorGradePanel onApplyColorGrade={handleApplyColorGrade} isLoading={isLoading} onBatchApply={(prompt, name) => handleOpenBatchPresetModal(prompt, name, 'colorGrade')} />
+                            <ColorGradePanel onApplyColorGrade={handleApplyColorGrade} isLoading={isLoading} variantCount={variantCount} onVariantCountChange={setVariantCount} onBatchApply={(prompt, name) => handleOpenBatchPresetModal({ type: 'colorGrade', name, prompt })} onApplyLut={handleApplyLut} onBatchApplyLut={(name, lut, options) => handleOpenBatchPresetModal({ type: 'lut', name, lut, options })} lutCaptureLabel={historyIndex > 0 ? `Edit ${historyIndex}` : null} onCaptureLut={handleCaptureLut} />
+                        )}
+                        {activeTab === 'hsl' && (
+                            <HslPanel
+                                hsl={hslAdjustments}
+                                onHslChange={setHslAdjustments}
+                                channel={hslChannel}
+                                onChannelChange={setHslChannel}
+                                isTargeted={isHslTargeted}
+                                onTargetedChange={setIsHslTargeted}
+                                onApplyHsl={handleApplyHsl}
+                                isLoading={isLoading}
+                            />
+                        )}
+                        {activeTab === 'blackAndWhite' && (
+                            <BlackAndWhitePanel
+                                onApplyBlackAndWhite={handleApplyBlackAndWhite}
+                                onBatchApplyBlackAndWhite={(mix, name) => handleOpenBatchPresetModal({ type: 'blackAndWhite', name, mix })}
+                                onApplySplitToning={handleApplySplitToning}
+                                onBatchApplySplitToning={(toning, name) => handleOpenBatchPresetModal({ type: 'splitToning', name, toning })}
+                                onPixelPreviewChange={setPanelPixelPreview}
+                                onPreviewChange={setPreviewFilter}
+                                isLoading={isLoading}
+                            />
                         )}
                          {activeTab === 'face' && (
                             <FaceRetouchPanel 
@@ -2285,15 +3195,30 @@ const App: React.FC = () => {
                                 onApply={handleApplyCropAndRotate} 
                                 onSetAspect={setAspect} 
                                 isLoading={isLoading} 
-                                canApply={(!!completedCrop?.width && completedCrop.width > 0) || rotation !== 0}
+                                canApply={(!!completedCrop?.width && completedCrop.width > 0) || rotation !== 0 || !isIdentityQuad(perspective.quad)}
                                 onAutoRotate={handleAutoRotate} 
-                                onRotateImage={handleRotateImage}
+                                onTransformImage={handleTransformImage}
                                 rotation={rotation}
                                 onRotationChange={setRotation}
+                                tool={cropTool}
+                                onToolChange={setCropTool}
+                                perspective={perspective}
+                                onKeystoneChange={handleKeystoneChange}
+                                onResetPerspective={() => setPerspective(NO_PERSPECTIVE)}
+                                isAutoCrop={isAutoCrop}
+                                onAutoCropChange={setIsAutoCrop}
+                            />
+                        )}
+                        {activeTab === 'lens' && (
+                            <LensCorrectionPanel
+                                onApplyLensCorrection={handleApplyLensCorrection}
+                                onBatchApplyLensCorrection={(correction, name) => handleOpenBatchPresetModal({ type: 'lensCorrection', name, correction })}
+                                onPixelPreviewChange={setPanelPixelPreview}
+                                isLoading={isLoading}
                             />
                         )}
                          {activeTab === 'background' && (
-                             <BackgroundPanel onRemoveBackground={handleRemoveBackground} onApplyNewBackground={handleApplyNewBackground} isLoading={isLoading} isBgRemovalMode={isBgRemovalMode} />
+                             <BackgroundPanel onRemoveBackground={handleRemoveBackground} onApplyNewBackground={handleApplyNewBackground} isLoading={isLoading} isBgRemovalMode={isBgRemovalMode} variantCount={variantCount} onVariantCountChange={setVariantCount} />
                         )}
                         {activeTab === 'overlay' && (
                             <OverlayPanel 
@@ -2325,7 +3250,10 @@ const App: React.FC = () => {
                             />
                         )}
                         {activeTab === 'restore' && (
-                             <RestorePanel onApplyRestore={handleApplyRestoration} isLoading={isLoading} />
+                            <div className="flex flex-col gap-4">
+                                <RestorePanel onApplyRestore={handleApplyRestoration} isLoading={isLoading} />
+                                <NoiseReductionPanel imageUrl={currentImageUrl} onApplyNoiseReduction={handleApplyNoiseReduction} isLoading={isLoading} />
+                            </div>
                         )}
                         {activeTab === 'watermark' && (
                              <WatermarkPanel onApplyWatermark={handleApplyWatermark} isLoading={isLoading} />
@@ -2369,19 +3297,33 @@ const App: React.FC = () => {
             <BatchPresetModal
                 isOpen={isBatchPresetModalOpen}
                 onClose={() => setIsBatchPresetModalOpen(false)}
-                presetName={batchPresetInfo.name}
-                presetPrompt={batchPresetInfo.prompt}
-                presetType={batchPresetInfo.type}
+                preset={batchPresetInfo}
             />
         )}
+        <SettingsModal
+            isOpen={isSettingsModalOpen}
+            onClose={() => setIsSettingsModalOpen(false)}
+        />
         {isHistoryPanelOpen && (
             <HistoryPanel 
                 history={history} 
+                historyPrompts={historyPrompts}
+                historyBranches={historyBranches}
                 currentIndex={historyIndex} 
                 onSelectHistory={handleHistorySelect} 
+                onSelectBranch={handleSelectBranch}
                 onClose={() => setIsHistoryPanelOpen(false)} 
             />
         )}
+        {variantChoices && (
+            <VariantPickerModal
+                variants={variantChoices.results.map(result => result.imageUrl)}
+                originalUrl={currentImageUrl}
+                onConfirm={handleConfirmVariants}
+                onCancel={() => setVariantChoices(null)}
+                onRegenerate={variantChoices.regenerate ? handleRegenerateVariants : undefined}
+            />
+        )}
         {/* Mask Editor: Rendered when tab is Mask OR specifically opened via state if we had a dedicated state. 
             Currently leveraging activeTab. For better UX, it overlays the whole screen. */}
         <MaskEditor
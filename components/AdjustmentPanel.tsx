@@ -6,25 +6,77 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
 import { EyedropperWBIcon, EyedropperWhiteIcon, EyedropperBlackIcon, SparklesIcon, SharpenIcon, GrainIcon, DocumentDuplicateIcon } from './icons.tsx';
+import { renderPrompt, type PromptInput, type PromptTemplate } from '../services/promptRegistry.ts';
+import { adjustmentPresetPrompts, sliderAdjustmentPrompt, artStylePrompt, localArtStylePrompt, type SliderAdjustments } from '../services/prompts.ts';
+import { isNeutralAdjustment, curvesToTables, isIdentityTables, levelsToTables, isDefaultLevels, isNeutralColorWheels, buildColorWheelOffsets, remapHistogram, DEFAULT_CURVES, DEFAULT_LEVELS, NEUTRAL_COLOR_WHEELS, type ChannelTables, type ColorWheelRange, type ColorWheels, type Curves, type Histogram, type Levels } from '../services/pixelEngine.ts';
+import { deleteColorWheelPreset, getColorWheelPresets, saveColorWheelPreset, type ColorWheelPreset } from '../services/colorWheelPresets.ts';
+import PixelPreviewFilter, { ChannelTablesFilter, LumaOffsetsFilter, PIXEL_PREVIEW_FILTER_ID } from './PixelPreviewFilter.tsx';
+import ColorWheelControl from './ColorWheelControl.tsx';
+import CurvesEditor from './CurvesEditor.tsx';
+import LevelsModal from './LevelsModal.tsx';
+import HistogramChart from './HistogramChart.tsx';
+import { DEFAULT_VIGNETTE, GRAIN_PRESETS, SHARPEN_PRESETS, type GrainParams, type GrainPresetName, type SharpenPresetName, type UnsharpMaskParams, type VignetteParams } from '../services/effects.ts';
+import { NEUTRAL_LOCAL_CONTRAST, isNeutralLocalContrast, type LocalContrastParams } from '../services/localContrast.ts';
+import type { PixelOperation } from '../services/pixelEngine.worker.ts';
 
 export type ColorPickerType = 'white' | 'black' | 'gray';
 
+export type EyedropperOptions = {
+  // Side of the square of pixels averaged around the picked point.
+  sampleSize: 1 | 3 | 5;
+  // Ask the AI model for the correction instead of computing it exactly.
+  useAi: boolean;
+};
+
 interface AdjustmentPanelProps {
-  onApplyAdjustment: (prompt: string) => void;
+  onApplyAdjustment: (prompt: PromptInput) => void;
   onApplyAutoEnhance: () => void;
-  onApplySharpen: (intensity: string) => void;
-  onApplyGrain: (intensity: string) => void;
+  onApplySharpen: (params: UnsharpMaskParams) => void;
+  onApplyGrain: (params: GrainParams) => void;
+  // Applies the vignette locally; resolves to whether the result was committed.
+  onApplyVignette: (params: VignetteParams) => Promise<boolean>;
   isLoading: boolean;
   onSetActivePicker: (picker: ColorPickerType | null) => void;
   activePicker: ColorPickerType | null;
-  onApplyLocalAdjustment: (prompt: string) => void;
+  eyedropperOptions: EyedropperOptions;
+  onEyedropperOptionsChange: (options: EyedropperOptions) => void;
+  onApplyLocalAdjustment: (prompt: PromptInput) => void;
   isAreaSelected: boolean;
   onApplyStyleFromUrl: (url: string) => void;
-  onBatchApply: (prompt: string, name: string) => void;
+  onBatchApply: (prompt: PromptInput, name: string) => void;
   onPreviewChange?: (filterStyle: string) => void;
+  // Applies the sliders locally; resolves to whether the result was committed.
+  onApplyPixelAdjustments: (adjustments: SliderAdjustments) => Promise<boolean>;
+  // Natural size of the displayed image and its on-screen scale including zoom, used to size the live preview's blur.
+  previewImageLayout?: { width: number; height: number; displayScale: number } | null;
+  // Histogram of the current history image, or null while it is being computed.
+  histogram: Histogram | null;
+  // Applies curves or levels locally; resolves to whether the result was committed.
+  onApplyChannelTables: (tables: ChannelTables) => Promise<boolean>;
+  // Applies the color wheels locally; resolves to whether the result was committed.
+  onApplyColorWheels: (wheels: ColorWheels) => Promise<boolean>;
+  // Applies clarity and dehaze locally; resolves to whether the result was committed.
+  onApplyLocalContrast: (params: LocalContrastParams) => Promise<boolean>;
+  // Operations previewed by the pixel engine over the image, for tools SVG filters can't express.
+  onPixelPreviewChange?: (operation: PixelOperation | null) => void;
 }
 
-const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, onApplyAutoEnhance, onApplySharpen, onApplyGrain, isLoading, onSetActivePicker, activePicker, onApplyLocalAdjustment, isAreaSelected, onApplyStyleFromUrl, onBatchApply, onPreviewChange }) => {
+const randomSeed = () => Math.floor(Math.random() * 100000);
+
+const matchesPreset = <T extends object>(params: T, preset: Partial<T>) =>
+  (Object.keys(preset) as (keyof T)[]).every(key => params[key] === preset[key]);
+
+const CURVES_PREVIEW_FILTER_ID = 'curves-preview';
+const LEVELS_PREVIEW_FILTER_ID = 'levels-preview';
+const COLOR_WHEELS_PREVIEW_FILTER_ID = 'color-wheels-preview';
+
+const COLOR_WHEEL_RANGES: { range: ColorWheelRange; label: string }[] = [
+  { range: 'lift', label: 'Lift' },
+  { range: 'gamma', label: 'Gamma' },
+  { range: 'gain', label: 'Gain' },
+];
+
+const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, onApplyAutoEnhance, onApplySharpen, onApplyGrain, onApplyVignette, isLoading, onSetActivePicker, activePicker, eyedropperOptions, onEyedropperOptionsChange, onApplyLocalAdjustment, isAreaSelected, onApplyStyleFromUrl, onBatchApply, onPreviewChange, onApplyPixelAdjustments, previewImageLayout, histogram, onApplyChannelTables, onApplyColorWheels, onApplyLocalContrast, onPixelPreviewChange }) => {
   // State for sliders
   const [exposure, setExposure] = useState(0);
   const [brightness, setBrightness] = useState(0);
@@ -34,84 +86,81 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, on
   const [saturation, setSaturation] = useState(0);
   const [temperature, setTemperature] = useState(0);
   const [blur, setBlur] = useState(0);
+  // Smart mode sends the slider values to the AI model instead of the local pixel engine.
+  const [smartMode, setSmartMode] = useState(false);
+
+  // State for Curves and Levels
+  const [curves, setCurves] = useState<Curves>(DEFAULT_CURVES);
+  const [levels, setLevels] = useState<Levels>(DEFAULT_LEVELS);
+  const [isLevelsOpen, setIsLevelsOpen] = useState(false);
+
+  // State for Color Wheels
+  const [colorWheels, setColorWheels] = useState<ColorWheels>(NEUTRAL_COLOR_WHEELS);
+  const [colorWheelPresets, setColorWheelPresets] = useState<ColorWheelPreset[]>(getColorWheelPresets);
+  const [wheelPresetName, setWheelPresetName] = useState('');
 
-  // State for Color Balance
-  const [highlightsRed, setHighlightsRed] = useState(0);
-  const [highlightsGreen, setHighlightsGreen] = useState(0);
-  const [highlightsBlue, setHighlightsBlue] = useState(0);
-  const [midtonesRed, setMidtonesRed] = useState(0);
-  const [midtonesGreen, setMidtonesGreen] = useState(0);
-  const [midtonesBlue, setMidtonesBlue] = useState(0);
-  const [shadowsRed, setShadowsRed] = useState(0);
-  const [shadowsGreen, setShadowsGreen] = useState(0);
-  const [shadowsBlue, setShadowsBlue] = useState(0);
+  // State for Clarity and Dehaze
+  const [localContrast, setLocalContrast] = useState<LocalContrastParams>(NEUTRAL_LOCAL_CONTRAST);
 
   // State for Vignette
-  const [vignetteAmount, setVignetteAmount] = useState(0);
-  const [vignetteSize, setVignetteSize] = useState(75);
-  const [vignetteFeather, setVignetteFeather] = useState(50);
+  const [vignetteAmount, setVignetteAmount] = useState(DEFAULT_VIGNETTE.amount);
+  const [vignetteSize, setVignetteSize] = useState(DEFAULT_VIGNETTE.size);
+  const [vignetteFeather, setVignetteFeather] = useState(DEFAULT_VIGNETTE.feather);
+
+  // State for Sharpen and Grain; the named intensities are presets over these parameters.
+  const [sharpen, setSharpen] = useState<UnsharpMaskParams>(SHARPEN_PRESETS.Natural);
+  const [grain, setGrain] = useState<GrainParams>(() => ({ ...GRAIN_PRESETS.Medium, seed: randomSeed() }));
 
 
   // State for custom prompt
   const [customPrompt, setCustomPrompt] = useState('');
   const [styleUrl, setStyleUrl] = useState('');
   
-  // Effect to generate live CSS preview string
-  useEffect(() => {
-    if (!onPreviewChange) return;
-
-    if (exposure === 0 && brightness === 0 && contrast === 0 && saturation === 0 && blur === 0 && temperature === 0) {
-        onPreviewChange('');
-        return;
-    }
-    
-    const filters: string[] = [];
-    
-    // Convert Exposure/Brightness to CSS Brightness (approx)
-    // Range -50 to 50. Map to percentage 50% to 150%.
-    const totalBrightness = exposure + brightness;
-    if (totalBrightness !== 0) {
-        filters.push(`brightness(${100 + totalBrightness}%)`);
-    }
+  // Exact slider values, shared by the live preview filter and the pixel engine.
+  const sliderAdjustments = useMemo<SliderAdjustments>(
+    () => ({ exposure, brightness, contrast, highlights, shadows, saturation, temperature, blur }),
+    [exposure, brightness, contrast, highlights, shadows, saturation, temperature, blur]
+  );
+  const isSliderChanged = !isNeutralAdjustment(sliderAdjustments);
+
+  const curvesTables = useMemo(() => curvesToTables(curves), [curves]);
+  const isCurvesChanged = !isIdentityTables(curvesTables);
+  const levelsTables = useMemo(() => levelsToTables(levels), [levels]);
+  const isLevelsPreviewed = isLevelsOpen && !isDefaultLevels(levels);
+  const isColorWheelsChanged = !isNeutralColorWheels(colorWheels);
+  const colorWheelOffsets = useMemo(() => buildColorWheelOffsets(colorWheels), [colorWheels]);
+  const curvesOutputHistogram = useMemo(() => histogram && remapHistogram(histogram, curvesTables), [histogram, curvesTables]);
+
+  // Point the image's CSS filter at the SVG preview filters of every pending tool.
+  const previewFilter = [
+    isSliderChanged && PIXEL_PREVIEW_FILTER_ID,
+    isCurvesChanged && CURVES_PREVIEW_FILTER_ID,
+    isLevelsPreviewed && LEVELS_PREVIEW_FILTER_ID,
+    isColorWheelsChanged && COLOR_WHEELS_PREVIEW_FILTER_ID,
+  ].filter(Boolean).map(id => `url(#${id})`).join(' ');
 
-    // Convert Contrast
-    if (contrast !== 0) {
-        filters.push(`contrast(${100 + contrast}%)`);
-    }
+  useEffect(() => {
+    onPreviewChange?.(previewFilter);
+  }, [previewFilter, onPreviewChange]);
 
-    // Convert Saturation
-    if (saturation !== 0) {
-        filters.push(`saturate(${100 + saturation}%)`);
-    }
-    
-    // Convert Blur
-    if (blur > 0) {
-        filters.push(`blur(${blur / 10}px)`);
-    }
-    
-    // Approx Temperature using Sepia and Hue-Rotate
-    if (temperature !== 0) {
-        if (temperature > 0) {
-            // Warm
-            filters.push(`sepia(${temperature * 0.5}%)`); 
-        } else {
-             // Cool (Hue rotate towards blue approx)
-             filters.push(`hue-rotate(${temperature / 2}deg)`); 
-        }
-    }
+  // The filter element disappears with the panel, so drop the reference to it too.
+  useEffect(() => () => onPreviewChange?.(''), [onPreviewChange]);
 
-    onPreviewChange(filters.join(' '));
+  const isLocalContrastChanged = !isNeutralLocalContrast(localContrast);
 
-  }, [exposure, brightness, contrast, saturation, blur, temperature, onPreviewChange]);
+  useEffect(() => {
+    onPixelPreviewChange?.(isLocalContrastChanged ? { type: 'localContrast', params: localContrast } : null);
+  }, [isLocalContrastChanged, localContrast, onPixelPreviewChange]);
 
+  useEffect(() => () => onPixelPreviewChange?.(null), [onPixelPreviewChange]);
 
   const presets = [
-    { name: 'Blur Background', prompt: 'Apply a realistic depth-of-field effect, making the background blurry while keeping the main subject in sharp focus.', description: 'Creates a "Portrait Mode" effect by blurring the background.' },
-    { name: 'Enhance Details', prompt: 'Slightly enhance the sharpness and details of the image without making it look unnatural.', description: 'Subtly sharpens the image to bring out fine textures.' },
-    { name: 'Warmer Lighting', prompt: 'Adjust the color temperature to give the image warmer, golden-hour style lighting.', description: 'Gives the photo a warm, sunny, "golden hour" feel.' },
-    { name: 'Balanced Lighting', prompt: "Adjust the lighting to be more balanced and natural across the entire image. Correct for any harsh shadows or blown-out highlights to create a photorealistic and evenly lit scene.", description: 'Evens out lighting, reducing harsh shadows and bright spots.' },
-    { name: 'Studio Light', prompt: 'Add dramatic, professional studio lighting to the main subject.', description: 'Adds dramatic lighting to make the main subject pop.' },
-    { name: 'Boost Color Vibrancy', prompt: 'Subtly increase the color saturation and vibrancy across the image for a more vivid, colorful look.', description: 'Makes colors pop without looking unnatural.' },
+    { name: 'Blur Background', prompt: adjustmentPresetPrompts.blurBackground, description: 'Creates a "Portrait Mode" effect by blurring the background.' },
+    { name: 'Enhance Details', prompt: adjustmentPresetPrompts.enhanceDetails, description: 'Subtly sharpens the image to bring out fine textures.' },
+    { name: 'Warmer Lighting', prompt: adjustmentPresetPrompts.warmerLighting, description: 'Gives the photo a warm, sunny, "golden hour" feel.' },
+    { name: 'Balanced Lighting', prompt: adjustmentPresetPrompts.balancedLighting, description: 'Evens out lighting, reducing harsh shadows and bright spots.' },
+    { name: 'Studio Light', prompt: adjustmentPresetPrompts.studioLight, description: 'Adds dramatic lighting to make the main subject pop.' },
+    { name: 'Boost Color Vibrancy', prompt: adjustmentPresetPrompts.boostColorVibrancy, description: 'Makes colors pop without looking unnatural.' },
   ];
 
   const artStyles = [
@@ -120,18 +169,18 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, on
     "Cyberpunk", "Vaporwave", "Bauhaus", "Minimalism", "Psychedelic Art", "Gothic Art", "Art Deco"
   ];
 
-  const handlePresetClick = (prompt: string) => {
+  const handlePresetClick = (prompt: PromptTemplate<void>) => {
     if (!isLoading) {
-      onApplyAdjustment(prompt);
+      onApplyAdjustment(renderPrompt(prompt));
     }
   };
   
   const handleArtStyleClick = (style: string) => {
       if (isLoading) return;
       if (isAreaSelected) {
-          onApplyLocalAdjustment(`Intelligently identify the object (e.g., an item of clothing, a specific background element) located at the selected point. Apply the '${style}' art style ONLY to that entire object. The rest of the image MUST remain untouched. Blend the edges of the styled area seamlessly into the original image for a natural look.`);
+          onApplyLocalAdjustment(renderPrompt(localArtStylePrompt, { style }));
       } else {
-          onApplyAdjustment(`Transform this entire image into the style of '${style}' art. Maintain the original content but change the artistic rendering to match the characteristics of ${style}.`);
+          onApplyAdjustment(renderPrompt(artStylePrompt, { style }));
       }
   };
 
@@ -158,142 +207,97 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, on
     setBlur(0);
   };
   
-  const isSliderChanged = useMemo(() => 
-    exposure !== 0 || brightness !== 0 || contrast !== 0 || highlights !== 0 || shadows !== 0 || saturation !== 0 || temperature !== 0 || blur !== 0, 
-    [exposure, brightness, contrast, highlights, shadows, saturation, temperature, blur]
-  );
-
-  const getSliderPrompt = () => {
-    const promptParts: string[] = [];
-
-    if (exposure !== 0) promptParts.push(`adjust exposure by ${exposure > 0 ? '+' : ''}${exposure}`);
-    if (brightness !== 0) promptParts.push(`adjust brightness by ${brightness > 0 ? '+' : ''}${brightness}`);
-    
-    if (contrast !== 0) {
-      const action = contrast > 0 ? 'Increase' : 'Decrease';
-      promptParts.push(`${action.toLowerCase()} contrast by ${Math.abs(contrast)}`);
+  const handleApplySliders = async () => {
+    if (isLoading || !isSliderChanged) return;
+    if (smartMode) {
+      onApplyAdjustment(renderPrompt(sliderAdjustmentPrompt, sliderAdjustments));
+      return;
     }
-
-    if (highlights !== 0) promptParts.push(`adjust highlights by ${highlights > 0 ? '+' : ''}${highlights}`);
-    if (shadows !== 0) promptParts.push(`adjust shadows by ${shadows > 0 ? '+' : ''}${shadows}`);
-    if (saturation !== 0) promptParts.push(`adjust saturation by ${saturation > 0 ? '+' : ''}${saturation}`);
-    
-    if (temperature !== 0) {
-        const tempDirection = temperature > 0 ? 'warmer' : 'cooler';
-        promptParts.push(`make the color temperature ${Math.abs(temperature)}% ${tempDirection}`);
+    if (await onApplyPixelAdjustments(sliderAdjustments)) {
+      handleResetSliders();
     }
+  };
 
-    if (blur > 0) {
-      promptParts.push(`apply a blur effect with an intensity of ${blur}`);
-    } else if (blur < 0) {
-      promptParts.push(`reduce blur (sharpen) with an intensity of ${Math.abs(blur)}`);
-    }
-    
-    if (promptParts.length > 0) {
-        promptParts[0] = promptParts[0].charAt(0).toUpperCase() + promptParts[0].slice(1);
-        const prompt = promptParts.length > 1 
-            ? `${promptParts.slice(0, -1).join(', ')} and ${promptParts.slice(-1)}`
-            : `${promptParts[0]}`;
-        return `${prompt}.`;
-    }
-    return null;
+  const handleBatchSliders = () => {
+    if (isLoading || !isSliderChanged || !smartMode) return;
+    onBatchApply(renderPrompt(sliderAdjustmentPrompt, sliderAdjustments), 'Manual Adjustment');
   };
 
-  const handleApplySliders = () => {
-    if (isLoading || !isSliderChanged) return;
-    const prompt = getSliderPrompt();
-    if (prompt) {
-        onApplyAdjustment(prompt);
+  const handleApplyCurves = async () => {
+    if (isLoading || !isCurvesChanged) return;
+    if (await onApplyChannelTables(curvesTables)) {
+      setCurves(DEFAULT_CURVES);
     }
   };
 
-  const handleBatchSliders = () => {
-    if (isLoading || !isSliderChanged) return;
-    const prompt = getSliderPrompt();
-    if (prompt) {
-        onBatchApply(prompt, 'Manual Adjustment');
+  const handleApplyLevels = async () => {
+    if (isLoading || isDefaultLevels(levels)) return;
+    if (await onApplyChannelTables(levelsTables)) {
+      setLevels(DEFAULT_LEVELS);
+      setIsLevelsOpen(false);
     }
   };
 
-  const isColorBalanceChanged = useMemo(() => 
-    highlightsRed !== 0 || highlightsGreen !== 0 || highlightsBlue !== 0 ||
-    midtonesRed !== 0 || midtonesGreen !== 0 || midtonesBlue !== 0 ||
-    shadowsRed !== 0 || shadowsGreen !== 0 || shadowsBlue !== 0,
-    [highlightsRed, highlightsGreen, highlightsBlue, midtonesRed, midtonesGreen, midtonesBlue, shadowsRed, shadowsGreen, shadowsBlue]
-  );
-
-  const handleResetColorBalance = () => {
-    setHighlightsRed(0);
-    setHighlightsGreen(0);
-    setHighlightsBlue(0);
-    setMidtonesRed(0);
-    setMidtonesGreen(0);
-    setMidtonesBlue(0);
-    setShadowsRed(0);
-    setShadowsGreen(0);
-    setShadowsBlue(0);
+  const handleCloseLevels = () => {
+    setIsLevelsOpen(false);
+    setLevels(DEFAULT_LEVELS);
   };
 
-  const handleApplyColorBalance = () => {
-    if (isLoading || !isColorBalanceChanged) return;
+  const handleResetColorWheels = () => setColorWheels(NEUTRAL_COLOR_WHEELS);
 
-    const promptParts = [];
-    const tones = {
-      Highlights: { Red: highlightsRed, Green: highlightsGreen, Blue: highlightsBlue },
-      Midtones: { Red: midtonesRed, Green: midtonesGreen, Blue: midtonesBlue },
-      Shadows: { Red: shadowsRed, Green: shadowsGreen, Blue: shadowsBlue },
-    };
+  const handleApplyColorWheels = async () => {
+    if (isLoading || !isColorWheelsChanged) return;
 
-    for (const [toneName, colors] of Object.entries(tones)) {
-      const changes = [];
-      if (colors.Red !== 0) changes.push(`${colors.Red > 0 ? 'add' : 'remove'} ${Math.abs(colors.Red)}% Red`);
-      if (colors.Green !== 0) changes.push(`${colors.Green > 0 ? 'add' : 'remove'} ${Math.abs(colors.Green)}% Green`);
-      if (colors.Blue !== 0) changes.push(`${colors.Blue > 0 ? 'add' : 'remove'} ${Math.abs(colors.Blue)}% Blue`);
-
-      if (changes.length > 0) {
-        promptParts.push(`in the ${toneName}, ${changes.join(', ')}`);
-      }
-    }
-    
-    if (promptParts.length > 0) {
-      const fullPrompt = `Perform a precise color balance adjustment. ${promptParts.join('; ')}. The changes should be subtle and maintain a photorealistic look.`;
-      onApplyAdjustment(fullPrompt);
+    if (await onApplyColorWheels(colorWheels)) {
+      handleResetColorWheels();
     }
   };
 
   const isVignetteChanged = useMemo(() => vignetteAmount !== 0, [vignetteAmount]);
 
   const handleResetVignette = () => {
-    setVignetteAmount(0);
-    setVignetteSize(75);
-    setVignetteFeather(50);
+    setVignetteAmount(DEFAULT_VIGNETTE.amount);
+    setVignetteSize(DEFAULT_VIGNETTE.size);
+    setVignetteFeather(DEFAULT_VIGNETTE.feather);
+  };
+
+  const handleApplyLocalContrast = async () => {
+    if (isLoading || !isLocalContrastChanged) return;
+
+    if (await onApplyLocalContrast(localContrast)) {
+      setLocalContrast(NEUTRAL_LOCAL_CONTRAST);
+    }
   };
 
-  const handleApplyVignette = () => {
+  const handleApplyVignette = async () => {
     if (isLoading || !isVignetteChanged) return;
 
-    const effect = vignetteAmount > 0 ? 'darkening' : 'lightening (reverse vignette)';
-    const amount = Math.abs(vignetteAmount);
-
-    let sizeDescription = '';
-    if (vignetteSize <= 25) sizeDescription = 'a very large size, just affecting the corners';
-    else if (vignetteSize <= 50) sizeDescription = 'a large size, extending moderately from the edges';
-    else if (vignetteSize <= 75) sizeDescription = 'a medium size, creating a clear central focus';
-    else sizeDescription = 'a small and tight size, focused on the very center';
-    
-    let featherDescription = '';
-    if (vignetteFeather <= 25) featherDescription = 'a hard, defined edge';
-    else if (vignetteFeather <= 50) featherDescription = 'a moderately soft, feathered transition';
-    else if (vignetteFeather <= 75) featherDescription = 'a very soft and gradual fade';
-    else featherDescription = 'an extremely soft, almost imperceptible transition';
-
-    const prompt = `Apply a photorealistic vignette effect. It should be a ${effect} with an intensity of ${amount}%. The effect should have ${sizeDescription} and ${featherDescription}. Ensure the final result looks natural and blends seamlessly.`;
-    
-    onApplyAdjustment(prompt);
+    if (await onApplyVignette({ amount: vignetteAmount, size: vignetteSize, feather: vignetteFeather })) {
+      handleResetVignette();
+    }
   };
 
   return (
     <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-6 animate-fade-in backdrop-blur-sm">
+        {isSliderChanged && previewImageLayout && (
+          <PixelPreviewFilter
+            adjustments={sliderAdjustments}
+            imageSize={previewImageLayout}
+            displayScale={previewImageLayout.displayScale}
+          />
+        )}
+        {isCurvesChanged && <ChannelTablesFilter id={CURVES_PREVIEW_FILTER_ID} tables={curvesTables} />}
+        {isLevelsPreviewed && <ChannelTablesFilter id={LEVELS_PREVIEW_FILTER_ID} tables={levelsTables} />}
+        {isColorWheelsChanged && <LumaOffsetsFilter id={COLOR_WHEELS_PREVIEW_FILTER_ID} offsets={colorWheelOffsets} />}
+        <LevelsModal
+          isOpen={isLevelsOpen}
+          levels={levels}
+          onChange={setLevels}
+          histogram={histogram}
+          onApply={handleApplyLevels}
+          onClose={handleCloseLevels}
+          isLoading={isLoading}
+        />
         {/* Sliders and custom prompt */}
         <div className="space-y-4 bg-black/20 p-4 rounded-lg border border-gray-700/50">
            <div className="flex justify-between items-center">
@@ -328,6 +332,14 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, on
             ))}
           </div>
 
+           <label className="flex items-center justify-between gap-3 text-xs text-gray-400 cursor-pointer">
+                <span>
+                    <span className="font-medium text-gray-300">Smart (AI)</span>
+                    <span className="block text-gray-500">{smartMode ? 'The model interprets the sliders; the preview is approximate.' : 'Exact local processing; the result matches the preview.'}</span>
+                </span>
+                <input type="checkbox" checked={smartMode} onChange={(e) => setSmartMode(e.target.checked)} disabled={isLoading} className="w-4 h-4 accent-blue-500" />
+           </label>
+
            <div className="flex gap-2 mt-4">
                 <button
                     onClick={handleApplySliders}
@@ -338,61 +350,158 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, on
                 </button>
                 <button
                     onClick={handleBatchSliders}
-                    disabled={isLoading || !isSliderChanged}
+                    disabled={isLoading || !isSliderChanged || !smartMode}
                     className="flex-shrink-0 flex items-center justify-center gap-2 bg-white/10 text-gray-200 font-semibold py-3 px-4 rounded-lg transition-all hover:bg-white/20 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
-                    title="Apply these settings to multiple images"
+                    title={smartMode ? 'Apply these settings to multiple images' : 'Batch runs through the AI model; turn on Smart mode to use it'}
                 >
                     <DocumentDuplicateIcon className="w-5 h-5" />
                 </button>
            </div>
         </div>
 
-           {/* Color Balance Section */}
+           {/* Curves Section */}
             <div className="space-y-4 bg-black/20 p-4 rounded-lg border border-gray-700/50">
                 <div className="flex justify-between items-center">
-                    <h3 className="text-sm font-bold uppercase tracking-wider text-gray-400">Color Balance</h3>
+                    <h3 className="text-sm font-bold uppercase tracking-wider text-gray-400">Curves</h3>
                     <button
-                        onClick={handleResetColorBalance}
-                        disabled={isLoading || !isColorBalanceChanged}
+                        onClick={() => setCurves(DEFAULT_CURVES)}
+                        disabled={isLoading || !isCurvesChanged}
                         className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50"
                     >
                         Reset
                     </button>
                 </div>
-                
-                {['Highlights', 'Midtones', 'Shadows'].map((tone, idx) => {
-                    const redVal = idx === 0 ? highlightsRed : idx === 1 ? midtonesRed : shadowsRed;
-                    const greenVal = idx === 0 ? highlightsGreen : idx === 1 ? midtonesGreen : shadowsGreen;
-                    const blueVal = idx === 0 ? highlightsBlue : idx === 1 ? midtonesBlue : shadowsBlue;
-                    const setRed = idx === 0 ? setHighlightsRed : idx === 1 ? setMidtonesRed : setShadowsRed;
-                    const setGreen = idx === 0 ? setHighlightsGreen : idx === 1 ? setMidtonesGreen : setShadowsGreen;
-                    const setBlue = idx === 0 ? setHighlightsBlue : idx === 1 ? setMidtonesBlue : setShadowsBlue;
-
-                    return (
-                        <div key={tone} className="space-y-2">
-                            <h4 className="text-xs font-medium text-gray-500 uppercase">{tone}</h4>
-                            <div className="flex items-center gap-2">
-                                <span className="w-1.5 h-3 rounded-full bg-red-500/80"></span>
-                                <input type="range" min="-100" max="100" value={redVal} onChange={(e) => setRed(Number(e.target.value))} className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-red-500" disabled={isLoading} />
-                            </div>
-                            <div className="flex items-center gap-2">
-                                <span className="w-1.5 h-3 rounded-full bg-green-500/80"></span>
-                                <input type="range" min="-100" max="100" value={greenVal} onChange={(e) => setGreen(Number(e.target.value))} className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-green-500" disabled={isLoading} />
-                            </div>
-                            <div className="flex items-center gap-2">
-                                <span className="w-1.5 h-3 rounded-full bg-blue-500/80"></span>
-                                <input type="range" min="-100" max="100" value={blueVal} onChange={(e) => setBlue(Number(e.target.value))} className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500" disabled={isLoading} />
-                            </div>
+                {curvesOutputHistogram && <HistogramChart histogram={curvesOutputHistogram} />}
+                <CurvesEditor curves={curves} onChange={setCurves} histogram={histogram} disabled={isLoading} />
+                <div className="flex gap-2">
+                    <button
+                        onClick={handleApplyCurves}
+                        disabled={isLoading || !isCurvesChanged}
+                        className="flex-grow bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-3 px-4 rounded-lg transition-all shadow-md hover:shadow-blue-500/30 active:scale-95 disabled:from-gray-700 disabled:to-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+                    >
+                        Apply Curves
+                    </button>
+                    <button
+                        onClick={() => setIsLevelsOpen(true)}
+                        disabled={isLoading}
+                        className="flex-shrink-0 bg-white/10 text-gray-200 font-semibold py-3 px-4 rounded-lg transition-all hover:bg-white/20 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+                    >
+                        Levels…
+                    </button>
+                </div>
+            </div>
+
+           {/* Color Wheels Section */}
+            <div className="space-y-4 bg-black/20 p-4 rounded-lg border border-gray-700/50">
+                <div className="flex justify-between items-center">
+                    <h3 className="text-sm font-bold uppercase tracking-wider text-gray-400">Color Wheels</h3>
+                    <button
+                        onClick={handleResetColorWheels}
+                        disabled={isLoading || !isColorWheelsChanged}
+                        className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50"
+                    >
+                        Reset
+                    </button>
+                </div>
+
+                <div className="grid grid-cols-3 gap-2">
+                    {COLOR_WHEEL_RANGES.map(({ range, label }) => (
+                        <ColorWheelControl
+                            key={range}
+                            label={label}
+                            value={colorWheels[range]}
+                            onChange={(wheel) => setColorWheels(prev => ({ ...prev, [range]: wheel }))}
+                            disabled={isLoading}
+                        />
+                    ))}
+                </div>
+
+                <div className="flex flex-col gap-2 text-xs text-gray-400">
+                    <div className="flex gap-2">
+                        <select
+                            value=""
+                            onChange={(e) => {
+                                const preset = colorWheelPresets.find(p => p.name === e.target.value);
+                                if (preset) {
+                                    setColorWheels(preset.wheels);
+                                    setWheelPresetName(preset.name);
+                                }
+                            }}
+                            disabled={isLoading || colorWheelPresets.length === 0}
+                            className="flex-grow min-w-0 bg-gray-800 border border-gray-600 text-gray-200 rounded-md px-2 py-1.5 focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-50"
+                        >
+                            <option value="" disabled>{colorWheelPresets.length === 0 ? 'No saved presets' : 'Load preset…'}</option>
+                            {colorWheelPresets.map(preset => <option key={preset.name} value={preset.name}>{preset.name}</option>)}
+                        </select>
+                        <button
+                            onClick={() => setColorWheelPresets(deleteColorWheelPreset(wheelPresetName.trim()))}
+                            disabled={isLoading || !colorWheelPresets.some(p => p.name === wheelPresetName.trim())}
+                            className="px-2 py-1 rounded font-semibold bg-white/10 text-gray-300 hover:bg-white/20 transition-colors disabled:opacity-50"
+                            title="Delete the preset with this name"
+                        >
+                            Delete
+                        </button>
+                    </div>
+                    <div className="flex gap-2">
+                        <input
+                            type="text"
+                            value={wheelPresetName}
+                            onChange={(e) => setWheelPresetName(e.target.value)}
+                            placeholder="Preset name"
+                            className="flex-grow min-w-0 bg-gray-800 border border-gray-600 text-gray-200 rounded-md px-2 py-1.5 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                            disabled={isLoading}
+                        />
+                        <button
+                            onClick={() => setColorWheelPresets(saveColorWheelPreset(wheelPresetName.trim(), colorWheels))}
+                            disabled={isLoading || !wheelPresetName.trim() || !isColorWheelsChanged}
+                            className="px-2 py-1 rounded font-semibold bg-white/10 text-gray-300 hover:bg-white/20 transition-colors disabled:opacity-50"
+                        >
+                            Save
+                        </button>
+                    </div>
+                </div>
+
+                <button
+                    onClick={handleApplyColorWheels}
+                    disabled={isLoading || !isColorWheelsChanged}
+                    className="w-full mt-2 bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-3 px-4 rounded-lg transition-all shadow-md hover:shadow-blue-500/30 active:scale-95 disabled:from-gray-700 disabled:to-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+                >
+                    Apply Color Wheels
+                </button>
+            </div>
+
+            {/* Clarity & Dehaze Section */}
+            <div className="space-y-4 bg-black/20 p-4 rounded-lg border border-gray-700/50">
+                <div className="flex justify-between items-center">
+                    <h3 className="text-sm font-bold uppercase tracking-wider text-gray-400">Clarity & Dehaze</h3>
+                    <button
+                        onClick={() => setLocalContrast(NEUTRAL_LOCAL_CONTRAST)}
+                        disabled={isLoading || !isLocalContrastChanged}
+                        className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50"
+                    >
+                        Reset
+                    </button>
+                </div>
+                {([
+                    { key: 'clarity', label: 'Clarity' },
+                    { key: 'dehaze', label: 'Dehaze' },
+                ] as const).map(({ key, label }) => (
+                    <div key={key}>
+                        <div className="flex justify-between items-center text-xs text-gray-400 mb-1">
+                            <label className="font-medium">{label}</label>
+                            <span className="text-gray-300 bg-gray-700/80 px-2 py-0.5 rounded">{localContrast[key]}</span>
                         </div>
-                    );
-                })}
+                        <input type="range" min="-100" max="100" value={localContrast[key]} onChange={(e) => setLocalContrast(prev => ({ ...prev, [key]: Number(e.target.value) }))} className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500" disabled={isLoading} />
+                    </div>
+                ))}
+                <p className="text-xs text-gray-500">Also available inside a mask from the Mask tool.</p>
 
                 <button
-                    onClick={handleApplyColorBalance}
-                    disabled={isLoading || !isColorBalanceChanged}
+                    onClick={handleApplyLocalContrast}
+                    disabled={isLoading || !isLocalContrastChanged}
                     className="w-full mt-2 bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-3 px-4 rounded-lg transition-all shadow-md hover:shadow-blue-500/30 active:scale-95 disabled:from-gray-700 disabled:to-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
                 >
-                    Apply Color Balance
+                    Apply Clarity & Dehaze
                 </button>
             </div>
 
@@ -476,7 +585,7 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, on
 
             <div className="space-y-2 bg-black/20 p-4 rounded-lg border border-gray-700/50">
                 <h3 className="text-sm font-bold uppercase tracking-wider text-gray-400">Levels & White Balance</h3>
-                <p className="text-xs text-gray-500 -mt-1">Use eyedroppers to pick reference colors.</p>
+                <p className="text-xs text-gray-500 -mt-1">Pick a color that should be white, neutral gray or black; the image is corrected exactly around it.</p>
                 <div className="grid grid-cols-3 gap-2">
                     {[
                         { picker: 'white', label: 'White Pt', icon: EyedropperWhiteIcon },
@@ -494,44 +603,124 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, on
                         </button>
                     ))}
                 </div>
+                <div className="flex items-center justify-between text-xs text-gray-400">
+                    <span className="font-medium">Sample size</span>
+                    <div className="flex gap-1">
+                        {([1, 3, 5] as const).map(size => (
+                            <button
+                                key={size}
+                                onClick={() => onEyedropperOptionsChange({ ...eyedropperOptions, sampleSize: size })}
+                                disabled={isLoading}
+                                className={`px-2 py-1 rounded font-semibold transition-colors disabled:opacity-50 ${eyedropperOptions.sampleSize === size ? 'bg-blue-600 text-white' : 'bg-white/10 text-gray-300 hover:bg-white/20'}`}
+                            >
+                                {size === 1 ? 'Point' : `${size}×${size}`}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <label className="flex items-center justify-between gap-3 text-xs text-gray-400 cursor-pointer">
+                    <span className="font-medium">Use AI instead</span>
+                    <input type="checkbox" checked={eyedropperOptions.useAi} onChange={(e) => onEyedropperOptionsChange({ ...eyedropperOptions, useAi: e.target.checked })} disabled={isLoading} className="w-4 h-4 accent-blue-500" />
+                </label>
             </div>
 
-          <div className="space-y-2 bg-black/20 p-4 rounded-lg border border-gray-700/50">
+          <div className="space-y-3 bg-black/20 p-4 rounded-lg border border-gray-700/50">
             <div className="flex items-center gap-2">
               <SharpenIcon className="w-5 h-5 text-gray-400" />
-              <h3 className="text-sm font-bold uppercase tracking-wider text-gray-400">AI Sharpen</h3>
+              <h3 className="text-sm font-bold uppercase tracking-wider text-gray-400">Sharpen</h3>
             </div>
             <div className="grid grid-cols-3 gap-2">
-                {['Subtle', 'Natural', 'High'].map(intensity => (
+                {(Object.keys(SHARPEN_PRESETS) as SharpenPresetName[]).map(name => (
                     <button
-                        key={intensity}
-                        onClick={() => onApplySharpen(intensity)}
+                        key={name}
+                        onClick={() => setSharpen(SHARPEN_PRESETS[name])}
                         disabled={isLoading}
-                        className="text-center bg-white/10 text-gray-200 font-semibold py-2 px-2 rounded-lg transition-all hover:bg-white/20 active:scale-95 disabled:opacity-50 text-xs"
+                        className={`text-center font-semibold py-2 px-2 rounded-lg transition-all active:scale-95 disabled:opacity-50 text-xs ${matchesPreset(sharpen, SHARPEN_PRESETS[name]) ? 'bg-blue-600 text-white' : 'bg-white/10 text-gray-200 hover:bg-white/20'}`}
                     >
-                        {intensity}
+                        {name}
                     </button>
                 ))}
             </div>
+            {[
+                { key: 'radius', label: 'Radius', min: 0.1, max: 5, step: 0.1, format: (v: number) => `${v.toFixed(1)} px` },
+                { key: 'amount', label: 'Amount', min: 0, max: 300, step: 1, format: (v: number) => `${v}%` },
+                { key: 'threshold', label: 'Threshold', min: 0, max: 50, step: 1, format: (v: number) => `${v}` },
+            ].map(({ key, label, min, max, step, format }) => (
+                <div key={key}>
+                    <div className="flex justify-between items-center text-xs text-gray-400 mb-1">
+                        <label htmlFor={`sharpen-${key}`} className="font-medium">{label}</label>
+                        <span className="text-gray-300 bg-gray-700/80 px-2 py-0.5 rounded">{format(sharpen[key as keyof UnsharpMaskParams])}</span>
+                    </div>
+                    <input id={`sharpen-${key}`} type="range" min={min} max={max} step={step} value={sharpen[key as keyof UnsharpMaskParams]} onChange={(e) => setSharpen(prev => ({ ...prev, [key]: Number(e.target.value) }))} className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500" disabled={isLoading} />
+                </div>
+            ))}
+            <button
+                onClick={() => onApplySharpen(sharpen)}
+                disabled={isLoading || sharpen.amount === 0}
+                className="w-full mt-2 bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-3 px-4 rounded-lg transition-all shadow-md hover:shadow-blue-500/30 active:scale-95 disabled:from-gray-700 disabled:to-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+            >
+                Apply Sharpen
+            </button>
           </div>
 
-          <div className="space-y-2 bg-black/20 p-4 rounded-lg border border-gray-700/50">
+          <div className="space-y-3 bg-black/20 p-4 rounded-lg border border-gray-700/50">
             <div className="flex items-center gap-2">
               <GrainIcon className="w-5 h-5 text-gray-400" />
-              <h3 className="text-sm font-bold uppercase tracking-wider text-gray-400">AI Grain</h3>
+              <h3 className="text-sm font-bold uppercase tracking-wider text-gray-400">Grain</h3>
             </div>
             <div className="grid grid-cols-3 gap-2">
-                {['Subtle', 'Medium', 'High'].map(intensity => (
+                {(Object.keys(GRAIN_PRESETS) as GrainPresetName[]).map(name => (
                     <button
-                        key={intensity}
-                        onClick={() => onApplyGrain(intensity)}
+                        key={name}
+                        onClick={() => setGrain(prev => ({ ...GRAIN_PRESETS[name], seed: prev.seed }))}
                         disabled={isLoading}
-                        className="text-center bg-white/10 text-gray-200 font-semibold py-2 px-2 rounded-lg transition-all hover:bg-white/20 active:scale-95 disabled:opacity-50 text-xs"
+                        className={`text-center font-semibold py-2 px-2 rounded-lg transition-all active:scale-95 disabled:opacity-50 text-xs ${matchesPreset(grain, GRAIN_PRESETS[name]) ? 'bg-blue-600 text-white' : 'bg-white/10 text-gray-200 hover:bg-white/20'}`}
                     >
-                        {intensity}
+                        {name}
                     </button>
                 ))}
             </div>
+            {([
+                { key: 'amount', label: 'Amount' },
+                { key: 'size', label: 'Size' },
+                { key: 'chroma', label: 'Color' },
+            ] as const).map(({ key, label }) => (
+                <div key={key}>
+                    <div className="flex justify-between items-center text-xs text-gray-400 mb-1">
+                        <label htmlFor={`grain-${key}`} className="font-medium">{label}</label>
+                        <span className="text-gray-300 bg-gray-700/80 px-2 py-0.5 rounded">{grain[key]}</span>
+                    </div>
+                    <input id={`grain-${key}`} type="range" min="0" max="100" value={grain[key]} onChange={(e) => setGrain(prev => ({ ...prev, [key]: Number(e.target.value) }))} className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500" disabled={isLoading} />
+                </div>
+            ))}
+            <div className="flex items-center justify-between gap-2 text-xs text-gray-400">
+                <label htmlFor="grain-seed" className="font-medium" title="The same seed always gives the same grain">Seed</label>
+                <div className="flex items-center gap-1">
+                    <input
+                        id="grain-seed"
+                        type="number"
+                        min="0"
+                        value={grain.seed}
+                        onChange={(e) => setGrain(prev => ({ ...prev, seed: Math.max(0, Math.floor(Number(e.target.value) || 0)) }))}
+                        className="w-24 bg-gray-800 border border-gray-600 text-gray-200 rounded px-2 py-1 text-right tabular-nums focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                        disabled={isLoading}
+                    />
+                    <button
+                        onClick={() => setGrain(prev => ({ ...prev, seed: randomSeed() }))}
+                        disabled={isLoading}
+                        className="px-2 py-1 rounded font-semibold bg-white/10 text-gray-300 hover:bg-white/20 transition-colors disabled:opacity-50"
+                    >
+                        New
+                    </button>
+                </div>
+            </div>
+            <button
+                onClick={() => onApplyGrain(grain)}
+                disabled={isLoading || grain.amount === 0}
+                className="w-full mt-2 bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-3 px-4 rounded-lg transition-all shadow-md hover:shadow-blue-500/30 active:scale-95 disabled:from-gray-700 disabled:to-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+            >
+                Apply Grain
+            </button>
           </div>
           
           <div className="space-y-2 bg-black/20 p-4 rounded-lg border border-gray-700/50">
@@ -4,6 +4,7 @@
 */
 
 import React, { useState } from 'react';
+import VariantCountPicker from './VariantCountPicker.tsx';
 
 // FIX: Changed to a discriminated union to allow for better type inference. This resolves type errors in App.tsx.
 // UPDATE: Added 'generate' and 'url' types.
@@ -18,9 +19,12 @@ interface BackgroundPanelProps {
   onApplyNewBackground: (settings: BackgroundSettings) => void;
   isLoading: boolean;
   isBgRemovalMode: boolean;
+  // Only used for generated backgrounds.
+  variantCount: number;
+  onVariantCountChange: (count: number) => void;
 }
 
-const BackgroundPanel: React.FC<BackgroundPanelProps> = ({ onRemoveBackground, onApplyNewBackground, isLoading, isBgRemovalMode }) => {
+const BackgroundPanel: React.FC<BackgroundPanelProps> = ({ onRemoveBackground, onApplyNewBackground, isLoading, isBgRemovalMode, variantCount, onVariantCountChange }) => {
   const [backgroundType, setBackgroundType] = useState<'color' | 'image' | 'generate' | 'url'>('color');
   const [colorValue, setColorValue] = useState('#ffffff');
   const [imageFile, setImageFile] = useState<File | null>(null);
@@ -137,6 +141,9 @@ const BackgroundPanel: React.FC<BackgroundPanelProps> = ({ onRemoveBackground, o
                 placeholder="e.g., a serene beach at sunset"
                 className="w-full bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-3 focus:ring-2 focus:ring-blue-500 focus:outline-none transition"
             />
+            <div className="w-full mt-2">
+                <VariantCountPicker value={variantCount} onChange={onVariantCountChange} disabled={isLoading} />
+            </div>
         </div>
       )}
 
@@ -3,7 +3,7 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import JSZip from 'jszip';
 import { applyStyleByExample } from '../services/geminiService';
 import { CloseIcon, UploadIcon, DocumentDuplicateIcon } from './icons';
@@ -48,6 +48,7 @@ const BatchEditModal: React.FC<BatchEditModalProps> = ({ isOpen, onClose, origin
   const [isZipping, setIsZipping] = useState(false);
   const [progress, setProgress] = useState(0);
   const [isDraggingOver, setIsDraggingOver] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const [originalPreview, setOriginalPreview] = useState<string>('');
   const [editedPreview, setEditedPreview] = useState<string>('');
@@ -57,7 +58,8 @@ const BatchEditModal: React.FC<BatchEditModalProps> = ({ isOpen, onClose, origin
         setOriginalPreview(URL.createObjectURL(originalImage));
         setEditedPreview(URL.createObjectURL(editedImage));
     } else {
-        // Reset state on close
+        // Stop any running batch and reset state on close
+        abortControllerRef.current?.abort();
         setFiles([]);
         setIsProcessing(false);
         setProgress(0);
@@ -86,19 +88,28 @@ const BatchEditModal: React.FC<BatchEditModalProps> = ({ isOpen, onClose, origin
   const handleProcess = async () => {
     setIsProcessing(true);
     setProgress(0);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const { signal } = controller;
     
     let completed = 0;
     
     for (let i = 0; i < files.length; i++) {
+        if (signal.aborted) break;
         const currentFile = files[i];
         
         // Update status to processing
         setFiles(prev => prev.map(f => f.id === currentFile.id ? { ...f, status: 'processing' } : f));
         
         try {
-            const resultUrl = await applyStyleByExample(originalImage, editedImage, currentFile.file);
+            const { imageUrl: resultUrl } = await applyStyleByExample(originalImage, editedImage, currentFile.file, signal);
             setFiles(prev => prev.map(f => f.id === currentFile.id ? { ...f, status: 'complete', resultUrl } : f));
         } catch (err) {
+            if (signal.aborted) {
+                // Put the interrupted file back in the queue so it can be processed again.
+                setFiles(prev => prev.map(f => f.id === currentFile.id ? { ...f, status: 'queued' } : f));
+                break;
+            }
             console.error(`Failed to process ${currentFile.file.name}:`, err);
             const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
             setFiles(prev => prev.map(f => f.id === currentFile.id ? { ...f, status: 'error', error: errorMessage } : f));
@@ -108,9 +119,14 @@ const BatchEditModal: React.FC<BatchEditModalProps> = ({ isOpen, onClose, origin
         setProgress((completed / files.length) * 100);
     }
     
+    abortControllerRef.current = null;
     setIsProcessing(false);
   };
 
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleDownloadAll = async () => {
     setIsZipping(true);
     try {
@@ -220,8 +236,16 @@ const BatchEditModal: React.FC<BatchEditModalProps> = ({ isOpen, onClose, origin
                         <span className="text-gray-300">Processing...</span>
                         <span className="font-semibold text-white">{Math.round(progress)}%</span>
                     </div>
-                    <div className="w-full bg-gray-600 rounded-full h-2.5">
-                        <div className="bg-blue-500 h-2.5 rounded-full transition-all duration-300" style={{ width: `${progress}%` }}></div>
+                    <div className="flex items-center gap-3">
+                        <div className="w-full bg-gray-600 rounded-full h-2.5">
+                            <div className="bg-blue-500 h-2.5 rounded-full transition-all duration-300" style={{ width: `${progress}%` }}></div>
+                        </div>
+                        <button
+                            onClick={handleCancel}
+                            className="flex-shrink-0 bg-white/10 text-gray-200 font-semibold py-1.5 px-4 rounded-md transition-all hover:bg-white/20 text-sm"
+                        >
+                            Cancel
+                        </button>
                     </div>
                 </div>
             )}
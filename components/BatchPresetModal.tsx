@@ -3,20 +3,70 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import JSZip from 'jszip';
 import { generateFilteredImage, generateColorGradedImage, generateAdjustedImage } from '../services/geminiService';
-import { CloseIcon, UploadIcon, PaletteIcon, TuneIcon, SunIcon } from './icons';
+import { applyBlackAndWhiteToImage, applyLensCorrectionToImage, applyLutToImage, applySplitToningToImage } from '../services/pixelEngineClient';
+import type { PromptInput } from '../services/promptRegistry';
+import type { Lut3D, LutOptions } from '../services/lut';
+import type { BlackAndWhiteMix, SplitToning } from '../services/colorMixer';
+import type { LensCorrection } from '../services/lensCorrection';
+import { CloseIcon, UploadIcon, PaletteIcon, TuneIcon, SunIcon, CubeIcon, BlackWhiteIcon, SwatchIcon, LensIcon } from './icons';
 import Spinner from './Spinner';
 
+// Prompt presets go through the model; the others run locally and give the same pixels every time.
+export type BatchPreset =
+  | { type: 'filter' | 'colorGrade' | 'adjustment'; name: string; prompt: PromptInput }
+  | { type: 'lut'; name: string; lut: Lut3D; options: LutOptions }
+  | { type: 'blackAndWhite'; name: string; mix: BlackAndWhiteMix }
+  | { type: 'splitToning'; name: string; toning: SplitToning }
+  | { type: 'lensCorrection'; name: string; correction: LensCorrection };
+
 interface BatchPresetModalProps {
   isOpen: boolean;
   onClose: () => void;
-  presetName: string;
-  presetPrompt: string;
-  presetType: 'filter' | 'colorGrade' | 'adjustment';
+  preset: BatchPreset;
 }
 
+const PRESET_LABELS: Record<BatchPreset['type'], string> = {
+  filter: 'filter',
+  colorGrade: 'color grade',
+  adjustment: 'adjustment',
+  lut: 'LUT',
+  blackAndWhite: 'black & white',
+  splitToning: 'split toning',
+  lensCorrection: 'lens correction',
+};
+
+const PRESET_ICONS: Record<BatchPreset['type'], React.FC<{ className?: string }>> = {
+  filter: PaletteIcon,
+  colorGrade: TuneIcon,
+  adjustment: SunIcon,
+  lut: CubeIcon,
+  blackAndWhite: BlackWhiteIcon,
+  splitToning: SwatchIcon,
+  lensCorrection: LensIcon,
+};
+
+const runPreset = async (file: File, preset: BatchPreset, signal: AbortSignal): Promise<string> => {
+  switch (preset.type) {
+    case 'lut':
+      return applyLutToImage(file, preset.lut, preset.options, signal);
+    case 'blackAndWhite':
+      return applyBlackAndWhiteToImage(file, preset.mix, signal);
+    case 'splitToning':
+      return applySplitToningToImage(file, preset.toning, signal);
+    case 'lensCorrection':
+      return applyLensCorrectionToImage(file, preset.correction, signal);
+    case 'filter':
+      return (await generateFilteredImage(file, preset.prompt, signal)).imageUrl;
+    case 'colorGrade':
+      return (await generateColorGradedImage(file, preset.prompt, signal)).imageUrl;
+    case 'adjustment':
+      return (await generateAdjustedImage(file, preset.prompt, signal)).imageUrl;
+  }
+};
+
 type ProcessStatus = 'queued' | 'processing' | 'complete' | 'error';
 
 interface ProcessFile {
@@ -43,16 +93,18 @@ const dataURLtoBlob = (dataurl: string): Blob => {
     return new Blob([u8arr], { type: mime });
 };
 
-const BatchPresetModal: React.FC<BatchPresetModalProps> = ({ isOpen, onClose, presetName, presetPrompt, presetType }) => {
+const BatchPresetModal: React.FC<BatchPresetModalProps> = ({ isOpen, onClose, preset }) => {
   const [files, setFiles] = useState<ProcessFile[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isZipping, setIsZipping] = useState(false);
   const [progress, setProgress] = useState(0);
   const [isDraggingOver, setIsDraggingOver] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
   
   // Reset state on close
   useEffect(() => {
     if (!isOpen) {
+        abortControllerRef.current?.abort();
         setFiles([]);
         setIsProcessing(false);
         setProgress(0);
@@ -79,27 +131,27 @@ const BatchPresetModal: React.FC<BatchPresetModalProps> = ({ isOpen, onClose, pr
   const handleProcess = async () => {
     setIsProcessing(true);
     setProgress(0);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const { signal } = controller;
     
     let completed = 0;
-    let editFunction;
-
-    if (presetType === 'filter') {
-        editFunction = generateFilteredImage;
-    } else if (presetType === 'colorGrade') {
-        editFunction = generateColorGradedImage;
-    } else {
-        editFunction = generateAdjustedImage;
-    }
     
     for (let i = 0; i < files.length; i++) {
+        if (signal.aborted) break;
         const currentFile = files[i];
         
         setFiles(prev => prev.map(f => f.id === currentFile.id ? { ...f, status: 'processing' } : f));
         
         try {
-            const resultUrl = await editFunction(currentFile.file, presetPrompt);
+            const resultUrl = await runPreset(currentFile.file, preset, signal);
             setFiles(prev => prev.map(f => f.id === currentFile.id ? { ...f, status: 'complete', resultUrl } : f));
         } catch (err) {
+            if (signal.aborted) {
+                // Put the interrupted file back in the queue so it can be processed again.
+                setFiles(prev => prev.map(f => f.id === currentFile.id ? { ...f, status: 'queued' } : f));
+                break;
+            }
             console.error(`Failed to process ${currentFile.file.name}:`, err);
             const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
             setFiles(prev => prev.map(f => f.id === currentFile.id ? { ...f, status: 'error', error: errorMessage } : f));
@@ -109,9 +161,14 @@ const BatchPresetModal: React.FC<BatchPresetModalProps> = ({ isOpen, onClose, pr
         setProgress((completed / files.length) * 100);
     }
     
+    abortControllerRef.current = null;
     setIsProcessing(false);
   };
 
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleDownloadAll = async () => {
     setIsZipping(true);
     try {
@@ -122,13 +179,13 @@ const BatchPresetModal: React.FC<BatchPresetModalProps> = ({ isOpen, onClose, pr
             const blob = dataURLtoBlob(file.resultUrl!);
             const fileExtension = blob.type.split('/')[1] || 'png';
             const baseName = file.file.name.substring(0, file.file.name.lastIndexOf('.'));
-            zip.file(`${baseName}-${presetName.replace(/\s+/g, '_')}.${fileExtension}`, blob);
+            zip.file(`${baseName}-${preset.name.replace(/\s+/g, '_')}.${fileExtension}`, blob);
         }
 
         const content = await zip.generateAsync({ type: 'blob' });
         const link = document.createElement('a');
         link.href = URL.createObjectURL(content);
-        link.download = `UtilPic_Batch_${presetType}.zip`;
+        link.download = `UtilPic_Batch_${preset.type}.zip`;
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
@@ -143,10 +200,7 @@ const BatchPresetModal: React.FC<BatchPresetModalProps> = ({ isOpen, onClose, pr
 
   const completedCount = files.filter(f => f.status === 'complete').length;
   
-  let PresetIcon;
-  if (presetType === 'filter') PresetIcon = PaletteIcon;
-  else if (presetType === 'colorGrade') PresetIcon = TuneIcon;
-  else PresetIcon = SunIcon;
+  const PresetIcon = PRESET_ICONS[preset.type];
 
   if (!isOpen) return null;
 
@@ -156,7 +210,7 @@ const BatchPresetModal: React.FC<BatchPresetModalProps> = ({ isOpen, onClose, pr
         <div className="flex items-center justify-between p-4 border-b border-gray-700 flex-shrink-0">
           <div className="flex items-center gap-3">
             <PresetIcon className="w-6 h-6 text-blue-400"/>
-            <h2 className="text-xl font-bold text-gray-100">Batch Apply: {presetName}</h2>
+            <h2 className="text-xl font-bold text-gray-100">Batch Apply: {preset.name}</h2>
           </div>
           <button onClick={onClose} className="p-2 rounded-full text-gray-400 hover:bg-white/10 hover:text-white transition-colors" aria-label="Close">
             <CloseIcon className="w-6 h-6" />
@@ -178,7 +232,7 @@ const BatchPresetModal: React.FC<BatchPresetModalProps> = ({ isOpen, onClose, pr
                     <div className="absolute inset-0 flex flex-col items-center justify-center gap-4 text-gray-500">
                         <UploadIcon className="w-12 h-12" />
                         <p className="font-semibold text-lg">Drag & Drop Images Here</p>
-                        <p>The '{presetName}' {presetType === 'colorGrade' ? 'color grade' : (presetType === 'adjustment' ? 'adjustment' : 'filter')} will be applied to all images.</p>
+                        <p>The '{preset.name}' {PRESET_LABELS[preset.type]} will be applied to all images.</p>
                         <label htmlFor="batch-preset-upload" className="bg-white/10 text-gray-200 font-semibold py-2 px-5 rounded-md transition-all hover:bg-white/20 active:scale-95 cursor-pointer mt-2">
                             Click to Upload
                         </label>
@@ -210,8 +264,16 @@ const BatchPresetModal: React.FC<BatchPresetModalProps> = ({ isOpen, onClose, pr
                         <span className="text-gray-300">Processing...</span>
                         <span className="font-semibold text-white">{Math.round(progress)}%</span>
                     </div>
-                    <div className="w-full bg-gray-600 rounded-full h-2.5">
-                        <div className="bg-blue-500 h-2.5 rounded-full transition-all duration-300" style={{ width: `${progress}%` }}></div>
+                    <div className="flex items-center gap-3">
+                        <div className="w-full bg-gray-600 rounded-full h-2.5">
+                            <div className="bg-blue-500 h-2.5 rounded-full transition-all duration-300" style={{ width: `${progress}%` }}></div>
+                        </div>
+                        <button
+                            onClick={handleCancel}
+                            className="flex-shrink-0 bg-white/10 text-gray-200 font-semibold py-1.5 px-4 rounded-md transition-all hover:bg-white/20 text-sm"
+                        >
+                            Cancel
+                        </button>
                     </div>
                 </div>
             )}
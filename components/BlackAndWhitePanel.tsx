@@ -0,0 +1,236 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  BLACK_AND_WHITE_PRESETS, HSL_BANDS, NEUTRAL_SPLIT_TONING, SPLIT_TONING_PRESETS, buildSplitToningOffsets, isNeutralSplitToning,
+  type BlackAndWhiteMix, type BlackAndWhitePresetName, type SplitToning, type SplitToningPresetName,
+} from '../services/colorMixer.ts';
+import type { PixelOperation } from '../services/pixelEngine.worker.ts';
+import { LumaOffsetsFilter } from './PixelPreviewFilter.tsx';
+import { DocumentDuplicateIcon } from './icons.tsx';
+
+interface BlackAndWhitePanelProps {
+  // Resolve to true once applied, so the panel can clear the pending conversion.
+  onApplyBlackAndWhite: (mix: BlackAndWhiteMix) => Promise<boolean>;
+  onBatchApplyBlackAndWhite: (mix: BlackAndWhiteMix, name: string) => void;
+  onApplySplitToning: (toning: SplitToning) => Promise<boolean>;
+  onBatchApplySplitToning: (toning: SplitToning, name: string) => void;
+  // The pending conversion, rendered by the pixel engine over the image.
+  onPixelPreviewChange: (operation: PixelOperation | null) => void;
+  // CSS filter for the pending split toning.
+  onPreviewChange: (filter: string) => void;
+  isLoading: boolean;
+}
+
+const SPLIT_TONING_PREVIEW_FILTER_ID = 'split-toning-preview';
+
+const HUE_TRACK = `linear-gradient(to right, ${Array.from({ length: 7 }, (_, i) => `hsl(${i * 60} 80% 50%) ${i / 6 * 100}%`).join(', ')})`;
+
+const sameValues = <T extends object>(a: T, b: T) =>
+  (Object.keys(a) as (keyof T)[]).every(key => a[key] === b[key]);
+
+const findPresetName = <Name extends string, T extends object>(presets: Record<Name, T>, value: T): Name | null =>
+  (Object.keys(presets) as Name[]).find(name => sameValues(presets[name], value)) ?? null;
+
+const sliderClassName = 'w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500';
+const applyClassName = 'flex-grow bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-3 px-4 rounded-lg transition-all shadow-md hover:shadow-blue-500/30 active:scale-95 disabled:from-gray-700 disabled:to-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-sm';
+const batchClassName = 'flex-shrink-0 flex items-center justify-center gap-2 bg-white/10 text-gray-200 font-semibold py-3 px-4 rounded-lg transition-all hover:bg-white/20 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed text-sm';
+
+/**
+ * Black & white conversion with a per-color channel mix, and split toning. Both run on this
+ * device, so the same settings always give the same image, including in batches.
+ */
+const BlackAndWhitePanel: React.FC<BlackAndWhitePanelProps> = ({
+  onApplyBlackAndWhite, onBatchApplyBlackAndWhite, onApplySplitToning, onBatchApplySplitToning, onPixelPreviewChange, onPreviewChange, isLoading,
+}) => {
+  const [isConverting, setIsConverting] = useState(false);
+  const [mix, setMix] = useState<BlackAndWhiteMix>(BLACK_AND_WHITE_PRESETS.Neutral);
+  const [toning, setToning] = useState<SplitToning>(NEUTRAL_SPLIT_TONING);
+
+  const mixPresetName = findPresetName(BLACK_AND_WHITE_PRESETS, mix);
+  const toningPresetName = findPresetName(SPLIT_TONING_PRESETS, toning);
+  const isToningChanged = !isNeutralSplitToning(toning);
+  const toningOffsets = useMemo(() => buildSplitToningOffsets(toning), [toning]);
+
+  useEffect(() => {
+    onPixelPreviewChange(isConverting ? { type: 'blackAndWhite', mix } : null);
+  }, [isConverting, mix, onPixelPreviewChange]);
+
+  useEffect(() => {
+    onPreviewChange(isToningChanged ? `url(#${SPLIT_TONING_PREVIEW_FILTER_ID})` : '');
+  }, [isToningChanged, onPreviewChange]);
+
+  // The previews belong to this panel, so drop them when it closes.
+  useEffect(() => () => {
+    onPixelPreviewChange(null);
+    onPreviewChange('');
+  }, [onPixelPreviewChange, onPreviewChange]);
+
+  const handleMixPreset = (name: BlackAndWhitePresetName) => {
+    setMix(BLACK_AND_WHITE_PRESETS[name]);
+    setIsConverting(true);
+  };
+
+  const handleMixChange = (band: keyof BlackAndWhiteMix, value: number) => {
+    setMix(prev => ({ ...prev, [band]: value }));
+    setIsConverting(true);
+  };
+
+  const handleResetMix = () => {
+    setMix(BLACK_AND_WHITE_PRESETS.Neutral);
+    setIsConverting(false);
+  };
+
+  const handleApplyBlackAndWhite = async () => {
+    if (await onApplyBlackAndWhite(mix)) {
+      setIsConverting(false);
+    }
+  };
+
+  const handleApplySplitToning = async () => {
+    if (await onApplySplitToning(toning)) {
+      setToning(NEUTRAL_SPLIT_TONING);
+    }
+  };
+
+  const toningSliders: { key: keyof SplitToning; label: string; min: number; max: number; track?: string }[] = [
+    { key: 'highlightHue', label: 'Highlight Hue', min: 0, max: 360, track: HUE_TRACK },
+    { key: 'highlightSaturation', label: 'Highlight Saturation', min: 0, max: 100 },
+    { key: 'balance', label: 'Balance', min: -100, max: 100 },
+    { key: 'shadowHue', label: 'Shadow Hue', min: 0, max: 360, track: HUE_TRACK },
+    { key: 'shadowSaturation', label: 'Shadow Saturation', min: 0, max: 100 },
+  ];
+
+  return (
+    <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
+      {isToningChanged && <LumaOffsetsFilter id={SPLIT_TONING_PREVIEW_FILTER_ID} offsets={toningOffsets} />}
+      <h3 className="text-xl font-bold text-center text-gray-200">Black & White</h3>
+
+      {/* Channel Mixer Section */}
+      <div className="space-y-4 bg-black/20 p-4 rounded-lg border border-gray-700/50">
+        <div className="flex justify-between items-center">
+          <h4 className="text-sm font-bold uppercase tracking-wider text-gray-400">Channel Mix</h4>
+          <button
+            onClick={handleResetMix}
+            disabled={isLoading || !isConverting}
+            className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50"
+          >
+            Reset
+          </button>
+        </div>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+          {(Object.keys(BLACK_AND_WHITE_PRESETS) as BlackAndWhitePresetName[]).map(name => (
+            <button
+              key={name}
+              onClick={() => handleMixPreset(name)}
+              disabled={isLoading}
+              className={`text-xs font-semibold py-2 px-2 rounded-md transition-colors disabled:opacity-50 ${isConverting && mixPresetName === name ? 'bg-blue-600 text-white' : 'bg-white/10 text-gray-300 hover:bg-white/20'}`}
+            >
+              {name}
+            </button>
+          ))}
+        </div>
+        {HSL_BANDS.map(({ band, hue }) => (
+          <div key={band}>
+            <div className="flex justify-between items-center text-xs text-gray-400 mb-1">
+              <label htmlFor={`bw-${band}`} className="font-medium capitalize flex items-center gap-2">
+                <span className="w-2.5 h-2.5 rounded-full" style={{ background: `hsl(${hue} 80% 50%)` }} />
+                {band}
+              </label>
+              <span className="text-gray-300 bg-gray-700/80 px-2 py-0.5 rounded tabular-nums">{mix[band]}</span>
+            </div>
+            <input
+              id={`bw-${band}`}
+              type="range"
+              min="-100"
+              max="100"
+              value={mix[band]}
+              onChange={(e) => handleMixChange(band, Number(e.target.value))}
+              onDoubleClick={() => handleMixChange(band, 0)}
+              className={sliderClassName}
+              disabled={isLoading}
+            />
+          </div>
+        ))}
+        <div className="flex gap-2">
+          <button onClick={handleApplyBlackAndWhite} disabled={isLoading || !isConverting} className={applyClassName}>
+            Apply Black & White
+          </button>
+          <button
+            onClick={() => onBatchApplyBlackAndWhite(mix, mixPresetName ? `B&W ${mixPresetName}` : 'Custom B&W')}
+            disabled={isLoading || !isConverting}
+            className={batchClassName}
+            title="Apply this conversion to multiple images"
+          >
+            <DocumentDuplicateIcon className="w-5 h-5" />
+            Batch
+          </button>
+        </div>
+      </div>
+
+      {/* Split Toning Section */}
+      <div className="space-y-4 bg-black/20 p-4 rounded-lg border border-gray-700/50">
+        <div className="flex justify-between items-center">
+          <h4 className="text-sm font-bold uppercase tracking-wider text-gray-400">Split Toning</h4>
+          <button
+            onClick={() => setToning(NEUTRAL_SPLIT_TONING)}
+            disabled={isLoading || !isToningChanged}
+            className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50"
+          >
+            Reset
+          </button>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          {(Object.keys(SPLIT_TONING_PRESETS) as SplitToningPresetName[]).map(name => (
+            <button
+              key={name}
+              onClick={() => setToning(SPLIT_TONING_PRESETS[name])}
+              disabled={isLoading}
+              className={`text-xs font-semibold py-2 px-2 rounded-md transition-colors disabled:opacity-50 ${toningPresetName === name ? 'bg-blue-600 text-white' : 'bg-white/10 text-gray-300 hover:bg-white/20'}`}
+            >
+              {name}
+            </button>
+          ))}
+        </div>
+        {toningSliders.map(({ key, label, min, max, track }) => (
+          <div key={key}>
+            <div className="flex justify-between items-center text-xs text-gray-400 mb-1">
+              <label htmlFor={`split-${key}`} className="font-medium">{label}</label>
+              <span className="text-gray-300 bg-gray-700/80 px-2 py-0.5 rounded tabular-nums">{toning[key]}{track ? '°' : ''}</span>
+            </div>
+            <input
+              id={`split-${key}`}
+              type="range"
+              min={min}
+              max={max}
+              value={toning[key]}
+              onChange={(e) => setToning(prev => ({ ...prev, [key]: Number(e.target.value) }))}
+              className={track ? 'w-full h-1.5 rounded-lg appearance-none cursor-pointer accent-white' : sliderClassName}
+              style={track ? { background: track } : undefined}
+              disabled={isLoading}
+            />
+          </div>
+        ))}
+        <div className="flex gap-2">
+          <button onClick={handleApplySplitToning} disabled={isLoading || !isToningChanged} className={applyClassName}>
+            Apply Split Toning
+          </button>
+          <button
+            onClick={() => onBatchApplySplitToning(toning, toningPresetName ?? 'Custom split toning')}
+            disabled={isLoading || !isToningChanged}
+            className={batchClassName}
+            title="Apply this toning to multiple images"
+          >
+            <DocumentDuplicateIcon className="w-5 h-5" />
+            Batch
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BlackAndWhitePanel;
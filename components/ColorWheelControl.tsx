@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef } from 'react';
+import { colorWheelShift, WHEEL_CHANNEL_ANGLES, type ColorWheel } from '../services/pixelEngine.ts';
+
+interface ColorWheelControlProps {
+  label: string;
+  value: ColorWheel;
+  onChange: (value: ColorWheel) => void;
+  disabled: boolean;
+}
+
+// CSS conic gradients start at the top and run clockwise; the wheel's angles start at the right
+// and run counter-clockwise. Each stop shows the direction the puck pushes the color.
+const HUE_RING = `conic-gradient(${Array.from({ length: 13 }, (_, step) => {
+  const angle = (90 - step * 30) * Math.PI / 180;
+  const [r, g, b] = WHEEL_CHANNEL_ANGLES.map(a => Math.round(128 + 127 * Math.cos(angle - a * Math.PI / 180)));
+  return `rgb(${r} ${g} ${b}) ${step * 30}deg`;
+}).join(', ')})`;
+
+/**
+ * One lift/gamma/gain wheel: drag the puck to push the range's color, use the slider for its
+ * brightness. Double-click the wheel to center the puck.
+ */
+const ColorWheelControl: React.FC<ColorWheelControlProps> = ({ label, value, onChange, disabled }) => {
+  const wheelRef = useRef<HTMLDivElement>(null);
+
+  const moveTo = (e: React.PointerEvent) => {
+    const rect = wheelRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    let x = (e.clientX - rect.left) / rect.width * 2 - 1;
+    let y = 1 - (e.clientY - rect.top) / rect.height * 2;
+    const distance = Math.hypot(x, y);
+    if (distance > 1) {
+      x /= distance;
+      y /= distance;
+    }
+    onChange({ ...value, x: Number(x.toFixed(3)), y: Number(y.toFixed(3)) });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (disabled) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    moveTo(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (disabled || !e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    moveTo(e);
+  };
+
+  const shift = colorWheelShift(value).map(v => Math.round(v * 255));
+
+  return (
+    <div className={`flex flex-col items-center gap-2 ${disabled ? 'opacity-50' : ''}`}>
+      <span className="text-xs font-medium text-gray-400 uppercase">{label}</span>
+      <div
+        ref={wheelRef}
+        className={`relative w-24 h-24 rounded-full border border-gray-600 touch-none ${disabled ? 'cursor-not-allowed' : 'cursor-crosshair'}`}
+        style={{ background: `radial-gradient(circle, rgb(128 128 128) 0%, rgb(128 128 128 / 0) 70%), ${HUE_RING}` }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onDoubleClick={() => !disabled && onChange({ ...value, x: 0, y: 0 })}
+        title="Drag to shift the color; double-click to reset"
+      >
+        <div className="absolute left-1/2 top-1/2 w-1 h-1 -ml-0.5 -mt-0.5 rounded-full bg-gray-900/60" />
+        <div
+          className="absolute w-3 h-3 -ml-1.5 -mt-1.5 rounded-full border-2 border-white shadow pointer-events-none"
+          style={{ left: `${50 + value.x * 50}%`, top: `${50 - value.y * 50}%` }}
+        />
+      </div>
+      <input
+        type="range"
+        min="-100"
+        max="100"
+        value={value.luminance}
+        onChange={(e) => onChange({ ...value, luminance: Number(e.target.value) })}
+        onDoubleClick={() => onChange({ ...value, luminance: 0 })}
+        className="w-24 h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+        disabled={disabled}
+        aria-label={`${label} luminance`}
+      />
+      <span className="text-[10px] text-gray-500 tabular-nums">
+        <span className="text-red-400">{shift[0]}</span> · <span className="text-green-400">{shift[1]}</span> · <span className="text-blue-400">{shift[2]}</span>
+      </span>
+    </div>
+  );
+};
+
+export default ColorWheelControl;
@@ -4,7 +4,13 @@
 */
 
 import React, { useState } from 'react';
-import { RotateIcon, RotateCCWIcon, RotateCWIcon } from './icons.tsx';
+import { RotateIcon, RotateCCWIcon, RotateCWIcon, FlipHorizontalIcon, FlipVerticalIcon, CropIcon, PerspectiveIcon, StraightenIcon } from './icons.tsx';
+import type { OrientationTransform } from '../services/orientation.ts';
+import { isIdentityQuad, type PerspectiveSettings } from '../services/perspective.ts';
+
+// What dragging on the image does: select the crop, move the perspective corners, or draw a
+// line to straighten along.
+export type CropTool = 'crop' | 'corners' | 'straighten';
 
 interface CropPanelProps {
   onApply: () => void;
@@ -12,12 +18,32 @@ interface CropPanelProps {
   isLoading: boolean;
   canApply: boolean;
   onAutoRotate: () => void;
-  onRotateImage: (direction: 'clockwise' | 'counter-clockwise') => void;
+  onTransformImage: (transform: OrientationTransform) => void;
   rotation: number;
   onRotationChange: (rotation: number) => void;
+  tool: CropTool;
+  onToolChange: (tool: CropTool) => void;
+  perspective: PerspectiveSettings;
+  onKeystoneChange: (vertical: number, horizontal: number) => void;
+  onResetPerspective: () => void;
+  // Keep the crop on the largest rectangle the straightened image fills.
+  isAutoCrop: boolean;
+  onAutoCropChange: (isAutoCrop: boolean) => void;
 }
 
-const CropPanel: React.FC<CropPanelProps> = ({ onApply, onSetAspect, isLoading, canApply, onAutoRotate, onRotateImage, rotation, onRotationChange }) => {
+const TOOLS: { id: CropTool; label: string; icon: React.FC<{ className?: string }> }[] = [
+  { id: 'crop', label: 'Crop', icon: CropIcon },
+  { id: 'corners', label: 'Corners', icon: PerspectiveIcon },
+  { id: 'straighten', label: 'Draw Level', icon: StraightenIcon },
+];
+
+const TOOL_HINTS: Record<CropTool, string> = {
+  crop: 'Drag on the image to select the area to keep.',
+  corners: 'Drag the four corners onto edges that should be square, like a facade or a page.',
+  straighten: 'Draw a line along a horizon or a vertical edge to level it.',
+};
+
+const CropPanel: React.FC<CropPanelProps> = ({ onApply, onSetAspect, isLoading, canApply, onAutoRotate, onTransformImage, rotation, onRotationChange, tool, onToolChange, perspective, onKeystoneChange, onResetPerspective, isAutoCrop, onAutoCropChange }) => {
   const [activeAspect, setActiveAspect] = useState<string>('Free');
   
   const handleAspectChange = (aspect: string, value: number | undefined) => {
@@ -40,6 +66,28 @@ const CropPanel: React.FC<CropPanelProps> = ({ onApply, onSetAspect, isLoading,
     <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col items-center gap-4 animate-fade-in backdrop-blur-sm">
       <h3 className="text-lg font-semibold text-gray-300">Crop & Rotate</h3>
       <p className="text-sm text-gray-400 -mt-2">Select an area, choose an aspect ratio, or adjust orientation.</p>
+
+      <div className="w-full flex flex-col gap-2">
+        <div className="grid grid-cols-3 gap-2">
+          {TOOLS.map(({ id, label, icon: Icon }) => (
+            <button
+              key={id}
+              onClick={() => onToolChange(id)}
+              disabled={isLoading}
+              className={`flex items-center justify-center gap-2 p-2 rounded-md text-xs font-semibold transition-all active:scale-95 disabled:opacity-50 ${
+                tool === id
+                ? 'bg-gradient-to-br from-blue-600 to-blue-500 text-white shadow-md shadow-blue-500/20'
+                : 'bg-white/10 hover:bg-white/20 text-gray-200'
+              }`}
+              aria-pressed={tool === id}
+            >
+              <Icon className="w-5 h-5" />
+              {label}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-gray-400 text-center">{TOOL_HINTS[tool]}</p>
+      </div>
       
       <div className="w-full grid grid-cols-1 md:grid-cols-2 gap-4 items-start">
         <div className="flex flex-col gap-2">
@@ -66,7 +114,7 @@ const CropPanel: React.FC<CropPanelProps> = ({ onApply, onSetAspect, isLoading,
             <div className="grid grid-cols-3 gap-2">
               <div className="relative group">
                 <button
-                  onClick={() => onRotateImage('counter-clockwise')}
+                  onClick={() => onTransformImage('rotate-ccw')}
                   disabled={isLoading}
                   className="w-full flex items-center justify-center p-3 bg-white/10 hover:bg-white/20 text-gray-200 font-semibold rounded-md transition-all active:scale-95 disabled:opacity-50"
                   aria-label="Rotate counter-clockwise"
@@ -94,7 +142,7 @@ const CropPanel: React.FC<CropPanelProps> = ({ onApply, onSetAspect, isLoading,
               </div>
               <div className="relative group">
                 <button
-                  onClick={() => onRotateImage('clockwise')}
+                  onClick={() => onTransformImage('rotate-cw')}
                   disabled={isLoading}
                   className="w-full flex items-center justify-center p-3 bg-white/10 hover:bg-white/20 text-gray-200 font-semibold rounded-md transition-all active:scale-95 disabled:opacity-50"
                   aria-label="Rotate clockwise"
@@ -107,6 +155,23 @@ const CropPanel: React.FC<CropPanelProps> = ({ onApply, onSetAspect, isLoading,
                 </div>
               </div>
             </div>
+            <div className="grid grid-cols-2 gap-2">
+              {([
+                { transform: 'flip-horizontal', label: 'Flip Horizontal', icon: FlipHorizontalIcon },
+                { transform: 'flip-vertical', label: 'Flip Vertical', icon: FlipVerticalIcon },
+              ] as const).map(({ transform, label, icon: Icon }) => (
+                <button
+                  key={transform}
+                  onClick={() => onTransformImage(transform)}
+                  disabled={isLoading}
+                  className="w-full flex items-center justify-center gap-2 p-3 bg-white/10 hover:bg-white/20 text-gray-200 text-xs font-semibold rounded-md transition-all active:scale-95 disabled:opacity-50"
+                  aria-label={label}
+                >
+                  <Icon className="w-5 h-5" />
+                  {label}
+                </button>
+              ))}
+            </div>
         </div>
       </div>
 
@@ -138,6 +203,52 @@ const CropPanel: React.FC<CropPanelProps> = ({ onApply, onSetAspect, isLoading,
         />
       </div>
 
+      <div className="w-full flex flex-col gap-3">
+        <div className="flex justify-between items-center text-sm">
+          <span className="font-medium text-gray-400">Perspective</span>
+          <button
+            onClick={onResetPerspective}
+            disabled={isLoading || isIdentityQuad(perspective.quad)}
+            className="text-xs font-medium text-blue-400 hover:text-blue-300 disabled:opacity-50 disabled:cursor-not-allowed"
+            aria-label="Reset perspective"
+          >
+            Reset
+          </button>
+        </div>
+        {([
+          { key: 'vertical', label: 'Vertical' },
+          { key: 'horizontal', label: 'Horizontal' },
+        ] as const).map(({ key, label }) => (
+          <div key={key}>
+            <div className="flex justify-between items-center text-xs text-gray-400 mb-1">
+              <label htmlFor={`keystone-${key}`}>{label}</label>
+              <span className="text-gray-300 bg-gray-700/80 px-2 py-0.5 rounded-md w-12 text-center">{perspective[key]}</span>
+            </div>
+            <input
+              id={`keystone-${key}`}
+              type="range"
+              min="-100"
+              max="100"
+              value={perspective[key]}
+              onChange={(e) => key === 'vertical'
+                ? onKeystoneChange(Number(e.target.value), perspective.horizontal)
+                : onKeystoneChange(perspective.vertical, Number(e.target.value))}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+              disabled={isLoading}
+            />
+          </div>
+        ))}
+        <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={isAutoCrop}
+            onChange={(e) => onAutoCropChange(e.target.checked)}
+            disabled={isLoading}
+            className="w-4 h-4 rounded accent-blue-500"
+          />
+          Auto-crop to the largest valid rectangle
+        </label>
+      </div>
 
       <button
         onClick={onApply}
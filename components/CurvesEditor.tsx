@@ -0,0 +1,157 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useRef, useState } from 'react';
+import { buildCurveTable, type ChannelHistogram, type CurveChannel, type CurvePoint, type Curves } from '../services/pixelEngine.ts';
+import HistogramChart from './HistogramChart.tsx';
+
+interface CurvesEditorProps {
+  curves: Curves;
+  onChange: (curves: Curves) => void;
+  // Histogram of the current image, drawn behind the curve of the channel being edited.
+  histogram: ChannelHistogram | null;
+  disabled: boolean;
+}
+
+const CHANNELS: { id: CurveChannel; label: string; stroke: string }[] = [
+  { id: 'rgb', label: 'RGB', stroke: '#e5e7eb' },
+  { id: 'red', label: 'Red', stroke: '#ef4444' },
+  { id: 'green', label: 'Green', stroke: '#22c55e' },
+  { id: 'blue', label: 'Blue', stroke: '#3b82f6' },
+];
+
+// Points closer than this (in levels) to a click are grabbed instead of adding a new one.
+const GRAB_DISTANCE = 8;
+
+/**
+ * Editable tone curves on a 256 x 256 grid: click to add a point, drag to move it,
+ * double-click or drag it off the side to remove it. The end points can't be removed.
+ */
+const CurvesEditor: React.FC<CurvesEditorProps> = ({ curves, onChange, histogram, disabled }) => {
+  const [channel, setChannel] = useState<CurveChannel>('rgb');
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const points = curves[channel];
+  const stroke = CHANNELS.find(c => c.id === channel)!.stroke;
+
+  const curvePath = useMemo(() => {
+    const table = buildCurveTable(points);
+    return Array.from(table, (y, x) => `${x === 0 ? 'M' : 'L'}${x},${255 - y}`).join('');
+  }, [points]);
+
+  const backdrop = useMemo(() => {
+    if (!histogram) return null;
+    if (channel === 'rgb') return histogram;
+    const empty = new Uint32Array(256);
+    return { red: channel === 'red' ? histogram.red : empty, green: channel === 'green' ? histogram.green : empty, blue: channel === 'blue' ? histogram.blue : empty };
+  }, [histogram, channel]);
+
+  const toLevels = (event: React.PointerEvent): CurvePoint => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const clamp = (v: number) => Math.round(Math.min(255, Math.max(0, v)));
+    return {
+      x: clamp(((event.clientX - rect.left) / rect.width) * 255),
+      y: clamp((1 - (event.clientY - rect.top) / rect.height) * 255),
+    };
+  };
+
+  const setPoints = (next: CurvePoint[]) => onChange({ ...curves, [channel]: next });
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (disabled) return;
+    const target = toLevels(event);
+    let index = points.findIndex(p => Math.abs(p.x - target.x) <= GRAB_DISTANCE && Math.abs(p.y - target.y) <= GRAB_DISTANCE);
+    // A click on a column that already holds a point grabs that point instead of stacking a second one on it.
+    if (index === -1) {
+      index = points.findIndex(p => p.x === target.x);
+    }
+    if (index === -1) {
+      const next = [...points, target].sort((a, b) => a.x - b.x);
+      index = next.indexOf(target);
+      setPoints(next);
+    }
+    setDragIndex(index);
+    event.currentTarget.setPointerCapture(event.pointerId);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (dragIndex === null) return;
+    const target = toLevels(event);
+    const isEnd = dragIndex === 0 || dragIndex === points.length - 1;
+    // Points keep their order and stay strictly between their neighbours, so no two share an x.
+    const min = dragIndex > 0 ? points[dragIndex - 1].x + 1 : 0;
+    const max = dragIndex < points.length - 1 ? points[dragIndex + 1].x - 1 : 255;
+    const x = min > max ? points[dragIndex].x : Math.min(max, Math.max(min, target.x));
+    const rect = svgRef.current!.getBoundingClientRect();
+    const draggedOff = event.clientX < rect.left - 24 || event.clientX > rect.right + 24;
+    if (draggedOff && !isEnd) {
+      setPoints(points.filter((_, i) => i !== dragIndex));
+      setDragIndex(null);
+      return;
+    }
+    const next = [...points];
+    next[dragIndex] = { x, y: target.y };
+    setPoints(next);
+  };
+
+  const handleDoubleClick = (index: number) => {
+    if (disabled || index === 0 || index === points.length - 1) return;
+    setPoints(points.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="grid grid-cols-4 gap-1">
+        {CHANNELS.map(({ id, label }) => (
+          <button
+            key={id}
+            onClick={() => setChannel(id)}
+            className={`py-1 rounded text-xs font-semibold transition-colors ${channel === id ? 'bg-blue-600 text-white' : 'bg-white/10 text-gray-300 hover:bg-white/20'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <div className="relative w-full aspect-square bg-black/40 rounded border border-gray-700 overflow-hidden">
+        {backdrop && <HistogramChart histogram={backdrop} className="absolute inset-0 w-full h-full opacity-40" />}
+        <svg
+          ref={svgRef}
+          viewBox="0 0 255 255"
+          preserveAspectRatio="none"
+          className={`absolute inset-0 w-full h-full touch-none ${disabled ? 'cursor-not-allowed' : 'cursor-crosshair'}`}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => setDragIndex(null)}
+          onPointerCancel={() => setDragIndex(null)}
+        >
+          {[64, 128, 191].map(v => (
+            <g key={v} stroke="#374151" strokeWidth={1} vectorEffect="non-scaling-stroke">
+              <line x1={v} y1={0} x2={v} y2={255} vectorEffect="non-scaling-stroke" />
+              <line x1={0} y1={v} x2={255} y2={v} vectorEffect="non-scaling-stroke" />
+            </g>
+          ))}
+          <line x1={0} y1={255} x2={255} y2={0} stroke="#4b5563" strokeDasharray="4 4" vectorEffect="non-scaling-stroke" />
+          <path d={curvePath} fill="none" stroke={stroke} strokeWidth={2} vectorEffect="non-scaling-stroke" />
+          {points.map((p, i) => (
+            <circle
+              key={i}
+              cx={p.x}
+              cy={255 - p.y}
+              r={4}
+              fill={i === dragIndex ? stroke : '#111827'}
+              stroke={stroke}
+              strokeWidth={1.5}
+              vectorEffect="non-scaling-stroke"
+              onDoubleClick={() => handleDoubleClick(i)}
+            />
+          ))}
+        </svg>
+      </div>
+    </div>
+  );
+};
+
+export default CurvesEditor;
@@ -58,11 +58,13 @@ const FaceRetouchPanel: React.FC<FaceRetouchPanelProps> = ({ onApplyRetouch, isL
   const [detectedFaces, setDetectedFaces] = useState<(Face & { id: number, previewUrl: string })[]>([]);
   const [selectedFaceIds, setSelectedFaceIds] = useState<Set<number>>(new Set());
   const [isLoadingFaces, setIsLoadingFaces] = useState(false);
+  const [detectionError, setDetectionError] = useState<string | null>(null);
   const detectionTriggered = useRef(false);
 
   // When panel becomes visible, reset state
   useEffect(() => {
     detectionTriggered.current = false;
+    setDetectionError(null);
     setDetectedFaces([]);
     setSelectedFaceIds(new Set());
     onFacesDetected([]);
@@ -73,6 +75,7 @@ const FaceRetouchPanel: React.FC<FaceRetouchPanelProps> = ({ onApplyRetouch, isL
     if (!currentImage || isLoadingFaces) return;
 
     setIsLoadingFaces(true);
+    setDetectionError(null);
     detectionTriggered.current = true;
     try {
         const faces = await detectFaces(currentImage);
@@ -94,7 +97,9 @@ const FaceRetouchPanel: React.FC<FaceRetouchPanelProps> = ({ onApplyRetouch, isL
 
     } catch (error) {
         console.error("Face detection failed", error);
-        // Consider showing an error to the user
+        // Bring the detect button back so the user can retry.
+        detectionTriggered.current = false;
+        setDetectionError("Could not detect faces in the image. Please try again.");
     } finally {
         setIsLoadingFaces(false);
     }
@@ -104,6 +109,7 @@ const FaceRetouchPanel: React.FC<FaceRetouchPanelProps> = ({ onApplyRetouch, isL
     if (!currentImage || isLoading || isLoadingFaces) return;
 
     setIsLoadingFaces(true);
+    setDetectionError(null);
     detectionTriggered.current = true; // Set this to true so the panel switches to the "face selection" view, which also handles the "no faces found" message.
     try {
         const faces = await detectFaces(currentImage);
@@ -123,6 +129,8 @@ const FaceRetouchPanel: React.FC<FaceRetouchPanelProps> = ({ onApplyRetouch, isL
         }
     } catch (error) {
         console.error("Preset face detection failed", error);
+        detectionTriggered.current = false;
+        setDetectionError("Could not detect faces in the image. Please try again.");
     } finally {
         setIsLoadingFaces(false);
     }
@@ -219,6 +227,8 @@ const FaceRetouchPanel: React.FC<FaceRetouchPanelProps> = ({ onApplyRetouch, isL
           <div className="relative flex justify-center"><span className="bg-gray-800/50 px-2 text-sm text-gray-500 backdrop-blur-sm">Or Manually Adjust</span></div>
       </div>
       
+      {detectionError && <p className="text-red-400 text-center bg-red-500/10 p-3 rounded-md">{detectionError}</p>}
+
       {!detectionTriggered.current ? (
           <button onClick={handleDetectFaces} disabled={isLoadingFaces || isLoading} className="w-full bg-white/10 text-gray-200 font-semibold py-3 px-4 rounded-md transition-all hover:bg-white/20 active:scale-95 disabled:opacity-50">
             {isLoadingFaces ? 'Detecting...' : 'Detect Faces for Manual Control'}
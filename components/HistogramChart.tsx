@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo } from 'react';
+import type { ChannelHistogram } from '../services/pixelEngine.ts';
+
+export type HistogramChannel = keyof ChannelHistogram | 'luma';
+
+interface HistogramChartProps {
+  histogram: ChannelHistogram & { luma?: Uint32Array };
+  // Channels to draw; red, green and blue overlap additively like a camera's RGB histogram.
+  channels?: HistogramChannel[];
+  className?: string;
+}
+
+const CHANNEL_COLORS: Record<HistogramChannel, string> = {
+  red: '#ef4444',
+  green: '#22c55e',
+  blue: '#3b82f6',
+  luma: '#d1d5db',
+};
+
+const RGB_CHANNELS: HistogramChannel[] = ['red', 'green', 'blue'];
+
+// Closed area path over a 256 x 100 box. Heights use a square root so small counts stay visible,
+// scaled to the tallest bin that isn't pure black or white (those spikes would flatten everything else).
+const areaPath = (counts: Uint32Array, peak: number): string => {
+  let path = 'M0,100';
+  for (let level = 0; level < 256; level++) {
+    const height = peak > 0 ? Math.min(1, Math.sqrt(counts[level] / peak)) * 100 : 0;
+    path += `L${level},${(100 - height).toFixed(2)}L${level + 1},${(100 - height).toFixed(2)}`;
+  }
+  return `${path}L256,100Z`;
+};
+
+const HistogramChart: React.FC<HistogramChartProps> = ({ histogram, channels = RGB_CHANNELS, className }) => {
+  const paths = useMemo(() => {
+    const drawn = channels.filter(channel => histogram[channel]) as HistogramChannel[];
+    let peak = 0;
+    for (const channel of drawn) {
+      const counts = histogram[channel]!;
+      for (let level = 1; level < 255; level++) peak = Math.max(peak, counts[level]);
+    }
+    return drawn.map(channel => ({ channel, d: areaPath(histogram[channel]!, peak) }));
+  }, [histogram, channels]);
+
+  return (
+    <svg viewBox="0 0 256 100" preserveAspectRatio="none" className={className ?? 'w-full h-20 bg-black/40 rounded'} aria-hidden="true">
+      {paths.map(({ channel, d }) => (
+        <path key={channel} d={d} fill={CHANNEL_COLORS[channel]} fillOpacity={channel === 'luma' ? 0.5 : 0.6} style={{ mixBlendMode: 'screen' }} />
+      ))}
+    </svg>
+  );
+};
+
+export default HistogramChart;
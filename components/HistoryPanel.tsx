@@ -5,15 +5,25 @@
 
 import React from 'react';
 import { CloseIcon } from './icons.tsx';
+import { formatPromptRef, type PromptRef } from '../services/promptRegistry.ts';
+
+// A variant that was generated for a step but not applied. Selecting it replaces the step.
+export type HistoryBranch = {
+  imageUrl: string;
+  promptRefs?: PromptRef[];
+};
 
 interface HistoryPanelProps {
   history: string[];
+  historyPrompts: (PromptRef[] | undefined)[];
+  historyBranches: (HistoryBranch[] | undefined)[];
   currentIndex: number;
   onSelectHistory: (index: number) => void;
+  onSelectBranch: (index: number, branchIndex: number) => void;
   onClose: () => void;
 }
 
-const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, currentIndex, onSelectHistory, onClose }) => {
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, historyPrompts, historyBranches, currentIndex, onSelectHistory, onSelectBranch, onClose }) => {
     // Reverse history for display to show most recent first
     const reversedHistory = [...history].reverse();
     const reversedCurrentIndex = history.length - 1 - currentIndex;
@@ -43,34 +53,57 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, currentIndex, onSe
           {reversedHistory.map((imageDataUrl, reversedIndex) => {
             const originalIndex = history.length - 1 - reversedIndex;
             const isActive = reversedIndex === reversedCurrentIndex;
+            const promptRefs = historyPrompts[originalIndex];
+            const branches = historyBranches[originalIndex];
 
             return (
-              <button
-                key={originalIndex}
-                onClick={() => onSelectHistory(originalIndex)}
-                className={`w-full flex items-center gap-4 p-2 rounded-lg text-left transition-all duration-200 border-2 ${
-                  isActive
-                    ? 'bg-blue-500/30 border-blue-500 shadow-md'
-                    : 'bg-gray-800/50 border-gray-700/50 hover:bg-gray-700/70 hover:border-gray-600'
-                }`}
-              >
-                <img
-                  src={imageDataUrl}
-                  alt={`History state ${originalIndex}`}
-                  className="w-16 h-16 object-cover rounded-md flex-shrink-0 bg-gray-700"
-                  loading="lazy"
-                />
-                <div className="flex-grow">
-                  <span className={`font-semibold text-base ${isActive ? 'text-white' : 'text-gray-300'}`}>
-                    {getActionName(originalIndex)}
-                  </span>
-                  {isActive && (
-                    <span className="text-xs font-medium text-blue-300 bg-blue-900/50 border border-blue-500/50 px-2 py-0.5 rounded-full ml-2">
-                        Current
+              <div key={originalIndex}>
+                <button
+                  onClick={() => onSelectHistory(originalIndex)}
+                  className={`w-full flex items-center gap-4 p-2 rounded-lg text-left transition-all duration-200 border-2 ${
+                    isActive
+                      ? 'bg-blue-500/30 border-blue-500 shadow-md'
+                      : 'bg-gray-800/50 border-gray-700/50 hover:bg-gray-700/70 hover:border-gray-600'
+                  }`}
+                >
+                  <img
+                    src={imageDataUrl}
+                    alt={`History state ${originalIndex}`}
+                    className="w-16 h-16 object-cover rounded-md flex-shrink-0 bg-gray-700"
+                    loading="lazy"
+                  />
+                  <div className="flex-grow">
+                    <span className={`font-semibold text-base ${isActive ? 'text-white' : 'text-gray-300'}`}>
+                      {getActionName(originalIndex)}
                     </span>
-                  )}
-                </div>
-              </button>
+                    {isActive && (
+                      <span className="text-xs font-medium text-blue-300 bg-blue-900/50 border border-blue-500/50 px-2 py-0.5 rounded-full ml-2">
+                          Current
+                      </span>
+                    )}
+                    {promptRefs && promptRefs.length > 0 && (
+                      <p className="text-xs text-gray-500 mt-1 break-all" title="Prompt templates used for this edit">
+                        {promptRefs.map(formatPromptRef).join(' + ')}
+                      </p>
+                    )}
+                  </div>
+                </button>
+                {branches && branches.length > 0 && (
+                  <div className="flex items-center gap-2 mt-1 ml-6 pl-3 border-l-2 border-gray-700">
+                    <span className="text-xs text-gray-500">Branches</span>
+                    {branches.map((branch, branchIndex) => (
+                      <button
+                        key={branchIndex}
+                        onClick={() => onSelectBranch(originalIndex, branchIndex)}
+                        title={originalIndex < history.length - 1 ? 'Switch to this variant (later edits will be discarded)' : 'Switch to this variant'}
+                        className="rounded-md border-2 border-gray-700 hover:border-blue-500 transition-colors overflow-hidden"
+                      >
+                        <img src={branch.imageUrl} alt={`Branch ${branchIndex + 1} of edit ${originalIndex}`} className="w-10 h-10 object-cover bg-gray-700" loading="lazy" />
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
             );
           })}
         </div>
@@ -0,0 +1,144 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { HSL_BANDS, NEUTRAL_HSL, isNeutralHsl, type HslAdjustments, type HslChannel } from '../services/colorMixer.ts';
+import { CursorArrowRaysIcon } from './icons.tsx';
+
+interface HslPanelProps {
+  hsl: HslAdjustments;
+  onHslChange: (hsl: HslAdjustments) => void;
+  // The property the sliders (and targeted drags on the image) adjust.
+  channel: HslChannel;
+  onChannelChange: (channel: HslChannel) => void;
+  isTargeted: boolean;
+  onTargetedChange: (isTargeted: boolean) => void;
+  onApplyHsl: () => void;
+  isLoading: boolean;
+}
+
+const CHANNELS: { id: HslChannel; label: string }[] = [
+  { id: 'hue', label: 'Hue' },
+  { id: 'saturation', label: 'Saturation' },
+  { id: 'luminance', label: 'Luminance' },
+];
+
+// Slider track showing what each end does to the band.
+const trackBackground = (channel: HslChannel, hue: number): string => {
+  switch (channel) {
+    case 'hue':
+      return `linear-gradient(to right, hsl(${hue - 30} 80% 50%), hsl(${hue} 80% 50%), hsl(${hue + 30} 80% 50%))`;
+    case 'saturation':
+      return `linear-gradient(to right, hsl(${hue} 0% 50%), hsl(${hue} 100% 50%))`;
+    case 'luminance':
+      return `linear-gradient(to right, hsl(${hue} 80% 15%), hsl(${hue} 80% 50%), hsl(${hue} 80% 85%))`;
+  }
+};
+
+/**
+ * Hue, saturation and luminance per color band, processed on this device. The result is
+ * previewed on the image; in targeted mode, dragging up or down on the image adjusts the bands
+ * of the color under the cursor.
+ */
+const HslPanel: React.FC<HslPanelProps> = ({ hsl, onHslChange, channel, onChannelChange, isTargeted, onTargetedChange, onApplyHsl, isLoading }) => {
+  const isChanged = !isNeutralHsl(hsl);
+  const isChannelChanged = HSL_BANDS.some(({ band }) => hsl[band][channel] !== 0);
+
+  const setBandValue = (band: keyof HslAdjustments, value: number) => {
+    onHslChange({ ...hsl, [band]: { ...hsl[band], [channel]: value } });
+  };
+
+  const handleResetChannel = () => {
+    onHslChange(Object.fromEntries(HSL_BANDS.map(({ band }) => [band, { ...hsl[band], [channel]: 0 }])) as HslAdjustments);
+  };
+
+  return (
+    <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
+      <h3 className="text-xl font-bold text-center text-gray-200">HSL Mixer</h3>
+
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex gap-1">
+          {CHANNELS.map(({ id, label }) => (
+            <button
+              key={id}
+              onClick={() => onChannelChange(id)}
+              disabled={isLoading}
+              className={`px-3 py-1.5 rounded text-sm font-semibold transition-colors disabled:opacity-50 ${channel === id ? 'bg-blue-600 text-white' : 'bg-white/10 text-gray-300 hover:bg-white/20'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => onTargetedChange(!isTargeted)}
+          disabled={isLoading}
+          className={`p-2 rounded-md transition-colors disabled:opacity-50 ${isTargeted ? 'bg-blue-600 text-white' : 'bg-white/10 text-gray-300 hover:bg-white/20'}`}
+          title="Targeted adjustment: drag up or down on the image to adjust the colors under the cursor"
+          aria-pressed={isTargeted}
+        >
+          <CursorArrowRaysIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      {isTargeted && (
+        <p className="text-xs text-gray-400">
+          Drag up or down on a color in the image to change its {channel}.
+        </p>
+      )}
+
+      <div className="space-y-3 bg-black/20 p-4 rounded-lg border border-gray-700/50">
+        <div className="flex justify-between items-center">
+          <h4 className="text-sm font-bold uppercase tracking-wider text-gray-400">{CHANNELS.find(c => c.id === channel)?.label}</h4>
+          <button
+            onClick={handleResetChannel}
+            disabled={isLoading || !isChannelChanged}
+            className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50"
+          >
+            Reset
+          </button>
+        </div>
+        {HSL_BANDS.map(({ band, hue }) => (
+          <div key={band}>
+            <div className="flex justify-between items-center text-xs text-gray-400 mb-1">
+              <label htmlFor={`hsl-${band}`} className="font-medium capitalize">{band}</label>
+              <span className="text-gray-300 bg-gray-700/80 px-2 py-0.5 rounded tabular-nums">{hsl[band][channel]}</span>
+            </div>
+            <input
+              id={`hsl-${band}`}
+              type="range"
+              min="-100"
+              max="100"
+              value={hsl[band][channel]}
+              onChange={(e) => setBandValue(band, Number(e.target.value))}
+              onDoubleClick={() => setBandValue(band, 0)}
+              className="w-full h-1.5 rounded-lg appearance-none cursor-pointer accent-white"
+              style={{ background: trackBackground(channel, hue) }}
+              disabled={isLoading}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => onHslChange(NEUTRAL_HSL)}
+          disabled={isLoading || !isChanged}
+          className="flex-shrink-0 bg-white/10 text-gray-200 font-semibold py-3 px-5 rounded-lg transition-all hover:bg-white/20 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Reset All
+        </button>
+        <button
+          onClick={onApplyHsl}
+          disabled={isLoading || !isChanged}
+          className="flex-grow bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+        >
+          Apply HSL
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default HslPanel;
@@ -0,0 +1,156 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useSyncExternalStore } from 'react';
+import type { Histogram } from '../services/pixelEngine.ts';
+import { rgbToHex, rgbToLab, type Rgb } from '../services/colorSpace.ts';
+import HistogramChart, { type HistogramChannel } from './HistogramChart.tsx';
+import { CloseIcon } from './icons.tsx';
+
+export type InfoPanelDock = 'left' | 'right';
+
+export type CursorSample = {
+  // Natural image coordinates.
+  x: number;
+  y: number;
+  rgb: Rgb;
+};
+
+// The cursor readout changes on every pointer move, so it is published through a store that
+// only the info panel subscribes to, rather than kept in App state.
+export type CursorSampleStore = {
+  get: () => CursorSample | null;
+  set: (sample: CursorSample | null) => void;
+  subscribe: (listener: () => void) => () => void;
+};
+
+export const createCursorSampleStore = (): CursorSampleStore => {
+  let current: CursorSample | null = null;
+  const listeners = new Set<() => void>();
+  return {
+    get: () => current,
+    set: (sample) => {
+      // Moves within the same image pixel change nothing.
+      if (sample === current || (sample && current && sample.x === current.x && sample.y === current.y)) return;
+      current = sample;
+      listeners.forEach(listener => listener());
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+interface InfoPanelProps {
+  histogram: Histogram | null;
+  sampleStore: CursorSampleStore;
+  showHighlightClipping: boolean;
+  showShadowClipping: boolean;
+  onToggleHighlightClipping: () => void;
+  onToggleShadowClipping: () => void;
+  dock: InfoPanelDock;
+  onDockChange: (dock: InfoPanelDock) => void;
+  onClose: () => void;
+}
+
+const LUMA_CHANNELS: HistogramChannel[] = ['luma'];
+
+const formatPercent = (count: number, total: number) => total > 0 ? `${(count / total * 100).toFixed(2)}%` : '–';
+
+/**
+ * Objective readouts for the committed image: histograms, clipping and the color under the cursor.
+ */
+const InfoPanel: React.FC<InfoPanelProps> = ({ histogram, sampleStore, showHighlightClipping, showShadowClipping, onToggleHighlightClipping, onToggleShadowClipping, dock, onDockChange, onClose }) => {
+  const clipping = useMemo(() => {
+    if (!histogram) return null;
+    const total = histogram.luma.reduce((sum, count) => sum + count, 0);
+    return (['red', 'green', 'blue'] as const).map(channel => ({
+      channel,
+      highlights: formatPercent(histogram[channel][255], total),
+      shadows: formatPercent(histogram[channel][0], total),
+    }));
+  }, [histogram]);
+
+  const sample = useSyncExternalStore(sampleStore.subscribe, sampleStore.get);
+  const lab = sample ? rgbToLab(sample.rgb) : null;
+
+  return (
+    <div
+      className={`absolute top-4 ${dock === 'left' ? 'left-4' : 'right-4'} z-20 w-64 bg-gray-900/80 border border-gray-700/80 rounded-lg p-3 backdrop-blur-sm shadow-lg animate-fade-in flex flex-col gap-3 text-xs text-gray-300`}
+      onPointerDown={e => e.stopPropagation()}
+      onPointerUp={e => e.stopPropagation()}
+      onPointerMove={e => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between">
+        <h3 className="font-bold uppercase tracking-wider text-gray-400">Info</h3>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => onDockChange(dock === 'left' ? 'right' : 'left')}
+            className="px-2 py-0.5 rounded text-gray-400 hover:text-white hover:bg-white/10 transition-colors"
+            title={dock === 'left' ? 'Dock to the right' : 'Dock to the left'}
+          >
+            {dock === 'left' ? '⇥' : '⇤'}
+          </button>
+          <button onClick={onClose} className="p-1 rounded text-gray-400 hover:text-white hover:bg-white/10 transition-colors" aria-label="Close info panel">
+            <CloseIcon className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {histogram ? (
+        <>
+          <HistogramChart histogram={histogram} channels={LUMA_CHANNELS} className="w-full h-12 bg-black/40 rounded" />
+          <HistogramChart histogram={histogram} className="w-full h-16 bg-black/40 rounded" />
+        </>
+      ) : (
+        <div className="w-full h-28 bg-black/40 rounded flex items-center justify-center text-gray-500 animate-pulse">Reading image…</div>
+      )}
+
+      <div className="flex flex-col gap-1">
+        <div className="grid grid-cols-4 gap-1 text-gray-500">
+          <span>Clipped</span>
+          <span className="text-red-400">R</span>
+          <span className="text-green-400">G</span>
+          <span className="text-blue-400">B</span>
+        </div>
+        {(['highlights', 'shadows'] as const).map(kind => (
+          <div key={kind} className="grid grid-cols-4 gap-1 tabular-nums">
+            <label className="flex items-center gap-1 cursor-pointer" title={`Show clipped ${kind} on the image`}>
+              <input
+                type="checkbox"
+                checked={kind === 'highlights' ? showHighlightClipping : showShadowClipping}
+                onChange={kind === 'highlights' ? onToggleHighlightClipping : onToggleShadowClipping}
+                className={kind === 'highlights' ? 'accent-red-500' : 'accent-blue-500'}
+              />
+              {kind === 'highlights' ? 'Highs' : 'Shadows'}
+            </label>
+            {clipping ? clipping.map(c => <span key={c.channel}>{c[kind]}</span>) : <span className="col-span-3 text-gray-500">–</span>}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-col gap-1 border-t border-gray-700/80 pt-2 tabular-nums">
+        {sample && lab ? (
+          <>
+            <div className="flex items-center justify-between">
+              <span className="text-gray-500">X {sample.x} · Y {sample.y}</span>
+              <span className="w-4 h-4 rounded border border-white/30" style={{ backgroundColor: rgbToHex(sample.rgb) }} />
+            </div>
+            <div className="flex justify-between"><span className="text-gray-500">RGB</span><span>{sample.rgb.join(', ')}</span></div>
+            <div className="flex justify-between"><span className="text-gray-500">HEX</span><span>{rgbToHex(sample.rgb)}</span></div>
+            <div className="flex justify-between"><span className="text-gray-500">Lab</span><span>{lab.map(v => v.toFixed(1)).join(', ')}</span></div>
+          </>
+        ) : (
+          <span className="text-gray-500">Hover over the image for pixel values.</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default InfoPanel;
@@ -0,0 +1,251 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { NEUTRAL_LENS_CORRECTION, isNeutralLensCorrection, type LensCorrection } from '../services/lensCorrection.ts';
+import { deleteLensProfile, getLensProfiles, importLensProfileFiles, saveLensProfile, serializeLensProfile, type LensProfile } from '../services/lensProfiles.ts';
+import type { PixelOperation } from '../services/pixelEngine.worker.ts';
+import { ArrowUpOnSquareIcon, DocumentDuplicateIcon, TrashIcon } from './icons.tsx';
+
+interface LensCorrectionPanelProps {
+  // Resolve to true once applied, so the panel can clear the pending correction.
+  onApplyLensCorrection: (correction: LensCorrection) => Promise<boolean>;
+  onBatchApplyLensCorrection: (correction: LensCorrection, name: string) => void;
+  // The pending correction, rendered by the pixel engine over the image.
+  onPixelPreviewChange: (operation: PixelOperation | null) => void;
+  isLoading: boolean;
+}
+
+type NumberField = Exclude<keyof LensCorrection, 'autoScale'>;
+
+const SECTIONS: { title: string; sliders: { key: NumberField; label: string; min: number; max: number; step: number }[] }[] = [
+  {
+    title: 'Distortion',
+    sliders: [
+      { key: 'k1', label: 'Radial (k1)', min: -0.5, max: 0.5, step: 0.005 },
+      { key: 'k2', label: 'Edges (k2)', min: -0.25, max: 0.25, step: 0.005 },
+    ],
+  },
+  {
+    title: 'Chromatic Aberration',
+    sliders: [
+      { key: 'redCyan', label: 'Red / Cyan', min: -100, max: 100, step: 1 },
+      { key: 'blueYellow', label: 'Blue / Yellow', min: -100, max: 100, step: 1 },
+    ],
+  },
+  {
+    title: 'Vignetting',
+    sliders: [
+      { key: 'vignette', label: 'Amount', min: -100, max: 100, step: 1 },
+      { key: 'vignetteMidpoint', label: 'Midpoint', min: 0, max: 100, step: 1 },
+    ],
+  },
+];
+
+const sameCorrection = (a: LensCorrection, b: LensCorrection) =>
+  (Object.keys(a) as (keyof LensCorrection)[]).every(key => a[key] === b[key]);
+
+const sliderClassName = 'w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500';
+
+const downloadProfile = (profile: LensProfile) => {
+  const blob = new Blob([serializeLensProfile(profile)], { type: 'application/json' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = `${profile.name.replace(/[^\w\- ]+/g, '_')}.json`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(link.href), 0);
+};
+
+/**
+ * Lens distortion, chromatic aberration and vignetting, corrected on this device. Corrections
+ * are saved per lens as profiles, which can be exported and imported as JSON files.
+ */
+const LensCorrectionPanel: React.FC<LensCorrectionPanelProps> = ({ onApplyLensCorrection, onBatchApplyLensCorrection, onPixelPreviewChange, isLoading }) => {
+  const [correction, setCorrection] = useState<LensCorrection>(NEUTRAL_LENS_CORRECTION);
+  const [profiles, setProfiles] = useState<LensProfile[]>(getLensProfiles);
+  const [profileName, setProfileName] = useState('');
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const isChanged = !isNeutralLensCorrection(correction);
+  const trimmedName = profileName.trim();
+  const savedProfile = profiles.find(p => p.name === trimmedName);
+  const matchingProfile = profiles.find(p => sameCorrection({ ...NEUTRAL_LENS_CORRECTION, ...p.correction }, correction));
+
+  useEffect(() => {
+    onPixelPreviewChange(isChanged ? { type: 'lensCorrection', correction } : null);
+  }, [isChanged, correction, onPixelPreviewChange]);
+
+  // The preview belongs to this panel, so drop it when it closes.
+  useEffect(() => () => onPixelPreviewChange(null), [onPixelPreviewChange]);
+
+  const handleLoadProfile = (name: string) => {
+    const profile = profiles.find(p => p.name === name);
+    if (!profile) return;
+    setCorrection({ ...NEUTRAL_LENS_CORRECTION, ...profile.correction });
+    setProfileName(profile.name);
+  };
+
+  const handleImport = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+    const { profiles: updated, errors } = await importLensProfileFiles(Array.from(fileList));
+    setProfiles(updated);
+    setImportErrors(errors);
+  };
+
+  const handleApply = async () => {
+    if (await onApplyLensCorrection(correction)) {
+      setCorrection(NEUTRAL_LENS_CORRECTION);
+    }
+  };
+
+  return (
+    <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
+      <h3 className="text-xl font-bold text-center text-gray-200">Lens Correction</h3>
+
+      {/* Profiles Section */}
+      <div className="space-y-3 bg-black/20 p-4 rounded-lg border border-gray-700/50">
+        <div className="flex justify-between items-center">
+          <h4 className="text-sm font-bold uppercase tracking-wider text-gray-400">Lens Profile</h4>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isLoading}
+            className="flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50"
+            title="Import lens profiles (.json)"
+          >
+            <ArrowUpOnSquareIcon className="w-4 h-4" />
+            Import
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              handleImport(e.target.files);
+              e.target.value = '';
+            }}
+          />
+        </div>
+        <select
+          value=""
+          onChange={(e) => handleLoadProfile(e.target.value)}
+          disabled={isLoading || profiles.length === 0}
+          className="w-full bg-gray-900 border border-gray-600 text-gray-200 text-sm rounded-md p-2 focus:ring-1 focus:ring-blue-500 outline-none disabled:opacity-50"
+        >
+          <option value="" disabled>{profiles.length === 0 ? 'No saved profiles' : 'Load profile…'}</option>
+          {profiles.map(profile => <option key={profile.name} value={profile.name}>{profile.name}</option>)}
+        </select>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+            placeholder="Lens name, e.g. 16-35mm at 16mm"
+            className="flex-grow min-w-0 bg-gray-900 border border-gray-600 text-gray-200 text-sm rounded-md p-2 focus:ring-1 focus:ring-blue-500 outline-none"
+            disabled={isLoading}
+          />
+          <button
+            onClick={() => setProfiles(saveLensProfile(trimmedName, correction))}
+            disabled={isLoading || !trimmedName}
+            className="flex-shrink-0 bg-white/10 text-gray-200 text-sm font-semibold py-2 px-3 rounded-md transition-all hover:bg-white/20 active:scale-95 disabled:opacity-50"
+          >
+            Save
+          </button>
+          <button
+            onClick={() => savedProfile && downloadProfile(savedProfile)}
+            disabled={!savedProfile}
+            className="flex-shrink-0 bg-white/10 text-gray-200 text-sm font-semibold py-2 px-3 rounded-md transition-all hover:bg-white/20 active:scale-95 disabled:opacity-50"
+            title="Export the saved profile as JSON"
+          >
+            Export
+          </button>
+          <button
+            onClick={() => setProfiles(deleteLensProfile(trimmedName))}
+            disabled={isLoading || !savedProfile}
+            className="flex-shrink-0 p-2 rounded-md text-gray-400 hover:text-red-400 hover:bg-white/10 disabled:opacity-50"
+            title="Delete profile"
+          >
+            <TrashIcon className="w-5 h-5" />
+          </button>
+        </div>
+        {importErrors.length > 0 && (
+          <ul className="text-xs text-red-400 space-y-1">
+            {importErrors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        )}
+      </div>
+
+      {SECTIONS.map(({ title, sliders }) => (
+        <div key={title} className="space-y-4 bg-black/20 p-4 rounded-lg border border-gray-700/50">
+          <h4 className="text-sm font-bold uppercase tracking-wider text-gray-400">{title}</h4>
+          {sliders.map(({ key, label, min, max, step }) => (
+            <div key={key}>
+              <div className="flex justify-between items-center text-xs text-gray-400 mb-1">
+                <label htmlFor={`lens-${key}`} className="font-medium">{label}</label>
+                <span className="text-gray-300 bg-gray-700/80 px-2 py-0.5 rounded tabular-nums">{correction[key]}</span>
+              </div>
+              <input
+                id={`lens-${key}`}
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={correction[key]}
+                onChange={(e) => setCorrection(prev => ({ ...prev, [key]: Number(e.target.value) }))}
+                onDoubleClick={() => setCorrection(prev => ({ ...prev, [key]: NEUTRAL_LENS_CORRECTION[key] }))}
+                className={sliderClassName}
+                disabled={isLoading}
+              />
+            </div>
+          ))}
+          {title === 'Distortion' && (
+            <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={correction.autoScale}
+                onChange={(e) => setCorrection(prev => ({ ...prev, autoScale: e.target.checked }))}
+                disabled={isLoading}
+                className="w-4 h-4 rounded accent-blue-500"
+              />
+              Scale to fill the frame
+            </label>
+          )}
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => setCorrection(NEUTRAL_LENS_CORRECTION)}
+          disabled={isLoading || !isChanged}
+          className="flex-shrink-0 bg-white/10 text-gray-200 font-semibold py-3 px-4 rounded-lg transition-all hover:bg-white/20 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+        >
+          Reset
+        </button>
+        <button
+          onClick={handleApply}
+          disabled={isLoading || !isChanged}
+          className="flex-grow bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-3 px-4 rounded-lg transition-all shadow-md hover:shadow-blue-500/30 active:scale-95 disabled:from-gray-700 disabled:to-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+        >
+          Apply Lens Correction
+        </button>
+        <button
+          onClick={() => onBatchApplyLensCorrection(correction, matchingProfile?.name ?? 'Custom lens correction')}
+          disabled={isLoading || !isChanged}
+          className="flex-shrink-0 flex items-center justify-center gap-2 bg-white/10 text-gray-200 font-semibold py-3 px-4 rounded-lg transition-all hover:bg-white/20 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+          title="Apply this correction to multiple images"
+        >
+          <DocumentDuplicateIcon className="w-5 h-5" />
+          Batch
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LensCorrectionPanel;
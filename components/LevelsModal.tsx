@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo } from 'react';
+import { DEFAULT_LEVELS, isDefaultLevels, levelsToTables, remapHistogram, type ChannelHistogram, type Levels } from '../services/pixelEngine.ts';
+import HistogramChart from './HistogramChart.tsx';
+
+interface LevelsModalProps {
+  isOpen: boolean;
+  levels: Levels;
+  onChange: (levels: Levels) => void;
+  histogram: ChannelHistogram | null;
+  onApply: () => void;
+  onClose: () => void;
+  isLoading: boolean;
+}
+
+const LevelsModal: React.FC<LevelsModalProps> = ({ isOpen, levels, onChange, histogram, onApply, onClose, isLoading }) => {
+  const output = useMemo(() => histogram && remapHistogram(histogram, levelsToTables(levels)), [histogram, levels]);
+
+  if (!isOpen) return null;
+
+  const update = (changes: Partial<Levels>) => onChange({ ...levels, ...changes });
+  const isChanged = !isDefaultLevels(levels);
+
+  const fields: { key: keyof Levels; label: string; min: number; max: number; step: number }[] = [
+    { key: 'inputBlack', label: 'Input black', min: 0, max: levels.inputWhite - 2, step: 1 },
+    { key: 'gamma', label: 'Gamma', min: 0.1, max: 9.99, step: 0.01 },
+    { key: 'inputWhite', label: 'Input white', min: levels.inputBlack + 2, max: 255, step: 1 },
+    { key: 'outputBlack', label: 'Output black', min: 0, max: 255, step: 1 },
+    { key: 'outputWhite', label: 'Output white', min: 0, max: 255, step: 1 },
+  ];
+
+  // The backdrop stays clear so the live preview on the canvas remains visible.
+  return (
+    <div className="fixed inset-0 bg-black/20 z-50 flex items-center justify-end animate-fade-in p-4" onClick={onClose} aria-modal="true" role="dialog">
+      <div className="bg-gray-800 border border-gray-700 rounded-xl p-6 max-w-lg w-full shadow-2xl flex flex-col gap-5" onClick={e => e.stopPropagation()}>
+        <h2 className="text-xl font-bold text-gray-100">Levels</h2>
+
+        <div className="flex flex-col gap-1">
+          <span className="text-xs font-medium text-gray-400 uppercase">Input</span>
+          <div className="relative">
+            {histogram ? <HistogramChart histogram={histogram} /> : <div className="w-full h-20 bg-black/40 rounded" />}
+            {/* Black, gray and white point markers. */}
+            <div className="absolute inset-y-0 w-px bg-white/80" style={{ left: `${(levels.inputBlack / 255) * 100}%` }} />
+            <div className="absolute inset-y-0 w-px bg-white/50" style={{ left: `${((levels.inputBlack + (levels.inputWhite - levels.inputBlack) * Math.pow(0.5, levels.gamma)) / 255) * 100}%` }} />
+            <div className="absolute inset-y-0 w-px bg-white/80" style={{ left: `${(levels.inputWhite / 255) * 100}%` }} />
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-3">
+          {fields.map(({ key, label, min, max, step }) => (
+            <div key={key}>
+              <div className="flex justify-between items-center text-xs text-gray-400 mb-1">
+                <label htmlFor={`levels-${key}`} className="font-medium">{label}</label>
+                <input
+                  type="number"
+                  min={min}
+                  max={max}
+                  step={step}
+                  value={levels[key]}
+                  onChange={(e) => {
+                    const value = Number(e.target.value);
+                    if (!Number.isNaN(value)) update({ [key]: Math.min(max, Math.max(min, value)) });
+                  }}
+                  className="w-16 text-right bg-gray-700/80 text-gray-200 rounded px-1 py-0.5"
+                  disabled={isLoading}
+                />
+              </div>
+              <input
+                id={`levels-${key}`}
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={levels[key]}
+                onChange={(e) => update({ [key]: Number(e.target.value) })}
+                className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                disabled={isLoading}
+              />
+            </div>
+          ))}
+        </div>
+
+        {output && (
+          <div className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-gray-400 uppercase">Result</span>
+            <HistogramChart histogram={output} />
+          </div>
+        )}
+
+        <div className="flex justify-between gap-2">
+          <button
+            onClick={() => onChange(DEFAULT_LEVELS)}
+            disabled={isLoading || !isChanged}
+            className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50"
+          >
+            Reset
+          </button>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="bg-white/10 text-gray-200 font-semibold py-2 px-4 rounded-lg transition-all hover:bg-white/20 active:scale-95 text-sm">
+              Cancel
+            </button>
+            <button
+              onClick={onApply}
+              disabled={isLoading || !isChanged}
+              className="bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-2 px-4 rounded-lg transition-all shadow-md hover:shadow-blue-500/30 active:scale-95 disabled:from-gray-700 disabled:to-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+            >
+              Apply Levels
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LevelsModal;
@@ -0,0 +1,218 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { DEFAULT_LUT_OPTIONS, serializeCubeLut, type Lut3D, type LutInterpolation, type LutOptions } from '../services/lut.ts';
+import { deleteLutPreset, importCubeFiles, listLutPresets, type LutPreset } from '../services/lutLibrary.ts';
+import { CubeIcon, DocumentDuplicateIcon, TrashIcon, ArrowUpOnSquareIcon } from './icons.tsx';
+
+interface LutPresetSectionProps {
+  onApplyLut: (name: string, lut: Lut3D, options: LutOptions) => void;
+  onBatchApplyLut: (name: string, lut: Lut3D, options: LutOptions) => void;
+  // The history step a LUT can be fitted from (against the step before it), or null if there is none.
+  captureLabel: string | null;
+  // Suggested name for a captured LUT, e.g. the color grade that was just applied.
+  defaultCaptureName?: string;
+  onCaptureLut: (name: string) => Promise<LutPreset | null>;
+  isLoading: boolean;
+}
+
+const INTERPOLATIONS: { id: LutInterpolation; label: string }[] = [
+  { id: 'tetrahedral', label: 'Tetrahedral' },
+  { id: 'trilinear', label: 'Trilinear' },
+];
+
+const downloadCube = (preset: LutPreset) => {
+  const blob = new Blob([serializeCubeLut(preset.lut)], { type: 'text/plain' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = `${preset.name.replace(/[^\w\- ]+/g, '_')}.cube`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Some browsers start the download after click() returns, so the URL has to outlive this call.
+  setTimeout(() => URL.revokeObjectURL(link.href), 0);
+};
+
+/**
+ * Imported and captured 3D LUTs. They are applied on this device, so the result is the same every time.
+ */
+const LutPresetSection: React.FC<LutPresetSectionProps> = ({ onApplyLut, onBatchApplyLut, captureLabel, defaultCaptureName, onCaptureLut, isLoading }) => {
+  const [presets, setPresets] = useState<LutPreset[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [options, setOptions] = useState<LutOptions>(DEFAULT_LUT_OPTIONS);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [captureName, setCaptureName] = useState('');
+
+  useEffect(() => {
+    listLutPresets()
+      .then(setPresets)
+      .catch(err => console.error('Failed to load LUT library:', err));
+  }, []);
+
+  const selectedPreset = presets.find(p => p.id === selectedId) ?? null;
+
+  const handleImport = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+    const { imported, errors } = await importCubeFiles(Array.from(fileList));
+    setImportErrors(errors);
+    if (imported.length > 0) {
+      setPresets(prev => [...prev, ...imported]);
+      setSelectedId(imported[imported.length - 1].id);
+    }
+  };
+
+  const handleCapture = async () => {
+    const name = captureName.trim() || defaultCaptureName || `${captureLabel} look`;
+    const preset = await onCaptureLut(name);
+    if (preset) {
+      setPresets(prev => [...prev, preset]);
+      setSelectedId(preset.id);
+      setCaptureName('');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteLutPreset(id);
+      setPresets(prev => prev.filter(p => p.id !== id));
+      if (selectedId === id) setSelectedId(null);
+    } catch (err) {
+      console.error('Failed to delete LUT:', err);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3 bg-black/20 p-4 rounded-lg border border-gray-700/50">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <CubeIcon className="w-5 h-5 text-gray-400" />
+          <h4 className="text-sm font-bold uppercase tracking-wider text-gray-400">LUTs (.cube)</h4>
+        </div>
+        <label htmlFor="lut-import" className={`text-xs bg-white/10 text-gray-200 font-semibold py-1.5 px-3 rounded-md transition-all hover:bg-white/20 active:scale-95 ${isLoading ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}>
+          Import…
+        </label>
+        <input
+          id="lut-import"
+          type="file"
+          accept=".cube"
+          multiple
+          className="hidden"
+          onChange={(e) => { handleImport(e.target.files); e.target.value = ''; }}
+        />
+      </div>
+
+      {importErrors.length > 0 && (
+        <div className="text-xs text-red-300 bg-red-500/10 border border-red-500/20 rounded-md p-2 flex flex-col gap-1">
+          {importErrors.map(error => <span key={error}>{error}</span>)}
+        </div>
+      )}
+
+      <div className="flex flex-col gap-1">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={captureName}
+            onChange={(e) => setCaptureName(e.target.value)}
+            placeholder={defaultCaptureName ?? 'LUT name'}
+            className="flex-grow min-w-0 bg-gray-800 border border-gray-600 text-gray-200 rounded-md px-2 py-1.5 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-50"
+            disabled={isLoading || !captureLabel}
+          />
+          <button
+            onClick={handleCapture}
+            disabled={isLoading || !captureLabel}
+            className="flex-shrink-0 text-xs bg-white/10 text-gray-200 font-semibold py-1.5 px-3 rounded-md transition-all hover:bg-white/20 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Fit a LUT to the color change made by the current edit"
+          >
+            Save edit as LUT
+          </button>
+        </div>
+        <p className="text-xs text-gray-500">
+          {captureLabel ? `Freezes the colors of ${captureLabel} so they can be reapplied exactly, offline.` : 'Apply a color grade first, then save it here as a LUT.'}
+        </p>
+      </div>
+
+      {presets.length === 0 ? (
+        <p className="text-xs text-gray-500">Import 3D LUTs (17, 33 or 65 point) exported from Resolve, Premiere or Lightroom to apply them exactly here.</p>
+      ) : (
+        <div className="flex flex-col gap-1 max-h-40 overflow-y-auto">
+          {presets.map(preset => (
+            <div
+              key={preset.id}
+              className={`flex items-center gap-2 rounded-md px-2 py-1.5 text-sm transition-colors ${preset.id === selectedId ? 'bg-blue-600/30 ring-1 ring-blue-500' : 'bg-white/5 hover:bg-white/10'}`}
+            >
+              <button onClick={() => setSelectedId(preset.id)} disabled={isLoading} className="flex-grow text-left text-gray-200 truncate disabled:opacity-50" title={preset.name}>
+                {preset.name}
+                <span className="ml-2 text-xs text-gray-500">{preset.lut.size}³</span>
+              </button>
+              <button onClick={() => downloadCube(preset)} className="p-1 rounded text-gray-400 hover:text-white hover:bg-white/10" title="Export .cube">
+                <ArrowUpOnSquareIcon className="w-4 h-4" />
+              </button>
+              <button onClick={() => handleDelete(preset.id)} disabled={isLoading} className="p-1 rounded text-gray-400 hover:text-red-400 hover:bg-white/10 disabled:opacity-50" title="Remove from library">
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {selectedPreset && (
+        <div className="animate-fade-in flex flex-col gap-3">
+          <div className="flex items-center justify-between text-xs text-gray-400">
+            <span className="font-medium">Interpolation</span>
+            <div className="flex gap-1">
+              {INTERPOLATIONS.map(({ id, label }) => (
+                <button
+                  key={id}
+                  onClick={() => setOptions(prev => ({ ...prev, interpolation: id }))}
+                  disabled={isLoading}
+                  className={`px-2 py-1 rounded font-semibold transition-colors disabled:opacity-50 ${options.interpolation === id ? 'bg-blue-600 text-white' : 'bg-white/10 text-gray-300 hover:bg-white/20'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <div className="flex justify-between items-center text-xs text-gray-400 mb-1">
+              <label htmlFor="lut-intensity" className="font-medium">Intensity</label>
+              <span className="text-gray-300 bg-gray-700/80 px-2 py-0.5 rounded">{Math.round(options.intensity * 100)}%</span>
+            </div>
+            <input
+              id="lut-intensity"
+              type="range"
+              min="0"
+              max="100"
+              value={Math.round(options.intensity * 100)}
+              onChange={(e) => setOptions(prev => ({ ...prev, intensity: Number(e.target.value) / 100 }))}
+              className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+              disabled={isLoading}
+            />
+          </div>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <button
+              onClick={() => onApplyLut(selectedPreset.name, selectedPreset.lut, options)}
+              className="flex-grow bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+              disabled={isLoading || options.intensity === 0}
+            >
+              Apply LUT
+            </button>
+            <button
+              onClick={() => onBatchApplyLut(selectedPreset.name, selectedPreset.lut, options)}
+              className="flex-shrink-0 flex items-center justify-center gap-2 bg-white/10 text-gray-200 font-semibold py-3 px-5 rounded-md transition-all duration-200 ease-in-out hover:bg-white/20 active:scale-95 disabled:opacity-50"
+              disabled={isLoading || options.intensity === 0}
+              title="Apply this LUT to multiple images"
+            >
+              <DocumentDuplicateIcon className="w-5 h-5" />
+              Batch
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LutPresetSection;
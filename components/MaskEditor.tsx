@@ -7,6 +7,10 @@
 import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { CloseIcon, MagicWandIcon, UserCircleIcon, SunIcon } from './icons.tsx';
 import { generateSegmentationMask } from '../services/geminiService.ts';
+import { renderPrompt, type RenderedPrompt } from '../services/promptRegistry.ts';
+import { maskAdjustmentPrompt } from '../services/prompts.ts';
+import { createPreviewSource, renderPreview } from '../services/pixelEngineClient.ts';
+import { NEUTRAL_LOCAL_CONTRAST, isNeutralLocalContrast, type LocalContrastParams } from '../services/localContrast.ts';
 import Spinner from './Spinner.tsx';
 
 // --- ICONS ---
@@ -19,12 +23,26 @@ const GradientRadialIcon = ({className}:{className?:string}) => <svg className={
 interface MaskEditorProps {
   isOpen: boolean;
   onClose: () => void;
-  onApplyMask: (maskDataUrl: string, autoPrompt?: string) => void;
+  // Clarity and dehaze are rendered on this device and blended in through the mask.
+  onApplyMask: (maskDataUrl: string, autoPrompt?: RenderedPrompt, localContrast?: LocalContrastParams) => void;
   baseImageSrc: string | null;
 }
 
 const MASK_BASE_ALPHA = 0.5; // Base transparency of the red overlay
 const DEFAULT_BRUSH_OPACITY = 100;
+// Wait for the clarity/dehaze sliders to pause before rendering their preview.
+const LOCAL_CONTRAST_PREVIEW_DELAY_MS = 50;
+
+const NEUTRAL_ADJUSTMENTS = {
+    exposure: 0,
+    contrast: 0,
+    highlights: 0,
+    shadows: 0,
+    whites: 0,
+    blacks: 0,
+    temperature: 0,
+    ...NEUTRAL_LOCAL_CONTRAST,
+};
 
 type Tool = 'brush' | 'eraser' | 'linear-gradient' | 'radial-gradient';
 
@@ -50,21 +68,57 @@ const MaskEditor: React.FC<MaskEditorProps> = ({ isOpen, onClose, onApplyMask, b
   const [isGeneratingMask, setIsGeneratingMask] = useState(false);
 
   // Adjustments State
-  const [adjustments, setAdjustments] = useState({
-      exposure: 0,
-      contrast: 0,
-      highlights: 0,
-      shadows: 0,
-      whites: 0,
-      blacks: 0,
-      structure: 0,
-      temperature: 0,
-  });
+  const [adjustments, setAdjustments] = useState(NEUTRAL_ADJUSTMENTS);
 
   const isAdjustmentActive = useMemo(() => {
     return Object.values(adjustments).some(val => val !== 0);
   }, [adjustments]);
 
+  // Clarity and dehaze can't be previewed with canvas filters, so the pixel engine renders them
+  // on a downscaled copy of the image, which then stands in for it as the adjusted layer.
+  const { clarity, dehaze } = adjustments;
+  const localContrast = useMemo<LocalContrastParams>(() => ({ clarity, dehaze }), [clarity, dehaze]);
+  const hasLocalContrast = !isNeutralLocalContrast(localContrast);
+  const [previewSource, setPreviewSource] = useState<ImageData | null>(null);
+  const [localContrastLayer, setLocalContrastLayer] = useState<HTMLImageElement | null>(null);
+
+  useEffect(() => {
+    setPreviewSource(null);
+    if (!isOpen || !baseImageSrc || !hasLocalContrast) return;
+    let cancelled = false;
+    createPreviewSource(baseImageSrc)
+      .then(source => {
+        if (!cancelled) setPreviewSource(source);
+      })
+      .catch(err => console.error("Could not read the image for the preview", err));
+    return () => { cancelled = true; };
+  }, [isOpen, baseImageSrc, hasLocalContrast]);
+
+  useEffect(() => {
+    if (!previewSource || !hasLocalContrast) {
+      setLocalContrastLayer(null);
+      return;
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      renderPreview(previewSource, { type: 'localContrast', params: localContrast }, controller.signal)
+        .then(url => {
+          const layer = new Image();
+          layer.onload = () => {
+            if (!controller.signal.aborted) setLocalContrastLayer(layer);
+          };
+          layer.src = url;
+        })
+        .catch(err => {
+          if (!controller.signal.aborted) console.error("Could not render the preview", err);
+        });
+    }, LOCAL_CONTRAST_PREVIEW_DELAY_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [previewSource, hasLocalContrast, localContrast]);
+
   // Reset Logic
   const resetMask = useCallback(() => {
     // Clear mask canvas
@@ -135,10 +189,10 @@ const MaskEditor: React.FC<MaskEditorProps> = ({ isOpen, onClose, onApplyMask, b
     return () => window.removeEventListener('resize', resizeCanvas);
   }, [isOpen, resizeCanvas]);
   
-  // Re-draw whenever adjustments change
+  // Re-draw whenever adjustments (or the rendered clarity/dehaze layer) change
   useEffect(() => {
     drawMainCanvas();
-  }, [adjustments]);
+  }, [adjustments, localContrastLayer]);
 
   const getCanvasCoords = (e: React.PointerEvent<HTMLCanvasElement>): { x: number, y: number } | null => {
       const canvas = canvasRef.current;
@@ -175,9 +229,8 @@ const MaskEditor: React.FC<MaskEditorProps> = ({ isOpen, onClose, onApplyMask, b
           // Layer 2: Adjusted
           const brightnessVal = 100 + adjustments.exposure + (adjustments.highlights / 2) + (adjustments.whites / 2);
           const contrastVal = 100 + adjustments.contrast + (adjustments.shadows / 4) + (adjustments.blacks / 4); 
-          const saturateVal = 100 + (adjustments.structure / 2); 
           
-          let filterString = `brightness(${brightnessVal}%) contrast(${contrastVal}%) saturate(${saturateVal}%)`;
+          let filterString = `brightness(${brightnessVal}%) contrast(${contrastVal}%)`;
           if (adjustments.temperature !== 0) {
              filterString += adjustments.temperature > 0 ? ` sepia(${adjustments.temperature * 0.3}%)` : ` hue-rotate(${adjustments.temperature/2}deg)`;
           }
@@ -189,7 +242,7 @@ const MaskEditor: React.FC<MaskEditorProps> = ({ isOpen, onClose, onApplyMask, b
           if (tempCtx) {
               // Draw filtered image
               tempCtx.filter = filterString;
-              tempCtx.drawImage(image, 0, 0, canvas.width, canvas.height);
+              tempCtx.drawImage(localContrastLayer ?? image, 0, 0, canvas.width, canvas.height);
               tempCtx.filter = 'none';
 
               // Composite Mask
@@ -424,20 +477,10 @@ const MaskEditor: React.FC<MaskEditorProps> = ({ isOpen, onClose, onApplyMask, b
   // --- PROMPT GENERATION ---
 
   const generatePromptFromValues = () => {
-    const parts = [];
-    const { exposure, contrast, highlights, shadows, whites, blacks, structure, temperature } = adjustments;
-
-    if (exposure !== 0) parts.push(`${exposure > 0 ? 'increase' : 'decrease'} exposure`);
-    if (contrast !== 0) parts.push(`${contrast > 0 ? 'increase' : 'decrease'} contrast`);
-    if (highlights !== 0) parts.push(`${highlights > 0 ? 'brighten' : 'dim'} highlights`);
-    if (shadows !== 0) parts.push(`${shadows > 0 ? 'brighten' : 'darken'} shadows`);
-    if (whites !== 0) parts.push(`${whites > 0 ? 'boost' : 'mute'} whites`);
-    if (blacks !== 0) parts.push(`${blacks > 0 ? 'lift' : 'deepen'} blacks`);
-    if (structure !== 0) parts.push(`${structure > 0 ? 'enhance' : 'soften'} clarity/structure`);
-    if (temperature !== 0) parts.push(`make the color temperature ${temperature > 0 ? 'warmer' : 'cooler'}`);
-
-    if (parts.length === 0) return undefined;
-    return `In the masked area: ${parts.join(', ')}. Blend naturally.`;
+    // Clarity and dehaze are rendered locally, so only the remaining sliders go into the prompt.
+    const { clarity: _clarity, dehaze: _dehaze, ...promptAdjustments } = adjustments;
+    if (Object.values(promptAdjustments).every(value => value === 0)) return undefined;
+    return renderPrompt(maskAdjustmentPrompt, promptAdjustments);
   };
 
   const handleApply = () => {
@@ -458,7 +501,7 @@ const MaskEditor: React.FC<MaskEditorProps> = ({ isOpen, onClose, onApplyMask, b
         
         // If we are applying adjustments, we generate a prompt.
         const autoPrompt = generatePromptFromValues();
-        onApplyMask(scaledCanvas.toDataURL(), autoPrompt);
+        onApplyMask(scaledCanvas.toDataURL(), autoPrompt, hasLocalContrast ? localContrast : undefined);
     }
   };
 
@@ -580,7 +623,7 @@ const MaskEditor: React.FC<MaskEditorProps> = ({ isOpen, onClose, onApplyMask, b
                 <div className="space-y-4 flex-grow">
                      <div className="flex justify-between items-center">
                         <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider">Adjustments</h3>
-                        <button onClick={() => setAdjustments({ exposure: 0, contrast: 0, highlights: 0, shadows: 0, whites: 0, blacks: 0, structure: 0, temperature: 0 })} className="text-xs text-blue-400 hover:text-blue-300">Reset</button>
+                        <button onClick={() => setAdjustments(NEUTRAL_ADJUSTMENTS)} className="text-xs text-blue-400 hover:text-blue-300">Reset</button>
                     </div>
 
                     {[
@@ -590,8 +633,9 @@ const MaskEditor: React.FC<MaskEditorProps> = ({ isOpen, onClose, onApplyMask, b
                         { key: 'shadows', label: 'Shadows' },
                         { key: 'whites', label: 'Whites' },
                         { key: 'blacks', label: 'Blacks' },
-                        { key: 'structure', label: 'Structure / Pose' },
                         { key: 'temperature', label: 'Temperature' },
+                        { key: 'clarity', label: 'Clarity' },
+                        { key: 'dehaze', label: 'Dehaze' },
                     ].map(({ key, label }) => (
                         <div key={key}>
                             <div className="flex justify-between text-xs text-gray-300 mb-1">
@@ -0,0 +1,191 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { DEFAULT_NOISE_REDUCTION, isNeutralNoiseReduction, type NoiseReductionParams } from '../services/noiseReduction.ts';
+import { createPreviewCrop, renderPreview } from '../services/pixelEngineClient.ts';
+import { EyeIcon } from './icons.tsx';
+
+interface NoiseReductionPanelProps {
+  imageUrl: string | null;
+  // Resolve to true once applied, so the panel can reset its sliders.
+  onApplyNoiseReduction: (params: NoiseReductionParams) => Promise<boolean>;
+  isLoading: boolean;
+}
+
+// Side of the 1:1 preview crop, in image pixels.
+const PREVIEW_CROP_SIZE = 256;
+const PREVIEW_DELAY_MS = 50;
+
+const SLIDERS: { key: keyof NoiseReductionParams; label: string }[] = [
+  { key: 'luminance', label: 'Luminance' },
+  { key: 'color', label: 'Color' },
+  { key: 'detail', label: 'Detail' },
+];
+
+/**
+ * Luminance and color noise reduction, processed on this device. Noise can only be judged at
+ * full size, so the preview is a 1:1 crop of the spot picked on the navigator.
+ */
+const NoiseReductionPanel: React.FC<NoiseReductionPanelProps> = ({ imageUrl, onApplyNoiseReduction, isLoading }) => {
+  const [params, setParams] = useState<NoiseReductionParams>(DEFAULT_NOISE_REDUCTION);
+  const [center, setCenter] = useState({ x: 0.5, y: 0.5 });
+  const [crop, setCrop] = useState<ImageData | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const originalCanvasRef = useRef<HTMLCanvasElement>(null);
+
+  const isChanged = !isNeutralNoiseReduction(params);
+
+  useEffect(() => {
+    setCrop(null);
+    if (!imageUrl) return;
+    let cancelled = false;
+    createPreviewCrop(imageUrl, center, PREVIEW_CROP_SIZE)
+      .then(source => {
+        if (!cancelled) setCrop(source);
+      })
+      .catch(err => console.error("Could not read the image for the preview", err));
+    return () => { cancelled = true; };
+  }, [imageUrl, center]);
+
+  useEffect(() => {
+    const canvas = originalCanvasRef.current;
+    if (!canvas || !crop) return;
+    canvas.width = crop.width;
+    canvas.height = crop.height;
+    canvas.getContext('2d')?.putImageData(crop, 0, 0);
+  }, [crop]);
+
+  // Rendered once the sliders pause.
+  useEffect(() => {
+    if (!crop || !isChanged) {
+      setPreviewUrl(null);
+      return;
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      renderPreview(crop, { type: 'noiseReduction', params }, controller.signal)
+        .then(setPreviewUrl)
+        .catch(err => {
+          if (!controller.signal.aborted) console.error("Could not render the preview", err);
+        });
+    }, PREVIEW_DELAY_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [crop, isChanged, params]);
+
+  const handleNavigatorClick = (e: React.MouseEvent<HTMLImageElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setCenter({
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+    });
+  };
+
+  const handleApply = async () => {
+    if (await onApplyNoiseReduction(params)) {
+      setParams(DEFAULT_NOISE_REDUCTION);
+    }
+  };
+
+  // Where the crop sits on the navigator, clamped to the image like the crop itself.
+  const cropFrame = imageSize && (() => {
+    const width = Math.min(1, PREVIEW_CROP_SIZE / imageSize.width);
+    const height = Math.min(1, PREVIEW_CROP_SIZE / imageSize.height);
+    return {
+      left: `${Math.min(Math.max(center.x - width / 2, 0), 1 - width) * 100}%`,
+      top: `${Math.min(Math.max(center.y - height / 2, 0), 1 - height) * 100}%`,
+      width: `${width * 100}%`,
+      height: `${height * 100}%`,
+    };
+  })();
+
+  return (
+    <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
+      <h3 className="text-xl font-bold text-center text-gray-200">Noise Reduction</h3>
+      <p className="text-sm text-gray-400 text-center">
+        Smooth high-ISO grain and color blotches on this device. Click the navigator to choose the area shown at 100%.
+      </p>
+
+      <div className="flex flex-col sm:flex-row items-center justify-center gap-4">
+        {imageUrl && (
+          <div className="relative flex-shrink-0">
+            <img
+              src={imageUrl}
+              alt="Navigator"
+              className="max-w-40 max-h-40 rounded cursor-crosshair select-none"
+              onClick={handleNavigatorClick}
+              onLoad={(e) => setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+              draggable={false}
+            />
+            {cropFrame && <div className="absolute border-2 border-blue-400 pointer-events-none" style={cropFrame} />}
+          </div>
+        )}
+        <div className="relative bg-black/40 rounded overflow-hidden flex-shrink-0" style={{ width: PREVIEW_CROP_SIZE, height: PREVIEW_CROP_SIZE, maxWidth: '100%' }}>
+          <canvas ref={originalCanvasRef} className="absolute top-0 left-0" />
+          {previewUrl && !isComparing && <img src={previewUrl} alt="Noise reduction preview" className="absolute top-0 left-0 max-w-none" />}
+          <button
+            onMouseDown={() => setIsComparing(true)}
+            onMouseUp={() => setIsComparing(false)}
+            onMouseLeave={() => setIsComparing(false)}
+            onTouchStart={() => setIsComparing(true)}
+            onTouchEnd={() => setIsComparing(false)}
+            disabled={!previewUrl}
+            className="absolute bottom-2 right-2 p-1.5 bg-black/60 hover:bg-black/80 rounded-full transition disabled:opacity-0"
+            title="Hold to compare with the original"
+          >
+            <EyeIcon className="w-4 h-4 text-gray-200" />
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-4 bg-black/20 p-4 rounded-lg border border-gray-700/50">
+        <div className="flex justify-between items-center">
+          <h4 className="text-sm font-bold uppercase tracking-wider text-gray-400">Strength</h4>
+          <button
+            onClick={() => setParams(DEFAULT_NOISE_REDUCTION)}
+            disabled={isLoading || !isChanged}
+            className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50"
+          >
+            Reset
+          </button>
+        </div>
+        {SLIDERS.map(({ key, label }) => (
+          <div key={key}>
+            <div className="flex justify-between items-center text-xs text-gray-400 mb-1">
+              <label htmlFor={`noise-${key}`} className="font-medium">{label}</label>
+              <span className="text-gray-300 bg-gray-700/80 px-2 py-0.5 rounded tabular-nums">{params[key]}</span>
+            </div>
+            <input
+              id={`noise-${key}`}
+              type="range"
+              min="0"
+              max="100"
+              value={params[key]}
+              onChange={(e) => setParams(prev => ({ ...prev, [key]: Number(e.target.value) }))}
+              onDoubleClick={() => setParams(prev => ({ ...prev, [key]: DEFAULT_NOISE_REDUCTION[key] }))}
+              className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+              disabled={isLoading}
+            />
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={handleApply}
+        disabled={isLoading || !isChanged}
+        className="w-full bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-3 px-4 rounded-lg transition-all shadow-md hover:shadow-blue-500/30 active:scale-95 disabled:from-gray-700 disabled:to-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+      >
+        Apply Noise Reduction
+      </button>
+    </div>
+  );
+};
+
+export default NoiseReductionPanel;
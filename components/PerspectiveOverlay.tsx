@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef, useState } from 'react';
+import { isConvexQuad, straightenAngle, type Point, type Quad } from '../services/perspective.ts';
+
+interface PerspectiveOverlayProps {
+  // 'corners': drag the four handles onto edges that should be square. 'straighten': draw a
+  // line along something that should be level or plumb.
+  mode: 'corners' | 'straighten';
+  quad: Quad;
+  onQuadChange: (quad: Quad) => void;
+  // Called with the extra clockwise rotation, in degrees, that levels the drawn line.
+  onStraighten: (angle: number) => void;
+}
+
+// Shorter lines are treated as stray clicks.
+const MIN_LINE_LENGTH = 10;
+
+/**
+ * Sits over the image in the crop view, sized to it.
+ */
+const PerspectiveOverlay: React.FC<PerspectiveOverlayProps> = ({ mode, quad, onQuadChange, onStraighten }) => {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const [draggedCorner, setDraggedCorner] = useState<number | null>(null);
+  const [line, setLine] = useState<{ from: Point; to: Point } | null>(null);
+
+  // Pointer position in overlay pixels.
+  const getPosition = (e: React.PointerEvent): Point | null => {
+    const rect = overlayRef.current?.getBoundingClientRect();
+    if (!rect) return null;
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (mode !== 'straighten') return;
+    const position = getPosition(e);
+    if (!position) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setLine({ from: position, to: position });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const position = getPosition(e);
+    const rect = overlayRef.current?.getBoundingClientRect();
+    if (!position || !rect) return;
+    if (draggedCorner !== null) {
+      const next = [...quad] as Quad;
+      next[draggedCorner] = {
+        x: Math.min(1, Math.max(0, position.x / rect.width)),
+        y: Math.min(1, Math.max(0, position.y / rect.height)),
+      };
+      // A folded quad has no rectangle to become, so the corner stops short of folding it.
+      if (isConvexQuad(next)) onQuadChange(next);
+    } else if (line) {
+      setLine({ ...line, to: position });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (line && Math.hypot(line.to.x - line.from.x, line.to.y - line.from.y) >= MIN_LINE_LENGTH) {
+      onStraighten(straightenAngle(line.from, line.to));
+    }
+    setLine(null);
+    setDraggedCorner(null);
+  };
+
+  return (
+    <div
+      ref={overlayRef}
+      className={`absolute inset-0 touch-none ${mode === 'straighten' ? 'cursor-crosshair' : ''}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      {mode === 'corners' && (
+        <>
+          <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 1 1" preserveAspectRatio="none">
+            <polygon
+              points={quad.map(({ x, y }) => `${x},${y}`).join(' ')}
+              fill="rgba(59, 130, 246, 0.15)"
+              stroke="rgb(96, 165, 250)"
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+          </svg>
+          {quad.map(({ x, y }, i) => (
+            <div
+              key={i}
+              className="absolute w-5 h-5 -translate-x-1/2 -translate-y-1/2 rounded-full bg-blue-500 border-2 border-white shadow-lg cursor-move"
+              style={{ left: `${x * 100}%`, top: `${y * 100}%` }}
+              onPointerDown={(e) => {
+                e.stopPropagation();
+                overlayRef.current?.setPointerCapture(e.pointerId);
+                setDraggedCorner(i);
+              }}
+            />
+          ))}
+        </>
+      )}
+      {mode === 'straighten' && line && (
+        <svg className="absolute inset-0 w-full h-full pointer-events-none">
+          <line x1={line.from.x} y1={line.from.y} x2={line.to.x} y2={line.to.y} stroke="rgb(250, 204, 21)" strokeWidth={2} strokeDasharray="6 4" />
+        </svg>
+      )}
+    </div>
+  );
+};
+
+export default PerspectiveOverlay;
@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo } from 'react';
+import { buildToneCurve, buildColorMatrix, getBlurSigma, getSharpenAmount, SHARPEN_SIGMA, LUMA_OFFSET_BIAS, type ChannelTables, type LumaOffsets, type PixelAdjustments } from '../services/pixelEngine.ts';
+
+export const PIXEL_PREVIEW_FILTER_ID = 'pixel-engine-preview';
+
+interface PixelPreviewFilterProps {
+  adjustments: PixelAdjustments;
+  // Natural size of the image being previewed, which sets the blur radius.
+  imageSize: { width: number; height: number };
+  // Screen pixels per image pixel, including zoom, so blur radii match the image rather than the screen.
+  displayScale: number;
+}
+
+/**
+ * An SVG filter built from the same curve and matrix as the pixel engine, referenced from CSS as
+ * `url(#pixel-engine-preview)`. The table has one entry per 8-bit level, so tone and color match
+ * the committed result exactly; only the blur radius is scaled to the display size.
+ */
+const PixelPreviewFilter: React.FC<PixelPreviewFilterProps> = ({ adjustments, imageSize, displayScale }) => {
+  const tableValues = useMemo(() => Array.from(buildToneCurve(adjustments), v => v.toFixed(5)).join(' '), [adjustments]);
+  const matrixValues = useMemo(() => {
+    const m = buildColorMatrix(adjustments);
+    return [
+      m[0], m[1], m[2], 0, 0,
+      m[3], m[4], m[5], 0, 0,
+      m[6], m[7], m[8], 0, 0,
+      0, 0, 0, 1, 0,
+    ].map(v => v.toFixed(5)).join(' ');
+  }, [adjustments]);
+
+  const blurSigma = getBlurSigma(adjustments, imageSize.width, imageSize.height) * displayScale;
+  const sharpenAmount = getSharpenAmount(adjustments);
+
+  return (
+    <svg className="absolute w-0 h-0 overflow-hidden" aria-hidden="true">
+      <filter id={PIXEL_PREVIEW_FILTER_ID} colorInterpolationFilters="sRGB" x="0" y="0" width="100%" height="100%">
+        <feComponentTransfer in="SourceGraphic">
+          <feFuncR type="table" tableValues={tableValues} />
+          <feFuncG type="table" tableValues={tableValues} />
+          <feFuncB type="table" tableValues={tableValues} />
+        </feComponentTransfer>
+        <feColorMatrix type="matrix" values={matrixValues} result="color" />
+        {blurSigma > 0 && <feGaussianBlur in="color" stdDeviation={blurSigma} edgeMode="duplicate" />}
+        {sharpenAmount > 0 && (
+          <>
+            <feGaussianBlur in="color" stdDeviation={SHARPEN_SIGMA * displayScale} edgeMode="duplicate" result="soft" />
+            <feComposite in="color" in2="soft" operator="arithmetic" k1={0} k2={1 + sharpenAmount} k3={-sharpenAmount} k4={0} />
+          </>
+        )}
+      </filter>
+    </svg>
+  );
+};
+
+const tableToValues = (table: Uint8Array) => Array.from(table, v => (v / 255).toFixed(5)).join(' ');
+
+/**
+ * An SVG filter that applies per-channel lookup tables (curves, levels) exactly as the pixel
+ * engine does, referenced from CSS as `url(#<id>)`.
+ */
+export const ChannelTablesFilter: React.FC<{ id: string; tables: ChannelTables }> = ({ id, tables }) => {
+  const values = useMemo(() => ({
+    red: tableToValues(tables.red),
+    green: tableToValues(tables.green),
+    blue: tableToValues(tables.blue),
+  }), [tables]);
+
+  return (
+    <svg className="absolute w-0 h-0 overflow-hidden" aria-hidden="true">
+      <filter id={id} colorInterpolationFilters="sRGB" x="0" y="0" width="100%" height="100%">
+        <feComponentTransfer>
+          <feFuncR type="table" tableValues={values.red} />
+          <feFuncG type="table" tableValues={values.green} />
+          <feFuncB type="table" tableValues={values.blue} />
+        </feComponentTransfer>
+      </filter>
+    </svg>
+  );
+};
+
+const offsetsToValues = (offsets: Int16Array) => Array.from(offsets, v => ((v + LUMA_OFFSET_BIAS) / 255).toFixed(5)).join(' ');
+
+/**
+ * An SVG filter for luma-indexed color offsets (color wheels, split toning), referenced from CSS
+ * as `url(#<id>)`. It computes luma, looks up the same biased offset tables as the pixel engine,
+ * and adds them to the image.
+ */
+export const LumaOffsetsFilter: React.FC<{ id: string; offsets: LumaOffsets }> = ({ id, offsets }) => {
+  const values = useMemo(
+    () => ({ red: offsetsToValues(offsets.red), green: offsetsToValues(offsets.green), blue: offsetsToValues(offsets.blue) }),
+    [offsets]
+  );
+
+  return (
+    <svg className="absolute w-0 h-0 overflow-hidden" aria-hidden="true">
+      <filter id={id} colorInterpolationFilters="sRGB" x="0" y="0" width="100%" height="100%">
+        <feColorMatrix
+          in="SourceGraphic"
+          type="matrix"
+          values="0.2126 0.7152 0.0722 0 0  0.2126 0.7152 0.0722 0 0  0.2126 0.7152 0.0722 0 0  0 0 0 0 1"
+          result="luma"
+        />
+        <feComponentTransfer in="luma" result="offsets">
+          <feFuncR type="table" tableValues={values.red} />
+          <feFuncG type="table" tableValues={values.green} />
+          <feFuncB type="table" tableValues={values.blue} />
+        </feComponentTransfer>
+        <feComposite in="SourceGraphic" in2="offsets" operator="arithmetic" k1={0} k2={1} k3={1} k4={-LUMA_OFFSET_BIAS / 255} result="shifted" />
+        {/* The offsets are opaque, so restore the image's own transparency. */}
+        <feComposite in="shifted" in2="SourceGraphic" operator="in" />
+      </filter>
+    </svg>
+  );
+};
+
+export default PixelPreviewFilter;
@@ -0,0 +1,183 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { getCacheSettings, saveCacheSettings, getCacheUsage, clearResultCache, type CacheSettings } from '../services/resultCache.ts';
+import { getEditorSettings, saveEditorSettings, type EditorSettings } from '../services/editorSettings.ts';
+
+interface SettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const cacheSizeOptions = [
+  { label: '100 MB', bytes: 100 * 1024 * 1024 },
+  { label: '250 MB', bytes: 250 * 1024 * 1024 },
+  { label: '500 MB', bytes: 500 * 1024 * 1024 },
+  { label: '1 GB', bytes: 1024 * 1024 * 1024 },
+];
+
+// Helper to format bytes
+const formatBytes = (bytes: number): string => {
+    if (bytes === 0) return '0 Bytes';
+    const k = 1024;
+    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
+};
+
+const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
+  const [cacheSettings, setCacheSettings] = useState<CacheSettings>(getCacheSettings);
+  const [editorSettings, setEditorSettings] = useState<EditorSettings>(getEditorSettings);
+  const [usage, setUsage] = useState<{ count: number; bytes: number } | null>(null);
+
+  const refreshUsage = useCallback(() => {
+    getCacheUsage()
+      .then(setUsage)
+      .catch(err => {
+        console.error("Could not read cache usage", err);
+        setUsage(null);
+      });
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      setCacheSettings(getCacheSettings());
+      setEditorSettings(getEditorSettings());
+      refreshUsage();
+    }
+  }, [isOpen, refreshUsage]);
+
+  const updateCacheSettings = (changes: Partial<CacheSettings>) => {
+    const next = { ...cacheSettings, ...changes };
+    setCacheSettings(next);
+    saveCacheSettings(next)
+      .then(refreshUsage)
+      .catch(err => console.error("Could not apply cache settings", err));
+  };
+
+  const updateEditorSettings = (changes: Partial<EditorSettings>) => {
+    const next = { ...editorSettings, ...changes };
+    setEditorSettings(next);
+    saveEditorSettings(next);
+  };
+
+  const handleClearCache = () => {
+    clearResultCache()
+      .then(refreshUsage)
+      .catch(err => console.error("Could not clear the result cache", err));
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center animate-fade-in backdrop-blur-sm p-4" onClick={onClose} aria-modal="true" role="dialog">
+      <div className="bg-gray-800 border border-gray-700 rounded-xl p-6 max-w-lg w-full shadow-2xl flex flex-col gap-5" onClick={e => e.stopPropagation()}>
+        <h2 className="text-xl font-bold text-gray-100">Settings</h2>
+
+        <div className="flex flex-col gap-4">
+            <div className="flex items-center justify-between gap-4">
+                <div>
+                    <p className="text-gray-300 font-medium">Cache AI results</p>
+                    <p className="text-sm text-gray-400">Re-applying the same edit to the same image returns instantly instead of making another paid call.</p>
+                </div>
+                <button
+                    role="switch"
+                    aria-checked={cacheSettings.enabled}
+                    onClick={() => updateCacheSettings({ enabled: !cacheSettings.enabled })}
+                    className={`relative w-12 h-6 rounded-full transition-colors flex-shrink-0 ${cacheSettings.enabled ? 'bg-blue-600' : 'bg-gray-600'}`}
+                >
+                    <span className={`absolute top-0.5 left-0.5 w-5 h-5 rounded-full bg-white transition-transform ${cacheSettings.enabled ? 'translate-x-6' : ''}`} />
+                </button>
+            </div>
+
+            <div className={cacheSettings.enabled ? '' : 'opacity-50 pointer-events-none'}>
+                <label className="block text-sm font-medium text-gray-400 mb-2">Maximum cache size</label>
+                <div className="flex bg-gray-900/50 p-1 rounded-lg border border-gray-700">
+                    {cacheSizeOptions.map(option => (
+                        <button
+                            key={option.bytes}
+                            onClick={() => updateCacheSettings({ maxBytes: option.bytes })}
+                            className={`w-full py-2 px-4 rounded-md text-sm font-semibold transition-all ${cacheSettings.maxBytes === option.bytes ? 'bg-blue-600 text-white shadow' : 'text-gray-400 hover:bg-white/5'}`}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">When the cache is full, the least recently used results are removed first.</p>
+            </div>
+
+            <div className="flex items-center justify-between bg-gray-900/50 p-3 rounded-md border border-gray-700">
+                <p className="text-sm text-gray-400">
+                    {usage ? `${usage.count} cached ${usage.count === 1 ? 'result' : 'results'}, ${formatBytes(usage.bytes)}` : 'Cache usage unavailable'}
+                </p>
+                <button onClick={handleClearCache} className="text-sm text-red-400 hover:text-red-300 font-semibold">Clear Cache</button>
+            </div>
+        </div>
+
+        <div className="flex flex-col gap-4 border-t border-gray-700 pt-5">
+            <div className="flex items-center justify-between gap-4">
+                <div>
+                    <p className="text-gray-300 font-medium">Protect pixels outside the selection</p>
+                    <p className="text-sm text-gray-400">After a masked or hotspot edit, everything outside the selected area is restored from the original.</p>
+                </div>
+                <button
+                    role="switch"
+                    aria-checked={editorSettings.preserveUnmaskedPixels}
+                    onClick={() => updateEditorSettings({ preserveUnmaskedPixels: !editorSettings.preserveUnmaskedPixels })}
+                    className={`relative w-12 h-6 rounded-full transition-colors flex-shrink-0 ${editorSettings.preserveUnmaskedPixels ? 'bg-blue-600' : 'bg-gray-600'}`}
+                >
+                    <span className={`absolute top-0.5 left-0.5 w-5 h-5 rounded-full bg-white transition-transform ${editorSettings.preserveUnmaskedPixels ? 'translate-x-6' : ''}`} />
+                </button>
+            </div>
+
+            <div className={`flex flex-col gap-3 ${editorSettings.preserveUnmaskedPixels ? '' : 'opacity-50 pointer-events-none'}`}>
+                <div>
+                    <label htmlFor="mask-feather" className="flex justify-between text-sm font-medium text-gray-400 mb-1">
+                        <span>Edge feather</span>
+                        <span className="font-mono text-gray-300">{editorSettings.maskFeather}px</span>
+                    </label>
+                    <input id="mask-feather" type="range" min="0" max="64" value={editorSettings.maskFeather} onChange={(e) => updateEditorSettings({ maskFeather: Number(e.target.value) })} className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500" />
+                </div>
+                <div>
+                    <label htmlFor="hotspot-radius" className="flex justify-between text-sm font-medium text-gray-400 mb-1">
+                        <span>Hotspot edit radius</span>
+                        <span className="font-mono text-gray-300">{editorSettings.hotspotRadius}%</span>
+                    </label>
+                    <input id="hotspot-radius" type="range" min="5" max="100" value={editorSettings.hotspotRadius} onChange={(e) => updateEditorSettings({ hotspotRadius: Number(e.target.value) })} className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500" />
+                    <p className="text-xs text-gray-500 mt-1">Share of the image's shorter side that a hotspot edit is allowed to change.</p>
+                </div>
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+                <div>
+                    <p className="text-gray-300 font-medium">Send only the edited region</p>
+                    <p className="text-sm text-gray-400">Local edits upload a padded tile around the selection instead of the full photo, which is faster and cheaper on large images.</p>
+                </div>
+                <button
+                    role="switch"
+                    aria-checked={editorSettings.cropLocalEdits}
+                    onClick={() => updateEditorSettings({ cropLocalEdits: !editorSettings.cropLocalEdits })}
+                    className={`relative w-12 h-6 rounded-full transition-colors flex-shrink-0 ${editorSettings.cropLocalEdits ? 'bg-blue-600' : 'bg-gray-600'}`}
+                >
+                    <span className={`absolute top-0.5 left-0.5 w-5 h-5 rounded-full bg-white transition-transform ${editorSettings.cropLocalEdits ? 'translate-x-6' : ''}`} />
+                </button>
+            </div>
+        </div>
+
+        <div className="flex justify-end pt-2">
+          <button
+            onClick={onClose}
+            className="bg-white/10 border border-white/20 text-gray-200 font-semibold py-2 px-6 rounded-lg transition-all duration-200 ease-in-out hover:bg-white/20 hover:border-white/30 active:scale-95 text-base"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsModal;
@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+
+interface VariantCountPickerProps {
+  value: number;
+  onChange: (count: number) => void;
+  disabled?: boolean;
+}
+
+const variantOptions = [1, 2, 3, 4];
+
+// How many results an AI action generates. With more than one, they are compared in a picker before anything is committed.
+const VariantCountPicker: React.FC<VariantCountPickerProps> = ({ value, onChange, disabled }) => (
+  <div className="flex items-center justify-between gap-3">
+    <label className="text-sm font-medium text-gray-400" title="Generate several results in parallel and pick the best one">Variants</label>
+    <div className="flex bg-gray-900/50 p-1 rounded-lg border border-gray-700">
+      {variantOptions.map(count => (
+        <button
+          key={count}
+          onClick={() => onChange(count)}
+          disabled={disabled}
+          className={`py-1 px-3 rounded-md text-sm font-semibold transition-all disabled:opacity-50 ${value === count ? 'bg-blue-600 text-white shadow' : 'text-gray-400 hover:bg-white/5'}`}
+        >
+          {count}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+export default VariantCountPicker;
@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { CheckIcon } from './icons.tsx';
+
+interface VariantPickerModalProps {
+  variants: string[];
+  originalUrl: string | null;
+  // Indices in the order they were picked. The first is applied; the rest are kept as branches of the same step.
+  onConfirm: (selected: number[]) => void;
+  onCancel: () => void;
+  // Discards these variants and generates a new set, skipping the result cache.
+  onRegenerate?: () => void;
+}
+
+const VariantPickerModal: React.FC<VariantPickerModalProps> = ({ variants, originalUrl, onConfirm, onCancel, onRegenerate }) => {
+  const [selected, setSelected] = useState<number[]>([]);
+  const [previewIndex, setPreviewIndex] = useState<number | null>(null);
+
+  const toggle = (index: number) => {
+    setSelected(current => current.includes(index) ? current.filter(i => i !== index) : [...current, index]);
+  };
+
+  const previewUrl = previewIndex === null ? null : previewIndex === -1 ? originalUrl : variants[previewIndex];
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center animate-fade-in backdrop-blur-sm p-4" aria-modal="true" role="dialog">
+      {/* No click-outside dismissal: the variants were paid for, so only "Discard All" throws them away. */}
+      <div className="bg-gray-800 border border-gray-700 rounded-xl p-6 max-w-5xl w-full max-h-full overflow-y-auto shadow-2xl flex flex-col gap-5">
+        <div>
+          <h2 className="text-xl font-bold text-gray-100">Choose a Variant</h2>
+          <p className="text-sm text-gray-400">Click to select. The first selection is applied; any others are kept as branches you can switch to from the history panel. Hold a thumbnail to compare it with the original.</p>
+        </div>
+
+        {previewUrl && (
+          <img src={previewUrl} alt="Variant preview" className="w-full max-h-[50vh] object-contain rounded-md bg-gray-900" />
+        )}
+
+        <div className={`grid gap-3 ${variants.length > 2 ? 'grid-cols-2 md:grid-cols-4' : 'grid-cols-2'}`}>
+          {variants.map((url, index) => {
+            const order = selected.indexOf(index);
+            return (
+              <button
+                key={index}
+                onClick={() => toggle(index)}
+                onMouseEnter={() => setPreviewIndex(index)}
+                onPointerDown={() => setPreviewIndex(-1)}
+                onPointerUp={() => setPreviewIndex(index)}
+                onPointerLeave={() => setPreviewIndex(null)}
+                className={`relative rounded-lg overflow-hidden border-2 transition-all ${order >= 0 ? 'border-blue-500 shadow-md shadow-blue-500/20' : 'border-gray-700 hover:border-gray-500'}`}
+              >
+                <img src={url} alt={`Variant ${index + 1}`} className="w-full aspect-square object-cover bg-gray-700" />
+                <span className="absolute top-2 left-2 text-xs font-semibold bg-black/60 text-gray-200 px-2 py-0.5 rounded-full">Variant {index + 1}</span>
+                {order >= 0 && (
+                  <span className="absolute top-2 right-2 flex items-center gap-1 text-xs font-semibold bg-blue-600 text-white px-2 py-0.5 rounded-full">
+                    <CheckIcon className="w-3 h-3" />
+                    {order === 0 ? 'Apply' : `Branch ${order}`}
+                  </span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="flex flex-col sm:flex-row justify-end gap-3 pt-2">
+          {onRegenerate && (
+            <button
+              onClick={onRegenerate}
+              className="sm:mr-auto bg-white/10 border border-white/20 text-gray-200 font-semibold py-2 px-6 rounded-lg transition-all duration-200 ease-in-out hover:bg-white/20 hover:border-white/30 active:scale-95 text-base"
+              title="Discard these variants and generate new ones"
+            >
+              Generate New Variants
+            </button>
+          )}
+          <button
+            onClick={onCancel}
+            className="bg-white/10 border border-white/20 text-gray-200 font-semibold py-2 px-6 rounded-lg transition-all duration-200 ease-in-out hover:bg-white/20 hover:border-white/30 active:scale-95 text-base"
+          >
+            Discard All
+          </button>
+          <button
+            onClick={() => onConfirm(selected)}
+            disabled={selected.length === 0}
+            className="bg-gradient-to-br from-green-600 to-green-500 text-white font-bold py-2 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-green-500/20 hover:shadow-xl hover:shadow-green-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-green-800 disabled:to-green-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+          >
+            {selected.length > 1 ? `Apply + ${selected.length - 1} ${selected.length === 2 ? 'Branch' : 'Branches'}` : 'Apply'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VariantPickerModal;
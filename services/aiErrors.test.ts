@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    AiError, classifyError, getAiErrorKind, InvalidResponseError, MissingApiKeyError, NetworkError, QuotaExceededError, withRetry,
+} from './aiErrors.ts';
+
+const withStatus = (status: number, message = 'request failed') => Object.assign(new Error(message), { status });
+
+describe('classifyError', () => {
+    it('passes typed errors and aborts through untouched', () => {
+        const typed = new InvalidResponseError('bad JSON');
+        const abort = new DOMException('The operation was aborted.', 'AbortError');
+        expect(classifyError(typed)).toBe(typed);
+        expect(classifyError(abort)).toBe(abort);
+    });
+
+    it.each([
+        ['HTTP 429', withStatus(429)],
+        ['a RESOURCE_EXHAUSTED message', new Error('[429] RESOURCE_EXHAUSTED: try later')],
+        ['a quota message', new Error('You exceeded your current quota')],
+    ])('treats %s as a retryable quota error', (_, error) => {
+        const classified = classifyError(error);
+        expect(classified).toBeInstanceOf(QuotaExceededError);
+        expect((classified as AiError).retryable).toBe(true);
+        expect((classified as AiError).cause).toBe(error);
+    });
+
+    it.each([500, 503, 408])('treats HTTP %i as a retryable network error', status => {
+        const classified = classifyError(withStatus(status));
+        expect(classified).toBeInstanceOf(NetworkError);
+        expect((classified as AiError).message).toContain(`HTTP ${status}`);
+        expect((classified as AiError).retryable).toBe(true);
+    });
+
+    it.each(['Failed to fetch', 'NetworkError when attempting to fetch resource.', 'Load failed'])('treats a "%s" TypeError as a network error', message => {
+        expect(classifyError(new TypeError(message))).toBeInstanceOf(NetworkError);
+    });
+
+    it.each([
+        ['a client error', withStatus(400, 'invalid argument')],
+        ['a status that is not a number', Object.assign(new Error('odd'), { status: '503' })],
+        ['an unrelated TypeError', new TypeError('x is undefined')],
+        ['a thrown string', 'something broke'],
+    ])('leaves %s as it is', (_, error) => {
+        expect(classifyError(error)).toBe(error);
+    });
+});
+
+describe('getAiErrorKind', () => {
+    it('reports the kind of typed errors only', () => {
+        expect(getAiErrorKind(new MissingApiKeyError())).toBe('configuration');
+        expect(getAiErrorKind(classifyError(withStatus(429)))).toBe('quota');
+        expect(getAiErrorKind(new Error('plain'))).toBeNull();
+    });
+});
+
+describe('withRetry', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        // Full jitter picks a delay below the cap; pin it to the cap so the schedule is predictable.
+        vi.spyOn(Math, 'random').mockReturnValue(1);
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('returns the first successful result', async () => {
+        const operation = vi.fn().mockRejectedValueOnce(withStatus(503)).mockResolvedValue('done');
+        const result = withRetry(operation, { baseDelayMs: 100 });
+        await vi.advanceTimersByTimeAsync(100);
+        await expect(result).resolves.toBe('done');
+        expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it('retries a retryable error up to the limit with exponential backoff', async () => {
+        const operation = vi.fn().mockRejectedValue(withStatus(429));
+        const result = withRetry(operation, { retries: 3, baseDelayMs: 100, maxDelayMs: 250 });
+        const settled = expect(result).rejects.toBeInstanceOf(QuotaExceededError);
+
+        await vi.advanceTimersByTimeAsync(0);
+        expect(operation).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(99);
+        expect(operation).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(operation).toHaveBeenCalledTimes(2);
+        // 200ms, then 400ms capped at 250ms.
+        await vi.advanceTimersByTimeAsync(200);
+        expect(operation).toHaveBeenCalledTimes(3);
+        await vi.advanceTimersByTimeAsync(250);
+        expect(operation).toHaveBeenCalledTimes(4);
+
+        await settled;
+        await vi.runAllTimersAsync();
+        expect(operation).toHaveBeenCalledTimes(4);
+    });
+
+    it('throws a non-retryable error immediately', async () => {
+        const error = new InvalidResponseError('bad JSON');
+        const operation = vi.fn().mockRejectedValue(error);
+        await expect(withRetry(operation)).rejects.toBe(error);
+        expect(operation).toHaveBeenCalledTimes(1);
+        expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it('throws an unclassified error immediately', async () => {
+        const error = new Error('plain');
+        const operation = vi.fn().mockRejectedValue(error);
+        await expect(withRetry(operation)).rejects.toBe(error);
+        expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops retrying when aborted during the backoff', async () => {
+        const controller = new AbortController();
+        const operation = vi.fn().mockRejectedValue(withStatus(503));
+        const result = withRetry(operation, { baseDelayMs: 1000, signal: controller.signal });
+        const settled = expect(result).rejects.toBe('cancelled');
+
+        await vi.advanceTimersByTimeAsync(500);
+        controller.abort('cancelled');
+        await settled;
+
+        await vi.runAllTimersAsync();
+        expect(operation).toHaveBeenCalledTimes(1);
+        expect(vi.getTimerCount()).toBe(0);
+    });
+});
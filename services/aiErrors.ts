@@ -0,0 +1,196 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- ERROR TAXONOMY ---
+
+export type AiErrorKind = 'safety' | 'quota' | 'network' | 'invalidResponse' | 'noImage' | 'configuration' | 'tooLarge';
+
+/**
+ * Base class for every failure that comes back from an image provider.
+ * `retryable` marks failures that are worth sending again unchanged.
+ */
+export class AiError extends Error {
+    readonly kind: AiErrorKind;
+    readonly retryable: boolean;
+
+    constructor(kind: AiErrorKind, message: string, retryable: boolean, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = new.target.name;
+        this.kind = kind;
+        this.retryable = retryable;
+    }
+}
+
+// The model refused the request. `categories` lists the safety categories it reported, if any.
+export class SafetyBlockedError extends AiError {
+    readonly reason: string;
+    readonly categories: string[];
+
+    constructor(reason: string, categories: string[]) {
+        const detail = categories.length > 0 ? ` Categories: ${categories.join(', ')}.` : '';
+        super('safety', `Request was blocked due to ${reason}.${detail}`, false);
+        this.reason = reason;
+        this.categories = categories;
+    }
+}
+
+// The API key hit a rate limit or ran out of quota (HTTP 429).
+export class QuotaExceededError extends AiError {
+    constructor(message: string, options?: { cause?: unknown }) {
+        super('quota', message, true, options);
+    }
+}
+
+// The request never got a usable answer: offline, DNS, timeouts or a 5xx from the service.
+export class NetworkError extends AiError {
+    constructor(message: string, options?: { cause?: unknown }) {
+        super('network', message, true, options);
+    }
+}
+
+// The model answered, but not in the shape that was asked for.
+export class InvalidResponseError extends AiError {
+    constructor(message: string, options?: { cause?: unknown }) {
+        super('invalidResponse', message, false, options);
+    }
+}
+
+// The model answered with text only, without being blocked.
+export class NoImageReturnedError extends AiError {
+    constructor(message = 'No image data found in the response, and the request was not blocked for safety reasons.') {
+        super('noImage', message, false);
+    }
+}
+
+// No provider can be built: the Gemini key is missing and the offline provider was not selected.
+export class MissingApiKeyError extends AiError {
+    constructor() {
+        super('configuration', 'No Gemini API key is configured.', false);
+    }
+}
+
+// The requested output is larger than this browser can build.
+export class ImageTooLargeError extends AiError {
+    constructor(message: string) {
+        super('tooLarge', message, false);
+    }
+}
+
+const isAbort = (error: unknown): boolean => error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * Maps an error thrown by an SDK or `fetch` onto the taxonomy above.
+ * Aborts and errors that are already typed pass through untouched.
+ */
+export const classifyError = (error: unknown): unknown => {
+    if (error instanceof AiError || isAbort(error)) {
+        return error;
+    }
+    const status = typeof error === 'object' && error !== null && 'status' in error && typeof error.status === 'number'
+        ? error.status
+        : undefined;
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (status === 429 || /resource[_ ]exhausted|quota/i.test(message)) {
+        return new QuotaExceededError('The image service is receiving too many requests or your quota is used up.', { cause: error });
+    }
+    if ((status !== undefined && status >= 500) || status === 408) {
+        return new NetworkError(`The image service is temporarily unavailable (HTTP ${status}).`, { cause: error });
+    }
+    if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) {
+        return new NetworkError('Could not reach the image service. Check your internet connection.', { cause: error });
+    }
+    return error;
+};
+
+// --- RETRY ---
+
+export type RetryOptions = {
+    // Attempts after the first one.
+    retries?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    signal?: AbortSignal;
+};
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        signal?.throwIfAborted();
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+};
+
+/**
+ * Runs `operation`, classifying whatever it throws and retrying retryable failures
+ * with exponential backoff and full jitter. Aborting `signal` stops the wait immediately.
+ */
+export const withRetry = async <T>(operation: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+    const { retries = 3, baseDelayMs = 800, maxDelayMs = 10000, signal } = options;
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await operation();
+        } catch (err) {
+            const error = classifyError(err);
+            if (!(error instanceof AiError) || !error.retryable || attempt >= retries || signal?.aborted) {
+                throw error;
+            }
+            const delay = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+            console.warn(`${error.name} on attempt ${attempt + 1}, retrying in ${Math.round(delay)}ms.`, error);
+            await sleep(delay, signal);
+        }
+    }
+};
+
+// --- USER-FACING REMEDIES ---
+
+export type ErrorRemedy = {
+    title: string;
+    remedy: string;
+};
+
+const remedies: Record<AiErrorKind, ErrorRemedy> = {
+    safety: {
+        title: 'Blocked by safety filters',
+        remedy: "Try a different image or a more direct prompt. You can learn more by reading Google's Generative AI Prohibited Use Policy.",
+    },
+    quota: {
+        title: 'Rate limit reached',
+        remedy: 'Wait a minute before trying again, or check the quota and billing for your API key.',
+    },
+    network: {
+        title: 'Connection problem',
+        remedy: 'Check your internet connection and try again. Your image has not been changed.',
+    },
+    invalidResponse: {
+        title: 'Unexpected response',
+        remedy: 'The model returned something the editor could not read. Rephrase the request or try a different image.',
+    },
+    noImage: {
+        title: 'No image returned',
+        remedy: 'The model replied without an image. Rephrase the request to describe the visual change you want.',
+    },
+    configuration: {
+        title: 'Editor not configured',
+        remedy: 'Set GEMINI_API_KEY in .env.local and restart the app, or set IMAGE_PROVIDER=local to use the offline demo provider.',
+    },
+    tooLarge: {
+        title: 'Image too large',
+        remedy: 'Choose a smaller scale or crop the image first. Desktop browsers can usually build larger images than mobile ones.',
+    },
+};
+
+export const getAiErrorKind = (error: unknown): AiErrorKind | null => {
+    return error instanceof AiError ? error.kind : null;
+};
+
+export const getErrorRemedy = (kind: AiErrorKind): ErrorRemedy => remedies[kind];
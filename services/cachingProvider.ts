@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ImageProvider, ImagePart } from './imageProvider.ts';
+import { getCacheSettings, hashCacheKey, getCachedResult, putCachedResult } from './resultCache.ts';
+
+const imageKeyParts = (images: ImagePart[]): string[] =>
+    images.flatMap(image => [image.inlineData.mimeType, image.inlineData.data]);
+
+// Extra variants get their own entries; the ordinary request keeps the key it always had.
+const variantKeyParts = (variant: number | undefined): string[] =>
+    variant ? [`variant:${variant}`] : [];
+
+/**
+ * Wraps a provider so identical requests (same operation, model, prompt and input bytes)
+ * are answered from the IndexedDB result cache instead of calling the provider again.
+ * Cache failures are logged and never fail the request itself.
+ */
+export const withResultCache = (provider: ImageProvider): ImageProvider => {
+    const cached = async (keyParts: string[], signal: AbortSignal | undefined, run: () => Promise<string>): Promise<string> => {
+        if (!getCacheSettings().enabled) {
+            return run();
+        }
+        let key: string | null = null;
+        try {
+            key = await hashCacheKey([provider.id, ...keyParts]);
+            const hit = key ? await getCachedResult(key) : undefined;
+            if (hit !== undefined) {
+                signal?.throwIfAborted();
+                return hit;
+            }
+        } catch (e) {
+            if (signal?.aborted) throw e;
+            console.warn('Result cache lookup failed, calling the provider instead.', e);
+        }
+        const result = await run();
+        if (key) {
+            putCachedResult(key, result).catch(e => console.warn('Could not store result in cache.', e));
+        }
+        return result;
+    };
+
+    const { analysis, image } = provider.models;
+
+    return {
+        id: provider.id,
+        models: provider.models,
+        analyze: (request) => cached(
+            ['analyze', analysis, request.prompt, JSON.stringify(request.schema), ...imageKeyParts(request.images)],
+            request.signal, () => provider.analyze(request)),
+        detect: (request) => cached(
+            ['detect', analysis, request.prompt, JSON.stringify(request.schema), ...imageKeyParts(request.images)],
+            request.signal, () => provider.detect(request)),
+        segment: (request) => cached(
+            ['segment', image, request.prompt, request.subject, ...imageKeyParts([request.image])],
+            request.signal, () => provider.segment(request)),
+        edit: (request) => cached(
+            ['edit', image, request.prompt, String(request.baseIndex ?? 0), String(request.maskIndex ?? ''), ...variantKeyParts(request.variant), ...imageKeyParts(request.images)],
+            request.signal, () => provider.edit(request)),
+        generate: (request) => cached(
+            ['generate', image, request.prompt, `${request.width}x${request.height}`, ...variantKeyParts(request.variant)],
+            request.signal, () => provider.generate(request)),
+    };
+};
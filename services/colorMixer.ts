@@ -0,0 +1,265 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { applyLumaOffsets, buildLumaOffsets, type LumaOffsets, type PixelBuffer } from './pixelEngine.ts';
+
+// Per-hue color mixing and toning. Each pixel's hue is split between the two nearest of eight
+// color bands, so a band's adjustment fades smoothly into its neighbours and equal settings on
+// every band act like one global adjustment.
+
+export type HslBand = 'red' | 'orange' | 'yellow' | 'green' | 'aqua' | 'blue' | 'purple' | 'magenta';
+
+// Band centers in degrees, in hue order.
+export const HSL_BANDS: { band: HslBand; hue: number }[] = [
+    { band: 'red', hue: 0 },
+    { band: 'orange', hue: 30 },
+    { band: 'yellow', hue: 60 },
+    { band: 'green', hue: 120 },
+    { band: 'aqua', hue: 180 },
+    { band: 'blue', hue: 240 },
+    { band: 'purple', hue: 270 },
+    { band: 'magenta', hue: 300 },
+];
+
+// --- HSL mixer ---------------------------------------------------------------------------------
+
+export type HslChannel = 'hue' | 'saturation' | 'luminance';
+
+// Each value runs from -100 to 100.
+export type HslBandAdjustment = Record<HslChannel, number>;
+export type HslAdjustments = Record<HslBand, HslBandAdjustment>;
+
+const NEUTRAL_HSL_BAND: HslBandAdjustment = { hue: 0, saturation: 0, luminance: 0 };
+
+export const NEUTRAL_HSL: HslAdjustments = {
+    red: NEUTRAL_HSL_BAND,
+    orange: NEUTRAL_HSL_BAND,
+    yellow: NEUTRAL_HSL_BAND,
+    green: NEUTRAL_HSL_BAND,
+    aqua: NEUTRAL_HSL_BAND,
+    blue: NEUTRAL_HSL_BAND,
+    purple: NEUTRAL_HSL_BAND,
+    magenta: NEUTRAL_HSL_BAND,
+};
+
+// Hue shift in degrees at ±100.
+const MAX_HUE_SHIFT = 30;
+// Share of the distance to white (or black) a pixel's lightness moves at ±100.
+const MAX_LIGHTNESS_SHIFT = 0.5;
+// Chroma (0..1) from which hue and luminance changes take full effect. Grays and near-grays have
+// an unstable hue, so they are faded out rather than flipped between bands.
+const FULL_EFFECT_CHROMA = 0.25;
+// Hue resolution of the precomputed per-hue tables.
+const HUE_STEPS = 3600;
+
+export const isNeutralHsl = (hsl: HslAdjustments): boolean =>
+    HSL_BANDS.every(({ band }) => hsl[band].hue === 0 && hsl[band].saturation === 0 && hsl[band].luminance === 0);
+
+/**
+ * How much of each band (in `HSL_BANDS` order) a hue in degrees belongs to. At most two
+ * neighbouring bands are non-zero and the weights add up to 1.
+ */
+export const hslBandWeightsForHue = (hue: number): number[] => {
+    const h = ((hue % 360) + 360) % 360;
+    const weights = new Array<number>(HSL_BANDS.length).fill(0);
+    for (let i = 0; i < HSL_BANDS.length; i++) {
+        const next = (i + 1) % HSL_BANDS.length;
+        const start = HSL_BANDS[i].hue;
+        const end = next === 0 ? 360 : HSL_BANDS[next].hue;
+        if (h >= start && h < end) {
+            const t = (h - start) / (end - start);
+            const eased = t * t * (3 - 2 * t);
+            weights[i] = 1 - eased;
+            weights[next] = eased;
+            break;
+        }
+    }
+    return weights;
+};
+
+// Hue in degrees, and chroma, lightness and saturation in 0..1, of an 8-bit RGB color.
+const rgbToHsl = (r: number, g: number, b: number) => {
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const chroma = (max - min) / 255;
+    const lightness = (max + min) / 510;
+    if (chroma === 0) return { hue: 0, chroma, lightness, saturation: 0 };
+    let sector: number;
+    if (max === r) sector = ((g - b) / (max - min) + 6) % 6;
+    else if (max === g) sector = (b - r) / (max - min) + 2;
+    else sector = (r - g) / (max - min) + 4;
+    return { hue: sector * 60, chroma, lightness, saturation: chroma / (1 - Math.abs(2 * lightness - 1)) };
+};
+
+/**
+ * The hue band weights of an 8-bit RGB color, e.g. the one under the cursor for targeted
+ * adjustments. All zero for grays, which belong to no band.
+ */
+export const hslBandWeights = (rgb: [number, number, number]): number[] => {
+    const { hue, chroma } = rgbToHsl(rgb[0], rgb[1], rgb[2]);
+    return chroma === 0 ? new Array<number>(HSL_BANDS.length).fill(0) : hslBandWeightsForHue(hue);
+};
+
+/**
+ * Shifts hue, saturation and lightness per color band, in place.
+ */
+export const applyHsl = ({ data }: PixelBuffer, hsl: HslAdjustments): void => {
+    if (isNeutralHsl(hsl)) return;
+
+    // The blended band settings depend only on hue, so tabulate them once.
+    const hueShift = new Float32Array(HUE_STEPS);
+    const saturationScale = new Float32Array(HUE_STEPS);
+    const lightnessShift = new Float32Array(HUE_STEPS);
+    for (let step = 0; step < HUE_STEPS; step++) {
+        const weights = hslBandWeightsForHue(step * 360 / HUE_STEPS);
+        let hue = 0;
+        let saturation = 0;
+        let luminance = 0;
+        HSL_BANDS.forEach(({ band }, i) => {
+            hue += weights[i] * hsl[band].hue;
+            saturation += weights[i] * hsl[band].saturation;
+            luminance += weights[i] * hsl[band].luminance;
+        });
+        hueShift[step] = hue / 100 * MAX_HUE_SHIFT;
+        saturationScale[step] = 1 + saturation / 100;
+        lightnessShift[step] = luminance / 100 * MAX_LIGHTNESS_SHIFT;
+    }
+
+    for (let i = 0; i < data.length; i += 4) {
+        const { hue, chroma, lightness, saturation } = rgbToHsl(data[i], data[i + 1], data[i + 2]);
+        if (chroma === 0) continue;
+        const step = Math.round(hue * HUE_STEPS / 360) % HUE_STEPS;
+        const effect = Math.min(1, chroma / FULL_EFFECT_CHROMA);
+
+        const h = hue + hueShift[step] * effect;
+        const s = Math.min(1, saturation * saturationScale[step]);
+        const shift = lightnessShift[step] * effect;
+        const l = shift > 0 ? lightness + (1 - lightness) * shift : lightness + lightness * shift;
+
+        // HSL back to RGB.
+        const c = (1 - Math.abs(2 * l - 1)) * s;
+        const sector = ((h % 360) + 360) % 360 / 60;
+        const x = c * (1 - Math.abs(sector % 2 - 1));
+        const m = l - c / 2;
+        let r = 0, g = 0, b = 0;
+        if (sector < 1) { r = c; g = x; }
+        else if (sector < 2) { r = x; g = c; }
+        else if (sector < 3) { g = c; b = x; }
+        else if (sector < 4) { g = x; b = c; }
+        else if (sector < 5) { r = x; b = c; }
+        else { r = c; b = x; }
+        data[i] = (r + m) * 255;
+        data[i + 1] = (g + m) * 255;
+        data[i + 2] = (b + m) * 255;
+    }
+};
+
+// --- Black & white mixer -----------------------------------------------------------------------
+
+// How much each band (-100..100) darkens or lightens its colors in the conversion. All zero
+// gives plain luma.
+export type BlackAndWhiteMix = Record<HslBand, number>;
+
+export type BlackAndWhitePresetName = 'Neutral' | 'Red Filter' | 'Orange Filter' | 'Yellow Filter' | 'Green Filter' | 'Blue Filter' | 'Infrared';
+
+// The classic lens filters: each lightens its own color and darkens its complement.
+export const BLACK_AND_WHITE_PRESETS: Record<BlackAndWhitePresetName, BlackAndWhiteMix> = {
+    'Neutral': { red: 0, orange: 0, yellow: 0, green: 0, aqua: 0, blue: 0, purple: 0, magenta: 0 },
+    'Red Filter': { red: 40, orange: 30, yellow: 15, green: -20, aqua: -40, blue: -60, purple: -40, magenta: 10 },
+    'Orange Filter': { red: 30, orange: 40, yellow: 25, green: -10, aqua: -30, blue: -45, purple: -30, magenta: 5 },
+    'Yellow Filter': { red: 10, orange: 25, yellow: 35, green: 10, aqua: -15, blue: -30, purple: -20, magenta: 0 },
+    'Green Filter': { red: -30, orange: -10, yellow: 20, green: 40, aqua: 15, blue: -20, purple: -20, magenta: -20 },
+    'Blue Filter': { red: -40, orange: -30, yellow: -30, green: -10, aqua: 25, blue: 40, purple: 25, magenta: 0 },
+    'Infrared': { red: 20, orange: 30, yellow: 60, green: 80, aqua: -20, blue: -80, purple: -40, magenta: 0 },
+};
+
+// Levels a fully saturated color moves at ±100.
+const MAX_MIX_SHIFT = 128;
+
+/**
+ * Converts the pixels to black and white in place, lightening or darkening each color band
+ * by its share of the mix. Grays keep their luma whatever the mix.
+ */
+export const applyBlackAndWhite = ({ data }: PixelBuffer, mix: BlackAndWhiteMix): void => {
+    const shiftByHue = new Float32Array(HUE_STEPS);
+    for (let step = 0; step < HUE_STEPS; step++) {
+        const weights = hslBandWeightsForHue(step * 360 / HUE_STEPS);
+        shiftByHue[step] = HSL_BANDS.reduce((sum, { band }, i) => sum + weights[i] * mix[band], 0) / 100 * MAX_MIX_SHIFT;
+    }
+
+    for (let i = 0; i < data.length; i += 4) {
+        const { hue, chroma } = rgbToHsl(data[i], data[i + 1], data[i + 2]);
+        const gray = 0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2]
+            + shiftByHue[Math.round(hue * HUE_STEPS / 360) % HUE_STEPS] * chroma;
+        data[i] = gray;
+        data[i + 1] = gray;
+        data[i + 2] = gray;
+    }
+};
+
+// --- Split toning ------------------------------------------------------------------------------
+
+export type SplitToning = {
+    // Hues in degrees (0..360) and saturations (0..100) of the highlight and shadow tints.
+    highlightHue: number;
+    highlightSaturation: number;
+    shadowHue: number;
+    shadowSaturation: number;
+    // -100 (favour the shadow tint) to 100 (favour the highlight tint).
+    balance: number;
+};
+
+export const NEUTRAL_SPLIT_TONING: SplitToning = { highlightHue: 45, highlightSaturation: 0, shadowHue: 220, shadowSaturation: 0, balance: 0 };
+
+export type SplitToningPresetName = 'Teal & Orange' | 'Sepia' | 'Cyanotype' | 'Gold & Blue';
+
+export const SPLIT_TONING_PRESETS: Record<SplitToningPresetName, SplitToning> = {
+    'Teal & Orange': { highlightHue: 35, highlightSaturation: 40, shadowHue: 190, shadowSaturation: 35, balance: 0 },
+    'Sepia': { highlightHue: 40, highlightSaturation: 30, shadowHue: 30, shadowSaturation: 40, balance: -10 },
+    'Cyanotype': { highlightHue: 200, highlightSaturation: 20, shadowHue: 210, shadowSaturation: 45, balance: -20 },
+    'Gold & Blue': { highlightHue: 50, highlightSaturation: 35, shadowHue: 225, shadowSaturation: 30, balance: 10 },
+};
+
+// Tint strength, as a fraction of full scale, at saturation 100.
+const MAX_TONE = 0.2;
+
+export const isNeutralSplitToning = ({ highlightSaturation, shadowSaturation }: SplitToning): boolean =>
+    highlightSaturation === 0 && shadowSaturation === 0;
+
+// The per-channel push towards a hue, with the hue's own luma removed so the tint barely
+// changes brightness.
+const toneShift = (hue: number, saturation: number): [number, number, number] => {
+    const channel = (n: number) => {
+        const k = (n + hue / 30) % 12;
+        return 0.5 - 0.5 * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    };
+    const [r, g, b] = [channel(0), channel(8), channel(4)];
+    const luma = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    const strength = Math.min(100, Math.max(0, saturation)) / 100 * MAX_TONE;
+    return [(r - luma) * strength, (g - luma) * strength, (b - luma) * strength];
+};
+
+/**
+ * Split toning depends only on luma, so, like the color wheels, it reduces to luma-indexed
+ * offsets that the preview reproduces exactly.
+ */
+export const buildSplitToningOffsets = (toning: SplitToning): LumaOffsets => {
+    const highlight = toneShift(toning.highlightHue, toning.highlightSaturation);
+    const shadow = toneShift(toning.shadowHue, toning.shadowSaturation);
+    // The luma where both tints weigh the same; a positive balance lowers it so the highlight
+    // tint reaches further into the midtones.
+    const pivot = 0.5 - Math.min(100, Math.max(-100, toning.balance)) / 250;
+    return buildLumaOffsets(luma => {
+        const t = luma < pivot ? 0.5 * luma / pivot : 0.5 + 0.5 * (luma - pivot) / (1 - pivot);
+        const h = t * t * (3 - 2 * t);
+        return [0, 1, 2].map(c => h * highlight[c] + (1 - h) * shadow[c]) as [number, number, number];
+    });
+};
+
+/**
+ * Tints the highlights and shadows in place.
+ */
+export const applySplitToning = (pixels: PixelBuffer, toning: SplitToning): void =>
+    applyLumaOffsets(pixels, buildSplitToningOffsets(toning));
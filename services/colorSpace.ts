@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Conversions for color readouts. Inputs are 8-bit sRGB; Lab uses the D65 white point.
+
+export type Rgb = [number, number, number];
+export type Lab = [number, number, number];
+
+export const rgbToHex = ([r, g, b]: Rgb): string =>
+    '#' + [r, g, b].map(v => Math.round(v).toString(16).padStart(2, '0')).join('').toUpperCase();
+
+const srgbToLinear = (v: number): number => {
+    const c = v / 255;
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+};
+
+const D65 = { x: 0.95047, y: 1, z: 1.08883 };
+
+const labCurve = (t: number): number => t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+
+/**
+ * CIE L*a*b* of an sRGB color: L in 0..100, a and b roughly -128..127.
+ */
+export const rgbToLab = ([r, g, b]: Rgb): Lab => {
+    const lr = srgbToLinear(r);
+    const lg = srgbToLinear(g);
+    const lb = srgbToLinear(b);
+    const x = (0.4124 * lr + 0.3576 * lg + 0.1805 * lb) / D65.x;
+    const y = (0.2126 * lr + 0.7152 * lg + 0.0722 * lb) / D65.y;
+    const z = (0.0193 * lr + 0.1192 * lg + 0.9505 * lb) / D65.z;
+    const fx = labCurve(x);
+    const fy = labCurve(y);
+    const fz = labCurve(z);
+    return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+};
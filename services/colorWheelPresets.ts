@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ColorWheels } from './pixelEngine.ts';
+
+const PRESETS_KEY = 'utilpic-color-wheel-presets';
+
+export type ColorWheelPreset = {
+    name: string;
+    wheels: ColorWheels;
+};
+
+export const getColorWheelPresets = (): ColorWheelPreset[] => {
+    try {
+        const saved = localStorage.getItem(PRESETS_KEY);
+        const presets = saved ? JSON.parse(saved) : [];
+        return Array.isArray(presets) ? presets : [];
+    } catch {
+        return [];
+    }
+};
+
+const savePresets = (presets: ColorWheelPreset[]): void => {
+    localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+};
+
+/**
+ * Saves the wheels under a name, replacing any preset with the same name. Returns the updated list.
+ */
+export const saveColorWheelPreset = (name: string, wheels: ColorWheels): ColorWheelPreset[] => {
+    const presets = [...getColorWheelPresets().filter(p => p.name !== name), { name, wheels }];
+    savePresets(presets);
+    return presets;
+};
+
+export const deleteColorWheelPreset = (name: string): ColorWheelPreset[] => {
+    const presets = getColorWheelPresets().filter(p => p.name !== name);
+    savePresets(presets);
+    return presets;
+};
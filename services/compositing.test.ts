@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { findContentBox } from './compositing.ts';
+import type { PixelBuffer } from './pixelEngine.ts';
+
+type Rgba = [number, number, number, number];
+
+const BLACK: Rgba = [0, 0, 0, 255];
+const WHITE: Rgba = [255, 255, 255, 255];
+const CLEAR: Rgba = [0, 0, 0, 0];
+
+// A frame filled with `edge`, with a noisy picture painted over `content`.
+const frame = (width: number, height: number, edge: Rgba, content: { x: number; y: number; width: number; height: number }): PixelBuffer => {
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const inside = x >= content.x && x < content.x + content.width && y >= content.y && y < content.y + content.height;
+            const color: Rgba = inside ? [60 + (x * 7) % 120, 80 + (y * 13) % 120, 100 + ((x + y) * 5) % 120, 255] : edge;
+            data.set(color, (y * width + x) * 4);
+        }
+    }
+    return { data, width, height };
+};
+
+describe('findContentBox', () => {
+    it('trims black letterbox bars back to the target aspect', () => {
+        const content = { x: 0, y: 20, width: 160, height: 120 };
+        expect(findContentBox(frame(160, 160, BLACK, content), 4 / 3)).toEqual(content);
+    });
+
+    it('trims white pillarbox bars back to the target aspect', () => {
+        const content = { x: 30, y: 0, width: 100, height: 100 };
+        expect(findContentBox(frame(160, 100, WHITE, content), 1)).toEqual(content);
+    });
+
+    it('accepts bars that are off-centre by a line', () => {
+        const content = { x: 0, y: 19, width: 160, height: 120 };
+        expect(findContentBox(frame(160, 160, BLACK, content), 4 / 3)).toEqual(content);
+    });
+
+    it('returns the full frame when the aspect already matches', () => {
+        const image = frame(160, 120, BLACK, { x: 0, y: 10, width: 160, height: 100 });
+        expect(findContentBox(image, 4 / 3)).toEqual({ x: 0, y: 0, width: 160, height: 120 });
+    });
+
+    it('keeps a plain edge on one side only, such as a white sky', () => {
+        const image = frame(160, 160, WHITE, { x: 0, y: 40, width: 160, height: 120 });
+        expect(findContentBox(image, 4 / 3)).toEqual({ x: 0, y: 0, width: 160, height: 160 });
+    });
+
+    it('keeps bars of different colours', () => {
+        const image = frame(160, 160, BLACK, { x: 0, y: 20, width: 160, height: 120 });
+        for (let y = 140; y < 160; y++) {
+            for (let x = 0; x < 160; x++) image.data.set(WHITE, (y * 160 + x) * 4);
+        }
+        expect(findContentBox(image, 4 / 3)).toEqual({ x: 0, y: 0, width: 160, height: 160 });
+    });
+
+    it('keeps transparent edges, such as a cutout', () => {
+        const image = frame(160, 160, CLEAR, { x: 0, y: 20, width: 160, height: 120 });
+        expect(findContentBox(image, 4 / 3)).toEqual({ x: 0, y: 0, width: 160, height: 160 });
+    });
+
+    it('keeps the frame when trimming would not reach the target aspect', () => {
+        const image = frame(160, 160, BLACK, { x: 0, y: 5, width: 160, height: 150 });
+        expect(findContentBox(image, 4 / 3)).toEqual({ x: 0, y: 0, width: 160, height: 160 });
+    });
+});
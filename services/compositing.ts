@@ -0,0 +1,416 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { PixelBuffer } from './pixelEngine.ts';
+
+// Pixel-level helpers that run after the model returns, so local edits cannot leak outside their area.
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error('Could not load an image for compositing.'));
+        image.src = src;
+    });
+};
+
+// Loads a File or URL, revoking the temporary object URL once decoded.
+export const loadImageSource = async (source: File | string): Promise<HTMLImageElement> => {
+    if (typeof source === 'string') return loadImage(source);
+    const url = URL.createObjectURL(source);
+    try {
+        return await loadImage(url);
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+};
+
+const createContext = (width: number, height: number): CanvasRenderingContext2D => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Could not get canvas context for compositing.');
+    return ctx;
+};
+
+const drawPixels = (image: HTMLImageElement, width: number, height: number): ImageData => {
+    const ctx = createContext(width, height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(image, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height);
+};
+
+// One pass of a running-sum box blur along rows (or columns when `vertical`), in place.
+const boxBlurPass = (weights: Float32Array, width: number, height: number, radius: number, vertical: boolean) => {
+    const length = vertical ? height : width;
+    const lines = vertical ? width : height;
+    const stride = vertical ? width : 1;
+    const lineStep = vertical ? 1 : width;
+    const line = new Float32Array(length);
+    const span = radius * 2 + 1;
+
+    for (let l = 0; l < lines; l++) {
+        const base = l * lineStep;
+        for (let i = 0; i < length; i++) line[i] = weights[base + i * stride];
+
+        // Edges are clamped, so a mask touching the border stays fully on there.
+        let sum = line[0] * (radius + 1);
+        for (let i = 1; i <= radius; i++) sum += line[Math.min(i, length - 1)];
+        for (let i = 0; i < length; i++) {
+            weights[base + i * stride] = sum / span;
+            sum += line[Math.min(i + radius + 1, length - 1)] - line[Math.max(i - radius, 0)];
+        }
+    }
+};
+
+/**
+ * Softens a 0..1 weight map. Three box passes approximate a gaussian whose visible
+ * transition is roughly `feather` pixels wide.
+ */
+export const featherWeights = (weights: Float32Array, width: number, height: number, feather: number): void => {
+    const radius = Math.round(feather / 3);
+    if (radius < 1) return;
+    for (let pass = 0; pass < 3; pass++) {
+        boxBlurPass(weights, width, height, radius, false);
+        boxBlurPass(weights, width, height, radius, true);
+    }
+};
+
+// Reads a black and white mask (white = edit area) into per-pixel weights. Transparent pixels count as black.
+const maskToWeights = (mask: ImageData): Float32Array => {
+    const weights = new Float32Array(mask.width * mask.height);
+    for (let i = 0, p = 0; p < weights.length; i += 4, p++) {
+        weights[p] = (mask.data[i] / 255) * (mask.data[i + 3] / 255);
+    }
+    return weights;
+};
+
+// A solid disc around a hotspot, in natural image coordinates.
+const hotspotToWeights = (width: number, height: number, hotspot: { x: number; y: number }, radius: number): Float32Array => {
+    const weights = new Float32Array(width * height);
+    const radiusSq = radius * radius;
+    for (let y = 0; y < height; y++) {
+        const dy = y - hotspot.y;
+        for (let x = 0; x < width; x++) {
+            const dx = x - hotspot.x;
+            if (dx * dx + dy * dy <= radiusSq) weights[y * width + x] = 1;
+        }
+    }
+    return weights;
+};
+
+// A solid rectangle, in natural image coordinates.
+const rectToWeights = (width: number, height: number, rect: Rect): Float32Array => {
+    const weights = new Float32Array(width * height);
+    for (let y = rect.y; y < rect.y + rect.height; y++) {
+        weights.fill(1, y * width + rect.x, y * width + rect.x + rect.width);
+    }
+    return weights;
+};
+
+export type Rect = { x: number; y: number; width: number; height: number };
+
+export type EditArea =
+    | { type: 'mask'; mask: File }
+    | { type: 'hotspot'; x: number; y: number; radius: number }
+    | ({ type: 'rect' } & Rect);
+
+/**
+ * Blends an AI result over the original so that only the edit area changes.
+ * The result is resampled to the original's size first, or into `placement` when only a tile
+ * of the image was edited; outside the (feathered) area every pixel comes straight from the original.
+ */
+export const compositeEdit = async (original: File, editedUrl: string, area: EditArea, feather: number, placement?: Rect): Promise<string> => {
+    const [originalImage, editedImage] = await Promise.all([loadImageSource(original), loadImageSource(editedUrl)]);
+    const width = originalImage.naturalWidth;
+    const height = originalImage.naturalHeight;
+
+    const base = drawPixels(originalImage, width, height);
+    let edited: ImageData;
+    if (placement) {
+        const ctx = createContext(width, height);
+        ctx.putImageData(base, 0, 0);
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(editedImage, placement.x, placement.y, placement.width, placement.height);
+        edited = ctx.getImageData(0, 0, width, height);
+    } else {
+        edited = drawPixels(editedImage, width, height);
+    }
+
+    let weights: Float32Array;
+    if (area.type === 'mask') {
+        weights = maskToWeights(drawPixels(await loadImageSource(area.mask), width, height));
+    } else if (area.type === 'hotspot') {
+        weights = hotspotToWeights(width, height, area, area.radius);
+    } else {
+        weights = rectToWeights(width, height, area);
+    }
+    featherWeights(weights, width, height, feather);
+
+    const out = base.data;
+    const src = edited.data;
+    for (let i = 0, p = 0; p < weights.length; i += 4, p++) {
+        const w = weights[p];
+        if (w <= 0) continue;
+        out[i] += (src[i] - out[i]) * w;
+        out[i + 1] += (src[i + 1] - out[i + 1]) * w;
+        out[i + 2] += (src[i + 2] - out[i + 2]) * w;
+        out[i + 3] += (src[i + 3] - out[i + 3]) * w;
+    }
+
+    const ctx = createContext(width, height);
+    ctx.putImageData(base, 0, 0);
+    return ctx.canvas.toDataURL('image/png');
+};
+
+export type ImageSize = { width: number; height: number };
+
+// The result of fitting a model output to the size the caller expects.
+export type ConformedImage = {
+    imageUrl: string;
+    // Set when the model changed the framing, so some of the picture may be missing.
+    warning?: string;
+};
+
+export const getImageSize = async (source: File | string): Promise<ImageSize> => {
+    const image = await loadImageSource(source);
+    return { width: image.naturalWidth, height: image.naturalHeight };
+};
+
+// Aspect ratios closer than this are treated as equal and simply resampled.
+const ASPECT_TOLERANCE = 0.02;
+// How far a channel may drift along a row or column that still counts as a solid padding bar.
+const BAR_TOLERANCE = 10;
+// Bars thicker than this share of the side are more likely part of the picture than padding.
+const MAX_BAR_FRACTION = 0.25;
+// Padding is black or white; a bar's channels must all sit within this of 0 or 255.
+const BAR_COLOR_TOLERANCE = 24;
+// Opposite bars may differ by this many lines (or this share of the thicker one) and still count as centred padding.
+const BAR_SYMMETRY_LINES = 2;
+const BAR_SYMMETRY_FRACTION = 0.1;
+
+const aspectsMatch = (a: number, b: number) => Math.abs(a / b - 1) <= ASPECT_TOLERANCE;
+
+// 'black' or 'white' for an opaque padding colour, null for anything else (including transparency).
+const barColor = (data: Uint8ClampedArray, i: number): 'black' | 'white' | null => {
+    if (data[i + 3] < 255 - BAR_COLOR_TOLERANCE) return null;
+    const max = Math.max(data[i], data[i + 1], data[i + 2]);
+    const min = Math.min(data[i], data[i + 1], data[i + 2]);
+    if (max <= BAR_COLOR_TOLERANCE) return 'black';
+    if (min >= 255 - BAR_COLOR_TOLERANCE) return 'white';
+    return null;
+};
+
+const isSolidLine = (data: Uint8ClampedArray, start: number, count: number, step: number, ref: number): boolean => {
+    for (let n = 0, i = start; n < count; n++, i += step) {
+        if (Math.abs(data[i] - data[ref]) > BAR_TOLERANCE
+            || Math.abs(data[i + 1] - data[ref + 1]) > BAR_TOLERANCE
+            || Math.abs(data[i + 2] - data[ref + 2]) > BAR_TOLERANCE
+            || Math.abs(data[i + 3] - data[ref + 3]) > BAR_TOLERANCE) {
+            return false;
+        }
+    }
+    return true;
+};
+
+// Thickness of the bar along one side, with its colour, measured against the side's first pixel.
+const measureBar = (
+    data: Uint8ClampedArray, lineStart: (n: number) => number, count: number, step: number, maxLines: number,
+): { lines: number; color: 'black' | 'white' | null } => {
+    const ref = lineStart(0);
+    const color = barColor(data, ref);
+    if (!color) return { lines: 0, color };
+    let lines = 0;
+    while (lines < maxLines && isSolidLine(data, lineStart(lines), count, step, ref)) lines++;
+    return { lines, color };
+};
+
+/**
+ * Finds the picture inside letterbox or pillarbox bars the model may have padded it with to reach
+ * a different aspect ratio. Bars are only trimmed when the returned aspect ratio differs from
+ * `targetAspect`, both opposite sides carry a bar of the same black or white of about the same
+ * thickness, and trimming them restores the target's aspect ratio. Anything else, such as a
+ * white studio backdrop, a clear sky or transparent edges, is left as picture.
+ */
+export const findContentBox = (pixels: PixelBuffer, targetAspect: number): Rect => {
+    const { data, width, height } = pixels;
+    const full = { x: 0, y: 0, width, height };
+    if (aspectsMatch(width / height, targetAspect)) return full;
+
+    const rowStep = width * 4;
+    // Too tall for the target means bars above and below; too wide means bars at the sides.
+    const letterbox = width / height < targetAspect;
+    const [first, second] = letterbox
+        ? [
+            measureBar(data, n => n * rowStep, width, 4, Math.floor(height * MAX_BAR_FRACTION)),
+            measureBar(data, n => (height - 1 - n) * rowStep, width, 4, Math.floor(height * MAX_BAR_FRACTION)),
+        ]
+        : [
+            measureBar(data, n => n * 4, height, rowStep, Math.floor(width * MAX_BAR_FRACTION)),
+            measureBar(data, n => (width - 1 - n) * 4, height, rowStep, Math.floor(width * MAX_BAR_FRACTION)),
+        ];
+
+    if (first.lines === 0 || second.lines === 0 || first.color !== second.color) return full;
+    const slack = Math.max(BAR_SYMMETRY_LINES, Math.max(first.lines, second.lines) * BAR_SYMMETRY_FRACTION);
+    if (Math.abs(first.lines - second.lines) > slack) return full;
+
+    const content = letterbox
+        ? { x: 0, y: first.lines, width, height: height - first.lines - second.lines }
+        : { x: first.lines, y: 0, width: width - first.lines - second.lines, height };
+    return aspectsMatch(content.width / content.height, targetAspect) ? content : full;
+};
+
+const describeSize = ({ width, height }: ImageSize) => `${width}×${height}`;
+
+export type ConformOptions = {
+    // Drawn under the result so edges the model cropped away show the original instead of transparency.
+    backdrop?: File;
+    // 'cover' fills the target by cropping the result instead, for generated images with no source to protect.
+    fit?: 'contain' | 'cover';
+    // Off for results that are meant to have transparent or plain edges, such as cutouts.
+    trimBars?: boolean;
+};
+
+/**
+ * Restores a model output to `target` dimensions.
+ *
+ * - Matching sizes pass through untouched.
+ * - If the aspect ratio differs, black or white padding bars added by the model are trimmed first
+ *   (see `findContentBox`).
+ * - If the remaining picture has the target's aspect ratio, it is resampled to the exact size.
+ * - Otherwise the model reframed the shot. The picture is fitted inside the target and centred, and
+ *   the uncovered edges are filled from `backdrop` (usually the source image) or left transparent.
+ *   A warning is returned in this case because content was cropped. With `fit: 'cover'` the picture
+ *   is cropped to fill the target instead, without a warning.
+ */
+export const conformToSize = async (imageUrl: string, target: ImageSize, options: ConformOptions = {}): Promise<ConformedImage> => {
+    const { backdrop, fit = 'contain', trimBars = true } = options;
+    const image = await loadImageSource(imageUrl);
+    const returned = { width: image.naturalWidth, height: image.naturalHeight };
+    if (returned.width === target.width && returned.height === target.height) {
+        return { imageUrl };
+    }
+
+    const targetAspect = target.width / target.height;
+    const content = trimBars && !aspectsMatch(returned.width / returned.height, targetAspect)
+        ? findContentBox(drawPixels(image, returned.width, returned.height), targetAspect)
+        : { x: 0, y: 0, ...returned };
+    const ctx = createContext(target.width, target.height);
+    ctx.imageSmoothingQuality = 'high';
+
+    if (aspectsMatch(content.width / content.height, targetAspect)) {
+        ctx.drawImage(image, content.x, content.y, content.width, content.height, 0, 0, target.width, target.height);
+        return { imageUrl: ctx.canvas.toDataURL('image/png') };
+    }
+
+    if (backdrop) {
+        ctx.drawImage(await loadImageSource(backdrop), 0, 0, target.width, target.height);
+    }
+    const scale = fit === 'cover'
+        ? Math.max(target.width / content.width, target.height / content.height)
+        : Math.min(target.width / content.width, target.height / content.height);
+    const drawWidth = content.width * scale;
+    const drawHeight = content.height * scale;
+    ctx.drawImage(
+        image,
+        content.x, content.y, content.width, content.height,
+        (target.width - drawWidth) / 2, (target.height - drawHeight) / 2, drawWidth, drawHeight,
+    );
+
+    if (fit === 'cover') {
+        return { imageUrl: ctx.canvas.toDataURL('image/png') };
+    }
+
+    const fill = backdrop ? 'the original' : 'transparency';
+    return {
+        imageUrl: ctx.canvas.toDataURL('image/png'),
+        warning: `The AI returned a ${describeSize(returned)} image with different framing than the ${describeSize(target)} source, so part of the picture was cropped. The result was centred and the missing edges were filled with ${fill}.`,
+    };
+};
+
+// --- REGION TILES ---
+
+// A tile must be at least this large so the model still sees enough context around the edit.
+const MIN_TILE_SIZE = 256;
+// Extra context around the edit area, as a share of its larger side.
+const TILE_PADDING_FRACTION = 0.25;
+// Above this share of the frame, cropping saves too little to be worth a seam.
+const MAX_TILE_COVERAGE = 0.7;
+
+const findMaskBounds = async (mask: File, size: ImageSize): Promise<Rect | null> => {
+    const weights = maskToWeights(drawPixels(await loadImageSource(mask), size.width, size.height));
+    let minX = size.width, minY = size.height, maxX = -1, maxY = -1;
+    for (let y = 0; y < size.height; y++) {
+        for (let x = 0; x < size.width; x++) {
+            if (weights[y * size.width + x] > 0) {
+                if (x < minX) minX = x;
+                if (x > maxX) maxX = x;
+                if (y < minY) minY = y;
+                if (y > maxY) maxY = y;
+            }
+        }
+    }
+    return maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+// Grows `length` around `start` to at least `min`, keeping it inside 0..limit.
+const growSpan = (start: number, length: number, min: number, limit: number): [number, number] => {
+    const target = Math.min(Math.ceil(Math.max(length, min)), limit);
+    const from = Math.round(start - (target - length) / 2);
+    const clamped = Math.min(Math.max(from, 0), limit - target);
+    return [clamped, target];
+};
+
+/**
+ * Picks the padded tile of the image a local edit needs, or null when the edit covers
+ * so much of the frame that sending the whole image is simpler.
+ * The padding is never smaller than `feather`, so feathered edges stay inside the tile.
+ */
+export const findEditTile = async (area: Exclude<EditArea, { type: 'rect' }>, size: ImageSize, feather: number): Promise<Rect | null> => {
+    let bounds: Rect | null;
+    if (area.type === 'mask') {
+        bounds = await findMaskBounds(area.mask, size);
+    } else {
+        bounds = { x: area.x - area.radius, y: area.y - area.radius, width: area.radius * 2, height: area.radius * 2 };
+    }
+    if (!bounds) return null;
+
+    const padding = Math.ceil(Math.max(feather, Math.max(bounds.width, bounds.height) * TILE_PADDING_FRACTION));
+    const [x, width] = growSpan(bounds.x - padding, bounds.width + padding * 2, MIN_TILE_SIZE, size.width);
+    const [y, height] = growSpan(bounds.y - padding, bounds.height + padding * 2, MIN_TILE_SIZE, size.height);
+
+    if (width * height > size.width * size.height * MAX_TILE_COVERAGE) return null;
+    return { x, y, width, height };
+};
+
+/**
+ * The area to paste a tile back into when nothing narrower is known: the whole tile,
+ * shrunk by `feather` on every side that lies inside the image so it fades out before the seam.
+ */
+export const tileEditArea = (tile: Rect, size: ImageSize, feather: number): EditArea => {
+    const left = tile.x > 0 ? feather : 0;
+    const top = tile.y > 0 ? feather : 0;
+    const right = tile.x + tile.width < size.width ? feather : 0;
+    const bottom = tile.y + tile.height < size.height ? feather : 0;
+    return {
+        type: 'rect',
+        x: tile.x + left,
+        y: tile.y + top,
+        width: Math.max(tile.width - left - right, 1),
+        height: Math.max(tile.height - top - bottom, 1),
+    };
+};
+
+// Cuts a rectangle out of an image file, keeping the file's format when the browser can encode it.
+export const cropImageFile = async (file: File, rect: Rect): Promise<File> => {
+    const image = await loadImageSource(file);
+    const ctx = createContext(rect.width, rect.height);
+    ctx.drawImage(image, rect.x, rect.y, rect.width, rect.height, 0, 0, rect.width, rect.height);
+    const type = file.type === 'image/jpeg' || file.type === 'image/webp' ? file.type : 'image/png';
+    const blob = await new Promise<Blob | null>(resolve => ctx.canvas.toBlob(resolve, type, 0.95));
+    if (!blob) throw new Error('Failed to create blob from cropped tile.');
+    return new File([blob], `tile-${file.name || 'image'}`, { type: blob.type });
+};
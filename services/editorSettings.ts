@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+const SETTINGS_KEY = 'utilpic-editor-settings';
+
+export type EditorSettings = {
+    // Paste pixels outside a mask or hotspot back from the original after a local AI edit.
+    preserveUnmaskedPixels: boolean;
+    // Width in pixels of the soft transition at the edge of a local edit.
+    maskFeather: number;
+    // Radius of the area a hotspot edit may change, as a percentage of the image's shorter side.
+    hotspotRadius: number;
+    // Send only a padded tile around a local edit instead of the whole image.
+    cropLocalEdits: boolean;
+};
+
+export const DEFAULT_EDITOR_SETTINGS: EditorSettings = {
+    preserveUnmaskedPixels: true,
+    maskFeather: 12,
+    hotspotRadius: 25,
+    cropLocalEdits: true,
+};
+
+export const getEditorSettings = (): EditorSettings => {
+    try {
+        const saved = localStorage.getItem(SETTINGS_KEY);
+        return saved ? { ...DEFAULT_EDITOR_SETTINGS, ...JSON.parse(saved) } : DEFAULT_EDITOR_SETTINGS;
+    } catch {
+        return DEFAULT_EDITOR_SETTINGS;
+    }
+};
+
+export const saveEditorSettings = (settings: EditorSettings): void => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
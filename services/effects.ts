@@ -0,0 +1,190 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { gaussianBlurChannel, type PixelBuffer } from './pixelEngine.ts';
+
+// Classic finishing effects: vignette, film grain and unsharp mask. Pure functions of the pixels
+// and their parameters (grain includes its seed), so they run in the pixel engine worker and the
+// same settings always give the same image.
+
+const smoothstep = (edge0: number, edge1: number, x: number) => {
+    const t = Math.min(1, Math.max(0, (x - edge0) / (edge1 - edge0)));
+    return t * t * (3 - 2 * t);
+};
+
+// --- Vignette ----------------------------------------------------------------------------------
+
+export type VignetteParams = {
+    // -100 (lighten the edges) to 100 (darken them).
+    amount: number;
+    // 0..100: how far the vignette reaches in. Low values only touch the corners; high values
+    // close in tightly around the centre.
+    size: number;
+    // 0..100: width of the transition from the centre to the edges.
+    feather: number;
+};
+
+export const DEFAULT_VIGNETTE: VignetteParams = { amount: 0, size: 75, feather: 50 };
+
+/**
+ * Radial vignette that follows the frame's aspect ratio. Radius 1 touches the middle of each
+ * edge; the corners are at sqrt(2).
+ */
+export const applyVignette = ({ data, width, height }: PixelBuffer, { amount, size, feather }: VignetteParams): void => {
+    const strength = Math.min(1, Math.max(-1, amount / 100));
+    if (strength === 0) return;
+    const outer = 1.4 - 0.8 * size / 100;
+    const inner = outer * (1 - Math.max(0.05, feather / 100));
+    const cx = width / 2;
+    const cy = height / 2;
+
+    for (let y = 0; y < height; y++) {
+        const dy = (y + 0.5 - cy) / cy;
+        for (let x = 0; x < width; x++) {
+            const dx = (x + 0.5 - cx) / cx;
+            const t = smoothstep(inner, outer, Math.sqrt(dx * dx + dy * dy)) * strength;
+            if (t === 0) continue;
+            const i = (y * width + x) * 4;
+            for (let c = 0; c < 3; c++) {
+                data[i + c] = t > 0 ? data[i + c] * (1 - t) : data[i + c] - (255 - data[i + c]) * t;
+            }
+        }
+    }
+};
+
+// --- Film grain --------------------------------------------------------------------------------
+
+export type GrainParams = {
+    // 0..100: strength of the grain.
+    amount: number;
+    // 0..100: grain size, from single pixels to clumps a few pixels across.
+    size: number;
+    // 0..100: share of independent per-channel (color) noise; 0 is pure luminance grain.
+    chroma: number;
+    seed: number;
+};
+
+export type GrainPresetName = 'Subtle' | 'Medium' | 'High';
+
+export const GRAIN_PRESETS: Record<GrainPresetName, Omit<GrainParams, 'seed'>> = {
+    Subtle: { amount: 15, size: 20, chroma: 0 },
+    Medium: { amount: 30, size: 35, chroma: 10 },
+    High: { amount: 55, size: 55, chroma: 20 },
+};
+
+// Grain amplitude in 8-bit levels (one standard deviation) at amount 100.
+const MAX_GRAIN_LEVELS = 40;
+const MAX_GRAIN_CELL = 4;
+
+// mulberry32: small, fast and good enough for visual noise. Returns floats in [0, 1).
+const createRandom = (seed: number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+// Zero-mean noise with unit standard deviation on a coarse grid, `cell` pixels apart.
+const noiseGrid = (random: () => number, columns: number, rows: number): Float32Array => {
+    const grid = new Float32Array(columns * rows);
+    for (let k = 0; k < grid.length; k++) {
+        // The sum of three uniforms is close enough to a normal distribution for grain.
+        grid[k] = (random() + random() + random() - 1.5) * 2;
+    }
+    return grid;
+};
+
+// Bilinear lookup into a noise grid.
+const sampleGrid = (grid: Float32Array, columns: number, gx: number, gy: number): number => {
+    const x0 = Math.floor(gx);
+    const y0 = Math.floor(gy);
+    const fx = gx - x0;
+    const fy = gy - y0;
+    const k = y0 * columns + x0;
+    const top = grid[k] + (grid[k + 1] - grid[k]) * fx;
+    const bottom = grid[k + columns] + (grid[k + columns + 1] - grid[k + columns]) * fx;
+    return top + (bottom - top) * fy;
+};
+
+/**
+ * Seeded film grain, strongest in the midtones like real film.
+ */
+export const applyGrain = ({ data, width, height }: PixelBuffer, { amount, size, chroma, seed }: GrainParams): void => {
+    const levels = Math.max(0, amount) / 100 * MAX_GRAIN_LEVELS;
+    if (levels === 0) return;
+    const cell = 1 + Math.min(100, Math.max(0, size)) / 100 * (MAX_GRAIN_CELL - 1);
+    const color = Math.min(100, Math.max(0, chroma)) / 100;
+    const columns = Math.ceil(width / cell) + 2;
+    const rows = Math.ceil(height / cell) + 2;
+    const random = createRandom(seed);
+    // Interpolating between grid values lowers their standard deviation to about two thirds.
+    const gain = cell > 1 ? 1.5 : 1;
+    const luma = noiseGrid(random, columns, rows);
+    const channels = color > 0 ? [noiseGrid(random, columns, rows), noiseGrid(random, columns, rows), noiseGrid(random, columns, rows)] : null;
+
+    for (let y = 0; y < height; y++) {
+        const gy = y / cell;
+        for (let x = 0; x < width; x++) {
+            const gx = x / cell;
+            const i = (y * width + x) * 4;
+            const l = (0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2]) / 255;
+            const weight = levels * gain * (0.25 + 3 * l * (1 - l));
+            const shared = sampleGrid(luma, columns, gx, gy) * (1 - color);
+            for (let c = 0; c < 3; c++) {
+                const own = channels ? sampleGrid(channels[c], columns, gx, gy) * color : 0;
+                data[i + c] = data[i + c] + (shared + own) * weight;
+            }
+        }
+    }
+};
+
+// --- Unsharp mask ------------------------------------------------------------------------------
+
+export type UnsharpMaskParams = {
+    // Gaussian radius (sigma) in pixels.
+    radius: number;
+    // Percentage of the detail added back, e.g. 100 doubles local contrast at the radius.
+    amount: number;
+    // Differences below this many levels are left alone, so flat areas and noise aren't sharpened.
+    threshold: number;
+};
+
+export type SharpenPresetName = 'Subtle' | 'Natural' | 'High';
+
+export const SHARPEN_PRESETS: Record<SharpenPresetName, UnsharpMaskParams> = {
+    Subtle: { radius: 0.8, amount: 50, threshold: 4 },
+    Natural: { radius: 1, amount: 100, threshold: 3 },
+    High: { radius: 1.4, amount: 180, threshold: 2 },
+};
+
+/**
+ * Unsharp mask on luminance only, so edges get crisper without color fringes.
+ */
+export const applyUnsharpMask = ({ data, width, height }: PixelBuffer, { radius, amount, threshold }: UnsharpMaskParams): void => {
+    const strength = Math.max(0, amount) / 100;
+    if (radius <= 0 || strength === 0) return;
+    const pixelCount = width * height;
+    const luma = new Float32Array(pixelCount);
+    for (let p = 0; p < pixelCount; p++) {
+        const i = p * 4;
+        luma[p] = 0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2];
+    }
+    const blurred = luma.slice();
+    gaussianBlurChannel(blurred, width, height, radius);
+
+    for (let p = 0; p < pixelCount; p++) {
+        const detail = luma[p] - blurred[p];
+        if (Math.abs(detail) < threshold) continue;
+        const delta = detail * strength;
+        const i = p * 4;
+        data[i] = data[i] + delta;
+        data[i + 1] = data[i + 1] + delta;
+        data[i + 2] = data[i + 2] + delta;
+    }
+};
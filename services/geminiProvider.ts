@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GoogleGenAI, Modality, type GenerateContentResponse, type Part } from '@google/genai';
+import type { ImageProvider, JsonRequest, EditRequest, SegmentRequest, GenerateRequest } from './imageProvider.ts';
+import { withRetry, SafetyBlockedError, NoImageReturnedError, InvalidResponseError } from './aiErrors.ts';
+
+const ANALYSIS_MODEL = 'gemini-2.5-pro';
+const IMAGE_MODEL = 'gemini-2.5-flash-image';
+
+// Finish and block reasons that mean the model refused rather than failed.
+const BLOCK_REASONS = new Set(['SAFETY', 'RECITATION', 'OTHER', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'IMAGE_SAFETY', 'SPII']);
+
+// Helper to extract base64 from a Gemini response and format as a data URL
+const extractImageDataUrl = (response: GenerateContentResponse): string => {
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+        if (part.inlineData?.data) {
+            const mimeType = part.inlineData.mimeType || 'image/png';
+            return `data:${mimeType};base64,${part.inlineData.data}`;
+        }
+    }
+    // Check for safety ratings / blocked response
+    const blockReason = response.promptFeedback?.blockReason ?? response.candidates?.[0]?.finishReason;
+    if (blockReason && BLOCK_REASONS.has(blockReason)) {
+        const safetyRatings = response.candidates?.[0]?.safetyRatings ?? response.promptFeedback?.safetyRatings ?? [];
+        const categories = safetyRatings.filter(r => r.blocked || r.probability === 'HIGH').map(r => String(r.category));
+        throw new SafetyBlockedError(blockReason, categories.length > 0 ? categories : safetyRatings.map(r => String(r.category)));
+    }
+    throw new NoImageReturnedError();
+};
+
+/**
+ * Creates the provider that talks to the Gemini API.
+ */
+export const createGeminiProvider = (apiKey: string | undefined): ImageProvider => {
+    const ai = new GoogleGenAI({ apiKey });
+
+    const generateJson = async ({ images, prompt, schema, signal }: JsonRequest): Promise<string> => {
+        const response = await withRetry(() => ai.models.generateContent({
+            model: ANALYSIS_MODEL,
+            contents: { parts: [...images, { text: prompt }] },
+            config: {
+                responseMimeType: 'application/json',
+                responseSchema: schema,
+                abortSignal: signal,
+            },
+        }), { signal });
+        const text = response.text?.trim();
+        if (!text) {
+            throw new InvalidResponseError('The analysis model returned an empty response.');
+        }
+        return text;
+    };
+
+    // Variants are seeded so each one samples differently but reproducibly.
+    const generateImage = async (parts: Part[], signal?: AbortSignal, variant?: number): Promise<string> => {
+        const response = await withRetry(() => ai.models.generateContent({
+            model: IMAGE_MODEL,
+            contents: { parts },
+            config: {
+                responseModalities: [Modality.IMAGE],
+                abortSignal: signal,
+                ...(variant ? { seed: variant } : {}),
+            },
+        }), { signal });
+        return extractImageDataUrl(response);
+    };
+
+    return {
+        id: 'gemini',
+        models: { analysis: ANALYSIS_MODEL, image: IMAGE_MODEL },
+        analyze: generateJson,
+        detect: generateJson,
+        segment: ({ image, prompt, signal }: SegmentRequest) => generateImage([image, { text: prompt }], signal),
+        edit: ({ images, prompt, signal, variant }: EditRequest) => generateImage([...images, { text: prompt }], signal, variant),
+        generate: ({ prompt, signal, variant }: GenerateRequest) => generateImage([{ text: prompt }], signal, variant),
+    };
+};
@@ -3,17 +3,57 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import { GoogleGenAI, Modality, Type, type GenerateContentResponse } from '@google/genai';
-
-// Initialize the Gemini client
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { Type } from '@google/genai';
+import { getImageProvider, setDefaultProviderFactory, type ImagePart } from './imageProvider.ts';
+import { createGeminiProvider } from './geminiProvider.ts';
+import { createLocalProvider } from './localProvider.ts';
+import { withResultCache } from './cachingProvider.ts';
+import { ImageTooLargeError, InvalidResponseError, MissingApiKeyError } from './aiErrors.ts';
+import {
+    compositeEdit, conformToSize, cropImageFile, findEditTile, getImageSize, tileEditArea,
+    type ConformOptions, type EditArea, type ImageSize,
+} from './compositing.ts';
+import { getEditorSettings } from './editorSettings.ts';
+import { canAllocateCanvas, clampScale, createTileAssembler, planTiles } from './tiling.ts';
+import { createImageBlobUrl } from './imageBlobs.ts';
+import { renderPrompt, toRenderedPrompt, type PromptInput, type RenderedPrompt } from './promptRegistry.ts';
+import {
+    suggestionAnalysisPrompt, faceDetectionPrompt, segmentationPrompt, editPrompt, hotspotEditPrompt, maskedEditPrompt,
+    filterPrompt, colorGradePrompt, adjustmentPrompt, orientationPrompt,
+    upscalePrompt, upscaleTilePrompt, zoomPrompt, faceRetouchPrompt, faceSwapPrompt, restorePrompt, removeBackgroundPrompt,
+    generateBackgroundPrompt, doubleExposurePrompt, styleByExamplePrompt, styleReferencePrompt,
+} from './prompts.ts';
+
+// Use the offline provider only when explicitly requested; a missing Gemini key is a configuration error.
+// Only the paid Gemini provider goes through the result cache.
+setDefaultProviderFactory(() => {
+    if (process.env.IMAGE_PROVIDER === 'local') {
+        return createLocalProvider();
+    }
+    if (!process.env.API_KEY) {
+        throw new MissingApiKeyError();
+    }
+    return withResultCache(createGeminiProvider(process.env.API_KEY));
+});
 
 // Helper to convert a File to a GenerativePart
-const fileToGenerativePart = async (file: File) => {
+const fileToGenerativePart = async (file: File, signal?: AbortSignal): Promise<ImagePart> => {
+    signal?.throwIfAborted();
     const base64EncodedData = await new Promise<string>((resolve, reject) => {
         const reader = new FileReader();
-        reader.onload = () => resolve((reader.result as string).split(',')[1]);
-        reader.onerror = reject;
+        const onAbort = () => {
+            reader.abort();
+            reject(signal?.reason);
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+        reader.onload = () => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve((reader.result as string).split(',')[1]);
+        };
+        reader.onerror = (err) => {
+            signal?.removeEventListener('abort', onAbort);
+            reject(err);
+        };
         reader.readAsDataURL(file);
     });
     return {
@@ -24,25 +64,42 @@ const fileToGenerativePart = async (file: File) => {
     };
 };
 
-// Helper to extract base64 from a Gemini response and format as a data URL
-const extractImageDataUrl = (response: GenerateContentResponse): string => {
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-        if (part.inlineData?.data) {
-            const mimeType = part.inlineData.mimeType || 'image/png';
-            return `data:${mimeType};base64,${part.inlineData.data}`;
-        }
+/**
+ * True when an operation was rejected because its AbortSignal fired.
+ */
+export const isAbortError = (error: unknown): boolean =>
+    error instanceof DOMException && error.name === 'AbortError';
+
+// Fresh runs start at a random multiple of the count below this, well inside a 32-bit seed.
+const MAX_FRESH_ROUNDS = 1_000_000;
+
+/**
+ * Runs `count` samples of the same operation in parallel, passing each its variant index.
+ * Failed variants are dropped; only when every one fails is the first error rethrown.
+ * A cancelled run is never partial: once `signal` fires (or any variant was aborted), the abort is rethrown.
+ * Variant indices (and so seeds and cache keys) are stable, so asking again returns the same set.
+ * With `fresh`, the indices start at a random offset instead, for when the user asks for new variants.
+ */
+export const generateVariants = async <T>(
+    count: number,
+    run: (variant: number) => Promise<T>,
+    { fresh = false, signal }: { fresh?: boolean; signal?: AbortSignal } = {}
+): Promise<T[]> => {
+    const first = fresh ? (1 + Math.floor(Math.random() * MAX_FRESH_ROUNDS)) * count : 0;
+    const settled = await Promise.allSettled(Array.from({ length: count }, (_, i) => run(first + i)));
+    signal?.throwIfAborted();
+    const aborted = settled.find((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected' && isAbortError(outcome.reason));
+    if (aborted) {
+        throw aborted.reason;
     }
-    // Check for safety ratings / blocked response
-    const blockReason = response.candidates?.[0]?.finishReason;
-    if (blockReason === 'SAFETY' || blockReason === 'RECITATION' || blockReason === 'OTHER') {
-        const safetyRatings = response.candidates?.[0]?.safetyRatings;
-        let reason = `Request was blocked due to ${blockReason}.`;
-        if (safetyRatings && safetyRatings.length > 0) {
-            reason += ` Categories: ${safetyRatings.map(r => r.category).join(', ')}.`;
-        }
-        throw new Error(reason + " Please try a different image or a more direct prompt. You can learn more by reading Google's Generative AI Prohibited Use Policy.");
+    const results = settled.flatMap(outcome => outcome.status === 'fulfilled' ? [outcome.value] : []);
+    if (results.length === 0) {
+        throw (settled[0] as PromiseRejectedResult).reason;
     }
-    throw new Error('No image data found in the response, and the request was not blocked for safety reasons.');
+    settled.forEach(outcome => {
+        if (outcome.status === 'rejected') console.warn('A variant failed and was skipped.', outcome.reason);
+    });
+    return results;
 };
 
 
@@ -57,6 +114,14 @@ export type Face = {
   };
 };
 
+// A generated image together with the rendered prompt (and its template refs) that produced it.
+export type AiImageResult = {
+  imageUrl: string;
+  prompt: RenderedPrompt;
+  // Shown to the user when post-processing had to compensate for a reframed result.
+  warning?: string;
+};
+
 export type SuggestionAnalysis = {
   image_type: string;
   characteristics: string[];
@@ -69,237 +134,319 @@ export type SuggestionAnalysis = {
 /**
  * Analyzes an image to suggest potential edits.
  */
-export const analyzeImageForSuggestions = async (image: File): Promise<SuggestionAnalysis> => {
-  const imagePart = await fileToGenerativePart(image);
+export const analyzeImageForSuggestions = async (image: File, signal?: AbortSignal): Promise<SuggestionAnalysis> => {
+  const imagePart = await fileToGenerativePart(image, signal);
   
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-pro',
-    contents: {
-      parts: [
-        imagePart,
-        { text: 'Analyze this image and provide a JSON object with `image_type`, `characteristics`, and `mood`.' }
-      ]
-    },
-    config: {
-        responseMimeType: 'application/json',
-        responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-                image_type: { type: Type.STRING, description: 'The type of image.', enum: ["portrait", "group_photo", "landscape", "product_shot", "old_photo", "other"]},
-                characteristics: { type: Type.ARRAY, items: { type: Type.STRING, description: 'A characteristic of the image.', enum: ["blurry", "low_light", "damaged", "muted_colors", "other"] } },
-                mood: { type: Type.STRING, description: 'A short descriptive string about the mood.' }
-            },
-            required: ['image_type', 'characteristics', 'mood']
-        }
+  const jsonText = await getImageProvider().analyze({
+    images: [imagePart],
+    signal,
+    prompt: renderPrompt(suggestionAnalysisPrompt).text,
+    schema: {
+        type: Type.OBJECT,
+        properties: {
+            image_type: { type: Type.STRING, description: 'The type of image.', enum: ["portrait", "group_photo", "landscape", "product_shot", "old_photo", "other"]},
+            characteristics: { type: Type.ARRAY, items: { type: Type.STRING, description: 'A characteristic of the image.', enum: ["blurry", "low_light", "damaged", "muted_colors", "other"] } },
+            mood: { type: Type.STRING, description: 'A short descriptive string about the mood.' }
+        },
+        required: ['image_type', 'characteristics', 'mood']
     }
   });
 
-  const jsonText = response.text.trim();
   try {
       return JSON.parse(jsonText);
   } catch(e) {
       console.error("Failed to parse suggestion analysis JSON:", jsonText, e);
-      throw new Error("Could not analyze image for suggestions.");
+      throw new InvalidResponseError("Could not analyze image for suggestions.", { cause: e });
   }
 };
 
 /**
  * Detects all faces in an image and returns their bounding boxes.
  */
-export const detectFaces = async (image: File): Promise<Face[]> => {
-    const imagePart = await fileToGenerativePart(image);
-    const prompt = `Analyze the image and provide a JSON array of bounding boxes for every face detected. Each object in the array should have a "box" property with "x", "y", "width", and "height" as normalized values (0-1). If no faces are found, return an empty array.`;
-
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-pro',
-        contents: { parts: [imagePart, { text: prompt }] },
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.ARRAY,
-                items: {
-                    type: Type.OBJECT,
-                    properties: {
-                        box: {
-                            type: Type.OBJECT,
-                            properties: {
-                                x: { type: Type.NUMBER },
-                                y: { type: Type.NUMBER },
-                                width: { type: Type.NUMBER },
-                                height: { type: Type.NUMBER },
-                            },
-                            required: ['x', 'y', 'width', 'height']
-                        }
-                    },
-                    required: ['box']
-                }
+export const detectFaces = async (image: File, signal?: AbortSignal): Promise<Face[]> => {
+    const imagePart = await fileToGenerativePart(image, signal);
+    const prompt = renderPrompt(faceDetectionPrompt).text;
+
+    const jsonText = await getImageProvider().detect({
+        images: [imagePart],
+        prompt,
+        signal,
+        schema: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    box: {
+                        type: Type.OBJECT,
+                        properties: {
+                            x: { type: Type.NUMBER },
+                            y: { type: Type.NUMBER },
+                            width: { type: Type.NUMBER },
+                            height: { type: Type.NUMBER },
+                        },
+                        required: ['x', 'y', 'width', 'height']
+                    }
+                },
+                required: ['box']
             }
         }
     });
 
-    const jsonText = response.text.trim();
+    let faces: unknown;
     try {
-        const faces = JSON.parse(jsonText);
-        if (Array.isArray(faces)) {
-            return faces;
-        }
-        console.warn("Face detection returned non-array:", faces);
-        return [];
+        faces = JSON.parse(jsonText);
     } catch (e) {
         console.error("Failed to parse face detection JSON:", jsonText, e);
-        return [];
+        throw new InvalidResponseError("Face detection returned malformed data.", { cause: e });
     }
+    if (!Array.isArray(faces)) {
+        console.warn("Face detection returned non-array:", faces);
+        throw new InvalidResponseError("Face detection returned an unexpected result.");
+    }
+    return faces as Face[];
 };
 
 /**
- * A generic function to apply a full-image effect and return a data URL.
+ * Shared post-processing for every image the model returns. Models often ignore the input
+ * resolution, so the output is resampled (or letterbox-aligned) back to `target`.
+ * See `conformToSize` for how reframed results are handled.
  */
-const applyFullImageEffect = async (image: File, prompt: string, model: string = 'gemini-2.5-flash-image'): Promise<string> => {
-    const imagePart = await fileToGenerativePart(image);
-    const textPart = { text: prompt };
-
-    const response = await ai.models.generateContent({
-        model,
-        contents: { parts: [imagePart, textPart] },
-        config: {
-            responseModalities: [Modality.IMAGE],
-        },
-    });
+const finishImageResult = async (
+    imageUrl: string,
+    prompt: RenderedPrompt,
+    target: ImageSize,
+    options: ConformOptions,
+    signal?: AbortSignal
+): Promise<AiImageResult> => {
+    const conformed = await conformToSize(imageUrl, target, options);
+    signal?.throwIfAborted();
+    if (conformed.warning) {
+        console.warn(conformed.warning);
+    }
+    return { imageUrl: conformed.imageUrl, prompt, warning: conformed.warning };
+};
+
+type OutputSize =
+    // Keep the input's dimensions (the default).
+    | { type: 'source' }
+    // Keep the input's dimensions, but accept the model turning the frame by 90 degrees.
+    | { type: 'source-any-orientation' }
+    | { type: 'exact'; size: ImageSize };
 
-    return extractImageDataUrl(response);
+/**
+ * A generic function to apply a full-image effect and return a data URL.
+ * With `transparent`, the result is a cutout: nothing from the source is painted under it and
+ * its edges are never trimmed as padding.
+ */
+const applyFullImageEffect = async (
+    image: File,
+    prompt: RenderedPrompt,
+    signal?: AbortSignal,
+    { output = { type: 'source' }, variant, transparent = false }: { output?: OutputSize; variant?: number; transparent?: boolean } = {}
+): Promise<AiImageResult> => {
+    const imagePart = await fileToGenerativePart(image, signal);
+    const imageUrl = await getImageProvider().edit({ images: [imagePart], prompt: prompt.text, variant, signal });
+    const options: ConformOptions = transparent ? { trimBars: false } : { backdrop: image };
+
+    if (output.type === 'exact') {
+        return finishImageResult(imageUrl, prompt, output.size, options, signal);
+    }
+    const source = await getImageSize(image);
+    const swapped = { width: source.height, height: source.width };
+    if (output.type === 'source-any-orientation') {
+        const returned = await getImageSize(imageUrl);
+        const turned = (returned.width > returned.height) !== (source.width > source.height) && source.width !== source.height;
+        return finishImageResult(imageUrl, prompt, turned ? swapped : source, turned ? { trimBars: options.trimBars } : options, signal);
+    }
+    return finishImageResult(imageUrl, prompt, source, options, signal);
 };
 
 /**
  * Generates a segmentation mask (black and white) for a specific subject in the image.
  */
-export const generateSegmentationMask = async (image: File, subject: 'sky' | 'subject'): Promise<string> => {
-    const imagePart = await fileToGenerativePart(image);
+export const generateSegmentationMask = async (image: File, subject: 'sky' | 'subject', signal?: AbortSignal): Promise<string> => {
+    const imagePart = await fileToGenerativePart(image, signal);
     
-    let prompt = "";
-    if (subject === 'sky') {
-        prompt = "Create a high-contrast binary mask where the sky is WHITE and everything else is BLACK. The selection must be pixel-perfect, accurately tracing the horizon, buildings, trees, and gaps between branches. There should be no gray areas; strictly black and white.";
-    } else {
-        prompt = "Create a high-contrast binary mask where the main subject(s) are WHITE and the background is BLACK. The selection must be pixel-perfect, accurately handling hair, clothing edges, and complex shapes. There should be no gray areas; strictly black and white.";
-    }
-
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: { parts: [imagePart, { text: prompt }] },
-        config: {
-            responseModalities: [Modality.IMAGE],
-        },
-    });
-
-    return extractImageDataUrl(response);
+    const prompt = renderPrompt(segmentationPrompt, { subject }).text;
+    return getImageProvider().segment({ image: imagePart, prompt, subject, signal });
 };
 
 /**
  * Applies a generative edit to an image based on a text prompt and optional mask/hotspot.
+ * Unless disabled in the editor settings, everything outside the mask (or the hotspot's
+ * radius) is composited back from the original pixels, so the model cannot alter it, and
+ * only a padded tile around the edit is sent to the model and pasted back with feathered edges.
  */
 export const generateEditedImage = async (
   image: File, 
-  prompt: string, 
+  prompt: PromptInput, 
   hotspot: { x: number, y: number } | null,
-  mask?: File
-): Promise<string> => {
-    const imagePart = await fileToGenerativePart(image);
-    const parts: any[] = [imagePart];
-
-    let fullPrompt = `Edit this image based on the following instruction: "${prompt}".`;
-    if (hotspot && !mask) {
-        fullPrompt += ` The edit should be centered around the point (${hotspot.x}, ${hotspot.y}) in natural image coordinates. The change should be localized and blend seamlessly with the rest of the image.`;
-    } else if (mask) {
+  mask?: File,
+  signal?: AbortSignal,
+  variant?: number
+): Promise<AiImageResult> => {
+    const settings = getEditorSettings();
+    const source = await getImageSize(image);
+    const instruction = toRenderedPrompt(prompt);
+
+    let area: Exclude<EditArea, { type: 'rect' }> | null = null;
+    if (mask) {
+        area = { type: 'mask', mask };
+    } else if (hotspot) {
+        const radius = Math.min(source.width, source.height) * settings.hotspotRadius / 100;
+        area = { type: 'hotspot', x: hotspot.x, y: hotspot.y, radius };
+    }
+    const tile = settings.cropLocalEdits && area ? await findEditTile(area, source, settings.maskFeather) : null;
+
+    // With a tile, the model only sees that crop, so the mask and hotspot move into its coordinates.
+    const inputImage = tile ? await cropImageFile(image, tile) : image;
+    const inputMask = mask && tile ? await cropImageFile(mask, tile) : mask;
+    const inputHotspot = hotspot && tile ? { x: hotspot.x - tile.x, y: hotspot.y - tile.y } : hotspot;
+
+    const imagePart = await fileToGenerativePart(inputImage, signal);
+    const parts: ImagePart[] = [imagePart];
+
+    let fullPrompt = renderPrompt(editPrompt, { instruction });
+    if (inputHotspot && !inputMask) {
+        fullPrompt = renderPrompt(hotspotEditPrompt, { instruction, x: inputHotspot.x, y: inputHotspot.y });
+    } else if (inputMask) {
         // The mask is expected to be black and white. White is the area to edit.
-        const maskPart = await fileToGenerativePart(mask);
+        const maskPart = await fileToGenerativePart(inputMask, signal);
         parts.push(maskPart);
-        fullPrompt += ` The provided image is a mask indicating the area to edit (white pixels = edit area). Apply the changes ONLY to the white region of the mask. The rest of the image must remain exactly the same.`;
+        fullPrompt = renderPrompt(maskedEditPrompt, { instruction });
     }
 
-    parts.push({ text: fullPrompt });
+    const editedUrl = await getImageProvider().edit({ images: parts, prompt: fullPrompt.text, maskIndex: inputMask ? 1 : undefined, variant, signal });
+    const result = await finishImageResult(editedUrl, fullPrompt, tile ?? source, { backdrop: inputImage }, signal);
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: { parts },
-        config: {
-            responseModalities: [Modality.IMAGE],
-        },
-    });
-    
-    return extractImageDataUrl(response);
+    if (!area || (!tile && !settings.preserveUnmaskedPixels)) {
+        return result;
+    }
+
+    // A tile is always pasted back; without preservation it blends in across its whole (inset) rectangle.
+    const pasteArea = settings.preserveUnmaskedPixels ? area : tileEditArea(tile!, source, settings.maskFeather);
+    const imageUrl = await compositeEdit(image, result.imageUrl, pasteArea, settings.maskFeather, tile ?? undefined);
+    signal?.throwIfAborted();
+    return { ...result, imageUrl };
 };
 
 /**
  * Applies a filter to an image.
  */
-export const generateFilteredImage = (image: File, filterPrompt: string): Promise<string> => {
-    const fullPrompt = `Apply a filter to this image. The filter is described as: "${filterPrompt}". The result should be a full-frame, photorealistic image with the described filter applied consistently across it.`;
-    return applyFullImageEffect(image, fullPrompt);
+export const generateFilteredImage = (image: File, filter: PromptInput, signal?: AbortSignal, variant?: number): Promise<AiImageResult> => {
+    const fullPrompt = renderPrompt(filterPrompt, { filter });
+    return applyFullImageEffect(image, fullPrompt, signal, { variant });
 };
 
 /**
  * Applies a color grade to an image.
  */
-export const generateColorGradedImage = (image: File, gradePrompt: string): Promise<string> => {
-    const fullPrompt = `Apply a color grade to this image. The color grade is described as: "${gradePrompt}". The result should be a full-frame, photorealistic image with the described color grade applied consistently across it.`;
-    return applyFullImageEffect(image, fullPrompt);
+export const generateColorGradedImage = (image: File, grade: PromptInput, signal?: AbortSignal, variant?: number): Promise<AiImageResult> => {
+    const fullPrompt = renderPrompt(colorGradePrompt, { grade });
+    return applyFullImageEffect(image, fullPrompt, signal, { variant });
 };
 
 /**
  * Applies a general adjustment to an image.
  */
-export const generateAdjustedImage = (image: File, adjustmentPrompt: string): Promise<string> => {
-    const fullPrompt = `Apply an adjustment to this image. The adjustment is: "${adjustmentPrompt}". The result should be a full-frame, photorealistic image with the described adjustment applied consistently.`;
-    return applyFullImageEffect(image, fullPrompt);
+export const generateAdjustedImage = (image: File, adjustment: PromptInput, signal?: AbortSignal): Promise<AiImageResult> => {
+    const fullPrompt = renderPrompt(adjustmentPrompt, { adjustment });
+    return applyFullImageEffect(image, fullPrompt, signal);
 };
 
 /**
- * Sharpens an image.
+ * Automatically corrects the orientation of an image.
  */
-export const generateSharpenedImage = (image: File, intensity: string): Promise<string> => {
-    const fullPrompt = `Apply a sharpening effect to the entire image. The desired intensity is '${intensity}'. The result should look natural and not over-sharpened.`;
-    return applyFullImageEffect(image, fullPrompt);
+export const generateCorrectedOrientation = (image: File, signal?: AbortSignal): Promise<AiImageResult> => {
+    const fullPrompt = renderPrompt(orientationPrompt);
+    return applyFullImageEffect(image, fullPrompt, signal, { output: { type: 'source-any-orientation' } });
 };
 
-/**
- * Adds grain to an image.
- */
-export const generateGrainImage = (image: File, intensity: string): Promise<string> => {
-    const fullPrompt = `Add a photorealistic film grain effect to the entire image. The desired intensity is '${intensity}'. The grain should be subtle and look authentic.`;
-    return applyFullImageEffect(image, fullPrompt);
-};
+// Largest side, in output pixels, to ask the model for in one call. Bigger outputs are tiled.
+const MAX_UPSCALE_TILE_OUTPUT = 2048;
+// Overlap between neighbouring tiles in source pixels, cross-faded to hide seams.
+const UPSCALE_TILE_OVERLAP = 48;
 
-/**
- * Automatically corrects the orientation of an image.
- */
-export const generateCorrectedOrientation = (image: File): Promise<string> => {
-    const fullPrompt = `Analyze and correct the orientation of this image. If it is tilted, straighten it. If it is sideways or upside down, rotate it to be upright. The result should be a correctly oriented image with the background filled in intelligently if rotation occurs.`;
-    return applyFullImageEffect(image, fullPrompt);
-};
+// Rows the tile assembler needs at once: one row of tiles, plus a pixel either side for rounding.
+const upscaleBandHeight = (target: ImageSize) => Math.min(target.height, MAX_UPSCALE_TILE_OUTPUT + 2);
 
-/**
- * Rotates an image by 90 degrees.
- */
-export const generateRotatedImage = (image: File, direction: 'clockwise' | 'counter-clockwise'): Promise<string> => {
-    const degrees = direction === 'clockwise' ? 90 : -90;
-    const fullPrompt = `Rotate the entire image exactly ${degrees} degrees ${direction}. Fill any empty space created by the rotation with context-aware, photorealistic content.`;
-    return applyFullImageEffect(image, fullPrompt);
-};
+// Single-call outputs are small enough for any browser; tiled ones need a band as wide as the output.
+const fitsUpscaleOutput = (target: ImageSize) =>
+    Math.max(target.width, target.height) <= MAX_UPSCALE_TILE_OUTPUT || canAllocateCanvas(target.width, upscaleBandHeight(target));
 
 /**
  * Upscales an image to a higher resolution.
+ * Outputs larger than one model call can produce are built from overlapping tiles that are
+ * upscaled one by one (reported through `onProgress`), blended together and encoded a band at a
+ * time, so the result never has to fit in one canvas. It is returned as an object URL from
+ * `createImageBlobUrl`. The scale is reduced, with a warning, to what this browser can build.
  */
 export const generateUpscaledImage = async (
     image: File,
     scale: number,
     detailIntensity: string,
     currentWidth: number,
-    currentHeight: number
-): Promise<string> => {
-    const targetWidth = Math.round(currentWidth * scale);
-    const targetHeight = Math.round(currentHeight * scale);
+    currentHeight: number,
+    signal?: AbortSignal,
+    onProgress?: (completed: number, total: number) => void
+): Promise<AiImageResult> => {
+    const source = { width: currentWidth, height: currentHeight };
+    const effectiveScale = clampScale(source, scale, fitsUpscaleOutput);
+    if (effectiveScale <= 1) {
+        throw new ImageTooLargeError(`This browser cannot build an upscaled version of the ${currentWidth}×${currentHeight} image.`);
+    }
+    const targetWidth = Math.round(currentWidth * effectiveScale);
+    const targetHeight = Math.round(currentHeight * effectiveScale);
+    const warnings: string[] = [];
+    if (effectiveScale < scale) {
+        warnings.push(`The image was upscaled ${effectiveScale.toFixed(1)}x instead of ${scale}x, because ${targetWidth}×${targetHeight} is the largest size this browser can build.`);
+    }
+
+    if (Math.max(targetWidth, targetHeight) <= MAX_UPSCALE_TILE_OUTPUT) {
+        onProgress?.(0, 1);
+        const fullPrompt = renderPrompt(upscalePrompt, { width: targetWidth, height: targetHeight, detailIntensity });
+        const result = await applyFullImageEffect(image, fullPrompt, signal, { output: { type: 'exact', size: { width: targetWidth, height: targetHeight } } });
+        onProgress?.(1, 1);
+        return { ...result, warning: [...warnings, result.warning].filter(Boolean).join(' ') || undefined };
+    }
+
+    const target = { width: targetWidth, height: targetHeight };
+    const tileSize = Math.floor(MAX_UPSCALE_TILE_OUTPUT / effectiveScale);
+    const tiles = planTiles(source, tileSize, UPSCALE_TILE_OVERLAP);
+    const assembler = createTileAssembler(target, upscaleBandHeight(target));
+    let prompt: RenderedPrompt | undefined;
+    let reframedTiles = 0;
+    let png: Blob;
+
+    onProgress?.(0, tiles.length);
+    try {
+        for (const [index, tile] of tiles.entries()) {
+            signal?.throwIfAborted();
+            // Round edges rather than sizes, so neighbouring tiles meet without gaps.
+            const placement = {
+                x: Math.round(tile.x * effectiveScale),
+                y: Math.round(tile.y * effectiveScale),
+                width: Math.round((tile.x + tile.width) * effectiveScale) - Math.round(tile.x * effectiveScale),
+                height: Math.round((tile.y + tile.height) * effectiveScale) - Math.round(tile.y * effectiveScale),
+            };
+            const tileFile = await cropImageFile(image, tile);
+            const tilePrompt = renderPrompt(upscaleTilePrompt, { width: placement.width, height: placement.height, detailIntensity });
+            const result = await applyFullImageEffect(tileFile, tilePrompt, signal, { output: { type: 'exact', size: placement } });
+            if (result.warning) reframedTiles++;
+            await assembler.add(result.imageUrl, placement);
+            prompt ??= tilePrompt;
+            onProgress?.(index + 1, tiles.length);
+        }
+        png = await assembler.finish();
+    } catch (err) {
+        assembler.abort(err);
+        throw err;
+    }
 
-    const fullPrompt = `Upscale this image to a resolution of ${targetWidth}x${targetHeight} pixels. The detail enhancement intensity should be '${detailIntensity}'. Generate new, realistic details that are consistent with the original image content.`;
-    return applyFullImageEffect(image, fullPrompt);
+    if (reframedTiles > 0) {
+        warnings.push(`${reframedTiles} of ${tiles.length} tiles came back reframed and may show visible seams.`);
+    }
+    return { imageUrl: createImageBlobUrl(png), prompt: prompt!, warning: warnings.join(' ') || undefined };
 };
 
 /**
@@ -307,47 +454,47 @@ export const generateUpscaledImage = async (
  */
 export const generateRetouchedFace = async (
     image: File,
-    settings: { skinSmoothing: number; eyeBrightening: number; selectedFaces: Face[] }
-): Promise<string> => {
-    const prompt = `Perform a professional facial retouch on the provided image. Apply the following adjustments ONLY to the faces specified by the bounding boxes:
-- Skin Smoothing: ${settings.skinSmoothing}% intensity (natural texture should be preserved).
-- Eye Brightening: ${settings.eyeBrightening}% intensity (subtle and realistic).
-
-The adjustments must be seamless and photorealistic. The rest of the image outside the bounding boxes must remain untouched.
-
-Bounding boxes for faces to edit: ${JSON.stringify(settings.selectedFaces.map(f => f.box))}`;
+    settings: { skinSmoothing: number; eyeBrightening: number; selectedFaces: Face[] },
+    signal?: AbortSignal
+): Promise<AiImageResult> => {
+    const prompt = renderPrompt(faceRetouchPrompt, {
+        skinSmoothing: settings.skinSmoothing,
+        eyeBrightening: settings.eyeBrightening,
+        boxes: JSON.stringify(settings.selectedFaces.map(f => f.box)),
+    });
 
-    return applyFullImageEffect(image, prompt);
+    return applyFullImageEffect(image, prompt, signal);
 };
 
 /**
  * Restores old or damaged photos.
  */
-export const generateRestoredImage = (image: File): Promise<string> => {
-    const prompt = `Restore this old or damaged photo. Repair any scratches, tears, or creases. Correct color fading and improve overall clarity and sharpness. The goal is to make the photo look as close to its original state as possible while maintaining its authenticity.`;
-    return applyFullImageEffect(image, prompt);
+export const generateRestoredImage = (image: File, signal?: AbortSignal): Promise<AiImageResult> => {
+    const prompt = renderPrompt(restorePrompt);
+    return applyFullImageEffect(image, prompt, signal);
 };
 
 /**
  * Removes the background from an image.
  */
-export const generateRemovedBackground = (image: File): Promise<string> => {
-    const prompt = `Remove the background from this image, leaving only the main subject. The output must have a transparent background. The edges of the subject should be clean and precise.`;
-    return applyFullImageEffect(image, prompt);
+export const generateRemovedBackground = (image: File, signal?: AbortSignal): Promise<AiImageResult> => {
+    const prompt = renderPrompt(removeBackgroundPrompt);
+    return applyFullImageEffect(image, prompt, signal, { transparent: true });
 };
 
 /**
  * Generates a background image from a text prompt.
  */
-export const generateBackgroundImage = async (prompt: string, width: number, height: number): Promise<string> => {
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: { parts: [{ text: `Generate a photorealistic background image with an aspect ratio of ${width}:${height}. The background should be: "${prompt}"` }] },
-        config: {
-            responseModalities: [Modality.IMAGE],
-        },
+export const generateBackgroundImage = async (prompt: PromptInput, width: number, height: number, signal?: AbortSignal, variant?: number): Promise<AiImageResult> => {
+    const fullPrompt = renderPrompt(generateBackgroundPrompt, { width, height, description: prompt });
+    const imageUrl = await getImageProvider().generate({
+        prompt: fullPrompt.text,
+        width,
+        height,
+        variant,
+        signal,
     });
-    return extractImageDataUrl(response);
+    return finishImageResult(imageUrl, fullPrompt, { width, height }, { fit: 'cover' }, signal);
 };
 
 /**
@@ -357,10 +504,11 @@ export const generateZoomedImage = async (
     croppedImage: File,
     targetWidth: number,
     targetHeight: number,
-    detailIntensity: string
-): Promise<string> => {
-    const prompt = `This is a cropped section of a larger image. Upscale it to ${targetWidth}x${targetHeight} pixels while using AI to fill in missing details and enhance resolution. The detail enhancement intensity should be '${detailIntensity}'. The result should be a plausible, high-resolution version of what this cropped area would look like if it were captured in high definition.`;
-    return applyFullImageEffect(croppedImage, prompt);
+    detailIntensity: string,
+    signal?: AbortSignal
+): Promise<AiImageResult> => {
+    const prompt = renderPrompt(zoomPrompt, { width: targetWidth, height: targetHeight, detailIntensity });
+    return applyFullImageEffect(croppedImage, prompt, signal, { output: { type: 'exact', size: { width: targetWidth, height: targetHeight } } });
 };
 
 /**
@@ -370,26 +518,16 @@ export const generateDoubleExposure = async (
     baseImage: File,
     overlayImage: File,
     blendMode: string,
-    opacity: number
-): Promise<string> => {
-    const baseImagePart = await fileToGenerativePart(baseImage);
-    const overlayImagePart = await fileToGenerativePart(overlayImage);
-
-    const prompt = `Create a surreal and artistic double exposure effect.
-- The first image is the base image (e.g., a portrait or landscape).
-- The second image is the overlay image (e.g., a texture or another scene).
-Blend the overlay image onto the base image using a '${blendMode}' blend mode. The overlay image should have an approximate opacity of ${Math.round(opacity * 100)}%.
-The final result must be a seamless, high-quality, and aesthetically pleasing image that merges the two inputs creatively.`;
-
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: { parts: [baseImagePart, overlayImagePart, { text: prompt }] },
-        config: {
-            responseModalities: [Modality.IMAGE],
-        },
-    });
+    opacity: number,
+    signal?: AbortSignal
+): Promise<AiImageResult> => {
+    const baseImagePart = await fileToGenerativePart(baseImage, signal);
+    const overlayImagePart = await fileToGenerativePart(overlayImage, signal);
+
+    const prompt = renderPrompt(doubleExposurePrompt, { blendMode, opacityPercent: Math.round(opacity * 100) });
 
-    return extractImageDataUrl(response);
+    const imageUrl = await getImageProvider().edit({ images: [baseImagePart, overlayImagePart], prompt: prompt.text, signal });
+    return finishImageResult(imageUrl, prompt, await getImageSize(baseImage), { backdrop: baseImage }, signal);
 };
 
 // Helper to crop a face from an image and return a File
@@ -482,8 +620,9 @@ export const generateFaceSwap = async (
     targetImage: File,
     sourceImage: File,
     targetFace: Face,
-    sourceFace: Face
-): Promise<string> => {
+    sourceFace: Face,
+    signal?: AbortSignal
+): Promise<AiImageResult> => {
     // 1. Crop the source face to use as a reference
     const croppedSourceFaceFile = await cropFace(sourceImage, sourceFace.box);
 
@@ -491,28 +630,22 @@ export const generateFaceSwap = async (
     const maskFile = await createMaskForFace(targetImage, targetFace.box);
 
     // 3. Convert all files to generative parts
-    const targetImagePart = await fileToGenerativePart(targetImage);
-    const croppedSourceFacePart = await fileToGenerativePart(croppedSourceFaceFile);
-    const maskPart = await fileToGenerativePart(maskFile);
-
-    // 4. Create a new, more direct prompt with a different input order.
-    const prompt = `Perform a photorealistic face swap.
-- Use the face from the **first image (this is the source face)**.
-- Place it onto the person in the **second image (this is the target image)**.
-- The exact area to replace on the target image is marked in white in the **third image (this is the mask)**.
+    const targetImagePart = await fileToGenerativePart(targetImage, signal);
+    const croppedSourceFacePart = await fileToGenerativePart(croppedSourceFaceFile, signal);
+    const maskPart = await fileToGenerativePart(maskFile, signal);
 
-The final result must be perfectly seamless. Match the lighting, angle, and skin tone of the target image. Do not change anything in the target image outside of the masked area.`;
+    // 4. Render the prompt, which describes the input order used below.
+    const prompt = renderPrompt(faceSwapPrompt);
 
     // 5. Make the API call with the parts in the NEW order described by the prompt.
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: { parts: [croppedSourceFacePart, targetImagePart, maskPart, { text: prompt }] },
-        config: {
-            responseModalities: [Modality.IMAGE],
-        },
+    const imageUrl = await getImageProvider().edit({
+        images: [croppedSourceFacePart, targetImagePart, maskPart],
+        prompt: prompt.text,
+        baseIndex: 1,
+        maskIndex: 2,
+        signal,
     });
-
-    return extractImageDataUrl(response);
+    return finishImageResult(imageUrl, prompt, await getImageSize(targetImage), { backdrop: targetImage }, signal);
 };
 
 /**
@@ -521,53 +654,32 @@ The final result must be perfectly seamless. Match the lighting, angle, and skin
 export const applyStyleByExample = async (
     originalImage: File,
     editedImage: File,
-    targetImage: File
-): Promise<string> => {
-    const originalImagePart = await fileToGenerativePart(originalImage);
-    const editedImagePart = await fileToGenerativePart(editedImage);
-    const targetImagePart = await fileToGenerativePart(targetImage);
-
-    const prompt = `You are given three images: an original image, an edited version of that original, and a new target image. Your task is to analyze the style difference between the original and the edited image, and then apply that same stylistic transformation to the new target image. The style includes changes in color grading, contrast, lighting, and filters. Do not replicate content changes, only stylistic ones.
-
-- The first image is the 'Original'.
-- The second image is the 'Edited Example'.
-- The third image is the 'Target' to which you will apply the style.
-
-Return the modified 'Target' image.`;
-
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: { parts: [originalImagePart, editedImagePart, targetImagePart, { text: prompt }] },
-        config: {
-            responseModalities: [Modality.IMAGE],
-        },
+    targetImage: File,
+    signal?: AbortSignal
+): Promise<AiImageResult> => {
+    const originalImagePart = await fileToGenerativePart(originalImage, signal);
+    const editedImagePart = await fileToGenerativePart(editedImage, signal);
+    const targetImagePart = await fileToGenerativePart(targetImage, signal);
+
+    const prompt = renderPrompt(styleByExamplePrompt);
+
+    const imageUrl = await getImageProvider().edit({
+        images: [originalImagePart, editedImagePart, targetImagePart],
+        prompt: prompt.text,
+        baseIndex: 2,
+        signal,
     });
-
-    return extractImageDataUrl(response);
+    return finishImageResult(imageUrl, prompt, await getImageSize(targetImage), { backdrop: targetImage }, signal);
 };
 
 /**
  * Applies an artistic style from a reference image to a target image.
  */
-export const generateStyleFromReference = async (targetImage: File, styleReferenceImage: File): Promise<string> => {
-    const targetImagePart = await fileToGenerativePart(targetImage);
-    const styleImagePart = await fileToGenerativePart(styleReferenceImage);
-    const prompt = `You are an expert style transfer AI. Your task is to apply the artistic style of the second image (the style reference) to the first image (the content image).
-
-**CRITICAL INSTRUCTIONS:**
-1.  **KEEP THE CONTENT:** The final image must contain ONLY the objects, people, and scene from the **first image**. Do NOT include ANY content from the second image.
-2.  **TRANSFER THE STYLE:** The final image must have the colors, textures, lighting, and overall mood of the **second image**.
-3.  **MATCH THE SIZE:** The final image's dimensions (width and height) MUST be identical to the **first image**.
-
-Final output: A new image that looks like the first image was painted or photographed in the style of the second image. Do not blend the content of the two images.`;
-
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: { parts: [targetImagePart, styleImagePart, { text: prompt }] },
-        config: {
-            responseModalities: [Modality.IMAGE],
-        },
-    });
+export const generateStyleFromReference = async (targetImage: File, styleReferenceImage: File, signal?: AbortSignal): Promise<AiImageResult> => {
+    const targetImagePart = await fileToGenerativePart(targetImage, signal);
+    const styleImagePart = await fileToGenerativePart(styleReferenceImage, signal);
+    const prompt = renderPrompt(styleReferencePrompt);
 
-    return extractImageDataUrl(response);
+    const imageUrl = await getImageProvider().edit({ images: [targetImagePart, styleImagePart], prompt: prompt.text, signal });
+    return finishImageResult(imageUrl, prompt, await getImageSize(targetImage), { backdrop: targetImage }, signal);
 };
\ No newline at end of file
@@ -0,0 +1,27 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Images too large to keep as data URLs, such as tiled upscales, are kept as Blobs behind object
+// URLs. The history holds those URLs like any other image URL; this registry maps them back to
+// their Blobs so they can be turned into Files and stored in IndexedDB.
+
+const blobsByUrl = new Map<string, Blob>();
+
+export const createImageBlobUrl = (blob: Blob): string => {
+    const url = URL.createObjectURL(blob);
+    blobsByUrl.set(url, blob);
+    return url;
+};
+
+// The Blob behind a URL from `createImageBlobUrl`, or undefined for any other URL.
+export const getImageBlob = (url: string): Blob | undefined => blobsByUrl.get(url);
+
+/**
+ * Revokes every registered URL, for when the history that refers to them is cleared.
+ */
+export const revokeImageBlobUrls = (): void => {
+    for (const url of blobsByUrl.keys()) URL.revokeObjectURL(url);
+    blobsByUrl.clear();
+};
@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Schema } from '@google/genai';
+
+// --- TYPE DEFINITIONS ---
+
+// An inline image as sent to a provider (base64 payload without the data URL prefix).
+export type ImagePart = {
+  inlineData: {
+    data: string;
+    mimeType: string;
+  };
+};
+
+// A request for structured JSON output about one or more images.
+export type JsonRequest = {
+  images: ImagePart[];
+  prompt: string;
+  schema: Schema;
+  signal?: AbortSignal;
+};
+
+// A request to produce a new image from one or more input images.
+export type EditRequest = {
+  images: ImagePart[];
+  prompt: string;
+  // Index into `images` of the picture being edited. The others are references or masks.
+  baseIndex?: number;
+  // Index into `images` of a black and white mask (white = edit area), if one was sent.
+  maskIndex?: number;
+  // Distinguishes parallel samples of the same request. Variant 0 (or none) is the ordinary request.
+  variant?: number;
+  signal?: AbortSignal;
+};
+
+// A request to produce a black and white segmentation mask.
+export type SegmentRequest = {
+  image: ImagePart;
+  prompt: string;
+  subject: 'sky' | 'subject';
+  signal?: AbortSignal;
+};
+
+// A request to produce an image from text alone.
+export type GenerateRequest = {
+  prompt: string;
+  width: number;
+  height: number;
+  // See EditRequest.variant.
+  variant?: number;
+  signal?: AbortSignal;
+};
+
+/**
+ * The operations every backend that powers the editor must implement.
+ * Image results are returned as data URLs, JSON results as raw JSON text.
+ * Implementations must reject with the signal's reason once a request's `signal` is aborted.
+ */
+export interface ImageProvider {
+  readonly id: string;
+  readonly models: { analysis: string; image: string };
+  analyze(request: JsonRequest): Promise<string>;
+  detect(request: JsonRequest): Promise<string>;
+  segment(request: SegmentRequest): Promise<string>;
+  edit(request: EditRequest): Promise<string>;
+  generate(request: GenerateRequest): Promise<string>;
+}
+
+// --- REGISTRY ---
+
+let activeProvider: ImageProvider | null = null;
+let providerFactory: (() => ImageProvider) | null = null;
+
+/**
+ * Registers the factory used to build the default provider on first use.
+ * Kept lazy so the Gemini client is never constructed when a different provider is selected.
+ */
+export const setDefaultProviderFactory = (factory: () => ImageProvider): void => {
+    providerFactory = factory;
+};
+
+export const setImageProvider = (provider: ImageProvider): void => {
+    activeProvider = provider;
+};
+
+export const getImageProvider = (): ImageProvider => {
+    if (!activeProvider) {
+        if (!providerFactory) {
+            throw new Error('No image provider has been configured.');
+        }
+        activeProvider = providerFactory();
+    }
+    return activeProvider;
+};
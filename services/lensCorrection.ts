@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { PixelBuffer } from './pixelEngine.ts';
+
+// Lens correction: radial distortion, lateral chromatic aberration and vignetting. All three are
+// radial about the image centre, in radii where 1 is the half-diagonal, so the same coefficients
+// suit any resolution from the same camera and lens (and a downscaled preview).
+
+export type LensCorrection = {
+    // Distortion coefficients: a corrected pixel at radius r is taken from the photo at radius
+    // r (1 + k1 r^2 + k2 r^4). Negative values correct barrel distortion, positive pincushion.
+    k1: number;
+    k2: number;
+    // -100 to 100: scale of the red channel against green (red/cyan fringes).
+    redCyan: number;
+    // -100 to 100: scale of the blue channel against green (blue/yellow fringes).
+    blueYellow: number;
+    // -100 to 100: light added to (or taken from) the corners, up to MAX_VIGNETTE_STOPS.
+    vignette: number;
+    // 0 to 100: how far out the vignette correction starts; higher keeps it to the corners.
+    vignetteMidpoint: number;
+    // Scale the result so it fills the frame, with no empty edges from the distortion correction.
+    autoScale: boolean;
+};
+
+export const NEUTRAL_LENS_CORRECTION: LensCorrection = {
+    k1: 0,
+    k2: 0,
+    redCyan: 0,
+    blueYellow: 0,
+    vignette: 0,
+    vignetteMidpoint: 50,
+    autoScale: true,
+};
+
+export const isNeutralLensCorrection = ({ k1, k2, redCyan, blueYellow, vignette }: LensCorrection): boolean =>
+    k1 === 0 && k2 === 0 && redCyan === 0 && blueYellow === 0 && vignette === 0;
+
+// Channel scale at ±100; about 7 pixels at the corners of a 24 megapixel photo.
+const MAX_CHANNEL_SCALE = 0.002;
+const MAX_VIGNETTE_STOPS = 1.5;
+// Points sampled along each edge when fitting the frame.
+const FIT_SAMPLES = 64;
+
+const distortionScale = (k1: number, k2: number, r2: number) => 1 + k1 * r2 + k2 * r2 * r2;
+
+// The zoom that makes the corrected edges just reach the photo's edges, in every channel.
+const fitZoom = (k1: number, k2: number, channelScale: number, halfWidth: number, halfHeight: number): number => {
+    const radius = Math.hypot(halfWidth, halfHeight);
+    let reach = 0;
+    for (let i = 0; i <= FIT_SAMPLES; i++) {
+        const t = (i / FIT_SAMPLES) * 2 - 1;
+        for (const [x, y] of [[t * halfWidth, halfHeight], [halfWidth, t * halfHeight]]) {
+            const scale = distortionScale(k1, k2, (x * x + y * y) / (radius * radius));
+            reach = Math.max(reach, Math.abs(x * scale) / halfWidth, Math.abs(y * scale) / halfHeight);
+        }
+    }
+    return reach > 0 ? 1 / (reach * channelScale) : 1;
+};
+
+// Bilinear sample of one channel; NaN outside the image.
+const sample = (source: Uint8ClampedArray, width: number, height: number, x: number, y: number, channel: number): number => {
+    if (x < -0.5 || y < -0.5 || x > width - 0.5 || y > height - 0.5) return NaN;
+    const x0 = Math.max(0, Math.min(width - 1, Math.floor(x)));
+    const y0 = Math.max(0, Math.min(height - 1, Math.floor(y)));
+    const x1 = Math.min(width - 1, x0 + 1);
+    const y1 = Math.min(height - 1, y0 + 1);
+    const fx = Math.max(0, Math.min(1, x - x0));
+    const fy = Math.max(0, Math.min(1, y - y0));
+    const top = source[(y0 * width + x0) * 4 + channel] * (1 - fx) + source[(y0 * width + x1) * 4 + channel] * fx;
+    const bottom = source[(y1 * width + x0) * 4 + channel] * (1 - fx) + source[(y1 * width + x1) * 4 + channel] * fx;
+    return top * (1 - fy) + bottom * fy;
+};
+
+/**
+ * Corrects the pixels in place. Pixels the correction pulls in from outside the photo are left
+ * transparent (only possible with auto-scale off).
+ */
+export const applyLensCorrection = (pixels: PixelBuffer, correction: LensCorrection): void => {
+    if (isNeutralLensCorrection(correction)) return;
+    const { data, width, height } = pixels;
+    const source = data.slice();
+    const { k1, k2 } = correction;
+    const cx = width / 2;
+    const cy = height / 2;
+    const radius = Math.hypot(cx, cy);
+    const channelScales = [
+        1 + Math.min(100, Math.max(-100, correction.redCyan)) / 100 * MAX_CHANNEL_SCALE,
+        1,
+        1 + Math.min(100, Math.max(-100, correction.blueYellow)) / 100 * MAX_CHANNEL_SCALE,
+    ];
+    const zoom = correction.autoScale ? fitZoom(k1, k2, Math.max(...channelScales), cx, cy) : 1;
+    const stops = Math.min(100, Math.max(-100, correction.vignette)) / 100 * MAX_VIGNETTE_STOPS;
+    // Falloff ~ r^power: a larger power leaves more of the frame untouched.
+    const power = 2 + 6 * Math.min(100, Math.max(0, correction.vignetteMidpoint)) / 100;
+
+    for (let y = 0; y < height; y++) {
+        const dy = y + 0.5 - cy;
+        for (let x = 0; x < width; x++) {
+            const dx = x + 0.5 - cx;
+            const r2 = (dx * dx + dy * dy) / (radius * radius);
+            const scale = distortionScale(k1, k2, r2) * zoom;
+            // Vignetting belongs to the lens, so it follows the radius in the original photo.
+            const sourceRadius = Math.sqrt(r2) * scale;
+            // The gain is meant in linear light; on gamma-encoded values it is roughly gain^(1/2.2).
+            const gain = stops === 0 ? 1 : Math.pow(2, stops * Math.pow(sourceRadius, power) / 2.2);
+            const i = (y * width + x) * 4;
+            let inside = true;
+            for (let c = 0; c < 3; c++) {
+                const s = scale * channelScales[c];
+                const value = sample(source, width, height, cx + dx * s - 0.5, cy + dy * s - 0.5, c);
+                if (Number.isNaN(value)) {
+                    inside = false;
+                    break;
+                }
+                data[i + c] = value * gain;
+            }
+            data[i + 3] = inside ? sample(source, width, height, cx + dx * scale - 0.5, cy + dy * scale - 0.5, 3) : 0;
+            if (!inside) data[i] = data[i + 1] = data[i + 2] = 0;
+        }
+    }
+};
@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { NEUTRAL_LENS_CORRECTION } from './lensCorrection.ts';
+import { parseLensProfile, serializeLensProfile } from './lensProfiles.ts';
+
+const profile = (fields: Record<string, unknown>): string =>
+    JSON.stringify({ format: 'utilpic-lens-profile', version: 1, ...fields });
+
+describe('parseLensProfile', () => {
+    it('reads the name and correction', () => {
+        const correction = { k1: -0.12, k2: 0.02, redCyan: 10, blueYellow: -5, vignette: 40, vignetteMidpoint: 50, autoScale: false };
+        expect(parseLensProfile(profile({ name: '  16-35mm at 16mm ', correction }), 'file')).toEqual({ name: '16-35mm at 16mm', correction });
+    });
+
+    it('fills missing fields with neutral values and falls back to the given name', () => {
+        const parsed = parseLensProfile(profile({ correction: { k1: 0.1 } }), 'from-file');
+        expect(parsed.name).toBe('from-file');
+        expect(parsed.correction).toEqual({ ...NEUTRAL_LENS_CORRECTION, k1: 0.1 });
+    });
+
+    it('round-trips through serializeLensProfile', () => {
+        const original = { name: 'Wide', correction: { ...NEUTRAL_LENS_CORRECTION, k2: -0.05, vignette: 20 } };
+        expect(parseLensProfile(serializeLensProfile(original), 'x')).toEqual(original);
+    });
+
+    it.each([
+        ['text that is not JSON', '{ nope', /Not a valid JSON file/],
+        ['a JSON value that is not an object', '42', /Not a lens profile\./],
+        ['another format', JSON.stringify({ format: 'something-else', version: 1, correction: {} }), /expected "format": "utilpic-lens-profile"/],
+        ['a newer version', profile({ version: 2, correction: {} }), /Unsupported lens profile version: 2/],
+        ['a missing correction', profile({ name: 'x' }), /no "correction" object/],
+        ['a non-numeric field', profile({ correction: { k1: '0.1' } }), /"k1" must be a number/],
+        ['a non-boolean auto-scale', profile({ correction: { autoScale: 'yes' } }), /"autoScale" must be true or false/],
+    ])('rejects %s', (_, text, message) => {
+        expect(() => parseLensProfile(text, 'x')).toThrow(message);
+    });
+});
@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { NEUTRAL_LENS_CORRECTION, type LensCorrection } from './lensCorrection.ts';
+
+// Saved lens corrections. A profile is a small JSON document, so it can be shared as a file:
+//
+//   {
+//     "format": "utilpic-lens-profile",
+//     "version": 1,
+//     "name": "16-35mm f/4 at 16mm",
+//     "correction": { "k1": -0.12, "k2": 0.02, "redCyan": 10, "blueYellow": -5,
+//                     "vignette": 40, "vignetteMidpoint": 50, "autoScale": true }
+//   }
+//
+// Missing correction fields take their neutral values, so older or hand-written files still load.
+
+const PROFILES_KEY = 'utilpic-lens-profiles';
+const PROFILE_FORMAT = 'utilpic-lens-profile';
+const PROFILE_VERSION = 1;
+
+export type LensProfile = {
+    name: string;
+    correction: LensCorrection;
+};
+
+const NUMBER_FIELDS = ['k1', 'k2', 'redCyan', 'blueYellow', 'vignette', 'vignetteMidpoint'] as const;
+
+/**
+ * Reads a lens profile from its JSON text. Throws with a readable message if it isn't one.
+ */
+export const parseLensProfile = (text: string, fallbackName: string): LensProfile => {
+    let json: unknown;
+    try {
+        json = JSON.parse(text);
+    } catch {
+        throw new Error('Not a valid JSON file.');
+    }
+    if (!json || typeof json !== 'object') throw new Error('Not a lens profile.');
+    const { format, version, name, correction } = json as Record<string, unknown>;
+    if (format !== PROFILE_FORMAT) throw new Error(`Not a lens profile (expected "format": "${PROFILE_FORMAT}").`);
+    if (typeof version !== 'number' || version > PROFILE_VERSION) throw new Error(`Unsupported lens profile version: ${String(version)}.`);
+    if (!correction || typeof correction !== 'object') throw new Error('The profile has no "correction" object.');
+
+    const fields = correction as Record<string, unknown>;
+    const parsed: LensCorrection = { ...NEUTRAL_LENS_CORRECTION };
+    for (const key of NUMBER_FIELDS) {
+        const value = fields[key];
+        if (value === undefined) continue;
+        if (typeof value !== 'number' || !Number.isFinite(value)) throw new Error(`"${key}" must be a number.`);
+        parsed[key] = value;
+    }
+    if (fields.autoScale !== undefined) {
+        if (typeof fields.autoScale !== 'boolean') throw new Error('"autoScale" must be true or false.');
+        parsed.autoScale = fields.autoScale;
+    }
+    return { name: typeof name === 'string' && name.trim() ? name.trim() : fallbackName, correction: parsed };
+};
+
+export const serializeLensProfile = ({ name, correction }: LensProfile): string =>
+    JSON.stringify({ format: PROFILE_FORMAT, version: PROFILE_VERSION, name, correction }, null, 2);
+
+export const getLensProfiles = (): LensProfile[] => {
+    try {
+        const saved = localStorage.getItem(PROFILES_KEY);
+        const profiles = saved ? JSON.parse(saved) : [];
+        return Array.isArray(profiles) ? profiles : [];
+    } catch {
+        return [];
+    }
+};
+
+const saveProfiles = (profiles: LensProfile[]): void => {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+/**
+ * Saves the correction under a lens name, replacing any profile with the same name. Returns the updated list.
+ */
+export const saveLensProfile = (name: string, correction: LensCorrection): LensProfile[] => {
+    const profiles = [...getLensProfiles().filter(p => p.name !== name), { name, correction }];
+    saveProfiles(profiles);
+    return profiles;
+};
+
+export const deleteLensProfile = (name: string): LensProfile[] => {
+    const profiles = getLensProfiles().filter(p => p.name !== name);
+    saveProfiles(profiles);
+    return profiles;
+};
+
+/**
+ * Parses profile files and saves them. Files that fail to parse are reported by name and
+ * skipped; the rest are still imported.
+ */
+export const importLensProfileFiles = async (files: File[]): Promise<{ profiles: LensProfile[]; errors: string[] }> => {
+    const errors: string[] = [];
+    let profiles = getLensProfiles();
+    for (const file of files) {
+        try {
+            const profile = parseLensProfile(await file.text(), file.name.replace(/\.json$/i, ''));
+            profiles = saveLensProfile(profile.name, profile.correction);
+        } catch (err) {
+            errors.push(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+        }
+    }
+    return { profiles, errors };
+};
@@ -0,0 +1,176 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { gaussianBlurChannel, guidedFilter, type PixelBuffer } from './pixelEngine.ts';
+
+// Clarity and dehaze: tone changes that depend on each pixel's neighbourhood. Their radii are
+// fractions of the image's long side, so a downscaled preview looks like the full-size result.
+
+export type LocalContrastParams = {
+    // -100 (soften) to 100: local contrast in the midtones.
+    clarity: number;
+    // -100 (add haze) to 100 (remove it).
+    dehaze: number;
+};
+
+export const NEUTRAL_LOCAL_CONTRAST: LocalContrastParams = { clarity: 0, dehaze: 0 };
+
+export const isNeutralLocalContrast = ({ clarity, dehaze }: LocalContrastParams): boolean =>
+    clarity === 0 && dehaze === 0;
+
+// Clarity works on detail about this size (sigma, as a fraction of the long side).
+const CLARITY_SIGMA = 0.012;
+// Dark channel patch radius, and the smoothing radius of the transmission map.
+const DEHAZE_PATCH = 0.008;
+const DEHAZE_GUIDE_SIGMA = 0.02;
+// Share of the haze removed at 100; He et al. keep a little for depth.
+const DEHAZE_MAX_STRENGTH = 0.95;
+// Transmission floor, so dense haze isn't amplified into noise.
+const MIN_TRANSMISSION = 0.1;
+// Share of the brightest dark-channel pixels averaged for the haze color.
+const AIRLIGHT_SHARE = 0.001;
+// Share of the haze color blended in uniformly at -100.
+const MAX_ADDED_HAZE = 0.6;
+// Guided filter regularisation: larger values smooth across weaker edges.
+const GUIDED_EPSILON = 1e-3;
+
+const toLuma = ({ data, width, height }: PixelBuffer): Float32Array => {
+    const luma = new Float32Array(width * height);
+    for (let p = 0, i = 0; p < luma.length; p++, i += 4) {
+        luma[p] = (0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2]) / 255;
+    }
+    return luma;
+};
+
+// --- Clarity -----------------------------------------------------------------------------------
+
+/**
+ * Adds (or, for negative amounts, removes) large-radius detail, weighted towards the midtones
+ * so highlights and shadows don't clip or halo.
+ */
+export const applyClarity = (pixels: PixelBuffer, clarity: number): void => {
+    const strength = Math.min(100, Math.max(-100, clarity)) / 100;
+    if (strength === 0) return;
+    const { data, width, height } = pixels;
+    const luma = toLuma(pixels);
+    const blurred = luma.slice();
+    gaussianBlurChannel(blurred, width, height, Math.max(1, CLARITY_SIGMA * Math.max(width, height)));
+
+    for (let p = 0, i = 0; p < luma.length; p++, i += 4) {
+        const l = luma[p];
+        const delta = (l - blurred[p]) * strength * 4 * l * (1 - l) * 255;
+        data[i] = data[i] + delta;
+        data[i + 1] = data[i + 1] + delta;
+        data[i + 2] = data[i + 2] + delta;
+    }
+};
+
+// --- Dehaze ------------------------------------------------------------------------------------
+
+// Running minimum over a window of 2 * radius + 1 along every row or column, in place, with
+// the van Herk/Gil-Werman algorithm: three comparisons per value whatever the radius.
+const minFilterPass = (values: Float32Array, width: number, height: number, radius: number, vertical: boolean) => {
+    const length = vertical ? height : width;
+    const lines = vertical ? width : height;
+    const stride = vertical ? width : 1;
+    const lineStep = vertical ? 1 : width;
+    const size = 2 * radius + 1;
+    const padded = new Float32Array(length + 2 * radius);
+    const prefix = new Float32Array(padded.length);
+    const suffix = new Float32Array(padded.length);
+    for (let l = 0; l < lines; l++) {
+        const base = l * lineStep;
+        padded.fill(Infinity);
+        for (let i = 0; i < length; i++) padded[i + radius] = values[base + i * stride];
+        for (let j = 0; j < padded.length; j++) {
+            prefix[j] = j % size === 0 ? padded[j] : Math.min(prefix[j - 1], padded[j]);
+        }
+        for (let j = padded.length - 1; j >= 0; j--) {
+            suffix[j] = j % size === size - 1 || j === padded.length - 1 ? padded[j] : Math.min(suffix[j + 1], padded[j]);
+        }
+        for (let i = 0; i < length; i++) {
+            values[base + i * stride] = Math.min(suffix[i], prefix[i + 2 * radius]);
+        }
+    }
+};
+
+const minFilter = (values: Float32Array, width: number, height: number, radius: number) => {
+    minFilterPass(values, width, height, radius, false);
+    minFilterPass(values, width, height, radius, true);
+};
+
+// The haze color: the average of the pixels whose dark channel is in the top AIRLIGHT_SHARE.
+const estimateAirlight = ({ data }: PixelBuffer, dark: Float32Array): [number, number, number] => {
+    const bins = new Uint32Array(1024);
+    for (let p = 0; p < dark.length; p++) bins[Math.min(1023, Math.floor(dark[p] * 1024))]++;
+    const wanted = Math.max(1, Math.round(dark.length * AIRLIGHT_SHARE));
+    let threshold = 1023;
+    for (let count = 0; threshold > 0; threshold--) {
+        count += bins[threshold];
+        if (count >= wanted) break;
+    }
+    const sum = [0, 0, 0];
+    let count = 0;
+    for (let p = 0, i = 0; p < dark.length; p++, i += 4) {
+        if (Math.floor(dark[p] * 1024) < threshold) continue;
+        sum[0] += data[i];
+        sum[1] += data[i + 1];
+        sum[2] += data[i + 2];
+        count++;
+    }
+    return sum.map(v => Math.max(1, v / count)) as [number, number, number];
+};
+
+/**
+ * Removes haze with the dark channel prior: in haze-free images most patches have a very dark
+ * channel somewhere, so a patch's dark channel measures how much haze lies over it. Negative
+ * amounts blend in the haze color instead.
+ */
+export const applyDehaze = (pixels: PixelBuffer, dehaze: number): void => {
+    const strength = Math.min(100, Math.max(-100, dehaze)) / 100;
+    if (strength === 0) return;
+    const { data, width, height } = pixels;
+    const pixelCount = width * height;
+    const longSide = Math.max(width, height);
+    const patch = Math.max(1, Math.round(DEHAZE_PATCH * longSide));
+
+    const dark = new Float32Array(pixelCount);
+    for (let p = 0, i = 0; p < pixelCount; p++, i += 4) {
+        dark[p] = Math.min(data[i], data[i + 1], data[i + 2]) / 255;
+    }
+    minFilter(dark, width, height, patch);
+    const airlight = estimateAirlight(pixels, dark);
+
+    if (strength < 0) {
+        const t = 1 + strength * MAX_ADDED_HAZE;
+        for (let i = 0; i < data.length; i += 4) {
+            for (let c = 0; c < 3; c++) data[i + c] = data[i + c] * t + airlight[c] * (1 - t);
+        }
+        return;
+    }
+
+    // Transmission from the dark channel of the image normalised by the haze color.
+    const transmission = new Float32Array(pixelCount);
+    for (let p = 0, i = 0; p < pixelCount; p++, i += 4) {
+        transmission[p] = Math.min(data[i] / airlight[0], data[i + 1] / airlight[1], data[i + 2] / airlight[2]);
+    }
+    minFilter(transmission, width, height, patch);
+    for (let p = 0; p < pixelCount; p++) transmission[p] = 1 - strength * DEHAZE_MAX_STRENGTH * transmission[p];
+    // The patch minimum is blocky; smoothing it along the image's own edges avoids halos.
+    const refined = guidedFilter(toLuma(pixels), transmission, width, height, Math.max(1, DEHAZE_GUIDE_SIGMA * longSide), GUIDED_EPSILON);
+
+    for (let p = 0, i = 0; p < pixelCount; p++, i += 4) {
+        const t = Math.max(MIN_TRANSMISSION, Math.min(1, refined[p]));
+        for (let c = 0; c < 3; c++) data[i + c] = (data[i + c] - airlight[c]) / t + airlight[c];
+    }
+};
+
+/**
+ * Dehaze, then clarity, in place.
+ */
+export const applyLocalContrast = (pixels: PixelBuffer, { clarity, dehaze }: LocalContrastParams): void => {
+    applyDehaze(pixels, dehaze);
+    applyClarity(pixels, clarity);
+};
@@ -0,0 +1,152 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ImageProvider, ImagePart, JsonRequest, EditRequest, SegmentRequest, GenerateRequest } from './imageProvider.ts';
+
+// A deterministic, offline stand-in for the Gemini provider.
+// Image results are procedural transforms of the input, JSON results are canned,
+// so every panel can be developed, demoed and regression-tested without an API key.
+
+// Generated backgrounds are capped so a huge canvas never stalls the UI.
+const MAX_GENERATED_SIZE = 2048;
+
+// FNV-1a hash, used to derive a stable seed from a prompt.
+const hashString = (text: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const loadPart = (part: ImagePart): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error('Local provider could not decode the input image.'));
+        image.src = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+    });
+};
+
+const createCanvas = (width: number, height: number): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Could not get canvas context for the local provider.');
+    return { canvas, ctx };
+};
+
+const readPixels = (image: HTMLImageElement, width: number, height: number): ImageData => {
+    const { ctx } = createCanvas(width, height);
+    ctx.drawImage(image, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height);
+};
+
+const averageLuminance = (data: Uint8ClampedArray): number => {
+    let total = 0;
+    for (let i = 0; i < data.length; i += 4) {
+        total += 0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2];
+    }
+    return total / (data.length / 4);
+};
+
+const analyze = async ({ images, signal }: JsonRequest): Promise<string> => {
+    const image = await loadPart(images[0]);
+    signal?.throwIfAborted();
+    const pixels = readPixels(image, 64, 64);
+    const luminance = averageLuminance(pixels.data);
+    return JSON.stringify({
+        image_type: image.naturalWidth >= image.naturalHeight ? 'landscape' : 'portrait',
+        characteristics: luminance < 80 ? ['low_light'] : ['muted_colors'],
+        mood: luminance < 80 ? 'dark and moody' : 'calm and neutral',
+    });
+};
+
+const detect = async ({ signal }: JsonRequest): Promise<string> => {
+    signal?.throwIfAborted();
+    return JSON.stringify([{ box: { x: 0.35, y: 0.2, width: 0.3, height: 0.4 } }]);
+};
+
+const segment = async ({ image, subject, signal }: SegmentRequest): Promise<string> => {
+    const source = await loadPart(image);
+    signal?.throwIfAborted();
+    const { canvas, ctx } = createCanvas(source.naturalWidth, source.naturalHeight);
+    ctx.fillStyle = 'black';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = 'white';
+    if (subject === 'sky') {
+        ctx.fillRect(0, 0, canvas.width, Math.round(canvas.height * 0.4));
+    } else {
+        ctx.beginPath();
+        ctx.ellipse(canvas.width / 2, canvas.height / 2, canvas.width * 0.25, canvas.height * 0.35, 0, 0, Math.PI * 2);
+        ctx.fill();
+    }
+    return canvas.toDataURL('image/png');
+};
+
+// Each variant gets its own seed so parallel samples differ, while staying deterministic.
+const seedFor = (prompt: string, variant?: number): number =>
+    hashString(variant ? `${prompt}#${variant}` : prompt);
+
+const edit = async ({ images, prompt, baseIndex = 0, maskIndex, variant, signal }: EditRequest): Promise<string> => {
+    const base = await loadPart(images[baseIndex]);
+    signal?.throwIfAborted();
+    const width = base.naturalWidth;
+    const height = base.naturalHeight;
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.drawImage(base, 0, 0);
+    const imageData = ctx.getImageData(0, 0, width, height);
+    const data = imageData.data;
+
+    let mask: Uint8ClampedArray | null = null;
+    if (maskIndex !== undefined && images[maskIndex]) {
+        mask = readPixels(await loadPart(images[maskIndex]), width, height).data;
+        signal?.throwIfAborted();
+    }
+
+    // Derive a channel gain and a contrast tweak from the prompt so identical requests give identical output.
+    const seed = seedFor(prompt, variant);
+    const gains = [0, 1, 2].map(shift => 0.85 + (((seed >> (shift * 8)) & 0xff) / 255) * 0.3);
+    const contrast = 0.9 + ((seed >>> 24) / 255) * 0.2;
+
+    for (let i = 0; i < data.length; i += 4) {
+        const weight = mask ? mask[i] / 255 : 1;
+        if (weight === 0) continue;
+        for (let c = 0; c < 3; c++) {
+            const value = ((data[i + c] * gains[c]) - 128) * contrast + 128;
+            data[i + c] = data[i + c] + (value - data[i + c]) * weight;
+        }
+    }
+    ctx.putImageData(imageData, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+const generate = async ({ prompt, width, height, variant, signal }: GenerateRequest): Promise<string> => {
+    signal?.throwIfAborted();
+    const scale = Math.min(1, MAX_GENERATED_SIZE / Math.max(width, height));
+    const { canvas, ctx } = createCanvas(Math.max(1, Math.round(width * scale)), Math.max(1, Math.round(height * scale)));
+    const seed = seedFor(prompt, variant);
+    const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
+    gradient.addColorStop(0, `hsl(${seed % 360}, 55%, 60%)`);
+    gradient.addColorStop(1, `hsl(${(seed >>> 9) % 360}, 45%, 25%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Creates the offline provider. Selected when no API key is configured or IMAGE_PROVIDER=local.
+ */
+export const createLocalProvider = (): ImageProvider => ({
+    id: 'local',
+    models: { analysis: 'local-analysis', image: 'local-image' },
+    analyze,
+    detect,
+    segment,
+    edit,
+    generate,
+});
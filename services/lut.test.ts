@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { applyLut, parseCubeLut, serializeCubeLut, type Lut3D, type LutInterpolation } from './lut.ts';
+import type { PixelBuffer } from './pixelEngine.ts';
+
+// A size-2 table with every corner of the cube mapped through `f`, in .cube order.
+const cubeText = (f: (r: number, g: number, b: number) => [number, number, number], header = ''): string => {
+    const lines = [header, 'LUT_3D_SIZE 2'];
+    for (let b = 0; b < 2; b++) {
+        for (let g = 0; g < 2; g++) {
+            for (let r = 0; r < 2; r++) lines.push(f(r, g, b).join(' '));
+        }
+    }
+    return lines.join('\n');
+};
+
+const identity = (r: number, g: number, b: number): [number, number, number] => [r, g, b];
+
+const pixels = (...colors: [number, number, number, number][]): PixelBuffer => ({
+    data: new Uint8ClampedArray(colors.flat()),
+    width: colors.length,
+    height: 1,
+});
+
+describe('parseCubeLut', () => {
+    it('reads the title, size, domain and table', () => {
+        const lut = parseCubeLut(cubeText(identity, '# comment\nTITLE "Warm look"\nDOMAIN_MIN 0 0 0\nDOMAIN_MAX 1 1 1'), 'fallback');
+        expect(lut.title).toBe('Warm look');
+        expect(lut.size).toBe(2);
+        expect(lut.domainMin).toEqual([0, 0, 0]);
+        expect(lut.domainMax).toEqual([1, 1, 1]);
+        // Red changes fastest, so the second entry is pure red.
+        expect(Array.from(lut.data.slice(3, 6))).toEqual([1, 0, 0]);
+    });
+
+    it('falls back to the given title and accepts CRLF line endings', () => {
+        const lut = parseCubeLut(cubeText(identity).replace(/\n/g, '\r\n'), 'my-file');
+        expect(lut.title).toBe('my-file');
+        expect(lut.data).toHaveLength(24);
+    });
+
+    it('round-trips through serializeCubeLut', () => {
+        const lut = parseCubeLut(cubeText((r, g, b) => [r * 0.5, g, 1 - b], 'TITLE "Round trip"'), 'x');
+        const again = parseCubeLut(serializeCubeLut(lut), 'y');
+        expect(again.title).toBe('Round trip');
+        expect(Array.from(again.data)).toEqual(Array.from(lut.data));
+    });
+
+    it.each([
+        ['no size', 'TITLE "Empty"', /no LUT_3D_SIZE/],
+        ['data before the size', '0 0 0\nLUT_3D_SIZE 2', /Line 1: table data before LUT_3D_SIZE/],
+        ['an unsupported size', 'LUT_3D_SIZE 1', /unsupported LUT_3D_SIZE "1"/],
+        ['a 1D LUT', 'LUT_1D_SIZE 16', /1D LUTs are not supported/],
+        ['too few entries', 'LUT_3D_SIZE 2\n0 0 0', /Expected 8 entries for LUT_3D_SIZE 2, found 1/],
+        ['a malformed entry', 'LUT_3D_SIZE 2\n0 0', /Line 2: expected three numbers/],
+        ['an inverted domain', cubeText(identity, 'DOMAIN_MIN 1 0 0\nDOMAIN_MAX 0 1 1'), /DOMAIN_MIN must be below DOMAIN_MAX/],
+    ])('rejects %s', (_, text, message) => {
+        expect(() => parseCubeLut(text, 'x')).toThrow(message);
+    });
+
+    it('rejects more entries than the size allows', () => {
+        expect(() => parseCubeLut(cubeText(identity) + '\n0 0 0', 'x')).toThrow(/Line 11: more entries than LUT_3D_SIZE 2 allows/);
+    });
+});
+
+describe('applyLut', () => {
+    const interpolations: LutInterpolation[] = ['trilinear', 'tetrahedral'];
+
+    it.each(interpolations)('leaves colors unchanged with an identity table (%s)', interpolation => {
+        const buffer = pixels([0, 0, 0, 255], [255, 128, 7, 200], [40, 200, 90, 0]);
+        const before = Array.from(buffer.data);
+        applyLut(buffer, parseCubeLut(cubeText(identity), 'id'), { interpolation, intensity: 1 });
+        expect(Array.from(buffer.data)).toEqual(before);
+    });
+
+    it.each(interpolations)('maps through the table and keeps alpha (%s)', interpolation => {
+        const invert = parseCubeLut(cubeText((r, g, b) => [1 - r, 1 - g, 1 - b]), 'invert');
+        const buffer = pixels([0, 255, 51, 128]);
+        applyLut(buffer, invert, { interpolation, intensity: 1 });
+        expect(Array.from(buffer.data)).toEqual([255, 0, 204, 128]);
+    });
+
+    it('blends toward the original by intensity', () => {
+        const black = parseCubeLut(cubeText(() => [0, 0, 0]), 'black');
+        const buffer = pixels([200, 100, 50, 255]);
+        applyLut(buffer, black, { interpolation: 'tetrahedral', intensity: 0.5 });
+        expect(Array.from(buffer.data)).toEqual([100, 50, 25, 255]);
+    });
+
+    it('scales input by the domain and clamps outside it', () => {
+        // With DOMAIN_MAX 0.5, a half-bright input already reaches the top of the table.
+        const lut: Lut3D = { ...parseCubeLut(cubeText(identity), 'half'), domainMax: [0.5, 0.5, 0.5] };
+        const buffer = pixels([64, 128, 255, 255]);
+        applyLut(buffer, lut, { interpolation: 'trilinear', intensity: 1 });
+        expect(Array.from(buffer.data)).toEqual([128, 255, 255, 255]);
+    });
+});
@@ -0,0 +1,305 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { PixelBuffer } from './pixelEngine.ts';
+
+// 3D lookup tables in the Adobe/Resolve .cube format. Parsing and application are pure so they
+// run in the pixel engine worker.
+
+export type Lut3D = {
+    title: string;
+    // Points per axis, e.g. 17, 33 or 65.
+    size: number;
+    domainMin: [number, number, number];
+    domainMax: [number, number, number];
+    // size^3 RGB triples with red changing fastest, then green, then blue (the .cube order).
+    data: Float32Array;
+};
+
+export type LutInterpolation = 'trilinear' | 'tetrahedral';
+
+export type LutOptions = {
+    interpolation: LutInterpolation;
+    // Blend between the original (0) and the full LUT (1).
+    intensity: number;
+};
+
+export const DEFAULT_LUT_OPTIONS: LutOptions = { interpolation: 'tetrahedral', intensity: 1 };
+
+const MIN_LUT_SIZE = 2;
+const MAX_LUT_SIZE = 256;
+
+const parseTriple = (parts: string[], lineNumber: number): [number, number, number] => {
+    const values = parts.map(Number);
+    if (values.length !== 3 || values.some(v => !Number.isFinite(v))) {
+        throw new Error(`Line ${lineNumber}: expected three numbers.`);
+    }
+    return values as [number, number, number];
+};
+
+/**
+ * Parses the text of a .cube file. Only 3D LUTs are supported.
+ */
+export const parseCubeLut = (text: string, fallbackTitle: string): Lut3D => {
+    let title = fallbackTitle;
+    let size = 0;
+    let domainMin: [number, number, number] = [0, 0, 0];
+    let domainMax: [number, number, number] = [1, 1, 1];
+    let data: Float32Array | null = null;
+    let count = 0;
+
+    const lines = text.split(/\r?\n/);
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i].trim();
+        if (!line || line.startsWith('#')) continue;
+        const lineNumber = i + 1;
+
+        if (/^[\d.+-]/.test(line)) {
+            if (!data) throw new Error(`Line ${lineNumber}: table data before LUT_3D_SIZE.`);
+            if (count >= size * size * size) throw new Error(`Line ${lineNumber}: more entries than LUT_3D_SIZE ${size} allows.`);
+            data.set(parseTriple(line.split(/\s+/), lineNumber), count * 3);
+            count++;
+            continue;
+        }
+
+        const [keyword, ...rest] = line.split(/\s+/);
+        switch (keyword) {
+            case 'TITLE':
+                title = line.slice('TITLE'.length).trim().replace(/^"|"$/g, '') || fallbackTitle;
+                break;
+            case 'LUT_3D_SIZE':
+                size = Number(rest[0]);
+                if (!Number.isInteger(size) || size < MIN_LUT_SIZE || size > MAX_LUT_SIZE) {
+                    throw new Error(`Line ${lineNumber}: unsupported LUT_3D_SIZE "${rest[0]}".`);
+                }
+                data = new Float32Array(size * size * size * 3);
+                break;
+            case 'DOMAIN_MIN':
+                domainMin = parseTriple(rest, lineNumber);
+                break;
+            case 'DOMAIN_MAX':
+                domainMax = parseTriple(rest, lineNumber);
+                break;
+            case 'LUT_1D_SIZE':
+                throw new Error('1D LUTs are not supported; please export a 3D LUT.');
+            default:
+                // Unknown keywords (e.g. LUT_3D_INPUT_RANGE from some tools) are ignored.
+                break;
+        }
+    }
+
+    if (!data) throw new Error('The file has no LUT_3D_SIZE, so it is not a 3D .cube LUT.');
+    if (count !== size * size * size) {
+        throw new Error(`Expected ${size * size * size} entries for LUT_3D_SIZE ${size}, found ${count}.`);
+    }
+    if (domainMin.some((min, c) => min >= domainMax[c])) throw new Error('DOMAIN_MIN must be below DOMAIN_MAX.');
+    return { title, size, domainMin, domainMax, data };
+};
+
+/**
+ * Writes a LUT as .cube text.
+ */
+export const serializeCubeLut = (lut: Lut3D): string => {
+    const lines = [
+        `TITLE "${lut.title.replace(/"/g, "'")}"`,
+        `LUT_3D_SIZE ${lut.size}`,
+        `DOMAIN_MIN ${lut.domainMin.join(' ')}`,
+        `DOMAIN_MAX ${lut.domainMax.join(' ')}`,
+    ];
+    for (let i = 0; i < lut.data.length; i += 3) {
+        lines.push(`${lut.data[i].toFixed(6)} ${lut.data[i + 1].toFixed(6)} ${lut.data[i + 2].toFixed(6)}`);
+    }
+    return lines.join('\n') + '\n';
+};
+
+/**
+ * Applies a 3D LUT to the pixels in place. Alpha is left alone.
+ */
+export const applyLut = (pixels: PixelBuffer, lut: Lut3D, { interpolation, intensity }: LutOptions): void => {
+    const { data } = pixels;
+    const { size, domainMin, domainMax, data: table } = lut;
+    const last = size - 1;
+    const scale = [0, 1, 2].map(c => last / (255 * (domainMax[c] - domainMin[c])));
+    const offset = [0, 1, 2].map(c => -domainMin[c] / (domainMax[c] - domainMin[c]) * last);
+    const strideG = size * 3;
+    const strideB = size * size * 3;
+    const mix = Math.min(1, Math.max(0, intensity));
+    const out = [0, 0, 0];
+
+    for (let i = 0; i < data.length; i += 4) {
+        // Position in the lattice, clamped to its bounds.
+        const fr = Math.min(last, Math.max(0, data[i] * scale[0] + offset[0]));
+        const fg = Math.min(last, Math.max(0, data[i + 1] * scale[1] + offset[1]));
+        const fb = Math.min(last, Math.max(0, data[i + 2] * scale[2] + offset[2]));
+        const r0 = Math.min(last - 1, Math.floor(fr));
+        const g0 = Math.min(last - 1, Math.floor(fg));
+        const b0 = Math.min(last - 1, Math.floor(fb));
+        const dr = fr - r0;
+        const dg = fg - g0;
+        const db = fb - b0;
+        const base = b0 * strideB + g0 * strideG + r0 * 3;
+
+        // Lattice corners as offsets from `base`.
+        const c000 = base;
+        const c100 = base + 3;
+        const c010 = base + strideG;
+        const c110 = base + strideG + 3;
+        const c001 = base + strideB;
+        const c101 = base + strideB + 3;
+        const c011 = base + strideB + strideG;
+        const c111 = base + strideB + strideG + 3;
+
+        for (let c = 0; c < 3; c++) {
+            if (interpolation === 'trilinear') {
+                const x00 = table[c000 + c] + (table[c100 + c] - table[c000 + c]) * dr;
+                const x10 = table[c010 + c] + (table[c110 + c] - table[c010 + c]) * dr;
+                const x01 = table[c001 + c] + (table[c101 + c] - table[c001 + c]) * dr;
+                const x11 = table[c011 + c] + (table[c111 + c] - table[c011 + c]) * dr;
+                const y0 = x00 + (x10 - x00) * dg;
+                const y1 = x01 + (x11 - x01) * dg;
+                out[c] = y0 + (y1 - y0) * db;
+            } else {
+                // Split the cube into six tetrahedra along its main diagonal and interpolate in the one containing the point.
+                const p000 = table[c000 + c];
+                const p111 = table[c111 + c];
+                if (dr >= dg && dg >= db) {
+                    out[c] = p000 + dr * (table[c100 + c] - p000) + dg * (table[c110 + c] - table[c100 + c]) + db * (p111 - table[c110 + c]);
+                } else if (dr >= db && db >= dg) {
+                    out[c] = p000 + dr * (table[c100 + c] - p000) + db * (table[c101 + c] - table[c100 + c]) + dg * (p111 - table[c101 + c]);
+                } else if (db >= dr && dr >= dg) {
+                    out[c] = p000 + db * (table[c001 + c] - p000) + dr * (table[c101 + c] - table[c001 + c]) + dg * (p111 - table[c101 + c]);
+                } else if (dg >= dr && dr >= db) {
+                    out[c] = p000 + dg * (table[c010 + c] - p000) + dr * (table[c110 + c] - table[c010 + c]) + db * (p111 - table[c110 + c]);
+                } else if (dg >= db && db >= dr) {
+                    out[c] = p000 + dg * (table[c010 + c] - p000) + db * (table[c011 + c] - table[c010 + c]) + dr * (p111 - table[c011 + c]);
+                } else {
+                    out[c] = p000 + db * (table[c001 + c] - p000) + dg * (table[c011 + c] - table[c001 + c]) + dr * (p111 - table[c011 + c]);
+                }
+            }
+        }
+
+        data[i] = data[i] + (out[0] * 255 - data[i]) * mix;
+        data[i + 1] = data[i + 1] + (out[1] * 255 - data[i + 1]) * mix;
+        data[i + 2] = data[i + 2] + (out[2] * 255 - data[i + 2]) * mix;
+    }
+};
+
+// Lattice size for LUTs fitted from a before/after pair, and how strongly empty or sparse
+// nodes are pulled toward their neighbours (in pixels' worth of weight).
+export const FITTED_LUT_SIZE = 33;
+const FIT_SMOOTHING = 1;
+const FIT_ITERATIONS = 64;
+
+/**
+ * Fits a 3D LUT that maps the colors of `before` to those of `after`, pixel for pixel. The two
+ * buffers must be the same size. Colors that never occur in `before` are filled in smoothly from
+ * nearby ones, so the LUT stays usable on other images. Edits that move or repaint content rather
+ * than recolor it can't be captured exactly; the fit is the average color change.
+ */
+export const fitLut = (before: PixelBuffer, after: PixelBuffer, title: string, size = FITTED_LUT_SIZE): Lut3D => {
+    if (before.width !== after.width || before.height !== after.height) {
+        throw new Error('The before and after images must be the same size to fit a LUT.');
+    }
+    const n = size;
+    const nodes = n * n * n;
+    const scale = (n - 1) / 255;
+    // Weighted sums of (after - before) per node, and the total weight per node.
+    const sums = new Float64Array(nodes * 3);
+    const weights = new Float64Array(nodes);
+    const src = before.data;
+    const dst = after.data;
+
+    for (let i = 0; i < src.length; i += 4) {
+        if (src[i + 3] === 0 || dst[i + 3] === 0) continue;
+        const fr = src[i] * scale;
+        const fg = src[i + 1] * scale;
+        const fb = src[i + 2] * scale;
+        const r0 = Math.min(n - 2, Math.floor(fr));
+        const g0 = Math.min(n - 2, Math.floor(fg));
+        const b0 = Math.min(n - 2, Math.floor(fb));
+        const dr = fr - r0;
+        const dg = fg - g0;
+        const db = fb - b0;
+        const offsetR = (dst[i] - src[i]) / 255;
+        const offsetG = (dst[i + 1] - src[i + 1]) / 255;
+        const offsetB = (dst[i + 2] - src[i + 2]) / 255;
+        // Spread the sample over the eight surrounding nodes with trilinear weights.
+        for (let corner = 0; corner < 8; corner++) {
+            const cr = corner & 1;
+            const cg = (corner >> 1) & 1;
+            const cb = corner >> 2;
+            const w = (cr ? dr : 1 - dr) * (cg ? dg : 1 - dg) * (cb ? db : 1 - db);
+            if (w === 0) continue;
+            const k = (b0 + cb) * n * n + (g0 + cg) * n + (r0 + cr);
+            weights[k] += w;
+            sums[k * 3] += w * offsetR;
+            sums[k * 3 + 1] += w * offsetG;
+            sums[k * 3 + 2] += w * offsetB;
+        }
+    }
+
+    // Start every node at its own mean offset, or the overall mean where there is no data.
+    const mean = [0, 0, 0];
+    let totalWeight = 0;
+    for (let k = 0; k < nodes; k++) {
+        totalWeight += weights[k];
+        for (let c = 0; c < 3; c++) mean[c] += sums[k * 3 + c];
+    }
+    if (totalWeight === 0) throw new Error('The image has no opaque pixels to fit a LUT from.');
+    for (let c = 0; c < 3; c++) mean[c] /= totalWeight;
+
+    let offsets = new Float64Array(nodes * 3);
+    for (let k = 0; k < nodes; k++) {
+        for (let c = 0; c < 3; c++) {
+            offsets[k * 3 + c] = weights[k] > 0 ? sums[k * 3 + c] / weights[k] : mean[c];
+        }
+    }
+
+    // Jacobi iterations of a data term plus a smoothness term: well-sampled nodes keep their
+    // measured offset, sparse and empty ones take on the average of their neighbours.
+    let next = new Float64Array(nodes * 3);
+    const neighbourSum = [0, 0, 0];
+    let neighbours = 0;
+    const addNeighbour = (j: number) => {
+        neighbourSum[0] += offsets[j * 3];
+        neighbourSum[1] += offsets[j * 3 + 1];
+        neighbourSum[2] += offsets[j * 3 + 2];
+        neighbours++;
+    };
+    for (let iteration = 0; iteration < FIT_ITERATIONS; iteration++) {
+        for (let b = 0; b < n; b++) {
+            for (let g = 0; g < n; g++) {
+                for (let r = 0; r < n; r++) {
+                    const k = b * n * n + g * n + r;
+                    neighbourSum[0] = neighbourSum[1] = neighbourSum[2] = 0;
+                    neighbours = 0;
+                    if (r > 0) addNeighbour(k - 1);
+                    if (r < n - 1) addNeighbour(k + 1);
+                    if (g > 0) addNeighbour(k - n);
+                    if (g < n - 1) addNeighbour(k + n);
+                    if (b > 0) addNeighbour(k - n * n);
+                    if (b < n - 1) addNeighbour(k + n * n);
+                    for (let c = 0; c < 3; c++) {
+                        next[k * 3 + c] = (sums[k * 3 + c] + FIT_SMOOTHING * neighbourSum[c] / neighbours) / (weights[k] + FIT_SMOOTHING);
+                    }
+                }
+            }
+        }
+        [offsets, next] = [next, offsets];
+    }
+
+    const data = new Float32Array(nodes * 3);
+    for (let b = 0; b < n; b++) {
+        for (let g = 0; g < n; g++) {
+            for (let r = 0; r < n; r++) {
+                const k = b * n * n + g * n + r;
+                data[k * 3] = Math.min(1, Math.max(0, r / (n - 1) + offsets[k * 3]));
+                data[k * 3 + 1] = Math.min(1, Math.max(0, g / (n - 1) + offsets[k * 3 + 1]));
+                data[k * 3 + 2] = Math.min(1, Math.max(0, b / (n - 1) + offsets[k * 3 + 2]));
+            }
+        }
+    }
+    return { title, size: n, domainMin: [0, 0, 0], domainMax: [1, 1, 1], data };
+};
@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { parseCubeLut, type Lut3D } from './lut.ts';
+
+// Imported LUTs, kept in their own database so they survive across sessions and shoots.
+
+export type LutPreset = {
+    id: string;
+    name: string;
+    lut: Lut3D;
+    createdAt: number;
+};
+
+const DB_NAME = 'utilpic-luts';
+const STORE_NAME = 'luts';
+const DB_VERSION = 1;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const getDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+            request.onerror = () => {
+                console.error('IndexedDB error:', request.error);
+                reject(new Error('Could not open the LUT library.'));
+            };
+
+            request.onsuccess = () => {
+                resolve(request.result);
+            };
+
+            request.onupgradeneeded = (event) => {
+                const db = (event.target as IDBOpenDBRequest).result;
+                if (!db.objectStoreNames.contains(STORE_NAME)) {
+                    db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+                }
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
+
+export const listLutPresets = async (): Promise<LutPreset[]> => {
+    const db = await getDb();
+    const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAll();
+    const presets = await new Promise<LutPreset[]>((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+    return presets.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveLutPreset = async (name: string, lut: Lut3D): Promise<LutPreset> => {
+    const preset: LutPreset = { id: crypto.randomUUID(), name, lut, createdAt: Date.now() };
+    const db = await getDb();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).put(preset);
+    await transactionDone(transaction);
+    return preset;
+};
+
+export const deleteLutPreset = async (id: string): Promise<void> => {
+    const db = await getDb();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).delete(id);
+    await transactionDone(transaction);
+};
+
+/**
+ * Parses .cube files and adds them to the library. Files that fail to parse are reported
+ * by name and skipped; the rest are still imported.
+ */
+export const importCubeFiles = async (files: File[]): Promise<{ imported: LutPreset[]; errors: string[] }> => {
+    const imported: LutPreset[] = [];
+    const errors: string[] = [];
+    for (const file of files) {
+        const name = file.name.replace(/\.cube$/i, '');
+        try {
+            const lut = parseCubeLut(await file.text(), name);
+            imported.push(await saveLutPreset(lut.title || name, lut));
+        } catch (err) {
+            errors.push(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+        }
+    }
+    return { imported, errors };
+};
@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { gaussianBlurChannel, guidedFilter, type PixelBuffer } from './pixelEngine.ts';
+
+// Noise reduction, split like a raw converter's: luminance noise (grain in the brightness) and
+// color noise (blotches of random hue) are smoothed separately. Noise lives at the pixel level
+// whatever the image size, so the radii are in pixels and the result is judged at 1:1.
+
+export type NoiseReductionParams = {
+    // 0 to 100: smoothing of the brightness.
+    luminance: number;
+    // 0 to 100: smoothing of the color.
+    color: number;
+    // 0 to 100: how much texture and edge detail to keep while smoothing.
+    detail: number;
+};
+
+export const DEFAULT_NOISE_REDUCTION: NoiseReductionParams = { luminance: 0, color: 0, detail: 50 };
+
+export const isNeutralNoiseReduction = ({ luminance, color }: NoiseReductionParams): boolean =>
+    luminance === 0 && color === 0;
+
+// Smoothing radius (sigma, in pixels) at 0 and 100.
+const MIN_SIGMA = 1;
+const MAX_LUMINANCE_SIGMA = 2.5;
+const MAX_COLOR_SIGMA = 6;
+// Standard deviation of the luminance noise smoothed away at 100, on a 0-1 scale.
+const MAX_LUMINANCE_NOISE = 0.08;
+// Guided filter regularisation for color: luminance edges clearly above this keep their color.
+const COLOR_EPSILON = 0.01;
+// At full detail, the filters smooth across only a tenth of the variance they otherwise would.
+const MAX_DETAIL_KEPT = 0.9;
+
+const LUMA_R = 0.2126;
+const LUMA_G = 0.7152;
+const LUMA_B = 0.0722;
+
+const clampAmount = (value: number) => Math.min(100, Math.max(0, value)) / 100;
+
+/**
+ * Smooths luminance and color noise in place. Both use guided filters steered by the
+ * luminance, so real edges stay sharp and colors don't bleed across them.
+ */
+export const applyNoiseReduction = (pixels: PixelBuffer, params: NoiseReductionParams): void => {
+    const luminance = clampAmount(params.luminance);
+    const color = clampAmount(params.color);
+    if (luminance === 0 && color === 0) return;
+    const { data, width, height } = pixels;
+    const pixelCount = width * height;
+    const detailScale = 1 - MAX_DETAIL_KEPT * clampAmount(params.detail);
+
+    // Luma plus two color differences; green is recovered from the other three afterwards.
+    let luma = new Float32Array(pixelCount);
+    let redDiff = new Float32Array(pixelCount);
+    let blueDiff = new Float32Array(pixelCount);
+    for (let p = 0, i = 0; p < pixelCount; p++, i += 4) {
+        const r = data[i] / 255;
+        const b = data[i + 2] / 255;
+        luma[p] = LUMA_R * r + LUMA_G * (data[i + 1] / 255) + LUMA_B * b;
+        redDiff[p] = r - luma[p];
+        blueDiff[p] = b - luma[p];
+    }
+
+    if (color > 0) {
+        const sigma = MIN_SIGMA + (MAX_COLOR_SIGMA - MIN_SIGMA) * color;
+        const epsilon = COLOR_EPSILON * detailScale;
+        // A lightly smoothed guide, so luminance noise isn't copied into the color.
+        const guide = luma.slice();
+        gaussianBlurChannel(guide, width, height, MIN_SIGMA);
+        redDiff = guidedFilter(guide, redDiff, width, height, sigma, epsilon);
+        blueDiff = guidedFilter(guide, blueDiff, width, height, sigma, epsilon);
+    }
+
+    if (luminance > 0) {
+        const sigma = MIN_SIGMA + (MAX_LUMINANCE_SIGMA - MIN_SIGMA) * luminance;
+        const noise = MAX_LUMINANCE_NOISE * luminance;
+        luma = guidedFilter(luma, luma, width, height, sigma, noise * noise * detailScale);
+    }
+
+    for (let p = 0, i = 0; p < pixelCount; p++, i += 4) {
+        const r = luma[p] + redDiff[p];
+        const b = luma[p] + blueDiff[p];
+        data[i] = r * 255;
+        data[i + 1] = (luma[p] - LUMA_R * r - LUMA_B * b) / LUMA_G * 255;
+        data[i + 2] = b * 255;
+    }
+};
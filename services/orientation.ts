@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { loadImageSource } from './compositing.ts';
+
+// Lossless quarter turns and mirrors. Every output pixel is a copy of exactly one input pixel,
+// so nothing is resampled, filled in or regenerated.
+
+export type OrientationTransform =
+    | 'rotate-cw'
+    | 'rotate-ccw'
+    | 'rotate-180'
+    | 'flip-horizontal'
+    | 'flip-vertical'
+    // Mirror across the top-left to bottom-right diagonal (EXIF orientation 5).
+    | 'transpose'
+    // Mirror across the other diagonal (EXIF orientation 7).
+    | 'transverse';
+
+const swapsAxes = (transform: OrientationTransform) =>
+    transform === 'rotate-cw' || transform === 'rotate-ccw' || transform === 'transpose' || transform === 'transverse';
+
+// Canvas matrix [a, b, c, d, e, f] mapping a source pixel (x, y) to its place in the output.
+const transformMatrix = (transform: OrientationTransform, width: number, height: number): [number, number, number, number, number, number] => {
+    switch (transform) {
+        case 'rotate-cw': return [0, 1, -1, 0, height, 0];
+        case 'rotate-ccw': return [0, -1, 1, 0, 0, width];
+        case 'rotate-180': return [-1, 0, 0, -1, width, height];
+        case 'flip-horizontal': return [-1, 0, 0, 1, width, 0];
+        case 'flip-vertical': return [1, 0, 0, -1, 0, height];
+        case 'transpose': return [0, 1, 1, 0, 0, 0];
+        case 'transverse': return [0, -1, -1, 0, height, width];
+    }
+};
+
+const drawTransformed = (image: CanvasImageSource, width: number, height: number, transform: OrientationTransform): string => {
+    const canvas = document.createElement('canvas');
+    canvas.width = swapsAxes(transform) ? height : width;
+    canvas.height = swapsAxes(transform) ? width : height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context to reorient the image.');
+    ctx.imageSmoothingEnabled = false;
+    ctx.setTransform(...transformMatrix(transform, width, height));
+    ctx.drawImage(image, 0, 0, width, height);
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Rotates or mirrors an image and returns the result as a PNG data URL.
+ */
+export const transformImage = async (source: File | string, transform: OrientationTransform): Promise<string> => {
+    const image = await loadImageSource(source);
+    return drawTransformed(image, image.naturalWidth, image.naturalHeight, transform);
+};
+
+// The transform that turns pixels stored with a given EXIF orientation upright.
+const EXIF_ORIENTATION_TRANSFORMS: Record<number, OrientationTransform> = {
+    2: 'flip-horizontal',
+    3: 'rotate-180',
+    4: 'flip-vertical',
+    5: 'transpose',
+    6: 'rotate-cw',
+    7: 'transverse',
+    8: 'rotate-ccw',
+};
+
+/**
+ * Reads the EXIF orientation tag (1-8) of a JPEG, or returns 1 when there is none.
+ */
+export const readExifOrientation = async (file: File): Promise<number> => {
+    // The tag lives in the APP1 segment right after the start of the file.
+    const view = new DataView(await file.slice(0, 128 * 1024).arrayBuffer());
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xFFD8) return 1;
+
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+        const marker = view.getUint16(offset);
+        const length = view.getUint16(offset + 2);
+        if ((marker & 0xFF00) !== 0xFF00 || marker === 0xFFDA) return 1; // Not a marker, or image data started.
+        if (marker === 0xFFE1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) { // "Exif"
+            const tiff = offset + 10;
+            if (tiff + 8 > view.byteLength) return 1;
+            const little = view.getUint16(tiff) === 0x4949; // "II"
+            const ifd = tiff + view.getUint32(tiff + 4, little);
+            if (ifd + 2 > view.byteLength) return 1;
+            const entries = view.getUint16(ifd, little);
+            for (let i = 0; i < entries; i++) {
+                const entry = ifd + 2 + i * 12;
+                if (entry + 12 > view.byteLength) return 1;
+                if (view.getUint16(entry, little) === 0x0112) {
+                    const value = view.getUint16(entry + 8, little);
+                    return value >= 1 && value <= 8 ? value : 1;
+                }
+            }
+            return 1;
+        }
+        offset += 2 + length;
+    }
+    return 1;
+};
+
+/**
+ * Bakes a JPEG's EXIF orientation into its pixels, so the image is upright without relying on
+ * metadata that models and other tools may ignore. Returns null when the file is already upright.
+ */
+export const bakeExifOrientation = async (file: File): Promise<string | null> => {
+    const transform = EXIF_ORIENTATION_TRANSFORMS[await readExifOrientation(file)];
+    if (!transform) return null;
+    // Decode the stored pixels as-is; the browser would otherwise apply the tag itself.
+    const bitmap = await createImageBitmap(file, { imageOrientation: 'none' });
+    try {
+        return drawTransformed(bitmap, bitmap.width, bitmap.height, transform);
+    } finally {
+        bitmap.close();
+    }
+};
@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import {
+    buildCorrection, IDENTITY_QUAD, invertHomography, keystoneQuad, largestValidRect, mapPoint, solveHomography,
+    type Homography, type Point, type Rect,
+} from './perspective.ts';
+
+const IDENTITY: Homography = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+const corners = ({ x, y, width, height }: Rect): Point[] => [
+    { x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height },
+];
+
+describe('solveHomography', () => {
+    it('maps each source corner onto its target', () => {
+        const from = [{ x: 10, y: 20 }, { x: 300, y: 5 }, { x: 280, y: 240 }, { x: 30, y: 200 }];
+        const to = [{ x: 0, y: 0 }, { x: 320, y: 0 }, { x: 320, y: 240 }, { x: 0, y: 240 }];
+        const m = solveHomography(from, to);
+        from.forEach((point, i) => {
+            const mapped = mapPoint(m, point);
+            expect(mapped.x).toBeCloseTo(to[i].x, 6);
+            expect(mapped.y).toBeCloseTo(to[i].y, 6);
+        });
+        expect(m[8]).toBe(1);
+    });
+
+    it('gives the identity for matching corners', () => {
+        const m = solveHomography(IDENTITY_QUAD, IDENTITY_QUAD);
+        m.forEach((value, i) => expect(value).toBeCloseTo(IDENTITY[i], 12));
+    });
+
+    it('inverts to the reverse mapping', () => {
+        const from = keystoneQuad(30, -10);
+        const inverse = invertHomography(solveHomography(from, IDENTITY_QUAD));
+        IDENTITY_QUAD.forEach((point, i) => {
+            const mapped = mapPoint(inverse, point);
+            expect(mapped.x).toBeCloseTo(from[i].x, 9);
+            expect(mapped.y).toBeCloseTo(from[i].y, 9);
+        });
+    });
+
+    it('rejects three corners in a line', () => {
+        const collinear = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 2, y: 0 }, { x: 0, y: 1 }];
+        expect(() => solveHomography(collinear, IDENTITY_QUAD)).toThrow(/no three in a line/);
+    });
+});
+
+describe('largestValidRect', () => {
+    it('keeps the whole frame, to within the search precision, when nothing is corrected', () => {
+        const rect = largestValidRect(IDENTITY, 400, 300);
+        expect(rect.x).toBeLessThanOrEqual(1);
+        expect(rect.y).toBeLessThanOrEqual(1);
+        expect(rect.width).toBeGreaterThanOrEqual(398);
+        expect(rect.height).toBeGreaterThanOrEqual(298);
+    });
+
+    it('holds the requested aspect ratio', () => {
+        const rect = largestValidRect(IDENTITY, 400, 300, 1);
+        expect(rect.width).toBe(rect.height);
+        expect(rect.height).toBeGreaterThanOrEqual(299);
+    });
+
+    it.each([
+        ['a keystone', keystoneQuad(40, 0), 0],
+        ['a rotation', IDENTITY_QUAD, 7],
+        ['both', keystoneQuad(-25, 15), -4],
+    ] as const)('stays inside the corrected image after %s', (_, quad, rotation) => {
+        const width = 400;
+        const height = 300;
+        const correction = buildCorrection([...quad], rotation, width, height);
+        const rect = largestValidRect(correction, width, height);
+        const inverse = invertHomography(correction);
+        // Every corner of the crop must come from inside the source image.
+        for (const corner of corners(rect)) {
+            const source = mapPoint(inverse, corner);
+            expect(source.x).toBeGreaterThanOrEqual(-1e-6);
+            expect(source.y).toBeGreaterThanOrEqual(-1e-6);
+            expect(source.x).toBeLessThanOrEqual(width + 1e-6);
+            expect(source.y).toBeLessThanOrEqual(height + 1e-6);
+        }
+        expect(rect.x).toBeGreaterThanOrEqual(0);
+        expect(rect.y).toBeGreaterThanOrEqual(0);
+        expect(rect.x + rect.width).toBeLessThanOrEqual(width);
+        expect(rect.y + rect.height).toBeLessThanOrEqual(height);
+        // It should still keep most of the frame, not collapse to a sliver.
+        expect(rect.width * rect.height).toBeGreaterThan(width * height * 0.4);
+    });
+});
@@ -0,0 +1,298 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { PixelBuffer } from './pixelEngine.ts';
+
+// Perspective (keystone) correction and straightening. A correction is a homography: a 3x3
+// matrix mapping source pixels to output pixels in an output frame the size of the source.
+// The same matrix drives the CSS preview (matrix3d) and the final warp in the pixel engine.
+
+export type Point = { x: number; y: number };
+
+// Corners in image fractions (0-1), in the order top-left, top-right, bottom-right, bottom-left.
+export type Quad = [Point, Point, Point, Point];
+
+// Row-major 3x3 homography: (x, y) maps to ((m0 x + m1 y + m2) / w, (m3 x + m4 y + m5) / w)
+// with w = m6 x + m7 y + m8.
+export type Homography = [number, number, number, number, number, number, number, number, number];
+
+export type Rect = { x: number; y: number; width: number; height: number };
+
+export const IDENTITY_QUAD: Quad = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }];
+
+export const isIdentityQuad = (quad: Quad): boolean =>
+    quad.every((corner, i) => corner.x === IDENTITY_QUAD[i].x && corner.y === IDENTITY_QUAD[i].y);
+
+/**
+ * Whether the corners turn the same way all round, so the quad can be made rectangular.
+ */
+export const isConvexQuad = (quad: Quad): boolean => {
+    const turns = quad.map((p, i) => {
+        const q = quad[(i + 1) % 4];
+        const r = quad[(i + 2) % 4];
+        return (q.x - p.x) * (r.y - q.y) - (q.y - p.y) * (r.x - q.x);
+    });
+    return turns.every(turn => turn > 1e-6) || turns.every(turn => turn < -1e-6);
+};
+
+// The keystone sliders and the source quad they define. Dragging the corners directly sets the
+// quad and zeroes the sliders.
+export type PerspectiveSettings = { vertical: number; horizontal: number; quad: Quad };
+
+export const NO_PERSPECTIVE: PerspectiveSettings = { vertical: 0, horizontal: 0, quad: IDENTITY_QUAD };
+
+// How far the short edge of the source quad is pulled in at a keystone slider's end.
+const MAX_KEYSTONE_INSET = 0.3;
+
+/**
+ * The source quad for the keystone sliders (-100 to 100). Positive vertical values widen the
+ * top, correcting verticals that converge upwards; positive horizontal values widen the right.
+ * The quad's corners are stretched out to the image's corners.
+ */
+export const keystoneQuad = (vertical: number, horizontal: number): Quad => {
+    const v = Math.min(100, Math.max(-100, vertical)) / 100 * MAX_KEYSTONE_INSET / 2;
+    const h = Math.min(100, Math.max(-100, horizontal)) / 100 * MAX_KEYSTONE_INSET / 2;
+    // Insets of the top/bottom edges (vertical) and the left/right edges (horizontal).
+    const top = Math.max(v, 0);
+    const bottom = Math.max(-v, 0);
+    const right = Math.max(h, 0);
+    const left = Math.max(-h, 0);
+    return [
+        { x: top, y: left },
+        { x: 1 - top, y: right },
+        { x: 1 - bottom, y: 1 - right },
+        { x: bottom, y: 1 - left },
+    ];
+};
+
+// Solves the 8x8 system for the homography taking `from[i]` to `to[i]`, with m8 = 1.
+export const solveHomography = (from: Point[], to: Point[]): Homography => {
+    const rows: number[][] = [];
+    for (let i = 0; i < 4; i++) {
+        const { x, y } = from[i];
+        const { x: u, y: v } = to[i];
+        rows.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+        rows.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+    }
+    // Gaussian elimination with partial pivoting.
+    for (let col = 0; col < 8; col++) {
+        let pivot = col;
+        for (let r = col + 1; r < 8; r++) {
+            if (Math.abs(rows[r][col]) > Math.abs(rows[pivot][col])) pivot = r;
+        }
+        if (Math.abs(rows[pivot][col]) < 1e-12) throw new Error('The corners must form a quadrilateral, with no three in a line.');
+        [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+        for (let r = 0; r < 8; r++) {
+            if (r === col) continue;
+            const factor = rows[r][col] / rows[col][col];
+            for (let c = col; c < 9; c++) rows[r][c] -= factor * rows[col][c];
+        }
+    }
+    const h = rows.map((row, i) => row[8] / row[i]);
+    return [h[0], h[1], h[2], h[3], h[4], h[5], h[6], h[7], 1];
+};
+
+const multiply = (a: Homography, b: Homography): Homography => {
+    const out = new Array(9).fill(0) as Homography;
+    for (let r = 0; r < 3; r++) {
+        for (let c = 0; c < 3; c++) {
+            out[r * 3 + c] = a[r * 3] * b[c] + a[r * 3 + 1] * b[3 + c] + a[r * 3 + 2] * b[6 + c];
+        }
+    }
+    return out;
+};
+
+export const invertHomography = ([a, b, c, d, e, f, g, h, i]: Homography): Homography => {
+    const A = e * i - f * h;
+    const B = f * g - d * i;
+    const C = d * h - e * g;
+    const det = a * A + b * B + c * C;
+    if (Math.abs(det) < 1e-12) throw new Error('The perspective correction cannot be inverted.');
+    return [
+        A / det, (c * h - b * i) / det, (b * f - c * e) / det,
+        B / det, (a * i - c * g) / det, (c * d - a * f) / det,
+        C / det, (b * g - a * h) / det, (a * e - b * d) / det,
+    ];
+};
+
+export const mapPoint = (m: Homography, { x, y }: Point): Point => {
+    const w = m[6] * x + m[7] * y + m[8];
+    return { x: (m[0] * x + m[1] * y + m[2]) / w, y: (m[3] * x + m[4] * y + m[5]) / w };
+};
+
+/**
+ * The correction for an image of the given size, in pixels: the source quad is made
+ * rectangular and the whole image scaled to fit the frame again, so nothing is cut off and
+ * the empty corners are left for auto-crop. Then it is rotated clockwise by `rotation` degrees
+ * about the centre.
+ */
+export const buildCorrection = (quad: Quad, rotation: number, width: number, height: number): Homography => {
+    const corners = IDENTITY_QUAD.map(({ x, y }) => ({ x: x * width, y: y * height }));
+    let keystone = solveHomography(quad.map(({ x, y }) => ({ x: x * width, y: y * height })), corners);
+    // A corner past the vanishing line can't be fitted; the frame then shows what it can.
+    if (corners.every(({ x, y }) => keystone[6] * x + keystone[7] * y + keystone[8] > 0)) {
+        const warped = corners.map(corner => mapPoint(keystone, corner));
+        const left = Math.min(...warped.map(p => p.x));
+        const top = Math.min(...warped.map(p => p.y));
+        const scale = Math.min(width / (Math.max(...warped.map(p => p.x)) - left), height / (Math.max(...warped.map(p => p.y)) - top));
+        const fitWidth = (Math.max(...warped.map(p => p.x)) - left) * scale;
+        const fitHeight = (Math.max(...warped.map(p => p.y)) - top) * scale;
+        const fit: Homography = [scale, 0, (width - fitWidth) / 2 - left * scale, 0, scale, (height - fitHeight) / 2 - top * scale, 0, 0, 1];
+        keystone = multiply(fit, keystone);
+    }
+    const angle = rotation * Math.PI / 180;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const cx = width / 2;
+    const cy = height / 2;
+    const rotate: Homography = [cos, -sin, cx - cos * cx + sin * cy, sin, cos, cy - sin * cx - cos * cy, 0, 0, 1];
+    return multiply(rotate, keystone);
+};
+
+/**
+ * A CSS `matrix3d()` applying the correction to an element laid out at the correction's size,
+ * with `transform-origin: 0 0`.
+ */
+export const toCssMatrix3d = ([a, b, c, d, e, f, g, h, i]: Homography): string =>
+    `matrix3d(${[a, d, 0, g, b, e, 0, h, 0, 0, 1, 0, c, f, 0, i].join(', ')})`;
+
+// --- Straighten ---------------------------------------------------------------------------------
+
+/**
+ * The rotation (in degrees, clockwise) that makes a line drawn on screen level, or plumb if it
+ * is closer to vertical than horizontal.
+ */
+export const straightenAngle = (from: Point, to: Point): number => {
+    let angle = Math.atan2(to.y - from.y, to.x - from.x) * 180 / Math.PI;
+    // Direction doesn't matter, so fold into (-90, 90].
+    if (angle > 90) angle -= 180;
+    if (angle <= -90) angle += 180;
+    if (Math.abs(angle) <= 45) return -angle;
+    return Math.sign(angle) * 90 - angle;
+};
+
+// --- Auto-crop ----------------------------------------------------------------------------------
+
+// A point is inside when cross(edge, point - start) >= 0 for every edge, once the corners are
+// ordered clockwise on screen (a positive shoelace area with y pointing down).
+type HalfPlane = { px: number; py: number; ex: number; ey: number };
+
+const halfPlanes = (polygon: Point[]): HalfPlane[] => {
+    let area = 0;
+    for (let i = 0; i < polygon.length; i++) {
+        const p = polygon[i];
+        const q = polygon[(i + 1) % polygon.length];
+        area += p.x * q.y - q.x * p.y;
+    }
+    const ordered = area >= 0 ? polygon : [...polygon].reverse();
+    return ordered.map((p, i) => {
+        const q = ordered[(i + 1) % ordered.length];
+        return { px: p.x, py: p.y, ex: q.x - p.x, ey: q.y - p.y };
+    });
+};
+
+// The largest t for which the rectangle centred on (cx, cy) with half-size (t dw, t dh) fits.
+const maxScale = (planes: HalfPlane[], cx: number, cy: number, dw: number, dh: number): number => {
+    let t = Infinity;
+    for (const { px, py, ex, ey } of planes) {
+        const base = ex * (cy - py) - ey * (cx - px);
+        if (base < 0) return 0;
+        for (const sx of [-1, 1]) {
+            for (const sy of [-1, 1]) {
+                const slope = ex * sy * dh - ey * sx * dw;
+                if (slope < 0) t = Math.min(t, base / -slope);
+            }
+        }
+    }
+    return t;
+};
+
+// Maximises a function that rises then falls on [lo, hi].
+const ternarySearch = (lo: number, hi: number, f: (x: number) => number, iterations = 40): number => {
+    for (let i = 0; i < iterations; i++) {
+        const a = lo + (hi - lo) / 3;
+        const b = hi - (hi - lo) / 3;
+        if (f(a) < f(b)) lo = a;
+        else hi = b;
+    }
+    return (lo + hi) / 2;
+};
+
+/**
+ * The largest axis-aligned rectangle (in output pixels) holding only corrected image, with
+ * none of the empty corners the warp leaves. Fixed to `aspect` (width / height) if given.
+ */
+export const largestValidRect = (correction: Homography, width: number, height: number, aspect?: number): Rect => {
+    const warped = IDENTITY_QUAD.map(({ x, y }) => mapPoint(correction, { x: x * width, y: y * height }));
+    const frame = IDENTITY_QUAD.map(({ x, y }) => ({ x: x * width, y: y * height }));
+    const planes = [...halfPlanes(warped), ...halfPlanes(frame)];
+
+    // For a centre, the best shape; for a centre column, the best row; then the best column.
+    const bestAt = (cx: number, cy: number) => {
+        if (aspect) {
+            const t = maxScale(planes, cx, cy, aspect, 1);
+            return { area: t * t * aspect, dw: aspect, dh: 1, t };
+        }
+        const angle = ternarySearch(0, Math.PI / 2, a => {
+            const t = maxScale(planes, cx, cy, Math.cos(a), Math.sin(a));
+            return t * t * Math.cos(a) * Math.sin(a);
+        });
+        const t = maxScale(planes, cx, cy, Math.cos(angle), Math.sin(angle));
+        return { area: t * t * Math.cos(angle) * Math.sin(angle), dw: Math.cos(angle), dh: Math.sin(angle), t };
+    };
+    const bestRowFor = (cx: number) => ternarySearch(0, height, cy => bestAt(cx, cy).area, 30);
+    const cx = ternarySearch(0, width, x => bestAt(x, bestRowFor(x)).area, 30);
+    const cy = bestRowFor(cx);
+    const { dw, dh, t } = bestAt(cx, cy);
+    const halfWidth = Number.isFinite(t) ? t * dw : 0;
+    const halfHeight = Number.isFinite(t) ? t * dh : 0;
+    // Round inwards so no empty pixel slips in at the edges.
+    const x = Math.ceil(cx - halfWidth);
+    const y = Math.ceil(cy - halfHeight);
+    return { x, y, width: Math.max(1, Math.floor(cx + halfWidth) - x), height: Math.max(1, Math.floor(cy + halfHeight) - y) };
+};
+
+// --- Warp ---------------------------------------------------------------------------------------
+
+/**
+ * Applies a correction to the pixels in place, with bilinear sampling. Output pixels that fall
+ * outside the source are left transparent.
+ */
+export const warpPerspective = (pixels: PixelBuffer, correction: Homography): void => {
+    const { data, width, height } = pixels;
+    const source = data.slice();
+    const [a, b, c, d, e, f, g, h, i] = invertHomography(correction);
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            // Pixel centres sit at half-integer coordinates.
+            const ox = x + 0.5;
+            const oy = y + 0.5;
+            const w = g * ox + h * oy + i;
+            const sx = (a * ox + b * oy + c) / w - 0.5;
+            const sy = (d * ox + e * oy + f) / w - 0.5;
+            const out = (y * width + x) * 4;
+            if (w <= 0 || sx < -0.5 || sy < -0.5 || sx > width - 0.5 || sy > height - 0.5) {
+                data[out] = data[out + 1] = data[out + 2] = data[out + 3] = 0;
+                continue;
+            }
+            const x0 = Math.max(0, Math.min(width - 1, Math.floor(sx)));
+            const y0 = Math.max(0, Math.min(height - 1, Math.floor(sy)));
+            const x1 = Math.min(width - 1, x0 + 1);
+            const y1 = Math.min(height - 1, y0 + 1);
+            const fx = Math.max(0, Math.min(1, sx - x0));
+            const fy = Math.max(0, Math.min(1, sy - y0));
+            const i00 = (y0 * width + x0) * 4;
+            const i10 = (y0 * width + x1) * 4;
+            const i01 = (y1 * width + x0) * 4;
+            const i11 = (y1 * width + x1) * 4;
+            for (let ch = 0; ch < 4; ch++) {
+                const top = source[i00 + ch] + (source[i10 + ch] - source[i00 + ch]) * fx;
+                const bottom = source[i01 + ch] + (source[i11 + ch] - source[i01 + ch]) * fx;
+                data[out + ch] = top + (bottom - top) * fy;
+            }
+        }
+    }
+};
@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import {
+    applyColorWheels, buildColorWheelOffsets, colorWheelWeights, NEUTRAL_COLOR_WHEEL, NEUTRAL_COLOR_WHEELS,
+    type ColorWheels, type PixelBuffer,
+} from './pixelEngine.ts';
+
+const pixels = (...colors: [number, number, number][]): PixelBuffer => ({
+    data: new Uint8ClampedArray(colors.flatMap(color => [...color, 255])),
+    width: colors.length,
+    height: 1,
+});
+
+const rgb = ({ data }: PixelBuffer, index: number) => Array.from(data.slice(index * 4, index * 4 + 3));
+
+// Full red push on one wheel.
+const redOn = (range: keyof ColorWheels): ColorWheels => ({ ...NEUTRAL_COLOR_WHEELS, [range]: { ...NEUTRAL_COLOR_WHEEL, x: 1 } });
+
+describe('colorWheelWeights', () => {
+    it.each([0, 0.1, 0.3, 0.5, 0.7, 0.9, 1])('sums to 1 at luma %f', luma => {
+        const { lift, gamma, gain } = colorWheelWeights(luma);
+        expect(lift + gamma + gain).toBeCloseTo(1, 12);
+    });
+
+    it('confines lift to the shadows and gain to the highlights', () => {
+        expect(colorWheelWeights(0)).toEqual({ lift: 1, gamma: 0, gain: 0 });
+        expect(colorWheelWeights(0.5)).toEqual({ lift: 0, gamma: 1, gain: 0 });
+        expect(colorWheelWeights(1)).toEqual({ lift: 0, gamma: 0, gain: 1 });
+    });
+});
+
+describe('applyColorWheels', () => {
+    it('leaves the image alone with neutral wheels', () => {
+        const offsets = buildColorWheelOffsets(NEUTRAL_COLOR_WHEELS);
+        expect([...offsets.red, ...offsets.green, ...offsets.blue].every(v => v === 0)).toBe(true);
+    });
+
+    it('tints the shadows with lift and leaves the highlights alone', () => {
+        const image = pixels([20, 20, 20], [60, 30, 30], [200, 200, 200], [255, 230, 210]);
+        applyColorWheels(image, redOn('lift'));
+        expect(rgb(image, 0)[0]).toBeGreaterThan(20);
+        expect(rgb(image, 0)[1]).toBeLessThan(20);
+        expect(rgb(image, 1)[0]).toBeGreaterThan(60);
+        expect(rgb(image, 2)).toEqual([200, 200, 200]);
+        expect(rgb(image, 3)).toEqual([255, 230, 210]);
+    });
+
+    it('tints the highlights with gain and leaves the shadows alone', () => {
+        const image = pixels([10, 10, 10], [40, 50, 30], [220, 220, 220]);
+        applyColorWheels(image, redOn('gain'));
+        expect(rgb(image, 0)).toEqual([10, 10, 10]);
+        expect(rgb(image, 1)).toEqual([40, 50, 30]);
+        expect(rgb(image, 2)[0]).toBeGreaterThan(220);
+        expect(rgb(image, 2)[1]).toBeLessThan(220);
+    });
+
+    it('brightens the midtones with gamma while keeping black and white fixed', () => {
+        const image = pixels([0, 0, 0], [128, 128, 128], [255, 255, 255]);
+        applyColorWheels(image, { ...NEUTRAL_COLOR_WHEELS, gamma: { ...NEUTRAL_COLOR_WHEEL, luminance: 100 } });
+        expect(rgb(image, 0)).toEqual([0, 0, 0]);
+        expect(rgb(image, 1)[0]).toBeGreaterThan(128);
+        expect(rgb(image, 2)).toEqual([255, 255, 255]);
+    });
+});
@@ -0,0 +1,619 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { SliderAdjustments } from './prompts.ts';
+
+// Exact, deterministic versions of the AdjustmentPanel sliders.
+// Every step here has a one-to-one SVG filter primitive (see PixelPreviewFilter), so the live
+// preview and the committed pixels go through the same math:
+//   1. a per-channel tone curve (feComponentTransfer table),
+//   2. a 3x3 color matrix for saturation and temperature (feColorMatrix),
+//   3. a gaussian blur, or an unsharp mask for negative blur (feGaussianBlur + feComposite).
+// All of it runs in sRGB on 8-bit values. Nothing here touches the DOM, so it can run in a worker.
+
+export type PixelAdjustments = SliderAdjustments;
+
+// The pixels of an image, as in ImageData but constructible in any context.
+export type PixelBuffer = {
+    data: Uint8ClampedArray;
+    width: number;
+    height: number;
+};
+
+// Largest blur, as a share of the image's longer side, reached at blur = 50.
+const MAX_BLUR_FRACTION = 0.01;
+// Radius of the detail that negative blur (sharpening) enhances, in image pixels.
+export const SHARPEN_SIGMA = 1.5;
+// Unsharp mask strength at blur = -50.
+const MAX_SHARPEN_AMOUNT = 1.5;
+
+export const isNeutralAdjustment = (adjustments: PixelAdjustments): boolean =>
+    Object.values(adjustments).every(value => value === 0);
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * The tone curve for exposure, brightness, contrast, highlights and shadows, as 256 output
+ * levels in 0..1, one per 8-bit input level.
+ */
+export const buildToneCurve = ({ exposure, brightness, contrast, highlights, shadows }: PixelAdjustments): Float32Array => {
+    const curve = new Float32Array(256);
+    const gain = Math.pow(2, exposure / 50); // ±1 stop
+    const offset = brightness / 200;
+    const slope = 1 + contrast / 100;
+    for (let level = 0; level < 256; level++) {
+        let v = level / 255;
+        v = clamp01(((v * gain + offset) - 0.5) * slope + 0.5);
+        // Highlights and shadows only move their half of the range, fading out towards the middle.
+        if (v > 0.5) {
+            v += (highlights / 200) * ((v - 0.5) / 0.5) ** 2;
+        } else {
+            v += (shadows / 200) * ((0.5 - v) / 0.5) ** 2;
+        }
+        curve[level] = clamp01(v);
+    }
+    return curve;
+};
+
+/**
+ * Row-major 3x3 RGB matrix: saturation (the CSS/SVG `saturate` matrix) followed by a
+ * red/blue gain for temperature.
+ */
+export const buildColorMatrix = ({ saturation, temperature }: PixelAdjustments): number[] => {
+    const s = 1 + saturation / 50;
+    const saturate = [
+        0.213 + 0.787 * s, 0.715 - 0.715 * s, 0.072 - 0.072 * s,
+        0.213 - 0.213 * s, 0.715 + 0.285 * s, 0.072 - 0.072 * s,
+        0.213 - 0.213 * s, 0.715 - 0.715 * s, 0.072 + 0.928 * s,
+    ];
+    const rowGains = [1 + temperature / 250, 1, 1 - temperature / 250];
+    return saturate.map((value, i) => value * rowGains[Math.floor(i / 3)]);
+};
+
+// Gaussian standard deviation in image pixels for positive blur values.
+export const getBlurSigma = ({ blur }: PixelAdjustments, width: number, height: number): number =>
+    blur > 0 ? (blur / 50) * MAX_BLUR_FRACTION * Math.max(width, height) : 0;
+
+export const getSharpenAmount = ({ blur }: PixelAdjustments): number =>
+    blur < 0 ? (-blur / 50) * MAX_SHARPEN_AMOUNT : 0;
+
+// Box blur of one channel along rows or columns with clamped ("duplicate") edges.
+// The window covers `left` samples before and `right` after each position.
+const boxPass = (channel: Float32Array, width: number, height: number, left: number, right: number, vertical: boolean, line: Float32Array) => {
+    const length = vertical ? height : width;
+    const lines = vertical ? width : height;
+    const stride = vertical ? width : 1;
+    const lineStep = vertical ? 1 : width;
+    const span = left + right + 1;
+    for (let l = 0; l < lines; l++) {
+        const base = l * lineStep;
+        for (let i = 0; i < length; i++) line[i] = channel[base + i * stride];
+        let sum = 0;
+        for (let k = -left; k <= right; k++) sum += line[Math.min(Math.max(k, 0), length - 1)];
+        for (let i = 0; i < length; i++) {
+            channel[base + i * stride] = sum / span;
+            sum += line[Math.min(i + right + 1, length - 1)] - line[Math.max(i - left, 0)];
+        }
+    }
+};
+
+// Direct convolution with a sampled gaussian, for radii too small for the box approximation.
+const kernelPass = (channel: Float32Array, width: number, height: number, kernel: Float32Array, vertical: boolean, line: Float32Array) => {
+    const radius = (kernel.length - 1) / 2;
+    const length = vertical ? height : width;
+    const lines = vertical ? width : height;
+    const stride = vertical ? width : 1;
+    const lineStep = vertical ? 1 : width;
+    for (let l = 0; l < lines; l++) {
+        const base = l * lineStep;
+        for (let i = 0; i < length; i++) line[i] = channel[base + i * stride];
+        for (let i = 0; i < length; i++) {
+            let sum = 0;
+            for (let k = -radius; k <= radius; k++) sum += line[Math.min(Math.max(i + k, 0), length - 1)] * kernel[k + radius];
+            channel[base + i * stride] = sum;
+        }
+    }
+};
+
+/**
+ * Gaussian blur of one channel, in place. Follows the SVG feGaussianBlur recipe so the result
+ * matches the preview: three box blurs of size d = floor(sigma * 3 * sqrt(2 * pi) / 4 + 0.5)
+ * for sigma >= 2, a true gaussian kernel below that.
+ */
+export const gaussianBlurChannel = (channel: Float32Array, width: number, height: number, sigma: number): void => {
+    if (sigma <= 0) return;
+    const line = new Float32Array(Math.max(width, height));
+    if (sigma < 2) {
+        const radius = Math.ceil(sigma * 3);
+        const kernel = new Float32Array(radius * 2 + 1);
+        let total = 0;
+        for (let k = -radius; k <= radius; k++) {
+            kernel[k + radius] = Math.exp(-(k * k) / (2 * sigma * sigma));
+            total += kernel[k + radius];
+        }
+        for (let k = 0; k < kernel.length; k++) kernel[k] /= total;
+        kernelPass(channel, width, height, kernel, false, line);
+        kernelPass(channel, width, height, kernel, true, line);
+        return;
+    }
+    const d = Math.floor(sigma * 3 * Math.sqrt(2 * Math.PI) / 4 + 0.5);
+    // Odd sizes use three centred boxes; even sizes shift the first two by half a pixel each way.
+    const passes: [number, number][] = d % 2 === 1
+        ? [[(d - 1) / 2, (d - 1) / 2], [(d - 1) / 2, (d - 1) / 2], [(d - 1) / 2, (d - 1) / 2]]
+        : [[d / 2, d / 2 - 1], [d / 2 - 1, d / 2], [d / 2, d / 2]];
+    for (const vertical of [false, true]) {
+        for (const [left, right] of passes) {
+            boxPass(channel, width, height, left, right, vertical, line);
+        }
+    }
+};
+
+/**
+ * Edge-aware smoothing of `input` guided by `guide` (He et al.), with gaussian windows of the
+ * given sigma. Edges in the guide whose local variance is well above `epsilon` are kept.
+ */
+export const guidedFilter = (guide: Float32Array, input: Float32Array, width: number, height: number, sigma: number, epsilon: number): Float32Array => {
+    const mean = (values: Float32Array) => {
+        gaussianBlurChannel(values, width, height, sigma);
+        return values;
+    };
+    const n = guide.length;
+    const meanGuide = mean(guide.slice());
+    const meanInput = mean(input.slice());
+    const guideSq = new Float32Array(n);
+    const guideInput = new Float32Array(n);
+    for (let p = 0; p < n; p++) {
+        guideSq[p] = guide[p] * guide[p];
+        guideInput[p] = guide[p] * input[p];
+    }
+    mean(guideSq);
+    mean(guideInput);
+    // Reuse the products' buffers for the per-window linear coefficients.
+    const a = guideSq;
+    const b = guideInput;
+    for (let p = 0; p < n; p++) {
+        const variance = guideSq[p] - meanGuide[p] * meanGuide[p];
+        const covariance = guideInput[p] - meanGuide[p] * meanInput[p];
+        a[p] = covariance / (variance + epsilon);
+        b[p] = meanInput[p] - a[p] * meanGuide[p];
+    }
+    mean(a);
+    mean(b);
+    const output = meanInput;
+    for (let p = 0; p < n; p++) output[p] = a[p] * guide[p] + b[p];
+    return output;
+};
+
+// Runs `process` on each channel of the buffer as floats, writing the results back.
+const forEachChannel = (pixels: PixelBuffer, channels: number[], process: (channel: Float32Array, c: number) => void) => {
+    const { data, width, height } = pixels;
+    const channel = new Float32Array(width * height);
+    for (const c of channels) {
+        for (let p = 0, i = c; p < channel.length; p++, i += 4) channel[p] = data[i];
+        process(channel, c);
+        for (let p = 0, i = c; p < channel.length; p++, i += 4) data[i] = channel[p];
+    }
+};
+
+/**
+ * Applies the slider adjustments to the pixels in place.
+ */
+export const applyAdjustments = (pixels: PixelBuffer, adjustments: PixelAdjustments): void => {
+    const { data, width, height } = pixels;
+
+    const curve = buildToneCurve(adjustments);
+    const lut = new Uint8ClampedArray(256);
+    for (let level = 0; level < 256; level++) lut[level] = Math.round(curve[level] * 255);
+    const [m0, m1, m2, m3, m4, m5, m6, m7, m8] = buildColorMatrix(adjustments);
+
+    for (let i = 0; i < data.length; i += 4) {
+        const r = lut[data[i]];
+        const g = lut[data[i + 1]];
+        const b = lut[data[i + 2]];
+        data[i] = m0 * r + m1 * g + m2 * b;
+        data[i + 1] = m3 * r + m4 * g + m5 * b;
+        data[i + 2] = m6 * r + m7 * g + m8 * b;
+    }
+
+    const sigma = getBlurSigma(adjustments, width, height);
+    if (sigma > 0) {
+        forEachChannel(pixels, [0, 1, 2, 3], channel => gaussianBlurChannel(channel, width, height, sigma));
+    }
+
+    const amount = getSharpenAmount(adjustments);
+    if (amount > 0) {
+        forEachChannel(pixels, [0, 1, 2], (channel) => {
+            const soft = channel.slice();
+            gaussianBlurChannel(soft, width, height, SHARPEN_SIGMA);
+            for (let p = 0; p < channel.length; p++) {
+                channel[p] = (1 + amount) * channel[p] - amount * soft[p];
+            }
+        });
+    }
+};
+
+// --- Channel tables: curves and levels ---------------------------------------------------------
+// Both tools are pure per-channel lookups, so they reduce to one 256-entry table per channel.
+// The preview feeds the same tables to feComponentTransfer.
+
+export type ChannelTables = {
+    red: Uint8Array;
+    green: Uint8Array;
+    blue: Uint8Array;
+};
+
+export const identityTable = (): Uint8Array => {
+    const table = new Uint8Array(256);
+    for (let level = 0; level < 256; level++) table[level] = level;
+    return table;
+};
+
+export const isIdentityTables = (tables: ChannelTables): boolean =>
+    [tables.red, tables.green, tables.blue].every(table => table.every((value, level) => value === level));
+
+/**
+ * Applies per-channel lookup tables to the pixels in place. Alpha is left alone.
+ */
+export const applyChannelTables = (pixels: PixelBuffer, { red, green, blue }: ChannelTables): void => {
+    const { data } = pixels;
+    for (let i = 0; i < data.length; i += 4) {
+        data[i] = red[data[i]];
+        data[i + 1] = green[data[i + 1]];
+        data[i + 2] = blue[data[i + 2]];
+    }
+};
+
+// A curve control point; both coordinates are 8-bit levels.
+export type CurvePoint = { x: number; y: number };
+export type CurveChannel = 'rgb' | 'red' | 'green' | 'blue';
+export type Curves = Record<CurveChannel, CurvePoint[]>;
+
+export const IDENTITY_CURVE: CurvePoint[] = [{ x: 0, y: 0 }, { x: 255, y: 255 }];
+
+export const DEFAULT_CURVES: Curves = { rgb: IDENTITY_CURVE, red: IDENTITY_CURVE, green: IDENTITY_CURVE, blue: IDENTITY_CURVE };
+
+/**
+ * Interpolates a curve through its control points with a monotone cubic (Fritsch-Carlson), which
+ * never overshoots between points. Levels beyond the first and last points are held flat.
+ */
+export const buildCurveTable = (points: CurvePoint[]): Uint8Array => {
+    const sorted = [...points].sort((a, b) => a.x - b.x);
+    const table = new Uint8Array(256);
+    const n = sorted.length;
+    if (n === 0) return identityTable();
+    if (n === 1) return table.fill(Math.round(sorted[0].y));
+
+    const slopes: number[] = [];
+    for (let i = 0; i < n - 1; i++) {
+        const dx = sorted[i + 1].x - sorted[i].x;
+        slopes.push(dx === 0 ? 0 : (sorted[i + 1].y - sorted[i].y) / dx);
+    }
+    const tangents = sorted.map((_, i) => {
+        if (i === 0) return slopes[0];
+        if (i === n - 1) return slopes[n - 2];
+        return slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2;
+    });
+    for (let i = 0; i < n - 1; i++) {
+        if (slopes[i] === 0) {
+            tangents[i] = 0;
+            tangents[i + 1] = 0;
+            continue;
+        }
+        const a = tangents[i] / slopes[i];
+        const b = tangents[i + 1] / slopes[i];
+        const h = a * a + b * b;
+        if (h > 9) {
+            const t = 3 / Math.sqrt(h);
+            tangents[i] = t * a * slopes[i];
+            tangents[i + 1] = t * b * slopes[i];
+        }
+    }
+
+    let segment = 0;
+    for (let level = 0; level < 256; level++) {
+        let y: number;
+        if (level <= sorted[0].x) {
+            y = sorted[0].y;
+        } else if (level >= sorted[n - 1].x) {
+            y = sorted[n - 1].y;
+        } else {
+            while (level > sorted[segment + 1].x) segment++;
+            const p0 = sorted[segment];
+            const p1 = sorted[segment + 1];
+            const dx = p1.x - p0.x;
+            const t = (level - p0.x) / dx;
+            const t2 = t * t;
+            const t3 = t2 * t;
+            y = (2 * t3 - 3 * t2 + 1) * p0.y + (t3 - 2 * t2 + t) * dx * tangents[segment]
+                + (-2 * t3 + 3 * t2) * p1.y + (t3 - t2) * dx * tangents[segment + 1];
+        }
+        table[level] = Math.round(Math.min(255, Math.max(0, y)));
+    }
+    return table;
+};
+
+/**
+ * Tables for a full curves setting: each channel's own curve, then the shared RGB curve.
+ */
+export const curvesToTables = (curves: Curves): ChannelTables => {
+    const rgb = buildCurveTable(curves.rgb);
+    const compose = (points: CurvePoint[]) => buildCurveTable(points).map(level => rgb[level]);
+    return { red: compose(curves.red), green: compose(curves.green), blue: compose(curves.blue) };
+};
+
+export type Levels = {
+    inputBlack: number;
+    inputWhite: number;
+    // Midtone gamma; above 1 brightens.
+    gamma: number;
+    outputBlack: number;
+    outputWhite: number;
+};
+
+export const DEFAULT_LEVELS: Levels = { inputBlack: 0, inputWhite: 255, gamma: 1, outputBlack: 0, outputWhite: 255 };
+
+export const isDefaultLevels = (levels: Levels): boolean =>
+    (Object.keys(DEFAULT_LEVELS) as (keyof Levels)[]).every(key => levels[key] === DEFAULT_LEVELS[key]);
+
+export const buildLevelsTable = ({ inputBlack, inputWhite, gamma, outputBlack, outputWhite }: Levels): Uint8Array => {
+    const table = new Uint8Array(256);
+    const range = Math.max(1, inputWhite - inputBlack);
+    for (let level = 0; level < 256; level++) {
+        const v = Math.pow(clamp01((level - inputBlack) / range), 1 / gamma);
+        table[level] = Math.round(outputBlack + v * (outputWhite - outputBlack));
+    }
+    return table;
+};
+
+export const levelsToTables = (levels: Levels): ChannelTables => {
+    const table = buildLevelsTable(levels);
+    return { red: table, green: table.slice(), blue: table.slice() };
+};
+
+// --- Histogram ---------------------------------------------------------------------------------
+
+export type ChannelHistogram = {
+    red: Uint32Array;
+    green: Uint32Array;
+    blue: Uint32Array;
+};
+
+export type Histogram = ChannelHistogram & {
+    // Rec. 709 luma of each pixel, rounded to a level.
+    luma: Uint32Array;
+};
+
+/**
+ * Counts pixels per level for each channel and for luma. Fully transparent pixels are skipped.
+ */
+export const computeHistogram = ({ data }: PixelBuffer): Histogram => {
+    const histogram: Histogram = { red: new Uint32Array(256), green: new Uint32Array(256), blue: new Uint32Array(256), luma: new Uint32Array(256) };
+    for (let i = 0; i < data.length; i += 4) {
+        if (data[i + 3] === 0) continue;
+        const r = data[i];
+        const g = data[i + 1];
+        const b = data[i + 2];
+        histogram.red[r]++;
+        histogram.green[g]++;
+        histogram.blue[b]++;
+        histogram.luma[Math.round(0.2126 * r + 0.7152 * g + 0.0722 * b)]++;
+    }
+    return histogram;
+};
+
+/**
+ * The exact per-channel histogram of an image after `tables` is applied, without touching its pixels.
+ */
+export const remapHistogram = (histogram: ChannelHistogram, tables: ChannelTables): ChannelHistogram => {
+    const remap = (counts: Uint32Array, table: Uint8Array) => {
+        const result = new Uint32Array(256);
+        for (let level = 0; level < 256; level++) result[table[level]] += counts[level];
+        return result;
+    };
+    return { red: remap(histogram.red, tables.red), green: remap(histogram.green, tables.green), blue: remap(histogram.blue, tables.blue) };
+};
+
+// --- Clipping ----------------------------------------------------------------------------------
+
+export const CLIPPED_HIGHLIGHT_COLOR: [number, number, number] = [255, 0, 0];
+export const CLIPPED_SHADOW_COLOR: [number, number, number] = [0, 96, 255];
+
+/**
+ * Replaces the pixels with an overlay that is opaque where any channel is clipped to pure white
+ * (highlights) or pure black (shadows), and transparent everywhere else.
+ */
+export const paintClippingOverlay = (pixels: PixelBuffer, { highlights, shadows }: { highlights: boolean; shadows: boolean }): void => {
+    const { data } = pixels;
+    for (let i = 0; i < data.length; i += 4) {
+        const r = data[i];
+        const g = data[i + 1];
+        const b = data[i + 2];
+        const visible = data[i + 3] > 0;
+        const color = visible && highlights && (r === 255 || g === 255 || b === 255) ? CLIPPED_HIGHLIGHT_COLOR
+            : visible && shadows && (r === 0 || g === 0 || b === 0) ? CLIPPED_SHADOW_COLOR
+            : null;
+        if (color) {
+            data[i] = color[0];
+            data[i + 1] = color[1];
+            data[i + 2] = color[2];
+            data[i + 3] = 255;
+        } else {
+            data[i + 3] = 0;
+        }
+    }
+};
+
+// --- Eyedropper corrections --------------------------------------------------------------------
+
+export type EyedropperTarget = 'white' | 'black' | 'gray';
+
+// A white reference darker than this, or a black reference brighter than this, can't be a
+// sensible anchor; stretching to it would blow out or crush most of the image.
+const MIN_WHITE_REFERENCE = 32;
+const MAX_BLACK_REFERENCE = 192;
+const MAX_NEUTRALIZING_GAMMA = 4;
+
+/**
+ * Per-channel tables that map a picked color exactly to pure white, pure black, or a neutral
+ * gray of the same luma. White and black stretch each channel's levels; gray bends each channel's
+ * gamma, which keeps pure black and white in place. Returns null when the color can't be used as
+ * that kind of reference (e.g. a clipped channel for gray).
+ */
+export const eyedropperTables = (target: EyedropperTarget, rgb: [number, number, number]): ChannelTables | null => {
+    let tables: Uint8Array[];
+    switch (target) {
+        case 'white':
+            if (Math.min(...rgb) < MIN_WHITE_REFERENCE) return null;
+            tables = rgb.map(c => buildLevelsTable({ ...DEFAULT_LEVELS, inputWhite: Math.max(2, c) }));
+            break;
+        case 'black':
+            if (Math.max(...rgb) > MAX_BLACK_REFERENCE) return null;
+            tables = rgb.map(c => buildLevelsTable({ ...DEFAULT_LEVELS, inputBlack: Math.min(253, c) }));
+            break;
+        case 'gray': {
+            if (rgb.some(c => c <= 0 || c >= 255)) return null;
+            const luma = (0.2126 * rgb[0] + 0.7152 * rgb[1] + 0.0722 * rgb[2]) / 255;
+            const gammas = rgb.map(c => Math.log(c / 255) / Math.log(luma));
+            if (gammas.some(g => !Number.isFinite(g) || g > MAX_NEUTRALIZING_GAMMA || g < 1 / MAX_NEUTRALIZING_GAMMA)) return null;
+            tables = gammas.map(gamma => buildLevelsTable({ ...DEFAULT_LEVELS, gamma }));
+            break;
+        }
+    }
+    return { red: tables[0], green: tables[1], blue: tables[2] };
+};
+
+// --- Luma-indexed offsets ----------------------------------------------------------------------
+// Color shifts that depend only on a pixel's luma, such as the color wheels and split toning,
+// reduce to one offset table per channel indexed by 8-bit luma, which the preview reproduces
+// with an SVG filter.
+
+// Offsets are stored around this bias so the preview's table can hold negative shifts.
+export const LUMA_OFFSET_BIAS = 128;
+
+export type LumaOffsets = {
+    red: Int16Array;
+    green: Int16Array;
+    blue: Int16Array;
+};
+
+/**
+ * Offsets in 8-bit levels for each channel, indexed by 8-bit luma, from the per-channel shift
+ * (a fraction of full scale) at each luma in 0..1. Limited to what the preview's biased table
+ * can represent.
+ */
+export const buildLumaOffsets = (shiftAt: (luma: number) => [number, number, number]): LumaOffsets => {
+    const tables = [new Int16Array(256), new Int16Array(256), new Int16Array(256)];
+    for (let level = 0; level < 256; level++) {
+        const shift = shiftAt(level / 255);
+        for (let c = 0; c < 3; c++) {
+            tables[c][level] = Math.min(255 - LUMA_OFFSET_BIAS, Math.max(-LUMA_OFFSET_BIAS, Math.round(shift[c] * 255)));
+        }
+    }
+    return { red: tables[0], green: tables[1], blue: tables[2] };
+};
+
+/**
+ * Adds luma-indexed offsets to the pixels in place.
+ */
+export const applyLumaOffsets = ({ data }: PixelBuffer, { red, green, blue }: LumaOffsets): void => {
+    for (let i = 0; i < data.length; i += 4) {
+        const luma = Math.round(0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2]);
+        data[i] = data[i] + red[luma];
+        data[i + 1] = data[i + 1] + green[luma];
+        data[i + 2] = data[i + 2] + blue[luma];
+    }
+};
+
+// --- Three-way color wheels --------------------------------------------------------------------
+// Lift, gamma and gain as on a grading panel, each confined to a tonal range picked by luma:
+// lift offsets the shadows, gamma bends the midtones with a power curve and gain multiplies the
+// highlights. Every shift is computed from the pixel's luma rather than its channel values, so a
+// tint in one range leaves the others alone and the wheels reduce to luma-indexed offsets.
+
+export type ColorWheel = {
+    // Position of the puck in the unit disk; the angle picks the hue, the distance the strength.
+    x: number;
+    y: number;
+    // -100..100: brightness shift of the range.
+    luminance: number;
+};
+
+export type ColorWheelRange = 'lift' | 'gamma' | 'gain';
+export type ColorWheels = Record<ColorWheelRange, ColorWheel>;
+
+export const NEUTRAL_COLOR_WHEEL: ColorWheel = { x: 0, y: 0, luminance: 0 };
+export const NEUTRAL_COLOR_WHEELS: ColorWheels = { lift: NEUTRAL_COLOR_WHEEL, gamma: NEUTRAL_COLOR_WHEEL, gain: NEUTRAL_COLOR_WHEEL };
+
+// Hue angles (degrees, counter-clockwise from the right) that push each channel hardest.
+export const WHEEL_CHANNEL_ANGLES = [0, 120, 240];
+
+// Largest shift, as a fraction of full scale, at the edge of a wheel or the end of its slider.
+const MAX_WHEEL_COLOR = 0.2;
+const MAX_WHEEL_LUMINANCE = 0.25;
+
+export const isNeutralColorWheels = (wheels: ColorWheels): boolean =>
+    Object.values(wheels).every(w => w.x === 0 && w.y === 0 && w.luminance === 0);
+
+/**
+ * The per-channel shift of one wheel as a fraction of full scale: a zero-sum color push in the
+ * wheel's direction plus its luminance. It is how far the wheel moves black (lift), mid grey
+ * (gamma) or white (gain) in each channel.
+ */
+export const colorWheelShift = ({ x, y, luminance }: ColorWheel): [number, number, number] => {
+    const strength = Math.min(1, Math.hypot(x, y)) * MAX_WHEEL_COLOR;
+    const angle = Math.atan2(y, x);
+    const lum = luminance / 100 * MAX_WHEEL_LUMINANCE;
+    return WHEEL_CHANNEL_ANGLES.map(a => strength * Math.cos(angle - a * Math.PI / 180) + lum) as [number, number, number];
+};
+
+// Where gamma may move mid grey to, so the exponent stays finite and positive.
+const MIN_GAMMA_MIDPOINT = 0.05;
+const MAX_GAMMA_MIDPOINT = 0.95;
+
+// Shadows fade out and highlights fade in over these luma spans; midtones fill the rest.
+const SHADOWS_END = 0.5;
+const HIGHLIGHTS_START = 0.5;
+
+const smoothstep = (edge0: number, edge1: number, x: number): number => {
+    const t = Math.min(1, Math.max(0, (x - edge0) / (edge1 - edge0)));
+    return t * t * (3 - 2 * t);
+};
+
+/**
+ * How much of each range applies at a luma in 0..1. The three masks are smooth and sum to 1:
+ * lift is gone above mid grey, gain below it, and gamma is strongest at mid grey itself.
+ */
+export const colorWheelWeights = (luma: number): Record<ColorWheelRange, number> => {
+    const lift = 1 - smoothstep(0, SHADOWS_END, luma);
+    const gain = smoothstep(HIGHLIGHTS_START, 1, luma);
+    return { lift, gamma: Math.max(0, 1 - lift - gain), gain };
+};
+
+/**
+ * The per-channel offsets of the wheels at each luma. Lift adds its shift, fading towards white;
+ * gamma raises luma to the power that takes mid grey to 0.5 plus its shift; gain scales luma by
+ * 1 plus its shift. Each result is weighted by its range's mask.
+ */
+export const buildColorWheelOffsets = (wheels: ColorWheels): LumaOffsets => {
+    const lift = colorWheelShift(wheels.lift);
+    const gamma = colorWheelShift(wheels.gamma);
+    const gain = colorWheelShift(wheels.gain);
+    const exponents = gamma.map(shift =>
+        Math.log(Math.min(MAX_GAMMA_MIDPOINT, Math.max(MIN_GAMMA_MIDPOINT, 0.5 + shift))) / Math.log(0.5));
+    return buildLumaOffsets(luma => {
+        const weights = colorWheelWeights(luma);
+        return [0, 1, 2].map(c =>
+            weights.lift * lift[c] * (1 - luma)
+            + weights.gamma * (Math.pow(luma, exponents[c]) - luma)
+            + weights.gain * gain[c] * luma
+        ) as [number, number, number];
+    });
+};
+
+/**
+ * Applies the color wheels to the pixels in place.
+ */
+export const applyColorWheels = (pixels: PixelBuffer, wheels: ColorWheels): void =>
+    applyLumaOffsets(pixels, buildColorWheelOffsets(wheels));
@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { applyAdjustments, applyChannelTables, applyColorWheels, computeHistogram, paintClippingOverlay, type ChannelTables, type ColorWheels, type Histogram, type PixelAdjustments, type PixelBuffer } from './pixelEngine.ts';
+import { applyLut, fitLut, type Lut3D, type LutOptions } from './lut.ts';
+import { applyGrain, applyUnsharpMask, applyVignette, type GrainParams, type UnsharpMaskParams, type VignetteParams } from './effects.ts';
+import { applyLocalContrast, type LocalContrastParams } from './localContrast.ts';
+import { applyNoiseReduction, type NoiseReductionParams } from './noiseReduction.ts';
+import { warpPerspective, type Homography } from './perspective.ts';
+import { applyLensCorrection, type LensCorrection } from './lensCorrection.ts';
+import { applyBlackAndWhite, applyHsl, applySplitToning, type BlackAndWhiteMix, type HslAdjustments, type SplitToning } from './colorMixer.ts';
+
+export type PixelOperation =
+    | { type: 'adjust'; adjustments: PixelAdjustments }
+    | { type: 'tables'; tables: ChannelTables }
+    | { type: 'colorWheels'; wheels: ColorWheels }
+    | { type: 'hsl'; hsl: HslAdjustments }
+    | { type: 'blackAndWhite'; mix: BlackAndWhiteMix }
+    | { type: 'splitToning'; toning: SplitToning }
+    // Reads the pixels without changing them.
+    | { type: 'histogram' }
+    | { type: 'clipping'; highlights: boolean; shadows: boolean }
+    | { type: 'lut'; lut: Lut3D; options: LutOptions }
+    // Reads the pixels as the "before" image and fits a LUT that turns them into `target`.
+    | { type: 'fitLut'; target: ArrayBuffer; title: string }
+    | { type: 'vignette'; params: VignetteParams }
+    | { type: 'grain'; params: GrainParams }
+    | { type: 'unsharpMask'; params: UnsharpMaskParams }
+    | { type: 'localContrast'; params: LocalContrastParams }
+    | { type: 'noiseReduction'; params: NoiseReductionParams }
+    | { type: 'perspective'; correction: Homography }
+    | { type: 'lensCorrection'; correction: LensCorrection };
+
+// What an operation reports back besides the pixels.
+type OperationResult = { histogram?: Histogram; lut?: Lut3D };
+
+export type PixelEngineRequest = {
+    id: number;
+    width: number;
+    height: number;
+    buffer: ArrayBuffer;
+    operation: PixelOperation;
+};
+
+export type PixelEngineResponse =
+    | ({ id: number; buffer: ArrayBuffer } & OperationResult)
+    | { id: number; error: string };
+
+const runOperation = (pixels: PixelBuffer, operation: PixelOperation): OperationResult => {
+    switch (operation.type) {
+        case 'adjust':
+            applyAdjustments(pixels, operation.adjustments);
+            return {};
+        case 'tables':
+            applyChannelTables(pixels, operation.tables);
+            return {};
+        case 'colorWheels':
+            applyColorWheels(pixels, operation.wheels);
+            return {};
+        case 'hsl':
+            applyHsl(pixels, operation.hsl);
+            return {};
+        case 'blackAndWhite':
+            applyBlackAndWhite(pixels, operation.mix);
+            return {};
+        case 'splitToning':
+            applySplitToning(pixels, operation.toning);
+            return {};
+        case 'histogram':
+            return { histogram: computeHistogram(pixels) };
+        case 'clipping':
+            paintClippingOverlay(pixels, operation);
+            return {};
+        case 'lut':
+            applyLut(pixels, operation.lut, operation.options);
+            return {};
+        case 'fitLut': {
+            const target = { data: new Uint8ClampedArray(operation.target), width: pixels.width, height: pixels.height };
+            return { lut: fitLut(pixels, target, operation.title) };
+        }
+        case 'vignette':
+            applyVignette(pixels, operation.params);
+            return {};
+        case 'grain':
+            applyGrain(pixels, operation.params);
+            return {};
+        case 'unsharpMask':
+            applyUnsharpMask(pixels, operation.params);
+            return {};
+        case 'localContrast':
+            applyLocalContrast(pixels, operation.params);
+            return {};
+        case 'noiseReduction':
+            applyNoiseReduction(pixels, operation.params);
+            return {};
+        case 'perspective':
+            warpPerspective(pixels, operation.correction);
+            return {};
+        case 'lensCorrection':
+            applyLensCorrection(pixels, operation.correction);
+            return {};
+    }
+};
+
+// Processes one image per message. The pixel buffer is transferred in both directions, never copied.
+self.onmessage = (event: MessageEvent<PixelEngineRequest>) => {
+    const { id, width, height, buffer, operation } = event.data;
+    try {
+        const result = runOperation({ data: new Uint8ClampedArray(buffer), width, height }, operation);
+        const response: PixelEngineResponse = { id, buffer, ...result };
+        self.postMessage(response, { transfer: result.lut ? [buffer, result.lut.data.buffer as ArrayBuffer] : [buffer] });
+    } catch (e) {
+        const response: PixelEngineResponse = { id, error: e instanceof Error ? e.message : String(e) };
+        self.postMessage(response);
+    }
+};
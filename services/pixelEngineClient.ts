@@ -0,0 +1,300 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { loadImageSource } from './compositing.ts';
+import type { ChannelTables, ColorWheels, Histogram, PixelAdjustments } from './pixelEngine.ts';
+import type { Lut3D, LutOptions } from './lut.ts';
+import type { GrainParams, UnsharpMaskParams, VignetteParams } from './effects.ts';
+import type { LocalContrastParams } from './localContrast.ts';
+import type { NoiseReductionParams } from './noiseReduction.ts';
+import type { Homography } from './perspective.ts';
+import type { LensCorrection } from './lensCorrection.ts';
+import type { BlackAndWhiteMix, HslAdjustments, SplitToning } from './colorMixer.ts';
+import type { PixelEngineRequest, PixelEngineResponse, PixelOperation } from './pixelEngine.worker.ts';
+
+// Runs the local pixel engine off the main thread, so large images don't freeze the UI.
+
+type WorkerResult = { buffer: ArrayBuffer; histogram?: Histogram; lut?: Lut3D };
+type PendingJob = { resolve: (result: WorkerResult) => void; reject: (reason: unknown) => void };
+
+let worker: Worker | null = null;
+let nextJobId = 0;
+const pendingJobs = new Map<number, PendingJob>();
+
+const getWorker = (): Worker => {
+    if (worker) return worker;
+    worker = new Worker(new URL('./pixelEngine.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<PixelEngineResponse>) => {
+        const job = pendingJobs.get(event.data.id);
+        if (!job) return; // Cancelled while running.
+        pendingJobs.delete(event.data.id);
+        if ('error' in event.data) {
+            job.reject(new Error(event.data.error));
+        } else {
+            job.resolve(event.data);
+        }
+    };
+    worker.onerror = (event) => {
+        // A crashed worker can't be trusted with further jobs; fail everything and start fresh next time.
+        const error = new Error(`The pixel engine stopped unexpectedly. ${event.message}`);
+        pendingJobs.forEach(job => job.reject(error));
+        pendingJobs.clear();
+        worker?.terminate();
+        worker = null;
+    };
+    return worker;
+};
+
+const runInWorker = (pixels: ImageData, operation: PixelOperation, signal?: AbortSignal): Promise<{ pixels: ImageData; histogram?: Histogram; lut?: Lut3D }> => {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    const { width, height } = pixels;
+    const buffer = pixels.data.buffer as ArrayBuffer;
+    const id = nextJobId++;
+    return new Promise<WorkerResult>((resolve, reject) => {
+        pendingJobs.set(id, { resolve, reject });
+        signal?.addEventListener('abort', () => {
+            if (pendingJobs.delete(id)) reject(signal.reason);
+        }, { once: true });
+        const request: PixelEngineRequest = { id, width, height, buffer, operation };
+        getWorker().postMessage(request, operation.type === 'fitLut' ? [buffer, operation.target] : [buffer]);
+    }).then(result => ({ pixels: new ImageData(new Uint8ClampedArray(result.buffer), width, height), histogram: result.histogram, lut: result.lut }));
+};
+
+const readPixels = async (source: File | string): Promise<CanvasRenderingContext2D> => {
+    const image = await loadImageSource(source);
+    const canvas = document.createElement('canvas');
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Could not get canvas context for the pixel engine.');
+    ctx.drawImage(image, 0, 0);
+    return ctx;
+};
+
+// Draws an image at the given size and reads back its pixels.
+const drawScaled = (image: HTMLImageElement, width: number, height: number): ImageData => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Could not get canvas context for the pixel engine.');
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(image, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height);
+};
+
+// Runs a pixel-changing operation at full resolution and returns the result as a PNG data URL.
+const transformPixels = async (source: File | string, operation: PixelOperation, signal?: AbortSignal): Promise<string> => {
+    const ctx = await readPixels(source);
+    const { width, height } = ctx.canvas;
+    const { pixels } = await runInWorker(ctx.getImageData(0, 0, width, height), operation, signal);
+    ctx.putImageData(pixels, 0, 0);
+    return ctx.canvas.toDataURL('image/png');
+};
+
+/**
+ * Applies the slider adjustments to an image at full resolution and returns a PNG data URL.
+ * The output is exactly what the live preview filter shows.
+ */
+export const applyPixelAdjustments = (source: File | string, adjustments: PixelAdjustments, signal?: AbortSignal): Promise<string> =>
+    transformPixels(source, { type: 'adjust', adjustments }, signal);
+
+/**
+ * Applies per-channel lookup tables (curves, levels) to an image and returns a PNG data URL.
+ */
+export const applyChannelTablesToImage = (source: File | string, tables: ChannelTables, signal?: AbortSignal): Promise<string> =>
+    transformPixels(source, { type: 'tables', tables }, signal);
+
+/**
+ * Applies lift/gamma/gain color wheels to an image and returns a PNG data URL, matching the live preview.
+ */
+export const applyColorWheelsToImage = (source: File | string, wheels: ColorWheels, signal?: AbortSignal): Promise<string> =>
+    transformPixels(source, { type: 'colorWheels', wheels }, signal);
+
+/**
+ * Applies the HSL mixer to an image and returns a PNG data URL.
+ */
+export const applyHslToImage = (source: File | string, hsl: HslAdjustments, signal?: AbortSignal): Promise<string> =>
+    transformPixels(source, { type: 'hsl', hsl }, signal);
+
+/**
+ * Converts an image to black and white with the given channel mix and returns a PNG data URL.
+ */
+export const applyBlackAndWhiteToImage = (source: File | string, mix: BlackAndWhiteMix, signal?: AbortSignal): Promise<string> =>
+    transformPixels(source, { type: 'blackAndWhite', mix }, signal);
+
+/**
+ * Tints the highlights and shadows of an image and returns a PNG data URL, matching the live preview.
+ */
+export const applySplitToningToImage = (source: File | string, toning: SplitToning, signal?: AbortSignal): Promise<string> =>
+    transformPixels(source, { type: 'splitToning', toning }, signal);
+
+/**
+ * Applies a 3D LUT to an image and returns a PNG data URL. The same LUT and options always give the same pixels.
+ */
+export const applyLutToImage = (source: File | string, lut: Lut3D, options: LutOptions, signal?: AbortSignal): Promise<string> =>
+    transformPixels(source, { type: 'lut', lut, options }, signal);
+
+/**
+ * Darkens or lightens the edges of an image and returns a PNG data URL.
+ */
+export const applyVignetteToImage = (source: File | string, params: VignetteParams, signal?: AbortSignal): Promise<string> =>
+    transformPixels(source, { type: 'vignette', params }, signal);
+
+/**
+ * Adds film grain to an image and returns a PNG data URL. The same seed gives the same grain.
+ */
+export const applyGrainToImage = (source: File | string, params: GrainParams, signal?: AbortSignal): Promise<string> =>
+    transformPixels(source, { type: 'grain', params }, signal);
+
+/**
+ * Sharpens an image with an unsharp mask and returns a PNG data URL.
+ */
+export const applyUnsharpMaskToImage = (source: File | string, params: UnsharpMaskParams, signal?: AbortSignal): Promise<string> =>
+    transformPixels(source, { type: 'unsharpMask', params }, signal);
+
+/**
+ * Applies clarity and dehaze to an image and returns a PNG data URL.
+ */
+export const applyLocalContrastToImage = (source: File | string, params: LocalContrastParams, signal?: AbortSignal): Promise<string> =>
+    transformPixels(source, { type: 'localContrast', params }, signal);
+
+/**
+ * Reduces luminance and color noise in an image and returns a PNG data URL.
+ */
+export const applyNoiseReductionToImage = (source: File | string, params: NoiseReductionParams, signal?: AbortSignal): Promise<string> =>
+    transformPixels(source, { type: 'noiseReduction', params }, signal);
+
+/**
+ * Warps an image by a perspective correction (see `buildCorrection`) and returns a PNG data URL
+ * the size of the source, transparent where the corrected image doesn't reach.
+ */
+export const applyPerspectiveToImage = (source: File | string, correction: Homography, signal?: AbortSignal): Promise<string> =>
+    transformPixels(source, { type: 'perspective', correction }, signal);
+
+/**
+ * Corrects lens distortion, chromatic aberration and vignetting and returns a PNG data URL.
+ */
+export const applyLensCorrectionToImage = (source: File | string, correction: LensCorrection, signal?: AbortSignal): Promise<string> =>
+    transformPixels(source, { type: 'lensCorrection', correction }, signal);
+
+/**
+ * A transparent PNG, the size of the image, that marks clipped highlights and shadows.
+ */
+export const computeClippingOverlay = (source: File | string, which: { highlights: boolean; shadows: boolean }, signal?: AbortSignal): Promise<string> =>
+    transformPixels(source, { type: 'clipping', ...which }, signal);
+
+/**
+ * Counts the levels of every pixel in an image at full resolution.
+ */
+export const computeImageHistogram = async (source: File | string, signal?: AbortSignal): Promise<Histogram> => {
+    const ctx = await readPixels(source);
+    const { histogram } = await runInWorker(ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height), { type: 'histogram' }, signal);
+    if (!histogram) throw new Error('The pixel engine did not return a histogram.');
+    return histogram;
+};
+
+// Long side the before/after pair is scaled to for fitting. Plenty of samples for a 33-point
+// lattice, and it evens out small misalignments in generated images.
+const LUT_FIT_MAX_SIDE = 1024;
+
+/**
+ * Fits a 3D LUT that reproduces the color change from `before` to `after`. The images are
+ * compared pixel for pixel, so `after` is scaled to the size of `before` if they differ.
+ */
+export const fitLutFromImages = async (before: File | string, after: File | string, title: string, signal?: AbortSignal): Promise<Lut3D> => {
+    const [beforeImage, afterImage] = await Promise.all([loadImageSource(before), loadImageSource(after)]);
+    const fit = Math.min(1, LUT_FIT_MAX_SIDE / Math.max(beforeImage.naturalWidth, beforeImage.naturalHeight));
+    const width = Math.max(1, Math.round(beforeImage.naturalWidth * fit));
+    const height = Math.max(1, Math.round(beforeImage.naturalHeight * fit));
+    const target = drawScaled(afterImage, width, height).data.buffer as ArrayBuffer;
+    const { lut } = await runInWorker(drawScaled(beforeImage, width, height), { type: 'fitLut', target, title }, signal);
+    if (!lut) throw new Error('The pixel engine did not return a LUT.');
+    return lut;
+};
+
+// Long side of the copy live previews are rendered from. Enough for a sharp preview on most
+// screens while keeping each render quick enough to follow a slider.
+const PREVIEW_MAX_SIDE = 1280;
+
+/**
+ * A downscaled copy of an image's pixels, for previewing operations that SVG filters can't
+ * express. Render it with `renderPreview`, which leaves it untouched.
+ */
+export const createPreviewSource = async (source: File | string, maxSide = PREVIEW_MAX_SIDE): Promise<ImageData> => {
+    const image = await loadImageSource(source);
+    const fit = Math.min(1, maxSide / Math.max(image.naturalWidth, image.naturalHeight));
+    return drawScaled(image, Math.max(1, Math.round(image.naturalWidth * fit)), Math.max(1, Math.round(image.naturalHeight * fit)));
+};
+
+/**
+ * A square of an image's pixels at full resolution, centred on `center` (0-1 across the image)
+ * and kept inside it, for previews that have to be judged at 1:1. Render it with `renderPreview`.
+ */
+export const createPreviewCrop = async (source: File | string, center: { x: number; y: number }, size: number): Promise<ImageData> => {
+    const image = await loadImageSource(source);
+    const width = Math.min(size, image.naturalWidth);
+    const height = Math.min(size, image.naturalHeight);
+    const left = Math.round(Math.min(Math.max(center.x * image.naturalWidth - width / 2, 0), image.naturalWidth - width));
+    const top = Math.round(Math.min(Math.max(center.y * image.naturalHeight - height / 2, 0), image.naturalHeight - height));
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Could not get canvas context for the pixel engine.');
+    ctx.drawImage(image, left, top, width, height, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height);
+};
+
+/**
+ * Runs an operation on a preview source and returns the result as a PNG data URL, at the
+ * source's size. It is stretched over the displayed image, so it needn't match its resolution.
+ */
+export const renderPreview = async (preview: ImageData, operation: PixelOperation, signal?: AbortSignal): Promise<string> => {
+    const { width, height } = preview;
+    // The worker takes ownership of the buffer it is given, so send a copy.
+    const { pixels } = await runInWorker(new ImageData(new Uint8ClampedArray(preview.data), width, height), operation, signal);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context for the pixel engine.');
+    ctx.putImageData(pixels, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+export type PixelSampler = {
+    // The 8-bit RGB color at a pixel in natural image coordinates, averaged over a `size` x `size`
+    // square centred on it (1 reads the single pixel). The square is clipped to the image.
+    sample: (x: number, y: number, size?: number) => [number, number, number];
+};
+
+/**
+ * Decodes an image once so individual pixels can be read synchronously, e.g. under the cursor.
+ */
+export const createPixelSampler = async (source: File | string): Promise<PixelSampler> => {
+    const ctx = await readPixels(source);
+    const { width, height } = ctx.canvas;
+    const { data } = ctx.getImageData(0, 0, width, height);
+    return {
+        sample: (x, y, size = 1) => {
+            const cx = Math.min(width - 1, Math.max(0, Math.floor(x)));
+            const cy = Math.min(height - 1, Math.max(0, Math.floor(y)));
+            const half = Math.floor(size / 2);
+            const sum = [0, 0, 0];
+            let count = 0;
+            for (let py = Math.max(0, cy - half); py <= Math.min(height - 1, cy + half); py++) {
+                for (let px = Math.max(0, cx - half); px <= Math.min(width - 1, cx + half); px++) {
+                    const i = (py * width + px) * 4;
+                    sum[0] += data[i];
+                    sum[1] += data[i + 1];
+                    sum[2] += data[i + 2];
+                    count++;
+                }
+            }
+            return [Math.round(sum[0] / count), Math.round(sum[1] / count), Math.round(sum[2] / count)];
+        },
+    };
+};
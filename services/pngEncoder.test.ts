@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { inflateSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { createPngWriter } from './pngEncoder.ts';
+
+type Chunk = { type: string; data: Uint8Array };
+
+const readChunks = (bytes: Uint8Array): Chunk[] => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const chunks: Chunk[] = [];
+    for (let offset = 8; offset < bytes.length;) {
+        const length = view.getUint32(offset);
+        const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+        chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length) });
+        offset += 12 + length;
+    }
+    return chunks;
+};
+
+// Reverses the Sub filter the writer uses on every row.
+const unfilter = (raw: Uint8Array, width: number, height: number): Uint8Array => {
+    const rowBytes = width * 4;
+    const out = new Uint8Array(rowBytes * height);
+    for (let row = 0; row < height; row++) {
+        expect(raw[row * (rowBytes + 1)]).toBe(1);
+        for (let i = 0; i < rowBytes; i++) {
+            const value = raw[row * (rowBytes + 1) + 1 + i];
+            out[row * rowBytes + i] = (value + (i < 4 ? 0 : out[row * rowBytes + i - 4])) & 0xff;
+        }
+    }
+    return out;
+};
+
+const gradient = (width: number, rows: number, firstRow: number): Uint8ClampedArray => {
+    const data = new Uint8ClampedArray(width * rows * 4);
+    for (let y = 0; y < rows; y++) {
+        const row = firstRow + y;
+        for (let x = 0; x < width; x++) {
+            data.set([x * 40, row * 60, (x * 7 + row * 13) % 256, 255 - x], (y * width + x) * 4);
+        }
+    }
+    return data;
+};
+
+describe('createPngWriter', () => {
+    it('writes a valid PNG whose rows match the bands written', async () => {
+        const writer = createPngWriter(5, 4);
+        await writer.writeRows(gradient(5, 1, 0));
+        await writer.writeRows(gradient(5, 3, 1));
+        const blob = await writer.finish();
+        expect(blob.type).toBe('image/png');
+
+        const bytes = new Uint8Array(await blob.arrayBuffer());
+        expect(Array.from(bytes.subarray(0, 8))).toEqual([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+        const chunks = readChunks(bytes);
+        expect(chunks[0].type).toBe('IHDR');
+        expect(Array.from(chunks[0].data)).toEqual([0, 0, 0, 5, 0, 0, 0, 4, 8, 6, 0, 0, 0]);
+        expect(chunks[chunks.length - 1].type).toBe('IEND');
+
+        const compressed = Buffer.concat(chunks.filter(c => c.type === 'IDAT').map(c => c.data));
+        const pixels = unfilter(new Uint8Array(inflateSync(compressed)), 5, 4);
+        expect(Array.from(pixels)).toEqual(Array.from(gradient(5, 4, 0)));
+    });
+
+    it('refuses partial rows and too many rows', async () => {
+        const writer = createPngWriter(2, 1);
+        await expect(writer.writeRows(new Uint8ClampedArray(4))).rejects.toThrow(/whole rows/);
+        await expect(writer.writeRows(new Uint8ClampedArray(16))).rejects.toThrow(/at most 1 rows/);
+        writer.abort();
+    });
+
+    it('refuses to finish before every row is written', async () => {
+        const writer = createPngWriter(2, 3);
+        await writer.writeRows(new Uint8ClampedArray(8));
+        await expect(writer.finish()).rejects.toThrow(/Only 1 of 3 rows/);
+        writer.abort();
+    });
+});
@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// A PNG encoder that takes the image a band of rows at a time, for outputs too large to hold in
+// one canvas. Rows are deflated by the browser's CompressionStream as they arrive, and the result
+// is assembled as a Blob, which browsers may keep on disk rather than in memory.
+
+const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+// Compressed data is gathered into IDAT chunks of about this size.
+const IDAT_CHUNK_SIZE = 1 << 20;
+// The Sub filter stores each byte as the difference from the same channel one pixel to the left.
+const FILTER_SUB = 1;
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+const crc32 = (bytes: Uint8Array, crc = 0xffffffff): number => {
+    for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    return crc;
+};
+
+const chunk = (type: string, data: Uint8Array): Uint8Array => {
+    const out = new Uint8Array(12 + data.length);
+    const view = new DataView(out.buffer);
+    view.setUint32(0, data.length);
+    for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+    out.set(data, 8);
+    view.setUint32(8 + data.length, (crc32(out.subarray(4, 8 + data.length)) ^ 0xffffffff) >>> 0);
+    return out;
+};
+
+export type PngWriter = {
+    // Appends the next `rgba.length / (width * 4)` rows, top to bottom, as non-premultiplied RGBA.
+    writeRows: (rgba: Uint8ClampedArray) => Promise<void>;
+    // Completes the file once every row has been written.
+    finish: () => Promise<Blob>;
+    // Discards the partial file, e.g. when the operation is cancelled.
+    abort: (reason?: unknown) => void;
+};
+
+/**
+ * Starts an 8-bit RGBA PNG of the given size.
+ */
+export const createPngWriter = (width: number, height: number): PngWriter => {
+    const header = new Uint8Array(13);
+    const headerView = new DataView(header.buffer);
+    headerView.setUint32(0, width);
+    headerView.setUint32(4, height);
+    header.set([8, 6, 0, 0, 0], 8); // 8 bits per channel, RGBA, deflate, adaptive filtering, no interlace.
+    const parts: BlobPart[] = [PNG_SIGNATURE, chunk('IHDR', header)];
+
+    const compressor = new CompressionStream('deflate');
+    const writer = compressor.writable.getWriter();
+    const reader = compressor.readable.getReader();
+
+    // Drains the compressor while rows are written, so it never holds more than a chunk.
+    const drained = (async () => {
+        let pending: Uint8Array[] = [];
+        let pendingSize = 0;
+        const flush = () => {
+            const data = new Uint8Array(pendingSize);
+            let offset = 0;
+            for (const piece of pending) {
+                data.set(piece, offset);
+                offset += piece.length;
+            }
+            parts.push(chunk('IDAT', data));
+            pending = [];
+            pendingSize = 0;
+        };
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            pending.push(value);
+            pendingSize += value.length;
+            if (pendingSize >= IDAT_CHUNK_SIZE) flush();
+        }
+        if (pendingSize > 0) flush();
+    })();
+
+    const rowBytes = width * 4;
+    let rowsWritten = 0;
+
+    const writeRows = async (rgba: Uint8ClampedArray) => {
+        const rows = rgba.length / rowBytes;
+        if (!Number.isInteger(rows) || rowsWritten + rows > height) {
+            throw new Error(`Expected whole rows of ${width} pixels and at most ${height} rows in total.`);
+        }
+        const filtered = new Uint8Array(rows * (rowBytes + 1));
+        for (let row = 0; row < rows; row++) {
+            const from = row * rowBytes;
+            const to = row * (rowBytes + 1);
+            filtered[to] = FILTER_SUB;
+            for (let i = 0; i < rowBytes; i++) {
+                filtered[to + 1 + i] = i < 4 ? rgba[from + i] : rgba[from + i] - rgba[from + i - 4];
+            }
+        }
+        rowsWritten += rows;
+        await writer.write(filtered);
+    };
+
+    const finish = async () => {
+        if (rowsWritten !== height) {
+            throw new Error(`Only ${rowsWritten} of ${height} rows were written.`);
+        }
+        await writer.close();
+        await drained;
+        parts.push(chunk('IEND', new Uint8Array(0)));
+        return new Blob(parts, { type: 'image/png' });
+    };
+
+    const abort = (reason?: unknown) => {
+        writer.abort(reason).catch(() => {});
+        drained.catch(() => {});
+    };
+
+    return { writeRows, finish, abort };
+};
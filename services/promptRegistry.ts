@@ -0,0 +1,122 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- TYPE DEFINITIONS ---
+
+// Identifies the exact template revision that produced a prompt.
+export type PromptRef = {
+  id: string;
+  version: number;
+};
+
+// Prompt text together with every template that contributed to it, outermost first.
+// Free text typed by the user has no refs.
+export type RenderedPrompt = {
+  text: string;
+  refs: PromptRef[];
+};
+
+// Anything a service accepts as a prompt fragment: raw user text or an already rendered template.
+export type PromptInput = string | RenderedPrompt;
+
+export type PromptVersion<P> = {
+  version: number;
+  render: (params: P) => string;
+};
+
+export type PromptTemplate<P> = {
+  id: string;
+  description: string;
+  versions: PromptVersion<P>[];
+};
+
+// Fragment parameters may be passed pre-rendered; their refs are carried into the result.
+type PromptArgs<P> = { [K in keyof P]: P[K] extends string ? P[K] | RenderedPrompt : P[K] };
+
+// --- REGISTRY ---
+
+const VERSION_OVERRIDES_KEY = 'utilpic-prompt-versions';
+
+const templates = new Map<string, PromptTemplate<unknown>>();
+
+/**
+ * Registers a template and returns it. Ids must be unique; every revision of a prompt
+ * is kept as a version of the same template so they can be compared side by side.
+ */
+export const definePrompt = <P = void>(id: string, description: string, versions: PromptVersion<P>[]): PromptTemplate<P> => {
+    if (templates.has(id)) {
+        throw new Error(`Prompt template "${id}" is already registered.`);
+    }
+    if (versions.length === 0) {
+        throw new Error(`Prompt template "${id}" must have at least one version.`);
+    }
+    const template: PromptTemplate<P> = { id, description, versions: [...versions].sort((a, b) => a.version - b.version) };
+    templates.set(id, template);
+    return template;
+};
+
+// Shorthand for fixed prompts such as presets.
+export const defineStaticPrompt = (id: string, description: string, text: string): PromptTemplate<void> =>
+    definePrompt<void>(id, description, [{ version: 1, render: () => text }]);
+
+export const listPromptTemplates = (): PromptTemplate<unknown>[] => Array.from(templates.values());
+
+const getVersionOverrides = (): Record<string, number> => {
+    try {
+        return JSON.parse(localStorage.getItem(VERSION_OVERRIDES_KEY) ?? '{}');
+    } catch {
+        return {};
+    }
+};
+
+/**
+ * Pins a template to a specific version (or back to the latest with `null`), e.g. to A/B compare revisions.
+ */
+export const setActivePromptVersion = (id: string, version: number | null): void => {
+    const overrides = getVersionOverrides();
+    if (version === null) {
+        delete overrides[id];
+    } else {
+        overrides[id] = version;
+    }
+    localStorage.setItem(VERSION_OVERRIDES_KEY, JSON.stringify(overrides));
+};
+
+const getActiveVersion = <P>(template: PromptTemplate<P>): PromptVersion<P> => {
+    const pinned = getVersionOverrides()[template.id];
+    return template.versions.find(v => v.version === pinned) ?? template.versions[template.versions.length - 1];
+};
+
+const isRendered = (value: unknown): value is RenderedPrompt =>
+    typeof value === 'object' && value !== null && typeof (value as RenderedPrompt).text === 'string' && Array.isArray((value as RenderedPrompt).refs);
+
+/**
+ * Renders the active version of a template.
+ */
+export function renderPrompt(template: PromptTemplate<void>): RenderedPrompt;
+export function renderPrompt<P>(template: PromptTemplate<P>, params: PromptArgs<P>): RenderedPrompt;
+export function renderPrompt<P>(template: PromptTemplate<P>, params?: PromptArgs<P>): RenderedPrompt {
+    const active = getActiveVersion(template);
+    const refs: PromptRef[] = [{ id: template.id, version: active.version }];
+    let plainParams = params as unknown as P;
+    if (params && typeof params === 'object') {
+        const flattened: Record<string, unknown> = {};
+        for (const [key, value] of Object.entries(params)) {
+            if (isRendered(value)) {
+                flattened[key] = value.text;
+                refs.push(...value.refs);
+            } else {
+                flattened[key] = value;
+            }
+        }
+        plainParams = flattened as P;
+    }
+    return { text: active.render(plainParams), refs };
+}
+
+export const toRenderedPrompt = (input: PromptInput): RenderedPrompt =>
+    typeof input === 'string' ? { text: input, refs: [] } : input;
+
+export const formatPromptRef = (ref: PromptRef): string => `${ref.id}@v${ref.version}`;
@@ -0,0 +1,309 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { definePrompt, defineStaticPrompt } from './promptRegistry.ts';
+
+// Every prompt the editor sends lives here. To revise a prompt, add a new version to its
+// template instead of editing the old one, so history entries keep pointing at the text that produced them.
+
+// --- ANALYSIS ---
+
+export const suggestionAnalysisPrompt = defineStaticPrompt('analysis.suggestions', 'Classify an image to drive edit suggestions',
+    'Analyze this image and provide a JSON object with `image_type`, `characteristics`, and `mood`.');
+
+export const faceDetectionPrompt = defineStaticPrompt('analysis.faces', 'Return bounding boxes for every face',
+    `Analyze the image and provide a JSON array of bounding boxes for every face detected. Each object in the array should have a "box" property with "x", "y", "width", and "height" as normalized values (0-1). If no faces are found, return an empty array.`);
+
+export const segmentationPrompt = definePrompt<{ subject: 'sky' | 'subject' }>('segment.mask', 'Binary mask of the sky or the main subject', [{
+    version: 1,
+    render: ({ subject }) => subject === 'sky'
+        ? "Create a high-contrast binary mask where the sky is WHITE and everything else is BLACK. The selection must be pixel-perfect, accurately tracing the horizon, buildings, trees, and gaps between branches. There should be no gray areas; strictly black and white."
+        : "Create a high-contrast binary mask where the main subject(s) are WHITE and the background is BLACK. The selection must be pixel-perfect, accurately handling hair, clothing edges, and complex shapes. There should be no gray areas; strictly black and white.",
+}]);
+
+// --- GENERATIVE EDITS ---
+
+export const editPrompt = definePrompt<{ instruction: string }>('edit.global', 'Free-form edit of the whole image', [{
+    version: 1,
+    render: ({ instruction }) => `Edit this image based on the following instruction: "${instruction}".`,
+}]);
+
+export const hotspotEditPrompt = definePrompt<{ instruction: string; x: number; y: number }>('edit.hotspot', 'Edit localized around a clicked point', [{
+    version: 1,
+    render: ({ instruction, x, y }) => `Edit this image based on the following instruction: "${instruction}". The edit should be centered around the point (${x}, ${y}) in natural image coordinates. The change should be localized and blend seamlessly with the rest of the image.`,
+}]);
+
+export const maskedEditPrompt = definePrompt<{ instruction: string }>('edit.masked', 'Edit restricted to the white area of a mask', [{
+    version: 1,
+    render: ({ instruction }) => `Edit this image based on the following instruction: "${instruction}". The provided image is a mask indicating the area to edit (white pixels = edit area). Apply the changes ONLY to the white region of the mask. The rest of the image must remain exactly the same.`,
+}]);
+
+export const filterPrompt = definePrompt<{ filter: string }>('filter.apply', 'Apply a described filter to the whole frame', [{
+    version: 1,
+    render: ({ filter }) => `Apply a filter to this image. The filter is described as: "${filter}". The result should be a full-frame, photorealistic image with the described filter applied consistently across it.`,
+}]);
+
+export const colorGradePrompt = definePrompt<{ grade: string }>('colorGrade.apply', 'Apply a described color grade to the whole frame', [{
+    version: 1,
+    render: ({ grade }) => `Apply a color grade to this image. The color grade is described as: "${grade}". The result should be a full-frame, photorealistic image with the described color grade applied consistently across it.`,
+}]);
+
+export const adjustmentPrompt = definePrompt<{ adjustment: string }>('adjustment.apply', 'Apply a described adjustment to the whole frame', [{
+    version: 1,
+    render: ({ adjustment }) => `Apply an adjustment to this image. The adjustment is: "${adjustment}". The result should be a full-frame, photorealistic image with the described adjustment applied consistently.`,
+}]);
+
+export const orientationPrompt = defineStaticPrompt('crop.autoOrient', 'Straighten and upright the image',
+    `Analyze and correct the orientation of this image. If it is tilted, straighten it. If it is sideways or upside down, rotate it to be upright. The result should be a correctly oriented image with the background filled in intelligently if rotation occurs.`);
+
+export const upscalePrompt = definePrompt<{ width: number; height: number; detailIntensity: string }>('upscale.apply', 'Upscale with generated detail', [{
+    version: 1,
+    render: ({ width, height, detailIntensity }) => `Upscale this image to a resolution of ${width}x${height} pixels. The detail enhancement intensity should be '${detailIntensity}'. Generate new, realistic details that are consistent with the original image content.`,
+}]);
+
+export const upscaleTilePrompt = definePrompt<{ width: number; height: number; detailIntensity: string }>('upscale.tile', 'Upscale one overlapping tile of a larger image', [{
+    version: 1,
+    render: ({ width, height, detailIntensity }) => `This is one tile of a larger photograph that is being upscaled piece by piece. Upscale it to exactly ${width}x${height} pixels. The detail enhancement intensity should be '${detailIntensity}'. Generate new, realistic details that are consistent with the content. Do not crop, reframe, add borders or change colors, so that the tile lines up seamlessly with its neighbours.`,
+}]);
+
+export const zoomPrompt = definePrompt<{ width: number; height: number; detailIntensity: string }>('zoom.apply', 'Upscale a cropped region of a larger image', [{
+    version: 1,
+    render: ({ width, height, detailIntensity }) => `This is a cropped section of a larger image. Upscale it to ${width}x${height} pixels while using AI to fill in missing details and enhance resolution. The detail enhancement intensity should be '${detailIntensity}'. The result should be a plausible, high-resolution version of what this cropped area would look like if it were captured in high definition.`,
+}]);
+
+export const faceRetouchPrompt = definePrompt<{ skinSmoothing: number; eyeBrightening: number; boxes: string }>('face.retouch', 'Skin smoothing and eye brightening inside face boxes', [{
+    version: 1,
+    render: ({ skinSmoothing, eyeBrightening, boxes }) => `Perform a professional facial retouch on the provided image. Apply the following adjustments ONLY to the faces specified by the bounding boxes:
+- Skin Smoothing: ${skinSmoothing}% intensity (natural texture should be preserved).
+- Eye Brightening: ${eyeBrightening}% intensity (subtle and realistic).
+
+The adjustments must be seamless and photorealistic. The rest of the image outside the bounding boxes must remain untouched.
+
+Bounding boxes for faces to edit: ${boxes}`,
+}]);
+
+export const faceSwapPrompt = defineStaticPrompt('face.swap', 'Swap a reference face into a masked target area',
+    `Perform a photorealistic face swap.
+- Use the face from the **first image (this is the source face)**.
+- Place it onto the person in the **second image (this is the target image)**.
+- The exact area to replace on the target image is marked in white in the **third image (this is the mask)**.
+
+The final result must be perfectly seamless. Match the lighting, angle, and skin tone of the target image. Do not change anything in the target image outside of the masked area.`);
+
+export const restorePrompt = defineStaticPrompt('restore.apply', 'Repair an old or damaged photo',
+    `Restore this old or damaged photo. Repair any scratches, tears, or creases. Correct color fading and improve overall clarity and sharpness. The goal is to make the photo look as close to its original state as possible while maintaining its authenticity.`);
+
+export const removeBackgroundPrompt = defineStaticPrompt('background.remove', 'Cut out the main subject on transparency',
+    `Remove the background from this image, leaving only the main subject. The output must have a transparent background. The edges of the subject should be clean and precise.`);
+
+export const generateBackgroundPrompt = definePrompt<{ width: number; height: number; description: string }>('background.generate', 'Generate a background from a description', [{
+    version: 1,
+    render: ({ width, height, description }) => `Generate a photorealistic background image with an aspect ratio of ${width}:${height}. The background should be: "${description}"`,
+}]);
+
+export const doubleExposurePrompt = definePrompt<{ blendMode: string; opacityPercent: number }>('doubleExposure.apply', 'Blend an overlay image into a base image', [{
+    version: 1,
+    render: ({ blendMode, opacityPercent }) => `Create a surreal and artistic double exposure effect.
+- The first image is the base image (e.g., a portrait or landscape).
+- The second image is the overlay image (e.g., a texture or another scene).
+Blend the overlay image onto the base image using a '${blendMode}' blend mode. The overlay image should have an approximate opacity of ${opacityPercent}%.
+The final result must be a seamless, high-quality, and aesthetically pleasing image that merges the two inputs creatively.`,
+}]);
+
+export const styleByExamplePrompt = defineStaticPrompt('style.byExample', 'Replay the style of an original/edited pair on a new image',
+    `You are given three images: an original image, an edited version of that original, and a new target image. Your task is to analyze the style difference between the original and the edited image, and then apply that same stylistic transformation to the new target image. The style includes changes in color grading, contrast, lighting, and filters. Do not replicate content changes, only stylistic ones.
+
+- The first image is the 'Original'.
+- The second image is the 'Edited Example'.
+- The third image is the 'Target' to which you will apply the style.
+
+Return the modified 'Target' image.`);
+
+export const styleReferencePrompt = defineStaticPrompt('style.reference', 'Transfer the look of a reference image',
+    `You are an expert style transfer AI. Your task is to apply the artistic style of the second image (the style reference) to the first image (the content image).
+
+**CRITICAL INSTRUCTIONS:**
+1.  **KEEP THE CONTENT:** The final image must contain ONLY the objects, people, and scene from the **first image**. Do NOT include ANY content from the second image.
+2.  **TRANSFER THE STYLE:** The final image must have the colors, textures, lighting, and overall mood of the **second image**.
+3.  **MATCH THE SIZE:** The final image's dimensions (width and height) MUST be identical to the **first image**.
+
+Final output: A new image that looks like the first image was painted or photographed in the style of the second image. Do not blend the content of the two images.`);
+
+// --- ADJUSTMENT PANEL ---
+
+export type SliderAdjustments = {
+    exposure: number;
+    brightness: number;
+    contrast: number;
+    highlights: number;
+    shadows: number;
+    saturation: number;
+    temperature: number;
+    blur: number;
+};
+
+// Builds the sentence for the slider values that differ from zero, e.g. "Adjust exposure by +10 and increase contrast by 5."
+const describeSliders = ({ exposure, brightness, contrast, highlights, shadows, saturation, temperature, blur }: SliderAdjustments): string => {
+    const promptParts: string[] = [];
+
+    if (exposure !== 0) promptParts.push(`adjust exposure by ${exposure > 0 ? '+' : ''}${exposure}`);
+    if (brightness !== 0) promptParts.push(`adjust brightness by ${brightness > 0 ? '+' : ''}${brightness}`);
+
+    if (contrast !== 0) {
+      const action = contrast > 0 ? 'Increase' : 'Decrease';
+      promptParts.push(`${action.toLowerCase()} contrast by ${Math.abs(contrast)}`);
+    }
+
+    if (highlights !== 0) promptParts.push(`adjust highlights by ${highlights > 0 ? '+' : ''}${highlights}`);
+    if (shadows !== 0) promptParts.push(`adjust shadows by ${shadows > 0 ? '+' : ''}${shadows}`);
+    if (saturation !== 0) promptParts.push(`adjust saturation by ${saturation > 0 ? '+' : ''}${saturation}`);
+
+    if (temperature !== 0) {
+        const tempDirection = temperature > 0 ? 'warmer' : 'cooler';
+        promptParts.push(`make the color temperature ${Math.abs(temperature)}% ${tempDirection}`);
+    }
+
+    if (blur > 0) {
+      promptParts.push(`apply a blur effect with an intensity of ${blur}`);
+    } else if (blur < 0) {
+      promptParts.push(`reduce blur (sharpen) with an intensity of ${Math.abs(blur)}`);
+    }
+
+    if (promptParts.length === 0) return '';
+    promptParts[0] = promptParts[0].charAt(0).toUpperCase() + promptParts[0].slice(1);
+    const prompt = promptParts.length > 1
+        ? `${promptParts.slice(0, -1).join(', ')} and ${promptParts.slice(-1)}`
+        : `${promptParts[0]}`;
+    return `${prompt}.`;
+};
+
+export const sliderAdjustmentPrompt = definePrompt<SliderAdjustments>('adjust.sliders', 'Light and color slider values as an instruction', [{
+    version: 1,
+    render: describeSliders,
+}]);
+
+export const artStylePrompt = definePrompt<{ style: string }>('adjust.artStyle', 'Render the whole image in an art style', [{
+    version: 1,
+    render: ({ style }) => `Transform this entire image into the style of '${style}' art. Maintain the original content but change the artistic rendering to match the characteristics of ${style}.`,
+}]);
+
+export const localArtStylePrompt = definePrompt<{ style: string }>('adjust.artStyle.local', 'Render the object at the selected point in an art style', [{
+    version: 1,
+    render: ({ style }) => `Intelligently identify the object (e.g., an item of clothing, a specific background element) located at the selected point. Apply the '${style}' art style ONLY to that entire object. The rest of the image MUST remain untouched. Blend the edges of the styled area seamlessly into the original image for a natural look.`,
+}]);
+
+export const autoEnhancePrompt = defineStaticPrompt('adjust.autoEnhance', 'One-click overall enhancement',
+    "Apply a suite of automatic adjustments to improve the image's overall visual appeal, including subtle improvements to brightness, contrast, saturation, and sharpness. The goal is a natural, photorealistic enhancement.");
+
+export type PickedColor = { r: number; g: number; b: number };
+
+export const whitePointPrompt = definePrompt<PickedColor>('adjust.eyedropper.white', 'Map the picked color to pure white', [{
+    version: 1,
+    render: ({ r, g, b }) => `Perform a precise levels and white balance correction on the entire image. A color that should be pure white is currently showing as RGB(${r}, ${g}, ${b}). Adjust the overall color cast and highlights to make this color pure white (255, 255, 255) while maintaining natural tones elsewhere.`,
+}]);
+
+export const blackPointPrompt = definePrompt<PickedColor>('adjust.eyedropper.black', 'Map the picked color to pure black', [{
+    version: 1,
+    render: ({ r, g, b }) => `Perform a precise levels adjustment on the entire image. A color that should be pure black is currently showing as RGB(${r}, ${g}, ${b}). Adjust the overall shadows to make this color pure black (0, 0, 0) without crushing details in other areas.`,
+}]);
+
+export const grayPointPrompt = definePrompt<PickedColor>('adjust.eyedropper.gray', 'Neutralize the picked color', [{
+    version: 1,
+    render: ({ r, g, b }) => `Perform a precise white balance correction on the entire image. A color that should be neutral gray is currently showing as RGB(${r}, ${g}, ${b}). Adjust the overall color cast of the image to make this color a neutral gray, ensuring the correction is applied naturally across all tones.`,
+}]);
+
+// --- MASK EDITOR ---
+
+// Clarity and dehaze are rendered on this device, so they aren't part of the prompt.
+export type MaskAdjustments = {
+    exposure: number;
+    contrast: number;
+    highlights: number;
+    shadows: number;
+    whites: number;
+    blacks: number;
+    temperature: number;
+};
+
+const maskAdjustmentParts = ({ exposure, contrast, highlights, shadows, whites, blacks }: MaskAdjustments): string[] => {
+    const parts = [];
+    if (exposure !== 0) parts.push(`${exposure > 0 ? 'increase' : 'decrease'} exposure`);
+    if (contrast !== 0) parts.push(`${contrast > 0 ? 'increase' : 'decrease'} contrast`);
+    if (highlights !== 0) parts.push(`${highlights > 0 ? 'brighten' : 'dim'} highlights`);
+    if (shadows !== 0) parts.push(`${shadows > 0 ? 'brighten' : 'darken'} shadows`);
+    if (whites !== 0) parts.push(`${whites > 0 ? 'boost' : 'mute'} whites`);
+    if (blacks !== 0) parts.push(`${blacks > 0 ? 'lift' : 'deepen'} blacks`);
+    return parts;
+};
+
+export const maskAdjustmentPrompt = definePrompt<MaskAdjustments>('mask.adjustments', 'Directional slider changes inside a mask', [{
+    version: 1,
+    // Had a "structure" slider, now replaced by local clarity; it renders as 0 when pinned.
+    render: ({ structure = 0, ...adjustments }: MaskAdjustments & { structure?: number }) => {
+        const parts = maskAdjustmentParts(adjustments);
+        if (structure !== 0) parts.push(`${structure > 0 ? 'enhance' : 'soften'} clarity/structure`);
+        if (adjustments.temperature !== 0) parts.push(`make the color temperature ${adjustments.temperature > 0 ? 'warmer' : 'cooler'}`);
+        return `In the masked area: ${parts.join(', ')}. Blend naturally.`;
+    },
+}, {
+    version: 2,
+    render: (adjustments) => {
+        const parts = maskAdjustmentParts(adjustments);
+        if (adjustments.temperature !== 0) parts.push(`make the color temperature ${adjustments.temperature > 0 ? 'warmer' : 'cooler'}`);
+        return `In the masked area: ${parts.join(', ')}. Blend naturally.`;
+    },
+}]);
+
+// --- FILTER PRESETS ---
+
+export const filterPresetPrompts = {
+    synthwave: defineStaticPrompt('filter.preset.synthwave', 'Synthwave filter preset', 'Apply a vibrant 80s synthwave aesthetic with neon magenta and cyan glows, and subtle scan lines.'),
+    anime: defineStaticPrompt('filter.preset.anime', 'Anime filter preset', 'Give the image a vibrant Japanese anime style, with bold outlines, cel-shading, and saturated colors.'),
+    lomo: defineStaticPrompt('filter.preset.lomo', 'Lomo filter preset', 'Apply a Lomography-style cross-processing film effect with high-contrast, oversaturated colors, and dark vignetting.'),
+    glitch: defineStaticPrompt('filter.preset.glitch', 'Glitch filter preset', 'Transform the image into a futuristic holographic projection with digital glitch effects and chromatic aberration.'),
+    dramatic: defineStaticPrompt('filter.preset.dramatic', 'Dramatic filter preset', 'Apply a high-contrast, dramatic filter. Deepen shadows, enhance highlights, and add a subtle desaturation to create a powerful, cinematic look.'),
+    moody: defineStaticPrompt('filter.preset.moody', 'Moody filter preset', 'Apply a moody, atmospheric filter. Desaturate the colors, add a cool color cast (blue or green tones), and slightly crush the blacks for a somber, filmic aesthetic.'),
+    portra400: defineStaticPrompt('filter.preset.portra400', 'Portra 400 filter preset', "Apply a Kodak Portra 400 film simulation. This should produce warm, natural skin tones, fine grain, and slightly muted, soft colors, especially in the greens and blues. The overall look should be versatile and flattering for portraits."),
+    ektar100: defineStaticPrompt('filter.preset.ektar100', 'Ektar 100 filter preset', "Apply a Kodak Ektar 100 film simulation. This should result in ultra-vivid, saturated colors, extremely fine grain, and high contrast. The image should be sharp and punchy, ideal for landscapes and travel photography."),
+    velvia50: defineStaticPrompt('filter.preset.velvia50', 'Velvia 50 filter preset', "Apply a Fujifilm Velvia 50 film simulation. This is a slide film known for its intense color saturation, especially in reds, greens, and blues. It should have very high contrast and fine grain, creating a dramatic, vibrant look."),
+    superia400: defineStaticPrompt('filter.preset.superia400', 'Superia 400 filter preset', "Apply a Fujifilm Superia X-TRA 400 film simulation. This should produce slightly cool tones with an emphasis on greens and blues. It should have visible but pleasing grain and a nostalgic, slightly faded look characteristic of consumer film."),
+    triX400: defineStaticPrompt('filter.preset.triX400', 'Tri-X 400 filter preset', "Apply a Kodak Tri-X 400 black and white film simulation. This should create a classic, gritty monochrome look with high contrast, deep blacks, and prominent, beautiful grain. The image should have a timeless, photojournalistic feel."),
+    hp5Plus400: defineStaticPrompt('filter.preset.hp5Plus400', 'HP5 Plus 400 filter preset', "Apply an Ilford HP5 Plus 400 black and white film simulation. This should produce a flexible monochrome image with a wide tonal range, moderate contrast, and a distinct but fine grain structure. The look should be versatile and slightly less harsh than Tri-X."),
+};
+
+// --- COLOR GRADE PRESETS ---
+
+export const colorGradePresetPrompts = {
+    blockbuster: defineStaticPrompt('colorGrade.preset.blockbuster', 'Blockbuster color grade preset', "Apply a classic 'teal and orange' blockbuster color grade. Push skin tones and warm areas towards orange, and shift shadows, skies, and cool areas towards teal/cyan. Increase overall saturation for a vibrant, high-impact look."),
+    digitalMatrix: defineStaticPrompt('colorGrade.preset.digitalMatrix', 'Digital Matrix color grade preset', "Apply a 'Matrix' style color grade. Give the image a strong green tint, especially in the midtones and shadows. Increase the contrast for deep, crushed blacks and bright highlights. The overall feel should be futuristic and digital."),
+    whimsicalParis: defineStaticPrompt('colorGrade.preset.whimsicalParis', 'Whimsical Paris color grade preset', "Apply a whimsical 'Amélie' style color grade. Heavily saturate the reds, greens, and golden yellows. Give the entire image a warm, magical, and slightly surreal feel. Ensure skin tones look healthy and rosy."),
+    seventiesGrit: defineStaticPrompt('colorGrade.preset.seventiesGrit', '70s Grit color grade preset', "Apply a gritty, 1970s 'Joker' film look. Desaturate the colors, especially blues. Introduce a subtle, dirty yellow/green cast to the midtones. Increase film grain and slightly crush the blacks for a raw, unsettling aesthetic."),
+    dystopianHaze: defineStaticPrompt('colorGrade.preset.dystopianHaze', 'Dystopian Haze color grade preset', "Apply a 'Blade Runner 2049' color grade. Create a dense, atmospheric look with a strong orange and yellow haze. Desaturate blues and greens. The highlights should bloom softly, and the overall image should feel dusty and dystopian."),
+    middleEarth: defineStaticPrompt('colorGrade.preset.middleEarth', 'Middle Earth color grade preset', "Apply a 'Lord of the Rings' style color grade. Desaturate the colors for an epic, slightly grim feel. Introduce a subtle blue-green tint to the shadows and enhance earthy tones like greens and browns. The result should feel cinematic and ancient."),
+    pastelStorybook: defineStaticPrompt('colorGrade.preset.pastelStorybook', 'Pastel Storybook color grade preset', "Apply a 'Wes Anderson' inspired color grade. Shift the palette towards pastel colors, particularly yellows, pinks, and light blues. Increase saturation but keep the tones soft. Give the image a clean, symmetrical, and slightly quirky storybook feel."),
+    coolNoir: defineStaticPrompt('colorGrade.preset.coolNoir', 'Cool Noir color grade preset', 'Apply a cool, high-contrast noir color grade. Desaturate the colors significantly, pushing the image towards monochrome but retaining a strong blue or cyan cast in the shadows and midtones. Deepen the blacks and enhance highlights to create a dramatic, mysterious mood.'),
+    winterfellSaga: defineStaticPrompt('colorGrade.preset.winterfellSaga', 'Winterfell Saga color grade preset', "Apply an epic 'Game of Thrones' color grade. Desaturate the colors slightly, give the shadows a cool, deep blue tint, and enhance earthy tones like greens and browns. The look should be gritty, cinematic, and suitable for a fantasy epic."),
+    apocalypse: defineStaticPrompt('colorGrade.preset.apocalypse', 'Apocalypse color grade preset', "Apply a gritty 'The Walking Dead' style color grade. Heavily desaturate the colors and apply a faded, greenish-brown tint. Increase the contrast for harsh highlights and deep shadows. Add a significant amount of film grain to create a raw, post-apocalyptic feel."),
+    heisenberg: defineStaticPrompt('colorGrade.preset.heisenberg', 'Heisenberg color grade preset', "Apply a high-contrast 'Breaking Bad' color grade. Push the highlights and midtones towards a distinct yellow and green hue, reminiscent of the show's desert scenes. Increase saturation in these tones while keeping blues slightly muted. The result should be bold and tense."),
+    upsideDown: defineStaticPrompt('colorGrade.preset.upsideDown', 'Upside Down color grade preset', "Apply a nostalgic 'Stranger Things' 80s film look. Give the image soft, blooming highlights and slightly lifted shadows. Introduce a warm, analog feel overall, but push blues towards cyan and reds/pinks towards magenta, especially in neon lights. Add a fine layer of film grain."),
+    industrialGrit: defineStaticPrompt('colorGrade.preset.industrialGrit', 'Industrial Grit color grade preset', "Apply a dark, moody 'Peaky Blinders' color grade. Heavily desaturate the image and crush the blacks for deep shadows. Introduce a cool, blue-grey tint to the overall image, but allow highlights from light sources like fire or lamps to be a contrasting warm orange. The look should be dark, smoky, and industrial."),
+    teenageDream: defineStaticPrompt('colorGrade.preset.teenageDream', 'Teenage Dream color grade preset', "Apply a dreamlike 'Euphoria' color grade. Heavily saturate jewel tones, especially deep blues, purples, and pinks. Give the image soft, glowing highlights (halation) and deep, clean shadows. The overall aesthetic should be stylish, moody, and highly stylized, like a dream."),
+    cinematicWarm: defineStaticPrompt('colorGrade.preset.cinematicWarm', 'Cinematic Warm color grade preset', 'Apply a cinematic warm color grade. Enhance the golden hour tones, introduce warm, soft highlights, and add a subtle teal tint to the shadows for a classic blockbuster look. Slightly desaturate the overall image to make it feel more filmic.'),
+    fadedFilm: defineStaticPrompt('colorGrade.preset.fadedFilm', 'Faded Film color grade preset', "Apply a nostalgic, faded film look. Mute the overall color saturation, lift the black point so there are no pure blacks (giving a slightly washed-out feel), and add a subtle, warm color cast to the entire image. The result should feel soft and reminiscent of old film stock."),
+    vintageSepia: defineStaticPrompt('colorGrade.preset.vintageSepia', 'Vintage Sepia color grade preset', 'Apply a classic vintage sepia tone. Shift the entire color palette towards warm brown and yellow hues. Reduce the overall contrast for a faded, aged photograph look and add a very subtle film grain effect for authenticity.'),
+    cyberpunkNeon: defineStaticPrompt('colorGrade.preset.cyberpunkNeon', 'Cyberpunk Neon color grade preset', "Apply a vibrant cyberpunk neon color grade. Introduce bright, saturated magenta and cyan tones, especially into the highlights and artificial light sources. Deepen the shadows and give them a cool, dark blue tint to make the neon colors pop."),
+    colorizeBw: defineStaticPrompt('colorGrade.preset.colorizeBw', 'Colorize B&W color grade preset', 'Apply a color grade that realistically colorizes black and white photos, adding natural colors and vibrancy.'),
+};
+
+// --- ADJUSTMENT PRESETS ---
+
+export const adjustmentPresetPrompts = {
+    blurBackground: defineStaticPrompt('adjustment.preset.blurBackground', 'Blur Background adjustment preset', 'Apply a realistic depth-of-field effect, making the background blurry while keeping the main subject in sharp focus.'),
+    enhanceDetails: defineStaticPrompt('adjustment.preset.enhanceDetails', 'Enhance Details adjustment preset', 'Slightly enhance the sharpness and details of the image without making it look unnatural.'),
+    warmerLighting: defineStaticPrompt('adjustment.preset.warmerLighting', 'Warmer Lighting adjustment preset', 'Adjust the color temperature to give the image warmer, golden-hour style lighting.'),
+    balancedLighting: defineStaticPrompt('adjustment.preset.balancedLighting', 'Balanced Lighting adjustment preset', "Adjust the lighting to be more balanced and natural across the entire image. Correct for any harsh shadows or blown-out highlights to create a photorealistic and evenly lit scene."),
+    studioLight: defineStaticPrompt('adjustment.preset.studioLight', 'Studio Light adjustment preset', 'Add dramatic, professional studio lighting to the main subject.'),
+    boostColorVibrancy: defineStaticPrompt('adjustment.preset.boostColorVibrancy', 'Boost Color Vibrancy adjustment preset', 'Subtly increase the color saturation and vibrancy across the image for a more vivid, colorful look.'),
+};
@@ -0,0 +1,147 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { CACHE_ENTRIES_STORE as ENTRIES_STORE, CACHE_RESULTS_STORE as RESULTS_STORE, getSessionDb } from './sessionDb.ts';
+
+// A content-addressed cache of AI results, kept in the session database next to the history.
+
+const SETTINGS_KEY = 'utilpic-cache-settings';
+// Earlier versions kept the cache in a database of its own.
+const LEGACY_DB_NAME = 'utilpic-cache';
+
+export type CacheSettings = {
+    enabled: boolean;
+    maxBytes: number;
+};
+
+export const DEFAULT_CACHE_SETTINGS: CacheSettings = {
+    enabled: true,
+    maxBytes: 250 * 1024 * 1024,
+};
+
+// Kept per result in ENTRIES_STORE, so eviction can walk entries in LRU order without
+// loading every cached image into memory.
+type CacheEntry = {
+    key: string;
+    size: number;
+    lastUsed: number;
+};
+
+let legacyDbDeleted = false;
+
+const getDb = (): Promise<IDBDatabase> => {
+    if (!legacyDbDeleted) {
+        legacyDbDeleted = true;
+        indexedDB.deleteDatabase(LEGACY_DB_NAME);
+    }
+    return getSessionDb();
+};
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
+
+export const getCacheSettings = (): CacheSettings => {
+    try {
+        const saved = localStorage.getItem(SETTINGS_KEY);
+        return saved ? { ...DEFAULT_CACHE_SETTINGS, ...JSON.parse(saved) } : DEFAULT_CACHE_SETTINGS;
+    } catch {
+        return DEFAULT_CACHE_SETTINGS;
+    }
+};
+
+export const saveCacheSettings = async (settings: CacheSettings): Promise<void> => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    await evictToFit(settings.maxBytes);
+};
+
+/**
+ * Hashes the pieces that identify a request (image bytes, model, prompt, ...) into a hex SHA-256 key.
+ * Returns null where SubtleCrypto is unavailable (insecure origins), which simply disables caching.
+ */
+export const hashCacheKey = async (parts: string[]): Promise<string | null> => {
+    if (!globalThis.crypto?.subtle) return null;
+    const encoder = new TextEncoder();
+    const encoded = parts.map(part => encoder.encode(part));
+    const buffer = new Uint8Array(encoded.reduce((sum, bytes) => sum + bytes.length + 1, 0));
+    let offset = 0;
+    for (const bytes of encoded) {
+        buffer.set(bytes, offset);
+        // A separator byte keeps ['ab', 'c'] and ['a', 'bc'] from colliding.
+        offset += bytes.length + 1;
+    }
+    const digest = await crypto.subtle.digest('SHA-256', buffer);
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const getCachedResult = async (key: string): Promise<string | undefined> => {
+    const db = await getDb();
+    const transaction = db.transaction([RESULTS_STORE, ENTRIES_STORE], 'readwrite');
+    const request = transaction.objectStore(RESULTS_STORE).get(key);
+    let value: string | undefined;
+    request.onsuccess = () => {
+        value = request.result?.value;
+        if (value !== undefined) {
+            // Touch the entry so it moves to the back of the eviction queue.
+            transaction.objectStore(ENTRIES_STORE).put({ key, size: value.length, lastUsed: Date.now() } satisfies CacheEntry);
+        }
+    };
+    await transactionDone(transaction);
+    return value;
+};
+
+export const putCachedResult = async (key: string, value: string): Promise<void> => {
+    const { maxBytes } = getCacheSettings();
+    // A single result larger than the whole cache would only evict everything else.
+    if (value.length > maxBytes) return;
+    const db = await getDb();
+    const transaction = db.transaction([RESULTS_STORE, ENTRIES_STORE], 'readwrite');
+    transaction.objectStore(RESULTS_STORE).put({ key, value });
+    transaction.objectStore(ENTRIES_STORE).put({ key, size: value.length, lastUsed: Date.now() } satisfies CacheEntry);
+    await transactionDone(transaction);
+    await evictToFit(maxBytes);
+};
+
+const getAllEntries = async (): Promise<CacheEntry[]> => {
+    const db = await getDb();
+    const transaction = db.transaction(ENTRIES_STORE, 'readonly');
+    const request = transaction.objectStore(ENTRIES_STORE).index('lastUsed').getAll();
+    await transactionDone(transaction);
+    return request.result as CacheEntry[];
+};
+
+// Deletes least recently used results until the total size fits within `maxBytes`.
+const evictToFit = async (maxBytes: number): Promise<void> => {
+    const entries = await getAllEntries();
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+    if (total <= maxBytes) return;
+
+    const db = await getDb();
+    const transaction = db.transaction([RESULTS_STORE, ENTRIES_STORE], 'readwrite');
+    for (const entry of entries) {
+        if (total <= maxBytes) break;
+        transaction.objectStore(RESULTS_STORE).delete(entry.key);
+        transaction.objectStore(ENTRIES_STORE).delete(entry.key);
+        total -= entry.size;
+    }
+    await transactionDone(transaction);
+};
+
+export const getCacheUsage = async (): Promise<{ count: number; bytes: number }> => {
+    const entries = await getAllEntries();
+    return { count: entries.length, bytes: entries.reduce((sum, entry) => sum + entry.size, 0) };
+};
+
+export const clearResultCache = async (): Promise<void> => {
+    const db = await getDb();
+    const transaction = db.transaction([RESULTS_STORE, ENTRIES_STORE], 'readwrite');
+    transaction.objectStore(RESULTS_STORE).clear();
+    transaction.objectStore(ENTRIES_STORE).clear();
+    await transactionDone(transaction);
+};
@@ -3,13 +3,47 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
+import type { PromptRef } from './promptRegistry.ts';
+import { createImageBlobUrl, getImageBlob, revokeImageBlobUrls } from './imageBlobs.ts';
+
+// An unpicked variant kept with a step, stored in the same shape as the step itself.
+// `imageDataUrl` is a data URL, or an object URL for images kept as Blobs (see imageBlobs.ts).
+export type HistoryRecordBranch = {
+    imageDataUrl: string;
+    prompt?: PromptRef[];
+};
+
+// A stored history step. `prompt` lists the templates that produced it; it is absent for manual edits.
+export type HistoryRecord = {
+    imageDataUrl: string;
+    prompt?: PromptRef[];
+    branches?: HistoryRecordBranch[];
+};
+
 const DB_NAME = 'utilpic-db';
 const STORE_NAME = 'history-images';
-const DB_VERSION = 1;
+// Version 2 added the result cache stores (see resultCache.ts).
+const DB_VERSION = 2;
+
+// The AI result cache shares this database. Results live in one store, their size and
+// last-use time in another, indexed by `lastUsed`.
+export const CACHE_RESULTS_STORE = 'cache-results';
+export const CACHE_ENTRIES_STORE = 'cache-entries';
 
 let dbPromise: Promise<IDBDatabase> | null = null;
 
-const getDb = (): Promise<IDBDatabase> => {
+// Images kept as Blobs are stored as the Blob itself, under `imageBlob`, with an empty data URL.
+type StoredImage = { imageDataUrl: string; imageBlob?: Blob };
+
+const toStoredImage = (imageUrl: string): StoredImage => {
+    const imageBlob = getImageBlob(imageUrl);
+    return imageBlob ? { imageDataUrl: '', imageBlob } : { imageDataUrl: imageUrl };
+};
+
+const fromStoredImage = ({ imageDataUrl, imageBlob }: StoredImage): string =>
+    imageBlob ? createImageBlobUrl(imageBlob) : imageDataUrl;
+
+export const getSessionDb = (): Promise<IDBDatabase> => {
     if (!dbPromise) {
         dbPromise = new Promise((resolve, reject) => {
             const request = indexedDB.open(DB_NAME, DB_VERSION);
@@ -28,17 +62,29 @@ const getDb = (): Promise<IDBDatabase> => {
                 if (!db.objectStoreNames.contains(STORE_NAME)) {
                     db.createObjectStore(STORE_NAME, { keyPath: 'id' });
                 }
+                if (!db.objectStoreNames.contains(CACHE_RESULTS_STORE)) {
+                    db.createObjectStore(CACHE_RESULTS_STORE, { keyPath: 'key' });
+                }
+                if (!db.objectStoreNames.contains(CACHE_ENTRIES_STORE)) {
+                    const entries = db.createObjectStore(CACHE_ENTRIES_STORE, { keyPath: 'key' });
+                    entries.createIndex('lastUsed', 'lastUsed');
+                }
             };
         });
     }
     return dbPromise;
 };
 
-export const saveImageToHistoryDB = async (id: number, imageDataUrl: string): Promise<void> => {
-    const db = await getDb();
+export const saveImageToHistoryDB = async (id: number, imageDataUrl: string, prompt?: PromptRef[], branches?: HistoryRecordBranch[]): Promise<void> => {
+    const db = await getSessionDb();
     const transaction = db.transaction(STORE_NAME, 'readwrite');
     const store = transaction.objectStore(STORE_NAME);
-    store.put({ id, imageDataUrl });
+    store.put({
+        id,
+        ...toStoredImage(imageDataUrl),
+        prompt,
+        branches: branches?.map(branch => ({ ...toStoredImage(branch.imageDataUrl), prompt: branch.prompt })),
+    });
     
     return new Promise((resolve, reject) => {
         transaction.oncomplete = () => resolve();
@@ -46,15 +92,20 @@ export const saveImageToHistoryDB = async (id: number, imageDataUrl: string): Pr
     });
 };
 
-export const getImageFromHistoryDB = async (id: number): Promise<string | undefined> => {
-    const db = await getDb();
+export const getHistoryRecordDB = async (id: number): Promise<HistoryRecord | undefined> => {
+    const db = await getSessionDb();
     const transaction = db.transaction(STORE_NAME, 'readonly');
     const store = transaction.objectStore(STORE_NAME);
     const request = store.get(id);
 
     return new Promise((resolve, reject) => {
         request.onsuccess = () => {
-            resolve(request.result?.imageDataUrl);
+            const record = request.result;
+            resolve(record ? {
+                imageDataUrl: fromStoredImage(record),
+                prompt: record.prompt,
+                branches: record.branches?.map((branch: StoredImage & { prompt?: PromptRef[] }) => ({ imageDataUrl: fromStoredImage(branch), prompt: branch.prompt })),
+            } : undefined);
         };
         request.onerror = () => {
             reject(request.error);
@@ -62,17 +113,19 @@ export const getImageFromHistoryDB = async (id: number): Promise<string | undefi
     });
 };
 
-export const getAllHistoryImagesDB = async (historyLength: number): Promise<string[]> => {
-    const promises: Promise<string | undefined>[] = [];
+export const getAllHistoryRecordsDB = async (historyLength: number): Promise<HistoryRecord[]> => {
+    const promises: Promise<HistoryRecord | undefined>[] = [];
     for (let i = 0; i < historyLength; i++) {
-        promises.push(getImageFromHistoryDB(i));
+        promises.push(getHistoryRecordDB(i));
     }
     const results = await Promise.all(promises);
-    return results.filter((item): item is string => !!item);
+    return results.filter((item): item is HistoryRecord => !!item?.imageDataUrl);
 };
 
+// Also revokes the object URLs of Blob-backed images, which belong to the cleared history.
 export const clearHistoryDB = async (): Promise<void> => {
-    const db = await getDb();
+    revokeImageBlobUrls();
+    const db = await getSessionDb();
     const transaction = db.transaction(STORE_NAME, 'readwrite');
     const store = transaction.objectStore(STORE_NAME);
     store.clear();
@@ -84,7 +137,7 @@ export const clearHistoryDB = async (): Promise<void> => {
 };
 
 export const removeImagesFromHistoryDB = async (fromIndex: number): Promise<void> => {
-    const db = await getDb();
+    const db = await getSessionDb();
     const transaction = db.transaction(STORE_NAME, 'readwrite');
     const store = transaction.objectStore(STORE_NAME);
     const cursorRequest = store.openCursor(IDBKeyRange.lowerBound(fromIndex));
@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { clampScale, planTiles } from './tiling.ts';
+
+// A 24-megapixel source, the size the tiled upscale has to handle.
+const SOURCE = { width: 6000, height: 4000 };
+
+describe('clampScale', () => {
+    it('keeps the requested scale when it fits', () => {
+        expect(clampScale(SOURCE, 4, () => true)).toBe(4);
+    });
+
+    it('finds the largest scale within the limit', () => {
+        const scale = clampScale(SOURCE, 4, ({ width }) => width <= 15000);
+        expect(Math.round(SOURCE.width * scale)).toBeLessThanOrEqual(15000);
+        expect(scale).toBeGreaterThan(2.49);
+    });
+
+    it('returns 1 when no enlargement fits', () => {
+        expect(clampScale(SOURCE, 4, ({ width }) => width <= SOURCE.width)).toBe(1);
+    });
+});
+
+describe('planTiles', () => {
+    it('covers the image with overlapping tiles in row-major order', () => {
+        const tiles = planTiles(SOURCE, 512, 48);
+        for (let i = 1; i < tiles.length; i++) {
+            const [previous, tile] = [tiles[i - 1], tiles[i]];
+            expect(tile.y > previous.y || (tile.y === previous.y && tile.x > previous.x)).toBe(true);
+        }
+        const xs = [...new Set(tiles.map(t => t.x))];
+        const ys = [...new Set(tiles.map(t => t.y))];
+        expect(xs[0]).toBe(0);
+        expect(ys[0]).toBe(0);
+        expect(xs[xs.length - 1] + 512).toBe(SOURCE.width);
+        expect(ys[ys.length - 1] + 512).toBe(SOURCE.height);
+        for (const starts of [xs, ys]) {
+            for (let i = 1; i < starts.length; i++) expect(starts[i - 1] + 512 - starts[i]).toBeGreaterThanOrEqual(48);
+        }
+    });
+
+    it('uses a single tile for an image smaller than the tile size', () => {
+        expect(planTiles({ width: 300, height: 200 }, 512, 48)).toEqual([{ x: 0, y: 0, width: 300, height: 200 }]);
+    });
+});
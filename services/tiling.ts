@@ -0,0 +1,187 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { loadImageSource, type ImageSize, type Rect } from './compositing.ts';
+import { createPngWriter } from './pngEncoder.ts';
+
+// No browser allocates a canvas side beyond this, so larger sizes are not worth probing.
+const MAX_CANVAS_SIDE = 65535;
+// Halvings in the search for the largest scale that still fits.
+const SCALE_SEARCH_STEPS = 12;
+
+/**
+ * Whether the browser can allocate, and actually draw into, a canvas of this size. Past their
+ * limits some browsers throw and others hand back a canvas that silently stays blank, so a pixel
+ * is drawn in the far corner and read back.
+ */
+export const canAllocateCanvas = (width: number, height: number): boolean => {
+    if (width > MAX_CANVAS_SIDE || height > MAX_CANVAS_SIDE) return false;
+    const canvas = document.createElement('canvas');
+    try {
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d', { willReadFrequently: true });
+        if (!ctx) return false;
+        ctx.fillStyle = '#fff';
+        ctx.fillRect(width - 1, height - 1, 1, 1);
+        return ctx.getImageData(width - 1, height - 1, 1, 1).data[3] === 255;
+    } catch {
+        return false;
+    } finally {
+        // Release the memory now rather than whenever the canvas is collected.
+        canvas.width = 0;
+        canvas.height = 0;
+    }
+};
+
+/**
+ * The largest scale factor, up to `requested`, whose scaled size `fits` accepts. Returns 1 when
+ * no enlargement fits at all.
+ */
+export const clampScale = (size: ImageSize, requested: number, fits: (scaled: ImageSize) => boolean): number => {
+    const scaled = (scale: number) => ({ width: Math.round(size.width * scale), height: Math.round(size.height * scale) });
+    if (fits(scaled(requested))) return requested;
+    let low = 1;
+    let high = requested;
+    for (let i = 0; i < SCALE_SEARCH_STEPS; i++) {
+        const middle = (low + high) / 2;
+        if (fits(scaled(middle))) low = middle;
+        else high = middle;
+    }
+    return low;
+};
+
+// Evenly spaced tile starts along one axis, so every pair of neighbours overlaps by at least `overlap`.
+const axisStarts = (length: number, tile: number, overlap: number): number[] => {
+    if (length <= tile) return [0];
+    const count = Math.ceil((length - overlap) / (tile - overlap));
+    const starts: number[] = [];
+    for (let i = 0; i < count; i++) {
+        starts.push(Math.round(i * (length - tile) / (count - 1)));
+    }
+    return starts;
+};
+
+/**
+ * Splits an image into a row-major grid of tiles no larger than `tileSize`.
+ */
+export const planTiles = (size: ImageSize, tileSize: number, overlap: number): Rect[] => {
+    const tiles: Rect[] = [];
+    const tileWidth = Math.min(tileSize, size.width);
+    const tileHeight = Math.min(tileSize, size.height);
+    for (const y of axisStarts(size.height, tileHeight, overlap)) {
+        for (const x of axisStarts(size.width, tileWidth, overlap)) {
+            tiles.push({ x, y, width: tileWidth, height: tileHeight });
+        }
+    }
+    return tiles;
+};
+
+export type TileAssembler = {
+    // Draws a processed tile at `placement` (output coordinates), fading it in over tiles already drawn.
+    add: (imageUrl: string, placement: Rect) => Promise<void>;
+    // Encodes the remaining rows and returns the finished image as a PNG.
+    finish: () => Promise<Blob>;
+    // Drops the partial image, e.g. when the operation fails or is cancelled.
+    abort: (reason?: unknown) => void;
+};
+
+/**
+ * Builds one large PNG out of overlapping tiles without ever holding the whole image. Tiles must
+ * be added in row-major order: each tile's top and left edges ramp from transparent to opaque
+ * across the part that overlaps the previous row and column, which gives a linear cross-fade over
+ * every seam. Tiles are drawn into a band of `bandHeight` rows, at least the tallest placement, and
+ * rows are encoded as soon as a new row of tiles starts below them.
+ */
+export const createTileAssembler = (size: ImageSize, bandHeight: number): TileAssembler => {
+    const canvas = document.createElement('canvas');
+    canvas.width = size.width;
+    canvas.height = Math.min(bandHeight, size.height);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Could not get canvas context for tile assembly.');
+    ctx.imageSmoothingQuality = 'high';
+
+    const png = createPngWriter(size.width, size.height);
+    // Output row held in the band's first row.
+    let bandTop = 0;
+    // Tiles drawn so far that still reach into the band, used to measure how far a new tile overlaps its neighbours.
+    let placed: Rect[] = [];
+
+    // Encodes the band's rows above output row `y` and moves the rest to the top of the band.
+    const flushTo = async (y: number) => {
+        const rows = Math.min(y - bandTop, canvas.height);
+        if (rows <= 0) return;
+        await png.writeRows(ctx.getImageData(0, 0, size.width, rows).data);
+        const kept = canvas.height - rows;
+        const rest = kept > 0 ? ctx.getImageData(0, rows, size.width, kept) : null;
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        if (rest) ctx.putImageData(rest, 0, 0);
+        bandTop = y;
+        placed = placed.filter(other => other.y + other.height > bandTop);
+    };
+
+    const add = async (imageUrl: string, placement: Rect) => {
+        await flushTo(placement.y);
+        if (placement.y + placement.height - bandTop > canvas.height) {
+            throw new Error('A tile is taller than the assembly band.');
+        }
+        const image = await loadImageSource(imageUrl);
+
+        const tileCanvas = document.createElement('canvas');
+        tileCanvas.width = placement.width;
+        tileCanvas.height = placement.height;
+        const tileCtx = tileCanvas.getContext('2d');
+        if (!tileCtx) throw new Error('Could not get canvas context for a tile.');
+        tileCtx.imageSmoothingQuality = 'high';
+        tileCtx.drawImage(image, 0, 0, placement.width, placement.height);
+
+        // Overlap with the neighbour to the left (same row) and above (previous row).
+        let overlapLeft = 0;
+        let overlapTop = 0;
+        for (const other of placed) {
+            const sharesRows = other.y < placement.y + placement.height && placement.y < other.y + other.height;
+            const sharesCols = other.x < placement.x + placement.width && placement.x < other.x + other.width;
+            if (sharesRows && other.x < placement.x) overlapLeft = Math.max(overlapLeft, other.x + other.width - placement.x);
+            if (sharesCols && other.y < placement.y) overlapTop = Math.max(overlapTop, other.y + other.height - placement.y);
+        }
+
+        tileCtx.globalCompositeOperation = 'destination-in';
+        if (overlapLeft > 0) {
+            const ramp = tileCtx.createLinearGradient(0, 0, overlapLeft, 0);
+            ramp.addColorStop(0, 'rgba(0,0,0,0)');
+            ramp.addColorStop(1, 'rgba(0,0,0,1)');
+            tileCtx.fillStyle = ramp;
+            tileCtx.fillRect(0, 0, placement.width, placement.height);
+        }
+        if (overlapTop > 0) {
+            const ramp = tileCtx.createLinearGradient(0, 0, 0, overlapTop);
+            ramp.addColorStop(0, 'rgba(0,0,0,0)');
+            ramp.addColorStop(1, 'rgba(0,0,0,1)');
+            tileCtx.fillStyle = ramp;
+            tileCtx.fillRect(0, 0, placement.width, placement.height);
+        }
+
+        ctx.drawImage(tileCanvas, placement.x, placement.y - bandTop);
+        placed.push(placement);
+    };
+
+    const release = () => {
+        canvas.width = 0;
+        canvas.height = 0;
+    };
+
+    const finish = async () => {
+        await flushTo(size.height);
+        release();
+        return png.finish();
+    };
+
+    const abort = (reason?: unknown) => {
+        release();
+        png.abort(reason);
+    };
+
+    return { add, finish, abort };
+};